@@ -1,15 +1,20 @@
+// Timestamps are stored without a time zone - keep tests independent of the machine's
+process.env.TZ = 'UTC';
+
 /** @type {import('ts-jest').JestConfigWithTsJest} */
 module.exports = {
   preset: 'ts-jest',
-  testEnvironment: 'node',
+  testEnvironment: '<rootDir>/src/testing/environment.ts',
   roots: ['<rootDir>/src'],
   testMatch: ['**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/testing/setup.ts'],
   transform: {
     '^.+\\.tsx?$': 'ts-jest',
   },
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.test.ts',
+    '!src/testing/**',
     '!src/index.ts',
   ],
   coverageDirectory: 'coverage',
@@ -0,0 +1,106 @@
+import { bookingStateMachine } from './bookingStateMachine';
+import { BookingStatus } from '../models/booking';
+import { InvalidBookingStateError } from '../utils/errors';
+
+describe('bookingStateMachine', () => {
+  describe('canTransition', () => {
+    it.each([
+      [BookingStatus.PENDING, BookingStatus.CONFIRMED],
+      [BookingStatus.RESERVED, BookingStatus.CONFIRMED],
+      [BookingStatus.PENDING, BookingStatus.CANCELLED],
+      [BookingStatus.RESERVED, BookingStatus.CANCELLED],
+      [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+      [BookingStatus.RESERVED, BookingStatus.EXPIRED],
+      [BookingStatus.CONFIRMED, BookingStatus.USED],
+      [BookingStatus.CANCELLED, BookingStatus.REFUNDED],
+    ])('allows %s -> %s', (from, to) => {
+      expect(bookingStateMachine.canTransition(from, to)).toBe(true);
+    });
+
+    it.each([
+      [BookingStatus.PENDING, BookingStatus.EXPIRED],
+      [BookingStatus.CONFIRMED, BookingStatus.REFUNDED],
+      [BookingStatus.CANCELLED, BookingStatus.CONFIRMED],
+      [BookingStatus.EXPIRED, BookingStatus.CONFIRMED],
+      [BookingStatus.USED, BookingStatus.CANCELLED],
+      [BookingStatus.REFUNDED, BookingStatus.CANCELLED],
+    ])('refuses %s -> %s', (from, to) => {
+      expect(bookingStateMachine.canTransition(from, to)).toBe(false);
+    });
+
+    it('does not treat staying in a status as a transition', () => {
+      expect(bookingStateMachine.canTransition(BookingStatus.CONFIRMED, BookingStatus.CONFIRMED)).toBe(false);
+      expect(bookingStateMachine.canTransition(BookingStatus.RESERVED, BookingStatus.RESERVED)).toBe(false);
+    });
+  });
+
+  describe('nextStates', () => {
+    it('lists where a booking can move, without self-loops', () => {
+      expect(bookingStateMachine.nextStates(BookingStatus.RESERVED)).toEqual([
+        BookingStatus.CONFIRMED,
+        BookingStatus.CANCELLED,
+        BookingStatus.EXPIRED,
+      ]);
+      expect(bookingStateMachine.nextStates(BookingStatus.CONFIRMED)).toEqual([
+        BookingStatus.CANCELLED,
+        BookingStatus.USED,
+      ]);
+    });
+
+    it('is empty for terminal states', () => {
+      expect(bookingStateMachine.nextStates(BookingStatus.USED)).toEqual([]);
+      expect(bookingStateMachine.nextStates(BookingStatus.EXPIRED)).toEqual([]);
+      expect(bookingStateMachine.nextStates(BookingStatus.REFUNDED)).toEqual([]);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('passes for a legal transition', () => {
+      expect(() =>
+        bookingStateMachine.assertTransition(BookingStatus.RESERVED, BookingStatus.CONFIRMED)
+      ).not.toThrow();
+    });
+
+    it('throws with the current state and allowed next states', () => {
+      let error: unknown;
+      try {
+        bookingStateMachine.assertTransition(BookingStatus.CANCELLED, BookingStatus.CONFIRMED);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(InvalidBookingStateError);
+      expect((error as InvalidBookingStateError).currentState).toBe(BookingStatus.CANCELLED);
+      expect((error as InvalidBookingStateError).allowedNextStates).toEqual([BookingStatus.REFUNDED]);
+    });
+  });
+
+  describe('assertCommand', () => {
+    it('returns the status an in-state command keeps', () => {
+      expect(bookingStateMachine.assertCommand(BookingStatus.CONFIRMED, 'change')).toBe(BookingStatus.CONFIRMED);
+      expect(bookingStateMachine.assertCommand(BookingStatus.RESERVED, 'extend-hold')).toBe(BookingStatus.RESERVED);
+    });
+
+    it('returns the target status of a transition command', () => {
+      expect(bookingStateMachine.assertCommand(BookingStatus.CONFIRMED, 'validate')).toBe(BookingStatus.USED);
+    });
+
+    it('refuses a command the status does not allow', () => {
+      expect(() => bookingStateMachine.assertCommand(BookingStatus.RESERVED, 'change'))
+        .toThrow(InvalidBookingStateError);
+      expect(() => bookingStateMachine.assertCommand(BookingStatus.CONFIRMED, 'extend-hold'))
+        .toThrow(InvalidBookingStateError);
+    });
+  });
+
+  describe('describe', () => {
+    it('reports the initial and terminal states', () => {
+      const definition = bookingStateMachine.describe();
+
+      expect(definition.initialStates).toEqual([BookingStatus.PENDING, BookingStatus.RESERVED]);
+      expect(definition.terminalStates.sort()).toEqual(
+        [BookingStatus.EXPIRED, BookingStatus.REFUNDED, BookingStatus.USED].sort()
+      );
+    });
+  });
+});
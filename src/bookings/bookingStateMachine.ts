@@ -0,0 +1,125 @@
+import { BookingStatus } from '../models/booking';
+import { TicketEventType } from '../events/types';
+import { InvalidBookingStateError } from '../utils/errors';
+
+// A status change, the command that makes it and the event that records it
+export interface BookingTransition {
+  from: BookingStatus | null; // null - the booking is created in this state
+  to: BookingStatus;
+  command: string;
+  event: TicketEventType;
+}
+
+export interface BookingStateMachineDefinition {
+  states: BookingStatus[];
+  initialStates: BookingStatus[];
+  terminalStates: BookingStatus[];
+  transitions: BookingTransition[];
+}
+
+const TRANSITIONS: BookingTransition[] = [
+  { from: null, to: BookingStatus.PENDING, command: 'book', event: TicketEventType.TICKET_BOOKED },
+  { from: null, to: BookingStatus.RESERVED, command: 'reserve', event: TicketEventType.TICKET_RESERVED },
+  { from: BookingStatus.PENDING, to: BookingStatus.CONFIRMED, command: 'confirm', event: TicketEventType.TICKET_CONFIRMED },
+  { from: BookingStatus.RESERVED, to: BookingStatus.CONFIRMED, command: 'confirm', event: TicketEventType.TICKET_CONFIRMED },
+  { from: BookingStatus.PENDING, to: BookingStatus.CANCELLED, command: 'cancel', event: TicketEventType.TICKET_CANCELLED },
+  { from: BookingStatus.RESERVED, to: BookingStatus.CANCELLED, command: 'cancel', event: TicketEventType.TICKET_CANCELLED },
+  { from: BookingStatus.CONFIRMED, to: BookingStatus.CANCELLED, command: 'cancel', event: TicketEventType.TICKET_CANCELLED },
+  { from: BookingStatus.RESERVED, to: BookingStatus.EXPIRED, command: 'expire', event: TicketEventType.TICKET_EXPIRED },
+  { from: BookingStatus.RESERVED, to: BookingStatus.RESERVED, command: 'extend-hold', event: TicketEventType.TICKET_HOLD_EXTENDED },
+  { from: BookingStatus.CONFIRMED, to: BookingStatus.USED, command: 'validate', event: TicketEventType.TICKET_VALIDATED },
+  // Moving to another schedule keeps the booking CONFIRMED
+  { from: BookingStatus.CONFIRMED, to: BookingStatus.CONFIRMED, command: 'change', event: TicketEventType.TICKET_CHANGED },
+  // Partial refunds leave the booking CANCELLED until the last one
+  { from: BookingStatus.CANCELLED, to: BookingStatus.REFUNDED, command: 'refund', event: TicketEventType.TICKET_REFUNDED },
+];
+
+/**
+ * Booking State Machine - the one definition of which status changes are
+ * allowed. Command handlers check their transition here before writing.
+ */
+export const bookingStateMachine = {
+  /**
+   * Statuses a booking in this status can move to
+   */
+  nextStates: (from: BookingStatus): BookingStatus[] =>
+    unique(TRANSITIONS.filter((t) => t.from === from && t.to !== from).map((t) => t.to)),
+
+  /**
+   * Statuses a booking can move to this status from
+   */
+  previousStates: (to: BookingStatus): BookingStatus[] =>
+    unique(
+      TRANSITIONS.filter((t) => t.from !== null && t.from !== to && t.to === to).map((t) => t.from as BookingStatus)
+    ),
+
+  /**
+   * Whether a booking may change from one status to another - staying in a
+   * status is a command, not a transition (see assertCommand)
+   */
+  canTransition: (from: BookingStatus, to: BookingStatus): boolean =>
+    from !== to && TRANSITIONS.some((t) => t.from === from && t.to === to),
+
+  /**
+   * Throw InvalidBookingStateError, listing the legal next states, unless the
+   * booking may move from `from` to `to`
+   */
+  assertTransition: (from: BookingStatus, to: BookingStatus): void => {
+    if (!bookingStateMachine.canTransition(from, to)) {
+      throw new InvalidBookingStateError(
+        from,
+        bookingStateMachine.previousStates(to).join(' or '),
+        bookingStateMachine.nextStates(from)
+      );
+    }
+  },
+
+  /**
+   * Like assertTransition, for commands that may keep the status - returns
+   * the status the command moves the booking to
+   */
+  assertCommand: (from: BookingStatus, command: string): BookingStatus => {
+    const transition = TRANSITIONS.find((t) => t.from === from && t.command === command);
+    if (!transition) {
+      throw new InvalidBookingStateError(
+        from,
+        unique(TRANSITIONS.filter((t) => t.from !== null && t.command === command).map((t) => t.from)).join(' or '),
+        bookingStateMachine.nextStates(from)
+      );
+    }
+    return transition.to;
+  },
+
+  /**
+   * The whole machine as JSON, for API docs and tests
+   */
+  describe: (): BookingStateMachineDefinition => {
+    const states = Object.values(BookingStatus);
+    return {
+      states,
+      initialStates: unique(TRANSITIONS.filter((t) => t.from === null).map((t) => t.to)),
+      terminalStates: states.filter((state) => bookingStateMachine.nextStates(state).length === 0),
+      transitions: TRANSITIONS.map((t) => ({ ...t })),
+    };
+  },
+
+  /**
+   * The whole machine as a Mermaid state diagram
+   */
+  toMermaid: (): string => {
+    const lines = ['stateDiagram-v2'];
+    for (const t of TRANSITIONS) {
+      lines.push(`    ${t.from || '[*]'} --> ${t.to} : ${t.command}`);
+    }
+    for (const state of bookingStateMachine.describe().terminalStates) {
+      lines.push(`    ${state} --> [*]`);
+    }
+    return lines.join('\n');
+  },
+};
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+export default bookingStateMachine;
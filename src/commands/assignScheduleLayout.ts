@@ -0,0 +1,140 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { SeatStatus } from '../models/booking';
+import { AssignScheduleLayoutCommand, LayoutSeat, ScheduleInventory } from '../models/inventory';
+import { lockScheduleInventory, mapRowToInventory } from './scheduleInventory';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface AssignScheduleLayoutResult {
+  inventory: ScheduleInventory;
+  seatsCreated: number;
+  seatsRemoved: number;
+}
+
+export const assignScheduleLayoutHandler = async (
+  command: AssignScheduleLayoutCommand,
+  correlationId?: string
+): Promise<AssignScheduleLayoutResult> => {
+  logger.info('Executing AssignScheduleLayout command', { command, correlationId });
+
+  // Validate command
+  validateAssignScheduleLayoutCommand(command);
+
+  const result = await writeDb.transaction(async (client) => {
+    const inventory = await lockScheduleInventory(client, command.scheduleId);
+
+    const layoutResult = await client.query(
+      `SELECT id, seats FROM vehicle_layouts WHERE id = $1`,
+      [command.layoutId]
+    );
+
+    if (layoutResult.rows.length === 0) {
+      throw new NotFoundError(`Vehicle layout with ID ${command.layoutId} not found`);
+    }
+
+    const seats = layoutResult.rows[0].seats as LayoutSeat[];
+    const seatNumbers = seats.map((seat) => seat.seatNumber);
+
+    // Seats that are booked or under a live lock must stay - moving passengers
+    // off them is a vehicle swap, not a layout assignment
+    const stranded = await client.query(
+      `SELECT seat_number FROM seat_availability
+       WHERE schedule_id = $1
+       AND NOT (seat_number = ANY($2::varchar[]))
+       AND (status = $3 OR (status = $4 AND locked_until >= NOW()))
+       FOR UPDATE`,
+      [command.scheduleId, seatNumbers, SeatStatus.BOOKED, SeatStatus.LOCKED]
+    );
+
+    if (stranded.rows.length > 0) {
+      throw new ConflictError(
+        `Seats ${stranded.rows.map((row) => row.seat_number).join(', ')} are taken and not part of the layout`
+      );
+    }
+
+    const removed = await client.query(
+      `DELETE FROM seat_availability
+       WHERE schedule_id = $1 AND NOT (seat_number = ANY($2::varchar[]))`,
+      [command.scheduleId, seatNumbers]
+    );
+
+    // New seats start available; existing ones keep their status and get the new layout
+    const upserted = await client.query(
+      `INSERT INTO seat_availability (schedule_id, seat_number, status, seat_row, seat_column, deck, seat_class, features)
+       SELECT $1, seat_number, $2, seat_row, seat_column, deck, seat_class, features
+       FROM UNNEST($3::varchar[], $4::int[], $5::int[], $6::int[], $7::varchar[], $8::jsonb[])
+         AS s(seat_number, seat_row, seat_column, deck, seat_class, features)
+       ON CONFLICT (schedule_id, seat_number) DO UPDATE SET
+         seat_row = EXCLUDED.seat_row,
+         seat_column = EXCLUDED.seat_column,
+         deck = EXCLUDED.deck,
+         seat_class = EXCLUDED.seat_class,
+         features = EXCLUDED.features,
+         updated_at = NOW()
+       RETURNING (xmax = 0) AS inserted`,
+      [
+        command.scheduleId,
+        SeatStatus.AVAILABLE,
+        seatNumbers,
+        seats.map((seat) => seat.row),
+        seats.map((seat) => seat.column),
+        seats.map((seat) => seat.deck),
+        seats.map((seat) => seat.seatClass),
+        seats.map((seat) => JSON.stringify(seat.features || [])),
+      ]
+    );
+
+    const blocked = await client.query(
+      `SELECT COUNT(*) AS count FROM seat_availability WHERE schedule_id = $1 AND status = $2`,
+      [command.scheduleId, SeatStatus.BLOCKED]
+    );
+
+    const capacity = seats.length - parseInt(blocked.rows[0].count, 10);
+    const version = inventory.version + 1;
+
+    const updated = await client.query(
+      `UPDATE schedule_inventory
+       SET layout_id = $1, capacity = $2, version = $3
+       WHERE schedule_id = $4
+       RETURNING *`,
+      [command.layoutId, capacity, version, command.scheduleId]
+    );
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishScheduleLayoutAssigned(
+      client,
+      command.scheduleId,
+      command.layoutId,
+      seats,
+      capacity,
+      version,
+      correlationId
+    );
+
+    return {
+      inventory: mapRowToInventory(updated.rows[0]),
+      seatsCreated: upserted.rows.filter((row) => row.inserted).length,
+      seatsRemoved: removed.rowCount || 0,
+    };
+  });
+
+  logger.info('AssignScheduleLayout command executed successfully', {
+    scheduleId: command.scheduleId,
+    layoutId: command.layoutId,
+    capacity: result.inventory.capacity,
+  });
+
+  return result;
+};
+
+function validateAssignScheduleLayoutCommand(command: AssignScheduleLayoutCommand): void {
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (!command.layoutId) {
+    throw new BadRequestError('layoutId is required');
+  }
+}
+
+export default assignScheduleLayoutHandler;
@@ -0,0 +1,177 @@
+import { PoolClient } from 'pg';
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { SeatStatus } from '../models/booking';
+import { BlockSeatCommand, ScheduleInventory, UnblockSeatCommand } from '../models/inventory';
+import { lockScheduleInventory, mapRowToInventory } from './scheduleInventory';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface BlockSeatResult {
+  inventory: ScheduleInventory;
+}
+
+/**
+ * Take a seat out of sale (broken seat, crew seat, ...)
+ */
+export const blockSeatHandler = async (
+  command: BlockSeatCommand,
+  correlationId?: string
+): Promise<BlockSeatResult> => {
+  logger.info('Executing BlockSeat command', { command, correlationId });
+
+  // Validate command
+  validateSeatCommand(command);
+
+  const inventory = await writeDb.transaction(async (client) => {
+    const current = await lockScheduleInventory(client, command.scheduleId);
+    const seat = await lockSeat(client, command.scheduleId, command.seatNumber);
+
+    if (seat.status === SeatStatus.BLOCKED) {
+      throw new ConflictError(`Seat ${command.seatNumber} is already blocked`);
+    }
+
+    const lockActive = seat.status === SeatStatus.LOCKED &&
+      seat.locked_until !== null &&
+      new Date(seat.locked_until) >= new Date();
+
+    if (seat.status === SeatStatus.BOOKED || lockActive) {
+      throw new ConflictError(`Seat ${command.seatNumber} is taken and can't be blocked`);
+    }
+
+    await client.query(
+      `UPDATE seat_availability
+       SET status = $1, booking_id = NULL, locked_until = NULL, updated_at = NOW()
+       WHERE schedule_id = $2 AND seat_number = $3`,
+      [SeatStatus.BLOCKED, command.scheduleId, command.seatNumber]
+    );
+
+    const capacity = Math.max(0, current.capacity - 1);
+    const version = current.version + 1;
+    const updated = await updateInventory(client, command.scheduleId, capacity, version);
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishSeatBlocked(
+      client,
+      command.scheduleId,
+      command.seatNumber,
+      capacity,
+      version,
+      command.reason,
+      correlationId
+    );
+
+    return updated;
+  });
+
+  logger.info('BlockSeat command executed successfully', {
+    scheduleId: command.scheduleId,
+    seatNumber: command.seatNumber,
+  });
+
+  return { inventory };
+};
+
+/**
+ * Put a blocked seat back on sale
+ */
+export const unblockSeatHandler = async (
+  command: UnblockSeatCommand,
+  correlationId?: string
+): Promise<BlockSeatResult> => {
+  logger.info('Executing UnblockSeat command', { command, correlationId });
+
+  // Validate command
+  validateSeatCommand(command);
+
+  const inventory = await writeDb.transaction(async (client) => {
+    const current = await lockScheduleInventory(client, command.scheduleId);
+    const seat = await lockSeat(client, command.scheduleId, command.seatNumber);
+
+    if (seat.status !== SeatStatus.BLOCKED) {
+      throw new ConflictError(`Seat ${command.seatNumber} is not blocked`);
+    }
+
+    await client.query(
+      `UPDATE seat_availability
+       SET status = $1, updated_at = NOW()
+       WHERE schedule_id = $2 AND seat_number = $3`,
+      [SeatStatus.AVAILABLE, command.scheduleId, command.seatNumber]
+    );
+
+    // Never more than the seats that can actually be sold
+    const sellable = await client.query(
+      `SELECT COUNT(*) AS count FROM seat_availability WHERE schedule_id = $1 AND status <> $2`,
+      [command.scheduleId, SeatStatus.BLOCKED]
+    );
+    const capacity = Math.min(current.capacity + 1, parseInt(sellable.rows[0].count, 10));
+    const version = current.version + 1;
+    const updated = await updateInventory(client, command.scheduleId, capacity, version);
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishSeatUnblocked(
+      client,
+      command.scheduleId,
+      command.seatNumber,
+      capacity,
+      version,
+      correlationId
+    );
+
+    return updated;
+  });
+
+  logger.info('UnblockSeat command executed successfully', {
+    scheduleId: command.scheduleId,
+    seatNumber: command.seatNumber,
+  });
+
+  return { inventory };
+};
+
+async function lockSeat(
+  client: PoolClient,
+  scheduleId: string,
+  seatNumber: string
+): Promise<{ status: SeatStatus; locked_until: string | null }> {
+  const result = await client.query(
+    `SELECT status, locked_until FROM seat_availability
+     WHERE schedule_id = $1 AND seat_number = $2
+     FOR UPDATE`,
+    [scheduleId, seatNumber]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Seat ${seatNumber} not found on schedule ${scheduleId}`);
+  }
+
+  return result.rows[0];
+}
+
+async function updateInventory(
+  client: PoolClient,
+  scheduleId: string,
+  capacity: number,
+  version: number
+): Promise<ScheduleInventory> {
+  const result = await client.query(
+    `UPDATE schedule_inventory
+     SET capacity = $1, version = $2
+     WHERE schedule_id = $3
+     RETURNING *`,
+    [capacity, version, scheduleId]
+  );
+
+  return mapRowToInventory(result.rows[0]);
+}
+
+function validateSeatCommand(command: BlockSeatCommand | UnblockSeatCommand): void {
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (!command.seatNumber) {
+    throw new BadRequestError('seatNumber is required');
+  }
+}
+
+export default blockSeatHandler;
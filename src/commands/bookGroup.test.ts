@@ -0,0 +1,128 @@
+import { bookGroupHandler, reserveGroupHandler } from './bookGroup';
+import { BookGroupCommand, BookingStatus, PassengerCategory, SeatStatus } from '../models/booking';
+import { BadRequestError, FareMismatchError, InsufficientSeatsError, PassengerNotEligibleError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import {
+  eventsOf,
+  insertBooking,
+  insertFare,
+  insertSchedule,
+  ROUTE_ID,
+  SCHEDULE_ID,
+  seatOf,
+  USER_ID,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const group = (passengers: BookGroupCommand['passengers']): BookGroupCommand => ({
+  userId: USER_ID,
+  routeId: ROUTE_ID,
+  scheduleId: SCHEDULE_ID,
+  contactEmail: 'ada@example.com',
+  passengers,
+});
+
+const ADA = { passengerName: 'Ada Lovelace' };
+const CHARLES = { passengerName: 'Charles Babbage' };
+
+// Nothing of a refused group may be left behind
+async function expectNothingBooked(): Promise<void> {
+  expect(await db.query(`SELECT id FROM booking_groups`)).toEqual([]);
+  expect(await db.query(`SELECT id FROM bookings WHERE group_id IS NOT NULL`)).toEqual([]);
+  expect(await db.query(`SELECT event_id FROM booking_events`)).toEqual([]);
+}
+
+beforeEach(async () => {
+  await insertFare({ base_fare: 20 });
+  await insertSchedule({}, ['1A', '1B', '1C']);
+});
+
+describe('bookGroupHandler', () => {
+  it('books a ticket per passenger under one group and booking reference', async () => {
+    const result = await bookGroupHandler(group([{ ...ADA, seatNumber: '1A' }, { ...CHARLES, seatNumber: '1B' }]));
+
+    expect(result.group).toMatchObject({ passengerCount: 2, totalPrice: 40, contactEmail: 'ada@example.com' });
+    expect(result.bookings.map((booking) => [booking.passengerName, booking.seatNumber, booking.status])).toEqual([
+      ['Ada Lovelace', '1A', BookingStatus.PENDING],
+      ['Charles Babbage', '1B', BookingStatus.PENDING],
+    ]);
+    for (const booking of result.bookings) {
+      expect(booking).toMatchObject({ bookingReference: result.group.bookingReference, passengerEmail: 'ada@example.com' });
+      expect(await seatOf(booking.seatNumber!)).toMatchObject({ status: SeatStatus.BOOKED, booking_id: booking.id });
+      expect((await eventsOf(booking.id)).map((event) => event.event_type)).toEqual(['TICKET_BOOKED']);
+    }
+    expect((await eventsOf(result.group.id)).map((event) => event.event_type)).toEqual(['BOOKING_GROUP_CREATED']);
+  });
+
+  it('seats the passengers who did not choose a seat', async () => {
+    const { bookings } = await bookGroupHandler(group([{ ...ADA, seatNumber: '1B' }, CHARLES]));
+
+    expect(bookings[1].seatNumber).not.toBe('1B');
+    expect(bookings[1].seatNumber).toMatch(/^1[AC]$/);
+  });
+
+  describe('all or nothing', () => {
+    it('books no one when one of the seats is taken', async () => {
+      const taken = await insertBooking({ seat_number: '1B' });
+      await db.query(`UPDATE seat_availability SET status = 'BOOKED', booking_id = $1 WHERE seat_number = '1B'`, [taken.id]);
+
+      await expect(bookGroupHandler(group([{ ...ADA, seatNumber: '1A' }, { ...CHARLES, seatNumber: '1B' }])))
+        .rejects.toThrow(InsufficientSeatsError);
+
+      await expectNothingBooked();
+      expect((await seatOf('1A')).status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    it('books no one when there are too few seats left for the rest', async () => {
+      await db.query(`UPDATE seat_availability SET status = 'BLOCKED' WHERE seat_number = '1C'`);
+
+      await expect(bookGroupHandler(group([{ ...ADA, seatNumber: '1A' }, CHARLES, CHARLES])))
+        .rejects.toThrow(InsufficientSeatsError);
+
+      await expectNothingBooked();
+      expect((await seatOf('1A')).status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    it('books no one when one passenger is priced wrong', async () => {
+      await expect(bookGroupHandler(group([{ ...ADA, seatNumber: '1A', price: 20 }, { ...CHARLES, price: 15 }])))
+        .rejects.toThrow(FareMismatchError);
+
+      await expectNothingBooked();
+    });
+
+    it('books no one when one passenger is not eligible for their concession', async () => {
+      await expect(bookGroupHandler(group([ADA, { ...CHARLES, passengerCategory: PassengerCategory.STUDENT }])))
+        .rejects.toThrow(PassengerNotEligibleError);
+
+      await expectNothingBooked();
+    });
+  });
+
+  it('rejects a seat requested twice', async () => {
+    await expect(bookGroupHandler(group([{ ...ADA, seatNumber: '1A' }, { ...CHARLES, seatNumber: '1A' }])))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  it('rejects a group of one', async () => {
+    await expect(bookGroupHandler(group([ADA]))).rejects.toThrow(/at least 2 passengers/);
+  });
+});
+
+describe('reserveGroupHandler', () => {
+  it('holds every seat of the group until the same time', async () => {
+    const { bookings, expiresAt } = await reserveGroupHandler({
+      ...group([{ ...ADA, seatNumber: '1A' }, { ...CHARLES, seatNumber: '1B' }]),
+      reservationDurationMinutes: 10,
+    });
+
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 9 * 60 * 1000);
+    for (const booking of bookings) {
+      expect(booking).toMatchObject({ status: BookingStatus.RESERVED, expiresAt });
+      expect(await seatOf(booking.seatNumber!)).toMatchObject({ status: SeatStatus.LOCKED, locked_until: expiresAt });
+      expect((await eventsOf(booking.id)).map((event) => event.event_type)).toEqual(['TICKET_RESERVED']);
+    }
+  });
+});
@@ -0,0 +1,338 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import writeDb from '../infrastructure/database/writeDb';
+import { config } from '../config';
+import { eventPublisher } from '../events/publisher';
+import { fareEngine } from '../pricing/fareEngine';
+import { passengerCategories } from '../pricing/passengerCategories';
+import { allocateSeats } from './seatAllocation';
+import { takeCapacity } from './scheduleInventory';
+import { generateBookingReference } from './bookingReference';
+import { mapRowToBooking } from './bookingMapper';
+import {
+  Booking,
+  BookingGroup,
+  BookingStatus,
+  BookGroupCommand,
+  PassengerCategory,
+  ReserveGroupCommand,
+} from '../models/booking';
+import { BadRequestError, InsufficientSeatsError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface BookGroupResult {
+  group: BookingGroup;
+  bookings: Booking[];
+  seatedTogether: boolean; // Assigned seats are side by side in one row
+}
+
+export interface ReserveGroupResult extends BookGroupResult {
+  expiresAt: Date;
+}
+
+const DEFAULT_RESERVATION_DURATION_MINUTES = 15;
+
+/**
+ * Book seats for several passengers under one booking group. Every passenger
+ * gets their own ticket, so the group can later be cancelled one ticket at a time.
+ */
+export const bookGroupHandler = async (
+  command: BookGroupCommand,
+  correlationId?: string
+): Promise<BookGroupResult> => {
+  logger.info('Executing BookGroup command', { command, correlationId });
+
+  // Validate command
+  validateGroupCommand(command);
+
+  const result = await writeDb.transaction((client) =>
+    createGroup(client, command, BookingStatus.PENDING, null, correlationId)
+  );
+
+  logger.info('BookGroup command executed successfully', {
+    groupId: result.group.id,
+    bookingIds: result.bookings.map((booking) => booking.id),
+    seatedTogether: result.seatedTogether,
+  });
+  return result;
+};
+
+/**
+ * Reserve seats for several passengers under one booking group. The seats are
+ * held together and expire together.
+ */
+export const reserveGroupHandler = async (
+  command: ReserveGroupCommand,
+  correlationId?: string
+): Promise<ReserveGroupResult> => {
+  logger.info('Executing ReserveGroup command', { command, correlationId });
+
+  // Validate command
+  validateGroupCommand(command);
+
+  const reservationDuration = command.reservationDurationMinutes || DEFAULT_RESERVATION_DURATION_MINUTES;
+  const expiresAt = new Date(Date.now() + reservationDuration * 60 * 1000);
+
+  const result = await writeDb.transaction((client) =>
+    createGroup(client, command, BookingStatus.RESERVED, expiresAt, correlationId)
+  );
+
+  logger.info('ReserveGroup command executed successfully', {
+    groupId: result.group.id,
+    bookingIds: result.bookings.map((booking) => booking.id),
+    seatedTogether: result.seatedTogether,
+    expiresAt,
+  });
+  return { ...result, expiresAt };
+};
+
+/**
+ * Create the group and one booking per passenger - all seats are taken or none
+ */
+async function createGroup(
+  client: PoolClient,
+  command: BookGroupCommand,
+  status: BookingStatus.PENDING | BookingStatus.RESERVED,
+  expiresAt: Date | null,
+  correlationId?: string
+): Promise<BookGroupResult> {
+  // The schedule is full once its capacity is booked or held, seats or not
+  await takeCapacity(client, command.scheduleId, command.routeId, command.passengers.length);
+
+  // Lock the requested seats in a stable order so concurrent groups can't deadlock
+  const seatNumbers = command.passengers
+    .map((passenger) => passenger.seatNumber)
+    .filter((seatNumber): seatNumber is string => !!seatNumber)
+    .sort();
+
+  if (seatNumbers.length > 0) {
+    const seatCheck = await client.query(
+      `SELECT seat_number FROM seat_availability
+       WHERE schedule_id = $1 AND seat_number = ANY($2)
+       AND (status = 'AVAILABLE' OR (status = 'LOCKED' AND locked_until < NOW()))
+       ORDER BY seat_number
+       FOR UPDATE`,
+      [command.scheduleId, seatNumbers]
+    );
+
+    const available = new Set(seatCheck.rows.map((row) => row.seat_number as string));
+    const unavailable = seatNumbers.filter((seatNumber) => !available.has(seatNumber));
+
+    if (unavailable.length > 0) {
+      throw new InsufficientSeatsError(`Seats ${unavailable.join(', ')} are not available`);
+    }
+  }
+
+  // Seat the remaining passengers together - schedules without seat inventory sell unseated tickets
+  const unseated = command.passengers.filter((passenger) => !passenger.seatNumber).length;
+  const assigned: string[] = [];
+  let seatedTogether = true;
+
+  if (unseated > 0) {
+    const allocation = await allocateSeats(client, command.scheduleId, unseated, command.seatPreferences, {
+      reclaimExpiredLocks: !!expiresAt,
+      exclude: seatNumbers,
+    });
+
+    if (allocation) {
+      assigned.push(...allocation.seatNumbers);
+      seatedTogether = allocation.together;
+    }
+  }
+
+  // Price every passenger server-side; group discounts depend on the group size
+  const fares = [];
+  for (const passenger of command.passengers) {
+    fares.push(await fareEngine.priceBooking(
+      client,
+      {
+        routeId: command.routeId,
+        scheduleId: command.scheduleId,
+        originZone: command.originZone,
+        destinationZone: command.destinationZone,
+        passengerType: passenger.passengerCategory || PassengerCategory.ADULT,
+        groupSize: command.passengers.length,
+      },
+      passenger.price,
+      command.currency
+    ));
+  }
+
+  const currency = fares[0].currency;
+  if (fares.some((fare) => fare.currency !== currency)) {
+    throw new BadRequestError('Passengers of a group must be priced in the same currency');
+  }
+
+  const groupId = uuidv4();
+  const bookingReference = await generateBookingReference(client); // Shared by every ticket of the group
+  const now = new Date();
+  const totalPrice = Math.round(fares.reduce((sum, fare) => sum + fare.price, 0) * 100) / 100;
+
+  const groupResult = await client.query(
+    `INSERT INTO booking_groups (
+      id, booking_reference, user_id, route_id, schedule_id, contact_email,
+      passenger_count, total_price, currency, version, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    RETURNING *`,
+    [
+      groupId,
+      bookingReference,
+      command.userId,
+      command.routeId,
+      command.scheduleId,
+      command.contactEmail,
+      command.passengers.length,
+      totalPrice,
+      currency,
+      1, // First version of the aggregate
+      now,
+      now,
+    ]
+  );
+
+  const bookings: Booking[] = [];
+
+  for (const [index, passenger] of command.passengers.entries()) {
+    const fare = fares[index];
+    const bookingId = uuidv4();
+    const seatNumber = passenger.seatNumber || assigned.shift() || null;
+
+    const bookingResult = await client.query(
+      `INSERT INTO bookings (
+        id, booking_reference, user_id, route_id, schedule_id, seat_number,
+        passenger_name, passenger_email, passenger_phone, passenger_category, entitlement_reference,
+        price, currency, origin_zone, destination_zone, fare_breakdown, group_id,
+        status, reserved_at, expires_at, version, created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23
+      )
+      RETURNING *`,
+      [
+        bookingId,
+        bookingReference,
+        command.userId,
+        command.routeId,
+        command.scheduleId,
+        seatNumber,
+        passenger.passengerName,
+        passenger.passengerEmail || command.contactEmail,
+        passenger.passengerPhone || null,
+        passenger.passengerCategory || PassengerCategory.ADULT,
+        passenger.entitlementReference || null,
+        fare.price,
+        fare.currency,
+        fare.breakdown.originZone,
+        fare.breakdown.destinationZone,
+        JSON.stringify(fare.breakdown),
+        groupId,
+        status,
+        expiresAt ? now : null,
+        expiresAt,
+        1, // First version of the aggregate
+        now,
+        now,
+      ]
+    );
+
+    if (seatNumber) {
+      if (expiresAt) {
+        await client.query(
+          `UPDATE seat_availability
+           SET status = 'LOCKED', booking_id = $1, locked_until = $2, updated_at = $3
+           WHERE schedule_id = $4 AND seat_number = $5`,
+          [bookingId, expiresAt, now, command.scheduleId, seatNumber]
+        );
+      } else {
+        await client.query(
+          `UPDATE seat_availability
+           SET status = 'BOOKED', booking_id = $1, updated_at = $2
+           WHERE schedule_id = $3 AND seat_number = $4`,
+          [bookingId, now, command.scheduleId, seatNumber]
+        );
+      }
+    }
+
+    bookings.push(mapRowToBooking(bookingResult.rows[0]));
+  }
+
+  const group = mapRowToBookingGroup(groupResult.rows[0]);
+
+  // Store events in event store (published to Kafka via the outbox)
+  for (const booking of bookings) {
+    if (expiresAt) {
+      await eventPublisher.publishTicketReserved(client, booking, expiresAt, correlationId);
+    } else {
+      await eventPublisher.publishTicketBooked(client, booking, correlationId);
+    }
+  }
+  await eventPublisher.publishBookingGroupCreated(
+    client,
+    group,
+    bookings.map((booking) => booking.id),
+    correlationId
+  );
+
+  return { group, bookings, seatedTogether };
+}
+
+function validateGroupCommand(command: BookGroupCommand): void {
+  if (!command.userId) {
+    throw new BadRequestError('userId is required');
+  }
+  if (!command.routeId) {
+    throw new BadRequestError('routeId is required');
+  }
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (!command.contactEmail) {
+    throw new BadRequestError('contactEmail is required');
+  }
+  if (!command.passengers || command.passengers.length < 2) {
+    throw new BadRequestError('A group needs at least 2 passengers');
+  }
+  if (command.passengers.length > config.groups.maxPassengers) {
+    throw new BadRequestError(`A group can have at most ${config.groups.maxPassengers} passengers`);
+  }
+
+  const seatNumbers = new Set<string>();
+
+  for (const passenger of command.passengers) {
+    if (!passenger.passengerName) {
+      throw new BadRequestError('passengerName is required for every passenger');
+    }
+    if (passenger.price !== undefined && passenger.price <= 0) {
+      throw new BadRequestError('price must be greater than 0');
+    }
+    if (passenger.seatNumber) {
+      if (seatNumbers.has(passenger.seatNumber)) {
+        throw new BadRequestError(`Seat ${passenger.seatNumber} is requested more than once`);
+      }
+      seatNumbers.add(passenger.seatNumber);
+    }
+
+    passengerCategories.assertEligible(
+      passenger.passengerCategory || PassengerCategory.ADULT,
+      passenger.entitlementReference
+    );
+  }
+}
+
+function mapRowToBookingGroup(row: Record<string, unknown>): BookingGroup {
+  return {
+    id: row.id as string,
+    bookingReference: row.booking_reference as string,
+    userId: row.user_id as string,
+    routeId: row.route_id as string,
+    scheduleId: row.schedule_id as string,
+    contactEmail: row.contact_email as string,
+    passengerCount: row.passenger_count as number,
+    totalPrice: parseFloat(row.total_price as string),
+    currency: row.currency as string,
+    version: row.version as number,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+export default bookGroupHandler;
@@ -1,7 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import writeDb from '../infrastructure/database/writeDb';
 import { eventPublisher } from '../events/publisher';
-import { Booking, BookingStatus, BookTicketCommand } from '../models/booking';
+import { fareEngine } from '../pricing/fareEngine';
+import { allocateSeats } from './seatAllocation';
+import { takeCapacity } from './scheduleInventory';
+import { generateBookingReference } from './bookingReference';
+import { passengerCategories } from '../pricing/passengerCategories';
+import { mapRowToBooking } from './bookingMapper';
+import { Booking, BookingStatus, BookTicketCommand, PassengerCategory } from '../models/booking';
 import { BadRequestError, InsufficientSeatsError } from '../utils/errors';
 import logger from '../utils/logger';
 
@@ -18,8 +24,16 @@ export const bookTicketHandler = async (
   // Validate command
   validateBookTicketCommand(command);
 
+  const passengerCategory = command.passengerCategory || PassengerCategory.ADULT;
+  passengerCategories.assertEligible(passengerCategory, command.entitlementReference);
+
   // Execute in transaction
   const booking = await writeDb.transaction(async (client) => {
+    // The schedule is full once its capacity is booked or held, seats or not
+    await takeCapacity(client, command.scheduleId, command.routeId, 1);
+
+    let seatNumber = command.seatNumber || null;
+
     // Check seat availability if seat number is specified
     if (command.seatNumber) {
       const seatCheck = await client.query(
@@ -32,80 +46,80 @@ export const bookTicketHandler = async (
       if (seatCheck.rows.length === 0) {
         throw new InsufficientSeatsError(`Seat ${command.seatNumber} is not available`);
       }
+    } else {
+      // Assign a seat - schedules without seat inventory sell unseated tickets
+      const allocation = await allocateSeats(client, command.scheduleId, 1, command.seatPreferences);
+      seatNumber = allocation ? allocation.seatNumbers[0] : null;
     }
 
+    // Price the journey server-side; a client price is only checked against it
+    const fare = await fareEngine.priceBooking(
+      client,
+      {
+        routeId: command.routeId,
+        scheduleId: command.scheduleId,
+        originZone: command.originZone,
+        destinationZone: command.destinationZone,
+        passengerType: passengerCategory,
+      },
+      command.price,
+      command.currency
+    );
+
     // Create booking
     const bookingId = uuidv4();
+    const bookingReference = await generateBookingReference(client);
     const now = new Date();
 
     const result = await client.query(
       `INSERT INTO bookings (
-        id, user_id, route_id, schedule_id, seat_number,
-        passenger_name, passenger_email, passenger_phone,
-        price, currency, status, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        id, booking_reference, user_id, route_id, schedule_id, seat_number,
+        passenger_name, passenger_email, passenger_phone, passenger_category, entitlement_reference,
+        price, currency, origin_zone, destination_zone, fare_breakdown,
+        status, version, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
       RETURNING *`,
       [
         bookingId,
+        bookingReference,
         command.userId,
         command.routeId,
         command.scheduleId,
-        command.seatNumber || null,
+        seatNumber,
         command.passengerName,
         command.passengerEmail,
         command.passengerPhone || null,
-        command.price,
-        command.currency || 'USD',
+        passengerCategory,
+        command.entitlementReference || null,
+        fare.price,
+        fare.currency,
+        fare.breakdown.originZone,
+        fare.breakdown.destinationZone,
+        JSON.stringify(fare.breakdown),
         BookingStatus.PENDING,
+        1, // First version of the aggregate
         now,
         now,
       ]
     );
 
     // Update seat availability if seat is specified
-    if (command.seatNumber) {
+    if (seatNumber) {
       await client.query(
         `UPDATE seat_availability 
          SET status = 'BOOKED', booking_id = $1, updated_at = $2
          WHERE schedule_id = $3 AND seat_number = $4`,
-        [bookingId, now, command.scheduleId, command.seatNumber]
+        [bookingId, now, command.scheduleId, seatNumber]
       );
     }
 
-    // Store event in event store
-    await client.query(
-      `INSERT INTO booking_events (
-        event_id, event_type, aggregate_id, aggregate_type, payload, correlation_id, version
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [
-        uuidv4(),
-        'TICKET_BOOKED',
-        bookingId,
-        'Booking',
-        JSON.stringify({
-          bookingId,
-          userId: command.userId,
-          routeId: command.routeId,
-          scheduleId: command.scheduleId,
-          seatNumber: command.seatNumber,
-          price: command.price,
-        }),
-        correlationId || null,
-        1,
-      ]
-    );
+    const createdBooking = mapRowToBooking(result.rows[0]);
 
-    return mapRowToBooking(result.rows[0]);
-  });
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishTicketBooked(client, createdBooking, correlationId);
 
-  // Publish event to Kafka (outside transaction for better performance)
-  try {
-    await eventPublisher.publishTicketBooked(booking, correlationId);
-  } catch (error) {
-    // Log error but don't fail the booking
-    // In production, you might want to use an outbox pattern
-    logger.error('Failed to publish TicketBooked event', { bookingId: booking.id, error });
-  }
+    return createdBooking;
+  });
 
   logger.info('BookTicket command executed successfully', { bookingId: booking.id });
   return { booking };
@@ -127,33 +141,10 @@ function validateBookTicketCommand(command: BookTicketCommand): void {
   if (!command.passengerEmail) {
     throw new BadRequestError('passengerEmail is required');
   }
-  if (command.price <= 0) {
+  if (command.price !== undefined && command.price <= 0) {
     throw new BadRequestError('price must be greater than 0');
   }
 }
 
-function mapRowToBooking(row: Record<string, unknown>): Booking {
-  return {
-    id: row.id as string,
-    userId: row.user_id as string,
-    routeId: row.route_id as string,
-    scheduleId: row.schedule_id as string,
-    seatNumber: row.seat_number as string | null,
-    passengerName: row.passenger_name as string,
-    passengerEmail: row.passenger_email as string,
-    passengerPhone: row.passenger_phone as string | null,
-    price: parseFloat(row.price as string),
-    currency: row.currency as string,
-    status: row.status as BookingStatus,
-    paymentId: row.payment_id as string | null,
-    reservedAt: row.reserved_at ? new Date(row.reserved_at as string) : null,
-    confirmedAt: row.confirmed_at ? new Date(row.confirmed_at as string) : null,
-    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at as string) : null,
-    expiresAt: row.expires_at ? new Date(row.expires_at as string) : null,
-    createdAt: new Date(row.created_at as string),
-    updatedAt: new Date(row.updated_at as string),
-  };
-}
-
 export default bookTicketHandler;
 
@@ -0,0 +1,45 @@
+import { Booking, BookingStatus, PassengerCategory } from '../models/booking';
+import { FareBreakdown } from '../models/fare';
+import { RefundBreakdown } from '../models/refund';
+
+/**
+ * Map a bookings row to a Booking - every command returning bookings uses this
+ * one, so a new column is mapped in one place.
+ */
+export function mapRowToBooking(row: Record<string, unknown>): Booking {
+  return {
+    id: row.id as string,
+    bookingReference: row.booking_reference as string | null,
+    userId: row.user_id as string,
+    routeId: row.route_id as string,
+    scheduleId: row.schedule_id as string,
+    seatNumber: row.seat_number as string | null,
+    passengerName: row.passenger_name as string,
+    passengerEmail: row.passenger_email as string,
+    passengerPhone: row.passenger_phone as string | null,
+    passengerCategory: row.passenger_category as PassengerCategory,
+    entitlementReference: row.entitlement_reference as string | null,
+    price: parseFloat(row.price as string),
+    currency: row.currency as string,
+    status: row.status as BookingStatus,
+    paymentId: row.payment_id as string | null,
+    paidAmount: row.paid_amount ? parseFloat(row.paid_amount as string) : null,
+    reservedAt: row.reserved_at ? new Date(row.reserved_at as string) : null,
+    confirmedAt: row.confirmed_at ? new Date(row.confirmed_at as string) : null,
+    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at as string) : null,
+    expiresAt: row.expires_at ? new Date(row.expires_at as string) : null,
+    holdExtensionCount: row.hold_extension_count as number,
+    originZone: row.origin_zone as string | null,
+    destinationZone: row.destination_zone as string | null,
+    fareBreakdown: row.fare_breakdown as FareBreakdown | null,
+    refundBreakdown: row.refund_breakdown as RefundBreakdown | null,
+    refundedAmount: parseFloat(row.refunded_amount as string),
+    refundedAt: row.refunded_at ? new Date(row.refunded_at as string) : null,
+    groupId: row.group_id as string | null,
+    ticketToken: row.ticket_token as string | null,
+    usedAt: row.used_at ? new Date(row.used_at as string) : null,
+    version: row.version as number,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
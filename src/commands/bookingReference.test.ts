@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+import { generateBookingReference } from './bookingReference';
+import { testClient, useTestDatabase } from '../testing/database';
+import { insertBooking } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+// Draw the given references, one letter at a time
+function drawReferences(...references: string[]): void {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const draws = references.join('').split('').map((letter) => alphabet.indexOf(letter));
+  const randomInt = jest.spyOn(crypto, 'randomInt') as unknown as jest.SpyInstance<number, [number]>;
+  randomInt.mockImplementation(() => draws.shift()!);
+}
+
+describe('generateBookingReference', () => {
+  it('gives six letters and digits that cannot be mistaken for one another', async () => {
+    for (let i = 0; i < 20; i++) {
+      expect(await generateBookingReference(testClient)).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    }
+  });
+
+  it('skips references of bookings and booking groups', async () => {
+    await insertBooking({ booking_reference: 'AAAAAA' });
+    await db.query(
+      `INSERT INTO booking_groups (id, booking_reference, user_id, route_id, schedule_id, contact_email, passenger_count, total_price, currency)
+       SELECT gen_random_uuid(), 'BBBBBB', user_id, route_id, schedule_id, 'ada@example.com', 2, 50, 'USD' FROM bookings`
+    );
+    drawReferences('AAAAAA', 'BBBBBB', 'CCCCCC');
+
+    expect(await generateBookingReference(testClient)).toBe('CCCCCC');
+  });
+
+  it('gives up when every reference drawn is taken', async () => {
+    await insertBooking({ booking_reference: 'AAAAAA' });
+    drawReferences(...Array(10).fill('AAAAAA'), 'CCCCCC');
+
+    await expect(generateBookingReference(testClient)).rejects.toThrow(/after 10 attempts/);
+  });
+});
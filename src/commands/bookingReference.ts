@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+
+// No 0/O or 1/I - references are read out over the phone
+const ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LENGTH = 6;
+const MAX_ATTEMPTS = 10;
+
+/**
+ * Generate a booking reference not used by any booking or booking group yet.
+ * The unique indexes catch the (unlikely) case of two transactions picking
+ * the same free code at once.
+ */
+export async function generateBookingReference(client: PoolClient): Promise<string> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const reference = randomReference();
+
+    const taken = await client.query(
+      `SELECT 1 FROM bookings WHERE booking_reference = $1
+       UNION ALL
+       SELECT 1 FROM booking_groups WHERE booking_reference = $1
+       LIMIT 1`,
+      [reference]
+    );
+
+    if (taken.rows.length === 0) {
+      return reference;
+    }
+  }
+
+  throw new Error(`No free booking reference found after ${MAX_ATTEMPTS} attempts`);
+}
+
+function randomReference(): string {
+  let reference = '';
+  for (let i = 0; i < LENGTH; i++) {
+    reference += ALPHABET[crypto.randomInt(ALPHABET.length)];
+  }
+  return reference;
+}
@@ -1,11 +1,15 @@
-import { v4 as uuidv4 } from 'uuid';
 import writeDb from '../infrastructure/database/writeDb';
 import { eventPublisher } from '../events/publisher';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { ticketTokens } from '../tickets/ticketTokens';
+import { refundPolicy } from '../pricing/refundPolicy';
+import { mapRowToBooking } from './bookingMapper';
 import { Booking, BookingStatus, CancelTicketCommand } from '../models/booking';
+import { RefundBreakdown } from '../models/refund';
 import { 
   BadRequestError, 
   BookingNotFoundError, 
-  InvalidBookingStateError,
+  ConcurrencyConflictError,
   ForbiddenError 
 } from '../utils/errors';
 import logger from '../utils/logger';
@@ -13,6 +17,7 @@ import logger from '../utils/logger';
 export interface CancelTicketResult {
   booking: Booking;
   refundAmount: number | null;
+  refund: RefundBreakdown | null; // How the refund was calculated (paid bookings only)
 }
 
 export const cancelTicketHandler = async (
@@ -50,37 +55,35 @@ export const cancelTicketHandler = async (
       throw new ForbiddenError('You are not authorized to cancel this booking');
     }
 
-    // Validate booking state - can only cancel PENDING, RESERVED, or CONFIRMED
-    const cancellableStates = [
-      BookingStatus.PENDING,
-      BookingStatus.RESERVED,
-      BookingStatus.CONFIRMED,
-    ];
-
-    if (!cancellableStates.includes(existingBooking.status)) {
-      throw new InvalidBookingStateError(
-        existingBooking.status,
-        cancellableStates.join(' or ')
-      );
+    // Optimistic concurrency check
+    if (command.expectedVersion !== undefined && command.expectedVersion !== existingBooking.version) {
+      throw new ConcurrencyConflictError(command.bookingId, command.expectedVersion, existingBooking.version);
     }
 
+    // Validate booking state transition
+    bookingStateMachine.assertTransition(existingBooking.status, BookingStatus.CANCELLED);
+
     const now = new Date();
+    const version = existingBooking.version + 1;
     
-    // Calculate refund amount (full refund if cancelled within policy)
-    // In production, this would involve more complex refund policy logic
-    let refundAmount: number | null = null;
-    if (existingBooking.status === BookingStatus.CONFIRMED) {
-      // Simple refund policy: full refund
-      refundAmount = parseFloat(existingBooking.price);
-    }
-
-    // Update booking to cancelled
+    // Only a paid booking is owed a refund - the refund policy decides how much
+    const refund: RefundBreakdown | null = existingBooking.status === BookingStatus.CONFIRMED
+      ? await refundPolicy.quote(client, mapRowToBooking(existingBooking), {
+        initiatedBy: command.initiatedBy,
+        method: command.refundMethod,
+        at: now,
+      })
+      : null;
+    const refundAmount = refund ? refund.refundAmount : null;
+
+    // Update booking to cancelled - its ticket token goes on the revocation list
     const updateResult = await client.query(
       `UPDATE bookings 
-       SET status = $1, cancelled_at = $2, updated_at = $3, expires_at = NULL
-       WHERE id = $4
+       SET status = $1, cancelled_at = $2, updated_at = $3, expires_at = NULL, version = $4, ticket_token = NULL,
+           refund_breakdown = $5
+       WHERE id = $6
        RETURNING *`,
-      [BookingStatus.CANCELLED, now, now, command.bookingId]
+      [BookingStatus.CANCELLED, now, now, version, refund ? JSON.stringify(refund) : null, command.bookingId]
     );
 
     // Release seat if it was locked/booked
@@ -93,26 +96,17 @@ export const cancelTicketHandler = async (
       );
     }
 
-    // Store event in event store
-    await client.query(
-      `INSERT INTO booking_events (
-        event_id, event_type, aggregate_id, aggregate_type, payload, correlation_id, version
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [
-        uuidv4(),
-        'TICKET_CANCELLED',
-        command.bookingId,
-        'Booking',
-        JSON.stringify({
-          bookingId: command.bookingId,
-          userId: actualUserId,
-          reason: command.reason,
-          cancelledAt: now.toISOString(),
-          refundAmount,
-        }),
-        correlationId || null,
-        2, // Version incremented
-      ]
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishTicketCancelled(
+      client,
+      command.bookingId,
+      actualUserId,
+      version,
+      command.reason,
+      refund || undefined,
+      command.initiatedBy,
+      ticketTokens.revocationOf(existingBooking.ticket_token),
+      correlationId
     );
 
     const booking = mapRowToBooking(updateResult.rows[0]);
@@ -120,22 +114,10 @@ export const cancelTicketHandler = async (
     return {
       booking,
       refundAmount,
+      refund,
     };
   });
 
-  // Publish event to Kafka
-  try {
-    await eventPublisher.publishTicketCancelled(
-      result.booking.id,
-      result.booking.userId,
-      command.reason,
-      result.refundAmount || undefined,
-      correlationId
-    );
-  } catch (error) {
-    logger.error('Failed to publish TicketCancelled event', { bookingId: result.booking.id, error });
-  }
-
   logger.info('CancelTicket command executed successfully', { 
     bookingId: result.booking.id, 
     refundAmount: result.refundAmount 
@@ -151,28 +133,5 @@ function validateCancelTicketCommand(command: CancelTicketCommand): void {
   // userId is optional - can be obtained from booking for service-to-service calls
 }
 
-function mapRowToBooking(row: Record<string, unknown>): Booking {
-  return {
-    id: row.id as string,
-    userId: row.user_id as string,
-    routeId: row.route_id as string,
-    scheduleId: row.schedule_id as string,
-    seatNumber: row.seat_number as string | null,
-    passengerName: row.passenger_name as string,
-    passengerEmail: row.passenger_email as string,
-    passengerPhone: row.passenger_phone as string | null,
-    price: parseFloat(row.price as string),
-    currency: row.currency as string,
-    status: row.status as BookingStatus,
-    paymentId: row.payment_id as string | null,
-    reservedAt: row.reserved_at ? new Date(row.reserved_at as string) : null,
-    confirmedAt: row.confirmed_at ? new Date(row.confirmed_at as string) : null,
-    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at as string) : null,
-    expiresAt: row.expires_at ? new Date(row.expires_at as string) : null,
-    createdAt: new Date(row.created_at as string),
-    updatedAt: new Date(row.updated_at as string),
-  };
-}
-
 export default cancelTicketHandler;
 
@@ -0,0 +1,89 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { SeatStatus } from '../models/booking';
+import { ChangeScheduleCapacityCommand, ScheduleInventory } from '../models/inventory';
+import { countHeldSeats, lockScheduleInventory, mapRowToInventory } from './scheduleInventory';
+import { BadRequestError, ConflictError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface ChangeScheduleCapacityResult {
+  inventory: ScheduleInventory;
+}
+
+export const changeScheduleCapacityHandler = async (
+  command: ChangeScheduleCapacityCommand,
+  correlationId?: string
+): Promise<ChangeScheduleCapacityResult> => {
+  logger.info('Executing ChangeScheduleCapacity command', { command, correlationId });
+
+  // Validate command
+  validateChangeScheduleCapacityCommand(command);
+
+  const inventory = await writeDb.transaction(async (client) => {
+    const current = await lockScheduleInventory(client, command.scheduleId);
+
+    // Can't sell more seats than the vehicle has
+    if (current.layoutId) {
+      const seats = await client.query(
+        `SELECT COUNT(*) AS count FROM seat_availability WHERE schedule_id = $1 AND status <> $2`,
+        [command.scheduleId, SeatStatus.BLOCKED]
+      );
+      const sellableSeats = parseInt(seats.rows[0].count, 10);
+
+      if (command.capacity > sellableSeats) {
+        throw new ConflictError(
+          `Capacity ${command.capacity} exceeds the ${sellableSeats} unblocked seats of the assigned layout`
+        );
+      }
+    }
+
+    // ...nor fewer than are already sold
+    const heldSeats = await countHeldSeats(client, command.scheduleId);
+
+    if (command.capacity < heldSeats) {
+      throw new ConflictError(
+        `Capacity ${command.capacity} is below the ${heldSeats} seats already booked or reserved`
+      );
+    }
+
+    const version = current.version + 1;
+
+    const updated = await client.query(
+      `UPDATE schedule_inventory
+       SET capacity = $1, version = $2
+       WHERE schedule_id = $3
+       RETURNING *`,
+      [command.capacity, version, command.scheduleId]
+    );
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishScheduleCapacityChanged(
+      client,
+      command.scheduleId,
+      command.capacity,
+      current.capacity,
+      version,
+      correlationId
+    );
+
+    return mapRowToInventory(updated.rows[0]);
+  });
+
+  logger.info('ChangeScheduleCapacity command executed successfully', {
+    scheduleId: command.scheduleId,
+    capacity: inventory.capacity,
+  });
+
+  return { inventory };
+};
+
+function validateChangeScheduleCapacityCommand(command: ChangeScheduleCapacityCommand): void {
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (!Number.isInteger(command.capacity) || command.capacity < 0) {
+    throw new BadRequestError('capacity must be a non-negative integer');
+  }
+}
+
+export default changeScheduleCapacityHandler;
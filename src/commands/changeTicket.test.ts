@@ -0,0 +1,208 @@
+import { v4 as uuidv4 } from 'uuid';
+import { changeTicketHandler } from './changeTicket';
+import { BookingStatus, SeatStatus } from '../models/booking';
+import { decodeTicketToken } from '../tickets/ticketVerifier';
+import {
+  BadRequestError,
+  ChangePaymentRequiredError,
+  InsufficientSeatsError,
+  InvalidBookingStateError,
+  NotFoundError
+} from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import {
+  bookingOf,
+  eventsOf,
+  insertBooking,
+  insertFare,
+  insertFareModifier,
+  insertSchedule,
+  minutesFromNow,
+  OTHER_ROUTE_ID,
+  OTHER_SCHEDULE_ID,
+  SCHEDULE_ID,
+  seatOf,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+// A change costs 2.00 plus 10% of the new fare
+jest.mock('../config', () => {
+  const { config } = jest.requireActual('../config');
+  return { config: { ...config, changes: { feeAmount: 2, feePercent: 10 } } };
+});
+
+const db = useTestDatabase();
+
+const FARE_PAYMENT_ID = uuidv4();
+
+let bookingId: string;
+
+// A confirmed ticket in seat 1A of SCHEDULE_ID, paid 25.00
+beforeEach(async () => {
+  await insertFare({ base_fare: 25 });
+  await insertSchedule({}, ['1A', '1B']);
+  await insertSchedule({ schedule_id: OTHER_SCHEDULE_ID }, ['1A', '1B']);
+
+  const booking = await insertBooking({ seat_number: '1A', payment_id: FARE_PAYMENT_ID, paid_amount: 25 });
+  bookingId = booking.id as string;
+  await db.query(
+    `UPDATE seat_availability SET status = $1, booking_id = $2 WHERE schedule_id = $3 AND seat_number = '1A'`,
+    [SeatStatus.BOOKED, bookingId, SCHEDULE_ID]
+  );
+});
+
+// The new schedule's fare differs from 25.00 by `amount`
+const repriceOtherSchedule = (amount: number) =>
+  insertFareModifier({ name: 'Other schedule', schedule_id: OTHER_SCHEDULE_ID, amount });
+
+async function receivePayment(amount: number, values: { bookingId?: string; currency?: string } = {}) {
+  const paymentId = uuidv4();
+  await db.query(
+    `INSERT INTO booking_payments (payment_id, booking_id, amount, currency, received_at)
+     VALUES ($1, $2, $3, $4, NOW())`,
+    [paymentId, values.bookingId || bookingId, amount, values.currency || 'USD']
+  );
+  return paymentId;
+}
+
+const change = (values: { paymentId?: string; seatNumber?: string; scheduleId?: string } = {}) =>
+  changeTicketHandler({ bookingId, scheduleId: OTHER_SCHEDULE_ID, ...values });
+
+describe('changeTicketHandler', () => {
+  it('moves the ticket to its new seat and releases the old one', async () => {
+    await repriceOtherSchedule(-5);
+
+    const result = await change({ seatNumber: '1B' });
+
+    expect(result.booking).toMatchObject({ scheduleId: OTHER_SCHEDULE_ID, seatNumber: '1B', price: 20 });
+    expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.AVAILABLE, booking_id: null });
+    expect(await seatOf('1B', OTHER_SCHEDULE_ID)).toMatchObject({ status: SeatStatus.BOOKED, booking_id: bookingId });
+
+    const [event] = await eventsOf(bookingId);
+    expect(event).toMatchObject({ event_type: 'TICKET_CHANGED', version: 2 });
+    expect(decodeTicketToken(result.booking.ticketToken!)).toMatchObject({ sid: OTHER_SCHEDULE_ID, seat: '1B' });
+  });
+
+  it('charges nothing for a cheaper schedule, and pays nothing out', async () => {
+    // 20.00: -5.00 fare difference, 4.00 change fee
+    await repriceOtherSchedule(-5);
+
+    const { change: cost } = await change();
+
+    expect(cost).toEqual({
+      previousPrice: 25,
+      newPrice: 20,
+      fareDifference: -5,
+      changeFee: 4,
+      amountDue: 0,
+      currency: 'USD',
+    });
+    expect(await bookingOf(bookingId)).toMatchObject({ price: '20.00', paid_amount: '25.00' });
+  });
+
+  describe('a change that costs something', () => {
+    // 30.00: 5.00 fare difference, 5.00 change fee
+    beforeEach(async () => {
+      await repriceOtherSchedule(5);
+    });
+
+    it('is paid with a payment received for the booking', async () => {
+      const paymentId = await receivePayment(10);
+
+      const result = await change({ paymentId });
+
+      expect(result.change).toMatchObject({ fareDifference: 5, changeFee: 5, amountDue: 10 });
+      expect(await bookingOf(bookingId)).toMatchObject({
+        schedule_id: OTHER_SCHEDULE_ID,
+        price: '30.00',
+        paid_amount: '35.00',
+      });
+
+      const [event] = await eventsOf(bookingId);
+      expect(event.payload).toMatchObject({ paymentId, paidAmount: 35 });
+    });
+
+    it('requires a payment', async () => {
+      await expect(change()).rejects.toThrow(ChangePaymentRequiredError);
+      await expect(change()).rejects.toMatchObject({ amountDue: 10, currency: 'USD' });
+      expect((await bookingOf(bookingId)).schedule_id).toBe(SCHEDULE_ID);
+    });
+
+    it('refuses a payment that was not received', async () => {
+      await expect(change({ paymentId: uuidv4() })).rejects.toThrow(/has not been received/);
+      expect((await bookingOf(bookingId)).schedule_id).toBe(SCHEDULE_ID);
+    });
+
+    it('refuses a payment of another booking', async () => {
+      const other = await insertBooking();
+      const paymentId = await receivePayment(10, { bookingId: other.id as string });
+
+      await expect(change({ paymentId })).rejects.toThrow(/has not been received/);
+    });
+
+    it('refuses a payment that does not cover the amount due', async () => {
+      const tooLittle = await receivePayment(9.99);
+      const otherCurrency = await receivePayment(10, { currency: 'EUR' });
+
+      await expect(change({ paymentId: tooLittle })).rejects.toThrow(/is only 9.99 USD/);
+      await expect(change({ paymentId: otherCurrency })).rejects.toThrow(ChangePaymentRequiredError);
+    });
+
+    it('refuses the payment of the fare', async () => {
+      await receivePayment(25);
+      await db.query(`UPDATE booking_payments SET payment_id = $1`, [FARE_PAYMENT_ID]);
+
+      await expect(change({ paymentId: FARE_PAYMENT_ID })).rejects.toThrow(/already paid for this booking/);
+    });
+
+    it('uses a payment for one change only', async () => {
+      const paymentId = await receivePayment(20);
+      await change({ paymentId });
+      // Back to the first schedule, now 35.00: 10.50 due
+      await insertFareModifier({ name: 'First schedule', schedule_id: SCHEDULE_ID, amount: 10 });
+
+      await expect(changeTicketHandler({ bookingId, scheduleId: SCHEDULE_ID, paymentId }))
+        .rejects.toThrow(/already paid for this booking/);
+    });
+  });
+
+  describe('the new schedule', () => {
+    it('must be known', async () => {
+      await expect(change({ scheduleId: uuidv4() })).rejects.toThrow(NotFoundError);
+    });
+
+    it('must be a schedule of the ticket route', async () => {
+      await db.query(`UPDATE schedule_inventory SET route_id = $1 WHERE schedule_id = $2`, [
+        OTHER_ROUTE_ID,
+        OTHER_SCHEDULE_ID,
+      ]);
+
+      await expect(change()).rejects.toThrow(BadRequestError);
+    });
+
+    it('must not have departed', async () => {
+      await db.query(`UPDATE schedule_inventory SET departure_time = $1 WHERE schedule_id = $2`, [
+        minutesFromNow(-5),
+        OTHER_SCHEDULE_ID,
+      ]);
+
+      await expect(change()).rejects.toThrow(/already departed/);
+    });
+
+    it('must have the requested seat free', async () => {
+      await db.query(`UPDATE seat_availability SET status = $1 WHERE schedule_id = $2 AND seat_number = '1B'`, [
+        SeatStatus.BOOKED,
+        OTHER_SCHEDULE_ID,
+      ]);
+
+      await expect(change({ seatNumber: '1B' })).rejects.toThrow(InsufficientSeatsError);
+    });
+  });
+
+  it('changes only confirmed tickets', async () => {
+    await db.query(`UPDATE bookings SET status = $1`, [BookingStatus.CANCELLED]);
+
+    await expect(change()).rejects.toThrow(InvalidBookingStateError);
+  });
+});
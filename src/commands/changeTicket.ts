@@ -0,0 +1,324 @@
+import { PoolClient } from 'pg';
+import writeDb from '../infrastructure/database/writeDb';
+import { config } from '../config';
+import { eventPublisher } from '../events/publisher';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { fareEngine } from '../pricing/fareEngine';
+import { ticketTokens } from '../tickets/ticketTokens';
+import { allocateSeats } from './seatAllocation';
+import { takeCapacity } from './scheduleInventory';
+import { mapRowToBooking } from './bookingMapper';
+import { Booking, ChangeTicketCommand, TicketChangeBreakdown } from '../models/booking';
+import { FareBreakdown } from '../models/fare';
+import {
+  BadRequestError,
+  BookingNotFoundError,
+  ChangePaymentRequiredError,
+  ConcurrencyConflictError,
+  ForbiddenError,
+  InsufficientSeatsError,
+  NotFoundError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface ChangeTicketResult {
+  booking: Booking;
+  change: TicketChangeBreakdown;
+}
+
+/**
+ * Move a confirmed booking to another schedule of its route in one step: the
+ * new seat is taken, the old one released and the fare repriced, so the
+ * passenger never loses their ticket in between.
+ */
+export const changeTicketHandler = async (
+  command: ChangeTicketCommand,
+  correlationId?: string
+): Promise<ChangeTicketResult> => {
+  logger.info('Executing ChangeTicket command', { command, correlationId });
+
+  // Validate command
+  validateChangeTicketCommand(command);
+
+  const result = await writeDb.transaction(async (client) => {
+    // Get current booking with lock
+    const currentBooking = await client.query(
+      `SELECT * FROM bookings WHERE id = $1 FOR UPDATE`,
+      [command.bookingId]
+    );
+
+    if (currentBooking.rows.length === 0) {
+      throw new BookingNotFoundError(command.bookingId);
+    }
+
+    const existingBooking = currentBooking.rows[0];
+
+    if (command.userId && existingBooking.user_id !== command.userId) {
+      throw new ForbiddenError('You are not authorized to change this booking');
+    }
+
+    // Optimistic concurrency check
+    if (command.expectedVersion !== undefined && command.expectedVersion !== existingBooking.version) {
+      throw new ConcurrencyConflictError(command.bookingId, command.expectedVersion, existingBooking.version);
+    }
+
+    // Validate booking state
+    bookingStateMachine.assertCommand(existingBooking.status, 'change');
+
+    if (existingBooking.schedule_id === command.scheduleId) {
+      throw new BadRequestError(`Booking is already on schedule ${command.scheduleId}`);
+    }
+
+    const now = new Date();
+
+    const schedule = await client.query(
+      `SELECT route_id, departure_time FROM schedule_inventory WHERE schedule_id = $1`,
+      [command.scheduleId]
+    );
+
+    if (schedule.rows.length === 0) {
+      throw new NotFoundError(`Schedule ${command.scheduleId} not found`);
+    }
+    if (schedule.rows[0].route_id !== existingBooking.route_id) {
+      throw new BadRequestError(`Schedule ${command.scheduleId} is not a schedule of route ${existingBooking.route_id}`);
+    }
+
+    const departureTime: Date | null = schedule.rows[0].departure_time
+      ? new Date(schedule.rows[0].departure_time)
+      : null;
+
+    if (departureTime && departureTime < now) {
+      throw new BadRequestError(`Schedule ${command.scheduleId} has already departed`);
+    }
+
+    await takeCapacity(client, command.scheduleId, existingBooking.route_id, 1);
+
+    // Take a seat on the new schedule - schedules without seat inventory sell unseated tickets
+    let seatNumber = command.seatNumber || null;
+
+    if (command.seatNumber) {
+      const seatCheck = await client.query(
+        `SELECT id FROM seat_availability
+         WHERE schedule_id = $1 AND seat_number = $2
+         AND (status = 'AVAILABLE' OR (status = 'LOCKED' AND locked_until < NOW()))
+         FOR UPDATE`,
+        [command.scheduleId, command.seatNumber]
+      );
+
+      if (seatCheck.rows.length === 0) {
+        throw new InsufficientSeatsError(`Seat ${command.seatNumber} is not available`);
+      }
+    } else {
+      const allocation = await allocateSeats(client, command.scheduleId, 1, command.seatPreferences, {
+        reclaimExpiredLocks: true,
+      });
+      seatNumber = allocation ? allocation.seatNumbers[0] : null;
+    }
+
+    // Reprice the journey on the new schedule, keeping any group discount
+    const previousFare = existingBooking.fare_breakdown as FareBreakdown | null;
+    const fare = await fareEngine.priceBooking(
+      client,
+      {
+        routeId: existingBooking.route_id,
+        scheduleId: command.scheduleId,
+        originZone: existingBooking.origin_zone || undefined,
+        destinationZone: existingBooking.destination_zone || undefined,
+        passengerType: existingBooking.passenger_category,
+        groupSize: previousFare?.groupSize,
+      },
+      command.price,
+      command.currency
+    );
+
+    if (fare.currency !== existingBooking.currency) {
+      throw new BadRequestError(
+        `Fare of schedule ${command.scheduleId} is in ${fare.currency}, the booking was paid in ${existingBooking.currency}`
+      );
+    }
+
+    const change = calculateChange(parseFloat(existingBooking.price), fare.price, fare.currency);
+
+    // The change isn't made before it is paid for - the client pays amountDue and retries with the payment
+    const charged = change.amountDue > 0
+      ? await takeChangePayment(client, existingBooking, change, command.paymentId)
+      : 0;
+
+    // Refunds are based on what was paid, which the new fare doesn't change
+    const paidAmount = roundCents(parseFloat(existingBooking.paid_amount ?? existingBooking.price) + charged);
+    const version = existingBooking.version + 1;
+
+    // Reissue the ticket for the new trip - the old token goes on the revocation list
+    const booking = mapRowToBooking(existingBooking);
+    const ticketToken = await ticketTokens.issue(client, {
+      ...booking,
+      scheduleId: command.scheduleId,
+      seatNumber,
+    });
+
+    const updateResult = await client.query(
+      `UPDATE bookings
+       SET schedule_id = $1, seat_number = $2, price = $3, fare_breakdown = $4, ticket_token = $5,
+           paid_amount = $6, version = $7, updated_at = $8
+       WHERE id = $9
+       RETURNING *`,
+      [
+        command.scheduleId,
+        seatNumber,
+        fare.price,
+        JSON.stringify(fare.breakdown),
+        ticketToken,
+        paidAmount,
+        version,
+        now,
+        command.bookingId,
+      ]
+    );
+
+    // Release the old seat - only while this booking still holds it
+    if (existingBooking.seat_number) {
+      await client.query(
+        `UPDATE seat_availability
+         SET status = 'AVAILABLE', booking_id = NULL, locked_until = NULL, updated_at = $1
+         WHERE schedule_id = $2 AND seat_number = $3 AND booking_id = $4`,
+        [now, existingBooking.schedule_id, existingBooking.seat_number, command.bookingId]
+      );
+    }
+
+    if (seatNumber) {
+      await client.query(
+        `UPDATE seat_availability
+         SET status = 'BOOKED', booking_id = $1, locked_until = NULL, updated_at = $2
+         WHERE schedule_id = $3 AND seat_number = $4`,
+        [command.bookingId, now, command.scheduleId, seatNumber]
+      );
+    }
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishTicketChanged(
+      client,
+      {
+        bookingId: command.bookingId,
+        userId: existingBooking.user_id,
+        previousScheduleId: existingBooking.schedule_id,
+        scheduleId: command.scheduleId,
+        previousSeatNumber: existingBooking.seat_number,
+        seatNumber,
+        price: fare.price,
+        change,
+        paymentId: change.amountDue > 0 ? command.paymentId : undefined,
+        paidAmount,
+        reason: command.reason,
+        changedAt: now,
+        ticketToken,
+        revokedToken: ticketTokens.revocationOf(existingBooking.ticket_token),
+      },
+      version,
+      correlationId
+    );
+
+    return {
+      booking: mapRowToBooking(updateResult.rows[0]),
+      change,
+    };
+  });
+
+  logger.info('ChangeTicket command executed successfully', {
+    bookingId: result.booking.id,
+    scheduleId: result.booking.scheduleId,
+    amountDue: result.change.amountDue,
+  });
+
+  return result;
+};
+
+/**
+ * Use a payment the payment side reported for the booking to pay for the
+ * change - it must cover amountDue and not have paid for anything else.
+ * Returns the amount paid.
+ */
+async function takeChangePayment(
+  client: PoolClient,
+  booking: Record<string, unknown>,
+  change: TicketChangeBreakdown,
+  paymentId?: string
+): Promise<number> {
+  if (!paymentId) {
+    throw new ChangePaymentRequiredError(change.amountDue, change.currency);
+  }
+
+  const result = await client.query(
+    `SELECT * FROM booking_payments WHERE payment_id = $1 AND booking_id = $2 FOR UPDATE`,
+    [paymentId, booking.id]
+  );
+  const payment = result.rows[0];
+
+  // PaymentSucceeded may not have arrived yet - the client retries
+  if (!payment) {
+    throw new ChangePaymentRequiredError(
+      change.amountDue,
+      change.currency,
+      `payment ${paymentId} of this booking has not been received (yet)`
+    );
+  }
+
+  if (payment.applied_at || paymentId === booking.payment_id) {
+    throw new ChangePaymentRequiredError(
+      change.amountDue,
+      change.currency,
+      `payment ${paymentId} already paid for this booking`
+    );
+  }
+
+  const amount = parseFloat(payment.amount);
+  if (payment.currency !== change.currency || amount < change.amountDue) {
+    throw new ChangePaymentRequiredError(
+      change.amountDue,
+      change.currency,
+      `payment ${paymentId} is only ${amount.toFixed(2)} ${payment.currency}`
+    );
+  }
+
+  await client.query(
+    `UPDATE booking_payments SET applied_at = NOW() WHERE payment_id = $1`,
+    [paymentId]
+  );
+
+  return amount;
+}
+
+/**
+ * The fare difference plus the change fee. A cheaper schedule lowers what is
+ * due but is never paid out.
+ */
+function calculateChange(previousPrice: number, newPrice: number, currency: string): TicketChangeBreakdown {
+  const fareDifference = roundCents(newPrice - previousPrice);
+  const changeFee = roundCents(config.changes.feeAmount + newPrice * config.changes.feePercent / 100);
+
+  return {
+    previousPrice,
+    newPrice,
+    fareDifference,
+    changeFee,
+    amountDue: Math.max(0, roundCents(fareDifference + changeFee)),
+    currency,
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function validateChangeTicketCommand(command: ChangeTicketCommand): void {
+  if (!command.bookingId) {
+    throw new BadRequestError('bookingId is required');
+  }
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (command.price !== undefined && command.price <= 0) {
+    throw new BadRequestError('price must be greater than 0');
+  }
+}
+
+export default changeTicketHandler;
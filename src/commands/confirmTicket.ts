@@ -1,10 +1,13 @@
-import { v4 as uuidv4 } from 'uuid';
 import writeDb from '../infrastructure/database/writeDb';
 import { eventPublisher } from '../events/publisher';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { ticketTokens } from '../tickets/ticketTokens';
+import { mapRowToBooking } from './bookingMapper';
 import { Booking, BookingStatus, ConfirmTicketCommand } from '../models/booking';
 import { 
   BadRequestError, 
   BookingNotFoundError, 
+  ConcurrencyConflictError,
   InvalidBookingStateError 
 } from '../utils/errors';
 import logger from '../utils/logger';
@@ -36,29 +39,33 @@ export const confirmTicketHandler = async (
 
     const existingBooking = currentBooking.rows[0];
 
-    // Validate booking state - must be RESERVED or PENDING to confirm
-    if (existingBooking.status !== BookingStatus.RESERVED && 
-        existingBooking.status !== BookingStatus.PENDING) {
-      throw new InvalidBookingStateError(
-        existingBooking.status,
-        `${BookingStatus.RESERVED} or ${BookingStatus.PENDING}`
-      );
+    // Optimistic concurrency check
+    if (command.expectedVersion !== undefined && command.expectedVersion !== existingBooking.version) {
+      throw new ConcurrencyConflictError(command.bookingId, command.expectedVersion, existingBooking.version);
     }
 
+    // Validate booking state transition
+    bookingStateMachine.assertTransition(existingBooking.status, BookingStatus.CONFIRMED);
+
     // Check if reservation has expired
     if (existingBooking.expires_at && new Date(existingBooking.expires_at) < new Date()) {
       throw new InvalidBookingStateError(existingBooking.status, 'Reservation has expired');
     }
 
     const now = new Date();
+    const version = existingBooking.version + 1;
+
+    // Issue the signed ticket the passenger shows on board
+    const ticketToken = await ticketTokens.issue(client, mapRowToBooking(existingBooking));
 
     // Update booking to confirmed
     const result = await client.query(
       `UPDATE bookings 
-       SET status = $1, payment_id = $2, confirmed_at = $3, updated_at = $4, expires_at = NULL
-       WHERE id = $5
+       SET status = $1, payment_id = $2, confirmed_at = $3, updated_at = $4, expires_at = NULL, version = $5,
+           ticket_token = $6, paid_amount = price
+       WHERE id = $7
        RETURNING *`,
-      [BookingStatus.CONFIRMED, command.paymentId, now, now, command.bookingId]
+      [BookingStatus.CONFIRMED, command.paymentId, now, now, version, ticketToken, command.bookingId]
     );
 
     // Update seat status to BOOKED (permanent)
@@ -71,40 +78,19 @@ export const confirmTicketHandler = async (
       );
     }
 
-    // Store event in event store
-    await client.query(
-      `INSERT INTO booking_events (
-        event_id, event_type, aggregate_id, aggregate_type, payload, correlation_id, version
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [
-        uuidv4(),
-        'TICKET_CONFIRMED',
-        command.bookingId,
-        'Booking',
-        JSON.stringify({
-          bookingId: command.bookingId,
-          paymentId: command.paymentId,
-          confirmedAt: now.toISOString(),
-        }),
-        correlationId || null,
-        2, // Version incremented
-      ]
-    );
-
-    return mapRowToBooking(result.rows[0]);
-  });
-
-  // Publish event to Kafka
-  try {
+    // Store event in event store (published to Kafka via the outbox)
     await eventPublisher.publishTicketConfirmed(
-      booking.id,
-      booking.userId,
+      client,
+      command.bookingId,
+      existingBooking.user_id,
       command.paymentId,
+      version,
+      ticketToken,
       correlationId
     );
-  } catch (error) {
-    logger.error('Failed to publish TicketConfirmed event', { bookingId: booking.id, error });
-  }
+
+    return mapRowToBooking(result.rows[0]);
+  });
 
   logger.info('ConfirmTicket command executed successfully', { 
     bookingId: booking.id, 
@@ -123,28 +109,5 @@ function validateConfirmTicketCommand(command: ConfirmTicketCommand): void {
   }
 }
 
-function mapRowToBooking(row: Record<string, unknown>): Booking {
-  return {
-    id: row.id as string,
-    userId: row.user_id as string,
-    routeId: row.route_id as string,
-    scheduleId: row.schedule_id as string,
-    seatNumber: row.seat_number as string | null,
-    passengerName: row.passenger_name as string,
-    passengerEmail: row.passenger_email as string,
-    passengerPhone: row.passenger_phone as string | null,
-    price: parseFloat(row.price as string),
-    currency: row.currency as string,
-    status: row.status as BookingStatus,
-    paymentId: row.payment_id as string | null,
-    reservedAt: row.reserved_at ? new Date(row.reserved_at as string) : null,
-    confirmedAt: row.confirmed_at ? new Date(row.confirmed_at as string) : null,
-    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at as string) : null,
-    expiresAt: row.expires_at ? new Date(row.expires_at as string) : null,
-    createdAt: new Date(row.created_at as string),
-    updatedAt: new Date(row.updated_at as string),
-  };
-}
-
 export default confirmTicketHandler;
 
@@ -0,0 +1,82 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { CreateFareModifierCommand, FareModifier } from '../models/fare';
+import { BadRequestError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Add a fare modifier (peak surcharge, off-peak discount, concession, ...)
+ */
+export const createFareModifierHandler = async (
+  command: CreateFareModifierCommand
+): Promise<FareModifier> => {
+  logger.info('Executing CreateFareModifier command', { command });
+
+  // Validate command
+  validateCreateFareModifierCommand(command);
+
+  const row = await writeDb.queryOne<Record<string, unknown>>(
+    `INSERT INTO fare_modifiers (
+      name, route_id, schedule_id, passenger_type, start_time, end_time,
+      days_of_week, min_group_size, multiplier, amount, priority
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *`,
+    [
+      command.name,
+      command.routeId || null,
+      command.scheduleId || null,
+      command.passengerType || null,
+      command.startTime || null,
+      command.endTime || null,
+      command.daysOfWeek && command.daysOfWeek.length > 0 ? command.daysOfWeek : null,
+      command.minGroupSize ?? null,
+      command.multiplier ?? 1,
+      command.amount ?? 0,
+      command.priority ?? 0,
+    ]
+  );
+
+  const modifier = mapRowToFareModifier(row!);
+
+  logger.info('CreateFareModifier command executed successfully', { modifierId: modifier.id });
+
+  return modifier;
+};
+
+function validateCreateFareModifierCommand(command: CreateFareModifierCommand): void {
+  if (!command.name) {
+    throw new BadRequestError('name is required');
+  }
+  if (!command.startTime !== !command.endTime) {
+    throw new BadRequestError('startTime and endTime must be given together');
+  }
+  if (command.multiplier !== undefined && command.multiplier < 0) {
+    throw new BadRequestError('multiplier must not be negative');
+  }
+  if (command.minGroupSize !== undefined && (!Number.isInteger(command.minGroupSize) || command.minGroupSize < 2)) {
+    throw new BadRequestError('minGroupSize must be an integer of at least 2');
+  }
+  if (command.daysOfWeek?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new BadRequestError('daysOfWeek must be between 0 (Sunday) and 6 (Saturday)');
+  }
+}
+
+function mapRowToFareModifier(row: Record<string, unknown>): FareModifier {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    routeId: row.route_id as string | null,
+    scheduleId: row.schedule_id as string | null,
+    passengerType: row.passenger_type as string | null,
+    startTime: row.start_time ? (row.start_time as string).substring(0, 5) : null,
+    endTime: row.end_time ? (row.end_time as string).substring(0, 5) : null,
+    daysOfWeek: row.days_of_week as number[] | null,
+    minGroupSize: row.min_group_size as number | null,
+    multiplier: parseFloat(row.multiplier as string),
+    amount: parseFloat(row.amount as string),
+    priority: row.priority as number,
+    active: row.active as boolean,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default createFareModifierHandler;
@@ -0,0 +1,93 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { CreateRefundRuleCommand, RefundInitiator, RefundRule } from '../models/refund';
+import { BadRequestError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Add a refund rule (cancellation fee window, non-refundable fare, voucher offer, ...)
+ */
+export const createRefundRuleHandler = async (
+  command: CreateRefundRuleCommand
+): Promise<RefundRule> => {
+  logger.info('Executing CreateRefundRule command', { command });
+
+  // Validate command
+  validateCreateRefundRuleCommand(command);
+
+  const row = await writeDb.queryOne<Record<string, unknown>>(
+    `INSERT INTO refund_rules (
+      name, route_id, fare_class, passenger_type, initiated_by,
+      min_hours_before_departure, max_hours_before_departure, refundable,
+      fee_percent, fee_amount, voucher_only, voucher_bonus_percent, priority
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    RETURNING *`,
+    [
+      command.name,
+      command.routeId || null,
+      command.fareClass || null,
+      command.passengerType || null,
+      command.initiatedBy || null,
+      command.minHoursBeforeDeparture ?? null,
+      command.maxHoursBeforeDeparture ?? null,
+      command.refundable ?? true,
+      command.feePercent ?? 0,
+      command.feeAmount ?? 0,
+      command.voucherOnly ?? false,
+      command.voucherBonusPercent ?? 0,
+      command.priority ?? 0,
+    ]
+  );
+
+  const rule = mapRowToRefundRule(row!);
+
+  logger.info('CreateRefundRule command executed successfully', { ruleId: rule.id });
+
+  return rule;
+};
+
+function validateCreateRefundRuleCommand(command: CreateRefundRuleCommand): void {
+  if (!command.name) {
+    throw new BadRequestError('name is required');
+  }
+  if (command.minHoursBeforeDeparture !== undefined &&
+      command.maxHoursBeforeDeparture !== undefined &&
+      command.minHoursBeforeDeparture >= command.maxHoursBeforeDeparture) {
+    throw new BadRequestError('minHoursBeforeDeparture must be below maxHoursBeforeDeparture');
+  }
+  if (command.feePercent !== undefined && (command.feePercent < 0 || command.feePercent > 100)) {
+    throw new BadRequestError('feePercent must be between 0 and 100');
+  }
+  if (command.feeAmount !== undefined && command.feeAmount < 0) {
+    throw new BadRequestError('feeAmount must not be negative');
+  }
+  if (command.refundable === false && (command.feePercent || command.feeAmount || command.voucherOnly)) {
+    throw new BadRequestError('A non-refundable rule takes no fees or voucher options');
+  }
+}
+
+function mapRowToRefundRule(row: Record<string, unknown>): RefundRule {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    routeId: row.route_id as string | null,
+    fareClass: row.fare_class as string | null,
+    passengerType: row.passenger_type as string | null,
+    initiatedBy: row.initiated_by as RefundInitiator | null,
+    minHoursBeforeDeparture: row.min_hours_before_departure === null
+      ? null
+      : parseFloat(row.min_hours_before_departure as string),
+    maxHoursBeforeDeparture: row.max_hours_before_departure === null
+      ? null
+      : parseFloat(row.max_hours_before_departure as string),
+    refundable: row.refundable as boolean,
+    feePercent: parseFloat(row.fee_percent as string),
+    feeAmount: parseFloat(row.fee_amount as string),
+    voucherOnly: row.voucher_only as boolean,
+    voucherBonusPercent: parseFloat(row.voucher_bonus_percent as string),
+    priority: row.priority as number,
+    active: row.active as boolean,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default createRefundRuleHandler;
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseError } from 'pg';
+import writeDb from '../infrastructure/database/writeDb';
+import { CreateVehicleLayoutCommand, LayoutSeat, VehicleLayout } from '../models/inventory';
+import { BadRequestError, ConflictError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const DEFAULT_DECK = 1;
+const DEFAULT_SEAT_CLASS = 'STANDARD';
+
+export const createVehicleLayoutHandler = async (
+  command: CreateVehicleLayoutCommand
+): Promise<VehicleLayout> => {
+  logger.info('Executing CreateVehicleLayout command', { name: command.name, seats: command.seats?.length });
+
+  // Validate command
+  validateCreateVehicleLayoutCommand(command);
+
+  const seats: LayoutSeat[] = command.seats.map((seat) => ({
+    seatNumber: seat.seatNumber,
+    row: seat.row,
+    column: seat.column,
+    deck: seat.deck ?? DEFAULT_DECK,
+    seatClass: seat.seatClass ?? DEFAULT_SEAT_CLASS,
+    features: seat.features ? [...new Set(seat.features)] : undefined,
+  }));
+
+  try {
+    const row = await writeDb.queryOne<Record<string, unknown>>(
+      `INSERT INTO vehicle_layouts (id, name, description, seats, capacity)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [uuidv4(), command.name, command.description || null, JSON.stringify(seats), seats.length]
+    );
+
+    const layout = mapRowToLayout(row!);
+
+    logger.info('CreateVehicleLayout command executed successfully', {
+      layoutId: layout.id,
+      capacity: layout.capacity,
+    });
+
+    return layout;
+  } catch (error) {
+    if (error instanceof DatabaseError && error.code === '23505') {
+      throw new ConflictError(`A vehicle layout named "${command.name}" already exists`);
+    }
+    throw error;
+  }
+};
+
+function validateCreateVehicleLayoutCommand(command: CreateVehicleLayoutCommand): void {
+  if (!command.name) {
+    throw new BadRequestError('name is required');
+  }
+  if (!command.seats || command.seats.length === 0) {
+    throw new BadRequestError('A layout needs at least one seat');
+  }
+
+  const seatNumbers = new Set<string>();
+  const positions = new Set<string>();
+
+  for (const seat of command.seats) {
+    if (seatNumbers.has(seat.seatNumber)) {
+      throw new BadRequestError(`Seat ${seat.seatNumber} appears more than once`);
+    }
+    seatNumbers.add(seat.seatNumber);
+
+    const position = `${seat.deck ?? DEFAULT_DECK}:${seat.row}:${seat.column}`;
+    if (positions.has(position)) {
+      throw new BadRequestError(`Seat ${seat.seatNumber} overlaps another seat at row ${seat.row}, column ${seat.column}`);
+    }
+    positions.add(position);
+  }
+}
+
+function mapRowToLayout(row: Record<string, unknown>): VehicleLayout {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: row.description as string | null,
+    seats: row.seats as LayoutSeat[],
+    capacity: row.capacity as number,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default createVehicleLayoutHandler;
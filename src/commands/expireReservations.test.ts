@@ -0,0 +1,112 @@
+import { expireReservationsHandler } from './expireReservations';
+import { confirmTicketHandler } from './confirmTicket';
+import { BookingStatus, SeatStatus } from '../models/booking';
+import { BadRequestError, InvalidBookingStateError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import {
+  bookingOf,
+  eventsOf,
+  insertReservation,
+  insertSchedule,
+  minutesFromNow,
+  seatOf,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const PAYMENT_ID = '7e57d000-0000-4000-8000-000000000001';
+
+beforeEach(async () => {
+  await insertSchedule({}, ['1A', '1B', '1C']);
+});
+
+// A reservation of the seat whose hold ran out a minute ago
+const overdueReservation = async (seatNumber: string, minutesAgo = 1) =>
+  (await insertReservation({ seat_number: seatNumber, expires_at: minutesFromNow(-minutesAgo) })).id as string;
+
+describe('expireReservationsHandler', () => {
+  it('expires overdue reservations and releases their seats', async () => {
+    const id = await overdueReservation('1A');
+
+    const { expired } = await expireReservationsHandler(10);
+
+    expect(expired.map((booking) => booking.id)).toEqual([id]);
+    expect(await bookingOf(id)).toMatchObject({ status: BookingStatus.EXPIRED, version: 2 });
+    expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.AVAILABLE, booking_id: null });
+
+    const [event] = await eventsOf(id);
+    expect(event).toMatchObject({ event_type: 'TICKET_EXPIRED', version: 2 });
+  });
+
+  it('leaves reservations still on hold alone', async () => {
+    const { id } = await insertReservation({ seat_number: '1A' });
+
+    const { expired } = await expireReservationsHandler(10);
+
+    expect(expired).toEqual([]);
+    expect((await bookingOf(id)).status).toBe(BookingStatus.RESERVED);
+  });
+
+  it('expires the longest overdue first, a batch at a time', async () => {
+    await overdueReservation('1A', 1);
+    const oldest = await overdueReservation('1B', 10);
+    await overdueReservation('1C', 5);
+
+    const first = await expireReservationsHandler(2);
+    const second = await expireReservationsHandler(2);
+
+    expect(first.expired).toHaveLength(2);
+    expect(first.expired[0].id).toBe(oldest);
+    expect(second.expired).toHaveLength(1);
+  });
+
+  it('does not free a seat another reservation took over', async () => {
+    const id = await overdueReservation('1A');
+    const { id: takenOver } = await insertReservation({ seat_number: '1A' });
+
+    await expireReservationsHandler(10);
+
+    expect((await bookingOf(id)).status).toBe(BookingStatus.EXPIRED);
+    expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.LOCKED, booking_id: takenOver });
+  });
+
+  it('rejects an empty batch', async () => {
+    await expect(expireReservationsHandler(0)).rejects.toThrow(BadRequestError);
+  });
+
+  describe('racing a confirmation', () => {
+    it('leaves a reservation confirmed before the sweep alone', async () => {
+      const { id } = await insertReservation({ seat_number: '1A', expires_at: minutesFromNow(1) });
+      await confirmTicketHandler({ bookingId: id as string, paymentId: PAYMENT_ID });
+      // The hold would have run out by the time the sweep gets to it
+      await db.query(`UPDATE bookings SET expires_at = $1 WHERE id = $2`, [minutesFromNow(-1), id]);
+
+      const { expired } = await expireReservationsHandler(10);
+
+      expect(expired).toEqual([]);
+      expect((await bookingOf(id)).status).toBe(BookingStatus.CONFIRMED);
+      expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.BOOKED, booking_id: id });
+    });
+
+    it('refuses to confirm a reservation the sweep expired', async () => {
+      const id = await overdueReservation('1A');
+      await expireReservationsHandler(10);
+
+      await expect(confirmTicketHandler({ bookingId: id, paymentId: PAYMENT_ID }))
+        .rejects.toThrow(InvalidBookingStateError);
+      expect(await bookingOf(id)).toMatchObject({ status: BookingStatus.EXPIRED, payment_id: null });
+    });
+
+    it('refuses to confirm a reservation whose hold ran out before the sweep', async () => {
+      const id = await overdueReservation('1A');
+
+      await expect(confirmTicketHandler({ bookingId: id, paymentId: PAYMENT_ID }))
+        .rejects.toThrow(/Reservation has expired/);
+
+      const { expired } = await expireReservationsHandler(10);
+      expect(expired.map((booking) => booking.id)).toEqual([id]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { mapRowToBooking } from './bookingMapper';
+import { Booking, BookingStatus } from '../models/booking';
+import { BadRequestError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface ExpireReservationsResult {
+  expired: Booking[];
+}
+
+/**
+ * Expires RESERVED bookings whose hold has run out.
+ *
+ * Overdue rows are claimed with FOR UPDATE SKIP LOCKED, so several replicas
+ * can sweep concurrently: each booking is locked (and expired) by exactly one
+ * of them, the others simply skip it.
+ */
+export const expireReservationsHandler = async (
+  batchSize: number
+): Promise<ExpireReservationsResult> => {
+  if (batchSize < 1) {
+    throw new BadRequestError('batchSize must be at least 1');
+  }
+
+  const expired = await writeDb.transaction(async (client) => {
+    const overdue = await client.query(
+      `SELECT * FROM bookings
+       WHERE status = $1 AND expires_at < NOW()
+       ORDER BY expires_at
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED`,
+      [BookingStatus.RESERVED, batchSize]
+    );
+
+    const bookings: Booking[] = [];
+    const now = new Date();
+
+    for (const row of overdue.rows) {
+      bookingStateMachine.assertTransition(row.status, BookingStatus.EXPIRED);
+
+      const version = row.version + 1;
+
+      const updateResult = await client.query(
+        `UPDATE bookings
+         SET status = $1, updated_at = $2, version = $3
+         WHERE id = $4
+         RETURNING *`,
+        [BookingStatus.EXPIRED, now, version, row.id]
+      );
+
+      // Release the seat lock - only if the seat is still held by this booking
+      // (an expired lock may already have been taken over by a new reservation)
+      await client.query(
+        `UPDATE seat_availability
+         SET status = 'AVAILABLE', booking_id = NULL, locked_until = NULL, updated_at = $1
+         WHERE booking_id = $2 AND status = 'LOCKED'`,
+        [now, row.id]
+      );
+
+      // Store event in event store (published to Kafka via the outbox)
+      await eventPublisher.publishTicketExpired(client, row.id, row.user_id, version);
+
+      bookings.push(mapRowToBooking(updateResult.rows[0]));
+    }
+
+    return bookings;
+  });
+
+  if (expired.length > 0) {
+    logger.info('Expired overdue reservations', {
+      count: expired.length,
+      bookingIds: expired.map((b) => b.id),
+    });
+  }
+
+  return { expired };
+};
+
+export default expireReservationsHandler;
@@ -0,0 +1,126 @@
+import { extendReservationHandler } from './extendReservation';
+import { config } from '../config';
+import { BookingStatus, SeatStatus } from '../models/booking';
+import {
+  BadRequestError,
+  ConcurrencyConflictError,
+  ForbiddenError,
+  InvalidBookingStateError,
+  ReservationHoldLimitError
+} from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import {
+  bookingOf,
+  eventsOf,
+  insertReservation,
+  insertSchedule,
+  minutesFromNow,
+  OTHER_USER_ID,
+  seatOf,
+  USER_ID,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+useTestDatabase();
+
+const MINUTE = 60 * 1000;
+
+// A reservation of seat 1A made 10 minutes ago, held for 5 more, not extended yet
+async function reservation(values: Record<string, unknown> = {}) {
+  await insertSchedule({}, ['1A']);
+  const booking = await insertReservation({ seat_number: '1A', ...values });
+  return { id: booking.id as string, expiresAt: booking.expires_at as Date };
+}
+
+const after = (date: Date, minutes: number) => new Date(date.getTime() + minutes * MINUTE);
+
+describe('extendReservationHandler', () => {
+  it('pushes the expiry and the seat lock forward by the default extension', async () => {
+    const { id, expiresAt } = await reservation();
+    const extended = after(expiresAt, config.reservations.holdExtensionMinutes);
+
+    const result = await extendReservationHandler({ bookingId: id, userId: USER_ID });
+
+    expect(result.expiresAt).toEqual(extended);
+    expect(result.extensionsRemaining).toBe(config.reservations.maxHoldExtensions - 1);
+    expect(result.booking).toMatchObject({ holdExtensionCount: 1, version: 2 });
+
+    expect(await bookingOf(id)).toMatchObject({ expires_at: extended, hold_extension_count: 1 });
+    expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.LOCKED, locked_until: extended });
+
+    const [event] = await eventsOf(id);
+    expect(event).toMatchObject({ event_type: 'TICKET_HOLD_EXTENDED', version: 2 });
+    expect(event.payload).toMatchObject({ extensionCount: 1, expiresAt: extended.toISOString() });
+  });
+
+  it('extends by the requested number of minutes', async () => {
+    const { id, expiresAt } = await reservation();
+
+    const result = await extendReservationHandler({ bookingId: id, extensionMinutes: 3 });
+
+    expect(result.expiresAt).toEqual(after(expiresAt, 3));
+  });
+
+  it('never holds a reservation longer than the maximum from when it was made', async () => {
+    const reservedAt = minutesFromNow(-(config.reservations.maxHoldMinutes - 10));
+    const { id } = await reservation({ reserved_at: reservedAt });
+
+    const result = await extendReservationHandler({ bookingId: id });
+
+    expect(result.expiresAt).toEqual(after(reservedAt, config.reservations.maxHoldMinutes));
+  });
+
+  it('refuses once the reservation is held for the maximum time', async () => {
+    const { id } = await reservation({ reserved_at: minutesFromNow(-config.reservations.maxHoldMinutes + 5) });
+
+    await expect(extendReservationHandler({ bookingId: id })).rejects.toThrow(ReservationHoldLimitError);
+    expect(await eventsOf(id)).toEqual([]);
+  });
+
+  it('refuses after the maximum number of extensions', async () => {
+    const { id } = await reservation({ hold_extension_count: config.reservations.maxHoldExtensions });
+
+    await expect(extendReservationHandler({ bookingId: id })).rejects.toThrow(ReservationHoldLimitError);
+  });
+
+  it('reports the last extension as leaving none', async () => {
+    const { id } = await reservation({ hold_extension_count: config.reservations.maxHoldExtensions - 1 });
+
+    const result = await extendReservationHandler({ bookingId: id });
+
+    expect(result.extensionsRemaining).toBe(0);
+  });
+
+  it('refuses a hold that has already expired', async () => {
+    const { id } = await reservation({ expires_at: minutesFromNow(-1) });
+
+    await expect(extendReservationHandler({ bookingId: id })).rejects.toThrow(InvalidBookingStateError);
+  });
+
+  it('refuses bookings that are not reserved', async () => {
+    const { id } = await reservation({ status: BookingStatus.CONFIRMED });
+
+    await expect(extendReservationHandler({ bookingId: id })).rejects.toThrow(InvalidBookingStateError);
+  });
+
+  it("refuses another user's reservation", async () => {
+    const { id, expiresAt } = await reservation();
+
+    await expect(extendReservationHandler({ bookingId: id, userId: OTHER_USER_ID })).rejects.toThrow(ForbiddenError);
+    expect((await bookingOf(id)).expires_at).toEqual(expiresAt);
+  });
+
+  it('refuses when the booking has moved on from the expected version', async () => {
+    const { id } = await reservation({ version: 3 });
+
+    await expect(extendReservationHandler({ bookingId: id, expectedVersion: 2 }))
+      .rejects.toThrow(ConcurrencyConflictError);
+  });
+
+  it('rejects a non-positive extension', async () => {
+    const { id } = await reservation();
+
+    await expect(extendReservationHandler({ bookingId: id, extensionMinutes: 0 })).rejects.toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,148 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { config } from '../config';
+import { eventPublisher } from '../events/publisher';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { mapRowToBooking } from './bookingMapper';
+import { Booking, ExtendReservationCommand } from '../models/booking';
+import {
+  BadRequestError,
+  BookingNotFoundError,
+  ConcurrencyConflictError,
+  ForbiddenError,
+  InvalidBookingStateError,
+  ReservationHoldLimitError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface ExtendReservationResult {
+  booking: Booking;
+  expiresAt: Date;
+  extensionsRemaining: number;
+}
+
+/**
+ * Push a reservation's expiry (and its seat lock) forward, so a slow payment
+ * can still confirm it. Limited to RESERVATION_MAX_HOLD_EXTENSIONS extensions
+ * and RESERVATION_MAX_HOLD_MINUTES from when the reservation was made.
+ */
+export const extendReservationHandler = async (
+  command: ExtendReservationCommand,
+  correlationId?: string
+): Promise<ExtendReservationResult> => {
+  logger.info('Executing ExtendReservation command', { command, correlationId });
+
+  // Validate command
+  validateExtendReservationCommand(command);
+
+  const extensionMinutes = command.extensionMinutes || config.reservations.holdExtensionMinutes;
+
+  const result = await writeDb.transaction(async (client) => {
+    // Get current booking with lock
+    const currentBooking = await client.query(
+      `SELECT * FROM bookings WHERE id = $1 FOR UPDATE`,
+      [command.bookingId]
+    );
+
+    if (currentBooking.rows.length === 0) {
+      throw new BookingNotFoundError(command.bookingId);
+    }
+
+    const existingBooking = currentBooking.rows[0];
+
+    if (command.userId && existingBooking.user_id !== command.userId) {
+      throw new ForbiddenError('You are not authorized to extend this reservation');
+    }
+
+    // Optimistic concurrency check
+    if (command.expectedVersion !== undefined && command.expectedVersion !== existingBooking.version) {
+      throw new ConcurrencyConflictError(command.bookingId, command.expectedVersion, existingBooking.version);
+    }
+
+    // Validate booking state
+    bookingStateMachine.assertCommand(existingBooking.status, 'extend-hold');
+
+    const now = new Date();
+    const previousExpiresAt = new Date(existingBooking.expires_at);
+
+    // An expired hold may already have lost its seat - reserve again instead
+    if (previousExpiresAt < now) {
+      throw new InvalidBookingStateError(existingBooking.status, 'Reservation has expired');
+    }
+
+    if (existingBooking.hold_extension_count >= config.reservations.maxHoldExtensions) {
+      throw new ReservationHoldLimitError(
+        `Reservation was already extended ${existingBooking.hold_extension_count} time(s), the maximum`
+      );
+    }
+
+    const reservedAt = new Date(existingBooking.reserved_at || existingBooking.created_at);
+    const latestExpiry = reservedAt.getTime() + config.reservations.maxHoldMinutes * 60 * 1000;
+    const expiresAt = new Date(Math.min(previousExpiresAt.getTime() + extensionMinutes * 60 * 1000, latestExpiry));
+
+    if (expiresAt <= previousExpiresAt) {
+      throw new ReservationHoldLimitError(
+        `Reservation is already held for the maximum of ${config.reservations.maxHoldMinutes} minutes`
+      );
+    }
+
+    const version = existingBooking.version + 1;
+    const extensionCount = existingBooking.hold_extension_count + 1;
+
+    const updateResult = await client.query(
+      `UPDATE bookings
+       SET expires_at = $1, hold_extension_count = $2, version = $3, updated_at = $4
+       WHERE id = $5
+       RETURNING *`,
+      [expiresAt, extensionCount, version, now, command.bookingId]
+    );
+
+    // Keep the seat locked for as long as the reservation
+    await client.query(
+      `UPDATE seat_availability
+       SET locked_until = $1, updated_at = $2
+       WHERE booking_id = $3 AND status = 'LOCKED'`,
+      [expiresAt, now, command.bookingId]
+    );
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishTicketHoldExtended(
+      client,
+      {
+        bookingId: command.bookingId,
+        userId: existingBooking.user_id,
+        scheduleId: existingBooking.schedule_id,
+        seatNumber: existingBooking.seat_number,
+        previousExpiresAt,
+        expiresAt,
+        extensionCount,
+      },
+      version,
+      correlationId
+    );
+
+    return {
+      booking: mapRowToBooking(updateResult.rows[0]),
+      expiresAt,
+      extensionsRemaining: config.reservations.maxHoldExtensions - extensionCount,
+    };
+  });
+
+  logger.info('ExtendReservation command executed successfully', {
+    bookingId: result.booking.id,
+    expiresAt: result.expiresAt,
+    extensionsRemaining: result.extensionsRemaining,
+  });
+
+  return result;
+};
+
+function validateExtendReservationCommand(command: ExtendReservationCommand): void {
+  if (!command.bookingId) {
+    throw new BadRequestError('bookingId is required');
+  }
+  if (command.extensionMinutes !== undefined && command.extensionMinutes <= 0) {
+    throw new BadRequestError('extensionMinutes must be greater than 0');
+  }
+}
+
+export default extendReservationHandler;
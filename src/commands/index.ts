@@ -2,4 +2,27 @@ export { bookTicketHandler, BookTicketResult } from './bookTicket';
 export { reserveTicketHandler, ReserveTicketResult } from './reserveTicket';
 export { confirmTicketHandler, ConfirmTicketResult } from './confirmTicket';
 export { cancelTicketHandler, CancelTicketResult } from './cancelTicket';
+export { refundTicketHandler, RefundTicketResult } from './refundTicket';
+export { requestPaymentRefundHandler, RequestPaymentRefundResult } from './requestPaymentRefund';
+export { changeTicketHandler, ChangeTicketResult } from './changeTicket';
+export { extendReservationHandler, ExtendReservationResult } from './extendReservation';
+export { validateTicketHandler, ValidateTicketResult } from './validateTicket';
+export {
+  bookGroupHandler,
+  reserveGroupHandler,
+  BookGroupResult,
+  ReserveGroupResult
+} from './bookGroup';
 
+export { expireReservationsHandler, ExpireReservationsResult } from './expireReservations';
+
+export { createVehicleLayoutHandler } from './createVehicleLayout';
+export { assignScheduleLayoutHandler, AssignScheduleLayoutResult } from './assignScheduleLayout';
+export { changeScheduleCapacityHandler, ChangeScheduleCapacityResult } from './changeScheduleCapacity';
+export { blockSeatHandler, unblockSeatHandler, BlockSeatResult } from './blockSeat';
+export { swapScheduleVehicleHandler, SwapScheduleVehicleResult } from './swapScheduleVehicle';
+export { setScheduleDepartureHandler, SetScheduleDepartureResult } from './setScheduleDeparture';
+
+export { setFareHandler } from './setFare';
+export { createFareModifierHandler } from './createFareModifier';
+export { createRefundRuleHandler } from './createRefundRule';
@@ -0,0 +1,134 @@
+import { v4 as uuidv4 } from 'uuid';
+import { refundTicketHandler } from './refundTicket';
+import { BookingStatus } from '../models/booking';
+import { RefundBreakdown } from '../models/refund';
+import {
+  BadRequestError,
+  ConflictError,
+  InvalidBookingStateError,
+  RefundExceedsAmountOwedError
+} from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import { bookingOf, eventsOf, insertBooking } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const PAYMENT_ID = uuidv4();
+
+let bookingId: string;
+
+// A booking paid 25.00, cancelled with `refundAmount` owed back
+async function cancelledBooking(refundAmount: number, method: RefundBreakdown['method'] = 'CASH') {
+  const booking = await insertBooking({
+    status: BookingStatus.CANCELLED,
+    payment_id: PAYMENT_ID,
+    paid_amount: 25,
+    refund_breakdown: JSON.stringify({ refundAmount, method }),
+  });
+  bookingId = booking.id as string;
+}
+
+const refund = (values: { amount?: number; refundTransactionId?: string; currency?: string; paymentId?: string } = {}) =>
+  refundTicketHandler({ bookingId, refundTransactionId: values.refundTransactionId || uuidv4(), ...values });
+
+const recordedAmounts = async () =>
+  (await db.query<{ amount: string }>(`SELECT amount FROM booking_refunds ORDER BY created_at`)).map((row) => row.amount);
+
+describe('refundTicketHandler', () => {
+  it('refunds everything owed when no amount is given', async () => {
+    await cancelledBooking(20);
+
+    const result = await refund();
+
+    expect(result).toMatchObject({ amountOwed: 20, totalRefunded: 20, fullyRefunded: true, duplicate: false });
+    expect(await bookingOf(bookingId)).toMatchObject({ status: BookingStatus.REFUNDED, refunded_amount: '20.00' });
+
+    const [event] = await eventsOf(bookingId);
+    expect(event).toMatchObject({ event_type: 'TICKET_REFUNDED', version: 2 });
+    expect(event.payload).toMatchObject({ refundAmount: 20, totalRefunded: 20, amountOwed: 20, fullyRefunded: true });
+  });
+
+  it('keeps the booking cancelled after a partial refund', async () => {
+    await cancelledBooking(20);
+
+    const result = await refund({ amount: 7.5 });
+
+    expect(result).toMatchObject({ totalRefunded: 7.5, fullyRefunded: false });
+    expect(await bookingOf(bookingId)).toMatchObject({ status: BookingStatus.CANCELLED, refunded_amount: '7.50' });
+  });
+
+  it('adds up several refunds until the amount owed is paid back', async () => {
+    await cancelledBooking(20);
+
+    await refund({ amount: 7.5 });
+    await refund({ amount: 10 });
+    const result = await refund();
+
+    expect(result.refund.amount).toBe(2.5);
+    expect(result.refunds.map((r) => r.amount)).toEqual([7.5, 10, 2.5]);
+    expect(await recordedAmounts()).toEqual(['7.50', '10.00', '2.50']);
+    expect((await bookingOf(bookingId)).status).toBe(BookingStatus.REFUNDED);
+  });
+
+  it('refuses to refund more than is still owed', async () => {
+    await cancelledBooking(20);
+    await refund({ amount: 15 });
+
+    await expect(refund({ amount: 5.01 })).rejects.toThrow(RefundExceedsAmountOwedError);
+    expect(await recordedAmounts()).toEqual(['15.00']);
+  });
+
+  it('records a refund transaction reported again only once', async () => {
+    await cancelledBooking(20);
+    const refundTransactionId = uuidv4();
+
+    await refund({ amount: 5, refundTransactionId });
+    const result = await refund({ amount: 5, refundTransactionId });
+
+    expect(result).toMatchObject({ duplicate: true, totalRefunded: 5 });
+    expect(await recordedAmounts()).toEqual(['5.00']);
+  });
+
+  describe('a booking owed nothing', () => {
+    beforeEach(async () => {
+      await cancelledBooking(0);
+    });
+
+    it('is closed with a zero refund', async () => {
+      const result = await refund();
+
+      expect(result).toMatchObject({ amountOwed: 0, totalRefunded: 0, fullyRefunded: true });
+      expect(await recordedAmounts()).toEqual(['0.00']);
+      expect((await bookingOf(bookingId)).status).toBe(BookingStatus.REFUNDED);
+    });
+
+    it('refuses money it is not owed', async () => {
+      await expect(refund({ amount: 1 })).rejects.toThrow(RefundExceedsAmountOwedError);
+    });
+
+    it('stays refunded when the zero refund is reported again', async () => {
+      const refundTransactionId = uuidv4();
+
+      await refund({ refundTransactionId });
+      const result = await refund({ refundTransactionId });
+
+      expect(result.duplicate).toBe(true);
+    });
+  });
+
+  it('refunds only cancelled bookings', async () => {
+    await cancelledBooking(20);
+    await db.query(`UPDATE bookings SET status = $1`, [BookingStatus.CONFIRMED]);
+
+    await expect(refund()).rejects.toThrow(InvalidBookingStateError);
+  });
+
+  it('refuses a refund of another payment or in another currency', async () => {
+    await cancelledBooking(20);
+
+    await expect(refund({ paymentId: uuidv4() })).rejects.toThrow(ConflictError);
+    await expect(refund({ currency: 'EUR' })).rejects.toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,221 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { mapRowToBooking } from './bookingMapper';
+import { Booking, BookingStatus, RefundTicketCommand } from '../models/booking';
+import { BookingRefund, RefundBreakdown, RefundMethod } from '../models/refund';
+import {
+  BadRequestError,
+  BookingNotFoundError,
+  ConflictError,
+  RefundExceedsAmountOwedError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface RefundTicketResult {
+  booking: Booking;
+  refund: BookingRefund;
+  refunds: BookingRefund[]; // Every refund transaction of the booking so far
+  amountOwed: number;
+  totalRefunded: number;
+  fullyRefunded: boolean;
+  duplicate: boolean; // The refund transaction was already recorded
+}
+
+/**
+ * Record money the payment side returned for a cancelled booking. A booking
+ * can be refunded in several transactions; it becomes REFUNDED once the
+ * refund owed has been paid back in full, or at once when nothing is owed.
+ */
+export const refundTicketHandler = async (
+  command: RefundTicketCommand,
+  correlationId?: string
+): Promise<RefundTicketResult> => {
+  logger.info('Executing RefundTicket command', { command, correlationId });
+
+  // Validate command
+  validateRefundTicketCommand(command);
+
+  const result = await writeDb.transaction(async (client) => {
+    // Get current booking with lock
+    const currentBooking = await client.query(
+      `SELECT * FROM bookings WHERE id = $1 FOR UPDATE`,
+      [command.bookingId]
+    );
+
+    if (currentBooking.rows.length === 0) {
+      throw new BookingNotFoundError(command.bookingId);
+    }
+
+    const existingBooking = currentBooking.rows[0];
+    const amountOwed = amountOwedOf(existingBooking);
+
+    const previousRefunds = await client.query(
+      `SELECT * FROM booking_refunds WHERE booking_id = $1 ORDER BY refunded_at, created_at`,
+      [command.bookingId]
+    );
+
+    // The payment side retries its reports - a known transaction changes nothing
+    const recorded = previousRefunds.rows.find(
+      (row) => row.refund_transaction_id === command.refundTransactionId
+    );
+    if (recorded) {
+      const booking = mapRowToBooking(existingBooking);
+      return {
+        booking,
+        refund: mapRowToBookingRefund(recorded),
+        refunds: previousRefunds.rows.map(mapRowToBookingRefund),
+        amountOwed,
+        totalRefunded: booking.refundedAmount,
+        fullyRefunded: booking.status === BookingStatus.REFUNDED,
+        duplicate: true,
+      };
+    }
+
+    // Only a cancelled booking is refunded - REFUNDED ones are already paid back in full
+    bookingStateMachine.assertTransition(existingBooking.status, BookingStatus.REFUNDED);
+
+    if (command.paymentId && existingBooking.payment_id !== command.paymentId) {
+      throw new ConflictError(`Payment ${command.paymentId} did not pay for booking ${command.bookingId}`);
+    }
+
+    if (command.currency && command.currency !== existingBooking.currency) {
+      throw new BadRequestError(`Refund currency must be ${existingBooking.currency}`);
+    }
+
+    const refundedSoFar = parseFloat(existingBooking.refunded_amount);
+    const remaining = roundCents(amountOwed - refundedSoFar);
+
+    // A booking owed nothing (e.g. a non-refundable fare) is closed with a zero refund
+    const amount = command.amount ?? remaining;
+    if (amount > remaining) {
+      throw new RefundExceedsAmountOwedError(amount, remaining, existingBooking.currency);
+    }
+
+    const now = new Date();
+    const version = existingBooking.version + 1;
+    const totalRefunded = roundCents(refundedSoFar + amount);
+    const fullyRefunded = totalRefunded >= amountOwed;
+    const refundBreakdown = existingBooking.refund_breakdown as RefundBreakdown | null;
+    const method: RefundMethod = command.refundMethod || refundBreakdown?.method || 'CASH';
+
+    const refundResult = await client.query(
+      `INSERT INTO booking_refunds (
+        booking_id, refund_transaction_id, payment_id, amount, currency, method, reason, refunded_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *`,
+      [
+        command.bookingId,
+        command.refundTransactionId,
+        existingBooking.payment_id,
+        amount,
+        existingBooking.currency,
+        method,
+        command.reason || null,
+        now,
+      ]
+    );
+
+    // The booking stays CANCELLED until the last part of the refund arrives
+    const updateResult = await client.query(
+      `UPDATE bookings
+       SET status = $1, refunded_amount = $2, refunded_at = $3, version = $4, updated_at = $5
+       WHERE id = $6
+       RETURNING *`,
+      [
+        fullyRefunded ? BookingStatus.REFUNDED : BookingStatus.CANCELLED,
+        totalRefunded,
+        fullyRefunded ? now : null,
+        version,
+        now,
+        command.bookingId,
+      ]
+    );
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishTicketRefunded(
+      client,
+      {
+        bookingId: command.bookingId,
+        userId: existingBooking.user_id,
+        refundAmount: amount,
+        refundedAt: now,
+        refundTransactionId: command.refundTransactionId,
+        paymentId: existingBooking.payment_id || undefined,
+        currency: existingBooking.currency,
+        refundMethod: method,
+        totalRefunded,
+        amountOwed,
+        fullyRefunded,
+      },
+      version,
+      correlationId
+    );
+
+    const refund = mapRowToBookingRefund(refundResult.rows[0]);
+
+    return {
+      booking: mapRowToBooking(updateResult.rows[0]),
+      refund,
+      refunds: [...previousRefunds.rows.map(mapRowToBookingRefund), refund],
+      amountOwed,
+      totalRefunded,
+      fullyRefunded,
+      duplicate: false,
+    };
+  });
+
+  logger.info('RefundTicket command executed successfully', {
+    bookingId: result.booking.id,
+    refundAmount: result.refund.amount,
+    totalRefunded: result.totalRefunded,
+    fullyRefunded: result.fullyRefunded,
+    duplicate: result.duplicate,
+  });
+
+  return result;
+};
+
+/**
+ * What the booking is owed - the refund calculated on cancellation, or the
+ * full amount paid for bookings cancelled before refund policies existed
+ */
+function amountOwedOf(booking: Record<string, unknown>): number {
+  const refundBreakdown = booking.refund_breakdown as RefundBreakdown | null;
+  if (refundBreakdown) {
+    return refundBreakdown.refundAmount;
+  }
+  return booking.payment_id ? parseFloat((booking.paid_amount ?? booking.price) as string) : 0;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function validateRefundTicketCommand(command: RefundTicketCommand): void {
+  if (!command.bookingId) {
+    throw new BadRequestError('bookingId is required');
+  }
+  if (!command.refundTransactionId) {
+    throw new BadRequestError('refundTransactionId is required');
+  }
+  if (command.amount !== undefined && (command.amount <= 0 || roundCents(command.amount) !== command.amount)) {
+    throw new BadRequestError('amount must be a positive amount in whole cents');
+  }
+}
+
+function mapRowToBookingRefund(row: Record<string, unknown>): BookingRefund {
+  return {
+    id: row.id as string,
+    bookingId: row.booking_id as string,
+    refundTransactionId: row.refund_transaction_id as string,
+    paymentId: row.payment_id as string | null,
+    amount: parseFloat(row.amount as string),
+    currency: row.currency as string,
+    method: row.method as RefundMethod,
+    reason: row.reason as string | null,
+    refundedAt: new Date(row.refunded_at as string),
+  };
+}
+
+export default refundTicketHandler;
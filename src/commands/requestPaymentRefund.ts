@@ -0,0 +1,119 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { TicketEventType } from '../events/types';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { mapRowToBooking } from './bookingMapper';
+import { Booking, BookingStatus, RequestPaymentRefundCommand } from '../models/booking';
+import {
+  BadRequestError,
+  BookingNotFoundError,
+  ConflictError,
+  InvalidBookingStateError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface RequestPaymentRefundResult {
+  booking: Booking;
+  duplicate: boolean; // The refund of this payment was already requested
+}
+
+/**
+ * Ask the payment service to return a payment that arrived after its booking
+ * expired or was cancelled. The booking keeps its status; the request is a
+ * TICKET_PAYMENT_REFUND_REQUESTED event on the booking, made once per payment.
+ */
+export const requestPaymentRefundHandler = async (
+  command: RequestPaymentRefundCommand,
+  correlationId?: string
+): Promise<RequestPaymentRefundResult> => {
+  logger.info('Executing RequestPaymentRefund command', { command, correlationId });
+
+  // Validate command
+  validateRequestPaymentRefundCommand(command);
+
+  const result = await writeDb.transaction(async (client) => {
+    // Get current booking with lock
+    const currentBooking = await client.query(
+      `SELECT * FROM bookings WHERE id = $1 FOR UPDATE`,
+      [command.bookingId]
+    );
+
+    if (currentBooking.rows.length === 0) {
+      throw new BookingNotFoundError(command.bookingId);
+    }
+
+    const existingBooking = currentBooking.rows[0];
+
+    // The payment service redelivers its events - a payment is returned once
+    const requested = await client.query(
+      `SELECT 1 FROM booking_events
+       WHERE aggregate_id = $1 AND event_type = $2 AND payload->>'paymentId' = $3`,
+      [command.bookingId, TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED, command.paymentId]
+    );
+    if (requested.rows.length > 0) {
+      return { booking: mapRowToBooking(existingBooking), duplicate: true };
+    }
+
+    if (existingBooking.payment_id === command.paymentId) {
+      throw new ConflictError(`Payment ${command.paymentId} paid for booking ${command.bookingId}`);
+    }
+
+    // A reservation still on hold is confirmed with the payment instead
+    const onHold = !existingBooking.expires_at || new Date(existingBooking.expires_at) >= new Date();
+    if (bookingStateMachine.canTransition(existingBooking.status, BookingStatus.CONFIRMED) && onHold) {
+      throw new InvalidBookingStateError(existingBooking.status, 'a booking that can no longer be confirmed');
+    }
+
+    const now = new Date();
+    const version = existingBooking.version + 1;
+
+    const updateResult = await client.query(
+      `UPDATE bookings SET version = $1, updated_at = $2 WHERE id = $3 RETURNING *`,
+      [version, now, command.bookingId]
+    );
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishTicketPaymentRefundRequested(
+      client,
+      {
+        bookingId: command.bookingId,
+        userId: existingBooking.user_id,
+        paymentId: command.paymentId,
+        amount: command.amount,
+        currency: command.currency,
+        bookingStatus: existingBooking.status,
+        reason: command.reason || `Booking is ${existingBooking.status}`,
+        requestedAt: now,
+      },
+      version,
+      correlationId
+    );
+
+    return { booking: mapRowToBooking(updateResult.rows[0]), duplicate: false };
+  });
+
+  logger.info('RequestPaymentRefund command executed successfully', {
+    bookingId: result.booking.id,
+    paymentId: command.paymentId,
+    duplicate: result.duplicate,
+  });
+
+  return result;
+};
+
+function validateRequestPaymentRefundCommand(command: RequestPaymentRefundCommand): void {
+  if (!command.bookingId) {
+    throw new BadRequestError('bookingId is required');
+  }
+  if (!command.paymentId) {
+    throw new BadRequestError('paymentId is required');
+  }
+  if (!(command.amount > 0)) {
+    throw new BadRequestError('amount must be positive');
+  }
+  if (!command.currency) {
+    throw new BadRequestError('currency is required');
+  }
+}
+
+export default requestPaymentRefundHandler;
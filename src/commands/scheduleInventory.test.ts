@@ -0,0 +1,119 @@
+import { countHeldSeats, takeCapacity } from './scheduleInventory';
+import { bookTicketHandler } from './bookTicket';
+import { reserveTicketHandler } from './reserveTicket';
+import { bookGroupHandler } from './bookGroup';
+import { changeTicketHandler } from './changeTicket';
+import { config } from '../config';
+import { BookingStatus } from '../models/booking';
+import { BadRequestError, InsufficientSeatsError } from '../utils/errors';
+import { testClient, useTestDatabase } from '../testing/database';
+import {
+  insertBooking,
+  insertFare,
+  insertReservation,
+  insertSchedule,
+  minutesFromNow,
+  OTHER_ROUTE_ID,
+  OTHER_SCHEDULE_ID,
+  ROUTE_ID,
+  SCHEDULE_ID,
+  USER_ID,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const passenger = { passengerName: 'Ada Lovelace', passengerEmail: 'ada@example.com' };
+const ticket = { userId: USER_ID, routeId: ROUTE_ID, scheduleId: SCHEDULE_ID, ...passenger };
+
+const bookingCount = async () => (await db.query(`SELECT id FROM bookings`)).length;
+
+describe('countHeldSeats', () => {
+  it('counts pending, live reserved, confirmed and used bookings', async () => {
+    await insertBooking({ status: BookingStatus.PENDING });
+    await insertReservation();
+    await insertBooking({ status: BookingStatus.CONFIRMED });
+    await insertBooking({ status: BookingStatus.USED });
+    await insertReservation({ expires_at: minutesFromNow(-1) });
+    await insertBooking({ status: BookingStatus.CANCELLED });
+    await insertBooking({ status: BookingStatus.EXPIRED });
+    await insertBooking({ status: BookingStatus.CONFIRMED, schedule_id: OTHER_SCHEDULE_ID });
+
+    expect(await countHeldSeats(testClient, SCHEDULE_ID)).toBe(4);
+  });
+});
+
+describe('takeCapacity', () => {
+  it('refuses more tickets than the capacity leaves', async () => {
+    await insertSchedule({ capacity: 3 });
+    await insertBooking();
+
+    await expect(takeCapacity(testClient, SCHEDULE_ID, ROUTE_ID, 3)).rejects.toThrow(/only 2 of the 3 seats/);
+    await expect(takeCapacity(testClient, SCHEDULE_ID, ROUTE_ID, 2)).resolves.toBeUndefined();
+  });
+
+  it('gives a schedule without an inventory the default capacity', async () => {
+    await db.query(`INSERT INTO schedule_inventory (schedule_id, capacity) VALUES ($1, 1)`, [OTHER_SCHEDULE_ID]);
+
+    await expect(takeCapacity(testClient, SCHEDULE_ID, ROUTE_ID, config.schedules.defaultCapacity))
+      .resolves.toBeUndefined();
+    await expect(takeCapacity(testClient, SCHEDULE_ID, ROUTE_ID, config.schedules.defaultCapacity + 1))
+      .rejects.toThrow(InsufficientSeatsError);
+  });
+
+  it("records the schedule's route, then refuses other routes", async () => {
+    await insertSchedule({ route_id: null });
+
+    await takeCapacity(testClient, SCHEDULE_ID, ROUTE_ID, 1);
+
+    expect((await db.queryOne<{ route_id: string }>(`SELECT route_id FROM schedule_inventory`))!.route_id)
+      .toBe(ROUTE_ID);
+    await expect(takeCapacity(testClient, SCHEDULE_ID, OTHER_ROUTE_ID, 1)).rejects.toThrow(BadRequestError);
+  });
+});
+
+describe('a full schedule', () => {
+  // One place left on a schedule without seats, taken by a reservation
+  beforeEach(async () => {
+    await insertFare();
+    await insertSchedule({ capacity: 2 });
+    await insertBooking();
+    await insertReservation();
+  });
+
+  it('refuses bookings and reservations', async () => {
+    await expect(bookTicketHandler(ticket)).rejects.toThrow(InsufficientSeatsError);
+    await expect(reserveTicketHandler(ticket)).rejects.toThrow(InsufficientSeatsError);
+    expect(await bookingCount()).toBe(2);
+  });
+
+  it('takes bookings again once a reservation expired', async () => {
+    await db.query(`UPDATE bookings SET expires_at = $1 WHERE status = $2`, [minutesFromNow(-1), BookingStatus.RESERVED]);
+
+    const { booking } = await bookTicketHandler(ticket);
+
+    expect(booking.seatNumber).toBeNull();
+  });
+
+  it('refuses a group that does not fit as a whole', async () => {
+    await db.query(`UPDATE schedule_inventory SET capacity = 3`);
+
+    await expect(bookGroupHandler({
+      userId: USER_ID,
+      routeId: ROUTE_ID,
+      scheduleId: SCHEDULE_ID,
+      contactEmail: 'ada@example.com',
+      passengers: [passenger, { passengerName: 'Charles Babbage' }],
+    })).rejects.toThrow(InsufficientSeatsError);
+    expect(await bookingCount()).toBe(2);
+  });
+
+  it('refuses ticket changes onto it', async () => {
+    await insertSchedule({ schedule_id: OTHER_SCHEDULE_ID });
+    const moving = await insertBooking({ schedule_id: OTHER_SCHEDULE_ID, payment_id: null });
+
+    await expect(changeTicketHandler({ bookingId: moving.id as string, scheduleId: SCHEDULE_ID }))
+      .rejects.toThrow(InsufficientSeatsError);
+  });
+});
@@ -0,0 +1,92 @@
+import { PoolClient } from 'pg';
+import { config } from '../config';
+import { BookingStatus } from '../models/booking';
+import { ScheduleInventory } from '../models/inventory';
+import { BadRequestError, InsufficientSeatsError } from '../utils/errors';
+
+// Bookings that hold a place on their schedule
+const HOLDING_STATUSES = [BookingStatus.PENDING, BookingStatus.RESERVED, BookingStatus.CONFIRMED, BookingStatus.USED];
+
+/**
+ * Load a schedule's inventory row with a lock, creating it on first use.
+ * Schedules provisioned before inventory existed start with their unblocked
+ * seat count (or the default capacity if they have no seats).
+ */
+export async function lockScheduleInventory(
+  client: PoolClient,
+  scheduleId: string
+): Promise<ScheduleInventory> {
+  await client.query(
+    `INSERT INTO schedule_inventory (schedule_id, capacity)
+     SELECT $1, COALESCE(NULLIF(COUNT(*) FILTER (WHERE status <> 'BLOCKED'), 0), $2)
+     FROM seat_availability
+     WHERE schedule_id = $1
+     ON CONFLICT (schedule_id) DO NOTHING`,
+    [scheduleId, config.schedules.defaultCapacity]
+  );
+
+  const result = await client.query(
+    `SELECT * FROM schedule_inventory WHERE schedule_id = $1 FOR UPDATE`,
+    [scheduleId]
+  );
+
+  return mapRowToInventory(result.rows[0]);
+}
+
+/**
+ * Make room for `count` more tickets on a schedule of a route. The inventory
+ * stays locked until the transaction ends, so concurrent bookings of the
+ * schedule are checked one after another - seated or not. The schedule's
+ * route is recorded by its first booking.
+ */
+export async function takeCapacity(
+  client: PoolClient,
+  scheduleId: string,
+  routeId: string,
+  count: number
+): Promise<void> {
+  const inventory = await lockScheduleInventory(client, scheduleId);
+
+  if (inventory.routeId && inventory.routeId !== routeId) {
+    throw new BadRequestError(`Schedule ${scheduleId} is not a schedule of route ${routeId}`);
+  }
+  if (!inventory.routeId) {
+    await client.query(`UPDATE schedule_inventory SET route_id = $1 WHERE schedule_id = $2`, [routeId, scheduleId]);
+  }
+
+  const held = await countHeldSeats(client, scheduleId);
+
+  if (held + count > inventory.capacity) {
+    throw new InsufficientSeatsError(
+      `${count} seat(s) requested but only ${Math.max(0, inventory.capacity - held)} of the ` +
+      `${inventory.capacity} seats of schedule ${scheduleId} are left`
+    );
+  }
+}
+
+/**
+ * Tickets booked or held on a schedule - reservations past their expiry no
+ * longer count, whether the expiry worker got to them yet or not
+ */
+export async function countHeldSeats(client: PoolClient, scheduleId: string): Promise<number> {
+  const result = await client.query(
+    `SELECT COUNT(*) AS count FROM bookings
+     WHERE schedule_id = $1 AND status = ANY($2::varchar[])
+     AND NOT (status = $3 AND expires_at < NOW())`,
+    [scheduleId, HOLDING_STATUSES, BookingStatus.RESERVED]
+  );
+  return parseInt(result.rows[0].count, 10);
+}
+
+export function mapRowToInventory(row: Record<string, unknown>): ScheduleInventory {
+  return {
+    scheduleId: row.schedule_id as string,
+    routeId: row.route_id as string | null,
+    layoutId: row.layout_id as string | null,
+    capacity: row.capacity as number,
+    departureTime: row.departure_time ? new Date(row.departure_time as string) : null,
+    version: row.version as number,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
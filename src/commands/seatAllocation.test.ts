@@ -0,0 +1,169 @@
+import { PoolClient } from 'pg';
+import { allocateSeats } from './seatAllocation';
+import { SeatStatus } from '../models/booking';
+import { SeatFeature } from '../models/inventory';
+import { InsufficientSeatsError } from '../utils/errors';
+import { testClient, useTestDatabase } from '../testing/database';
+import { insertSchedule, minutesFromNow, SCHEDULE_ID, seatRows } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+// Three rows of four seats side by side: 1A..1D, 2A..2D, 3A..3D
+const layout = () => insertSchedule({}, seatRows(3));
+
+const setStatus = (status: SeatStatus, seatNumbers: string[]) =>
+  db.query(
+    `UPDATE seat_availability SET status = $1 WHERE schedule_id = $2 AND seat_number = ANY($3::varchar[])`,
+    [status, SCHEDULE_ID, seatNumbers]
+  );
+
+/**
+ * A client on which another booking takes seats between the allocator's choice
+ * and its lock: `take` gets the seats about to be locked and returns those the
+ * other booking takes first
+ */
+function racingClient(take: (chosen: string[]) => string[]) {
+  const locks: string[][] = [];
+
+  const query = async (text: string, params?: unknown[]) => {
+    if (text.includes('FOR UPDATE SKIP LOCKED')) {
+      const chosen = params![1] as string[];
+      locks.push(chosen);
+      await setStatus(SeatStatus.BOOKED, take(chosen));
+    }
+    return testClient.query(text, params);
+  };
+
+  return { client: { query } as unknown as PoolClient, locks };
+}
+
+describe('allocateSeats', () => {
+  it('returns null for a schedule without seat inventory', async () => {
+    await insertSchedule();
+
+    expect(await allocateSeats(testClient, SCHEDULE_ID, 1)).toBeNull();
+  });
+
+  describe('a single seat', () => {
+    it('picks the seat best matching the preferences', async () => {
+      await layout();
+
+      const allocation = await allocateSeats(testClient, SCHEDULE_ID, 1, { position: 'WINDOW', zone: 'BACK' });
+
+      // The outermost seats of a row count as window seats
+      expect(allocation).toEqual({ seatNumbers: ['3A'], together: true });
+    });
+
+    it('keeps accessible seats for passengers who ask for them', async () => {
+      await layout();
+      await db.query(`UPDATE seat_availability SET features = $1 WHERE seat_number = '1A'`, [
+        JSON.stringify([SeatFeature.ACCESSIBLE]),
+      ]);
+
+      const other = await allocateSeats(testClient, SCHEDULE_ID, 1);
+      const accessible = await allocateSeats(testClient, SCHEDULE_ID, 1, { accessible: true });
+
+      expect(other!.seatNumbers).toEqual(['1B']);
+      expect(accessible!.seatNumbers).toEqual(['1A']);
+    });
+
+    it('does not pick seats the caller excludes', async () => {
+      await layout();
+
+      const allocation = await allocateSeats(testClient, SCHEDULE_ID, 1, {}, { exclude: ['1A'] });
+
+      expect(allocation!.seatNumbers).toEqual(['1B']);
+    });
+
+    it('takes seats whose lock ran out only when asked to', async () => {
+      await layout();
+      await db.query(
+        `UPDATE seat_availability SET status = $1, locked_until = $2 WHERE seat_number = '1A'`,
+        [SeatStatus.LOCKED, minutesFromNow(-1)]
+      );
+
+      const plain = await allocateSeats(testClient, SCHEDULE_ID, 1);
+      const reclaiming = await allocateSeats(testClient, SCHEDULE_ID, 1, {}, { reclaimExpiredLocks: true });
+
+      expect(plain!.seatNumbers).toEqual(['1B']);
+      expect(reclaiming!.seatNumbers).toEqual(['1A']);
+    });
+  });
+
+  describe('a group', () => {
+    it('seats the group side by side in one row', async () => {
+      await layout();
+      await setStatus(SeatStatus.BOOKED, ['1B', '2C']);
+
+      const allocation = await allocateSeats(testClient, SCHEDULE_ID, 3);
+
+      expect(allocation).toEqual({ seatNumbers: ['3A', '3B', '3C'], together: true });
+    });
+
+    it('prefers the row matching the preferences', async () => {
+      await layout();
+
+      const allocation = await allocateSeats(testClient, SCHEDULE_ID, 2, { zone: 'BACK' });
+
+      expect(allocation!.seatNumbers.every((seat) => seat.startsWith('3'))).toBe(true);
+      expect(allocation!.together).toBe(true);
+    });
+
+    it('falls back to the closest free seats when no row has enough side by side', async () => {
+      await layout();
+      // Free: 1A, 1C, 2A, 3D
+      await setStatus(SeatStatus.BOOKED, ['1B', '1D', '2B', '2C', '2D', '3A', '3B', '3C']);
+
+      const allocation = await allocateSeats(testClient, SCHEDULE_ID, 3);
+
+      expect(allocation).toEqual({ seatNumbers: ['1A', '1C', '2A'], together: false });
+    });
+
+    it('throws when fewer seats are free than requested', async () => {
+      await layout();
+      await setStatus(SeatStatus.BOOKED, seatRows(3).slice(2));
+
+      await expect(allocateSeats(testClient, SCHEDULE_ID, 3)).rejects.toThrow(InsufficientSeatsError);
+    });
+  });
+
+  describe('locking', () => {
+    it('locks only the chosen seats', async () => {
+      await layout();
+      const { client, locks } = racingClient(() => []);
+
+      await allocateSeats(client, SCHEDULE_ID, 2);
+
+      expect(locks).toEqual([['1A', '1B']]);
+    });
+
+    it('chooses again without the seats another booking took meanwhile', async () => {
+      await layout();
+      const { client, locks } = racingClient((chosen) => (chosen.includes('1A') ? ['1A'] : []));
+
+      const allocation = await allocateSeats(client, SCHEDULE_ID, 1, { position: 'WINDOW' });
+
+      expect(allocation!.seatNumbers).toEqual(['1D']);
+      expect(locks).toEqual([['1A'], ['1D']]);
+    });
+
+    it('moves the whole group when part of it is taken meanwhile', async () => {
+      await layout();
+      const { client } = racingClient((chosen) => (chosen.includes('1B') ? ['1B'] : []));
+
+      const allocation = await allocateSeats(client, SCHEDULE_ID, 2);
+
+      expect(allocation).toEqual({ seatNumbers: ['1C', '1D'], together: true });
+    });
+
+    it('gives up when the seats keep being taken', async () => {
+      await layout();
+      const { client, locks } = racingClient((chosen) => chosen);
+
+      await expect(allocateSeats(client, SCHEDULE_ID, 1)).rejects.toThrow(/kept being taken/);
+      expect(locks).toHaveLength(5);
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { PoolClient } from 'pg';
+import { SeatPreferences, SeatStatus } from '../models/booking';
+import { SeatFeature } from '../models/inventory';
+import { InsufficientSeatsError } from '../utils/errors';
+
+// Weights of the preferences when scoring a seat
+const POSITION_WEIGHT = 4;
+const ZONE_WEIGHT = 3;
+const ACCESSIBLE_WEIGHT = 8;
+const ACCESSIBLE_RESERVE_PENALTY = 2; // Keep accessible seats for passengers who ask for them
+const QUIET_ZONE_WEIGHT = 4;
+
+// Distance between seats when a group can't sit in one row
+const DECK_DISTANCE = 1000;
+const ROW_DISTANCE = 2;
+
+// Rounds of choosing seats again when concurrent bookings take the chosen ones
+const MAX_LOCK_ATTEMPTS = 5;
+
+interface SeatRow {
+  seat_number: string;
+  seat_row: number | null;
+  seat_column: number | null;
+  deck: number | null;
+  features: SeatFeature[] | null;
+}
+
+interface CandidateSeat {
+  seatNumber: string;
+  row: number | null;
+  column: number | null;
+  deck: number;
+  features: Set<SeatFeature>;
+  score: number;
+}
+
+export interface AllocateSeatsOptions {
+  reclaimExpiredLocks?: boolean; // Reservations may take seats whose lock ran out
+  exclude?: string[]; // Seats the caller already holds in this transaction
+}
+
+export interface SeatAllocation {
+  seatNumbers: string[];
+  together: boolean; // All seats side by side in one row
+}
+
+/**
+ * Pick and lock free seats of a schedule. A single seat is the best match for
+ * the preferences; several seats are kept side by side in one row when possible,
+ * else as close together as the free seats allow. Seats being taken by another
+ * transaction are skipped rather than waited for, and the choice made again.
+ *
+ * Returns null when the schedule has no seat inventory - its tickets are unseated.
+ */
+export async function allocateSeats(
+  client: PoolClient,
+  scheduleId: string,
+  count: number,
+  preferences: SeatPreferences = {},
+  options: AllocateSeatsOptions = {}
+): Promise<SeatAllocation | null> {
+  // Positions are relative to the whole vehicle, taken or not
+  const layout = await client.query<SeatRow>(
+    `SELECT seat_number, seat_row, seat_column, deck, features
+     FROM seat_availability
+     WHERE schedule_id = $1`,
+    [scheduleId]
+  );
+
+  if (layout.rows.length === 0) {
+    return null;
+  }
+
+  const geometry = describeLayout(layout.rows);
+  const unavailable = new Set(options.exclude || []);
+
+  // Choose from an unlocked read, then lock only the chosen seats - locking every
+  // free seat would leave concurrent bookings of the schedule with none to pick
+  for (let attempt = 0; attempt < MAX_LOCK_ATTEMPTS; attempt++) {
+    const free = await client.query<SeatRow>(
+      `SELECT seat_number, seat_row, seat_column, deck, features
+       FROM seat_availability
+       WHERE schedule_id = $1
+       AND NOT (seat_number = ANY($2::varchar[]))
+       AND (status = $3 OR ($4 AND status = $5 AND locked_until < NOW()))
+       ORDER BY deck, seat_row, seat_column, seat_number`,
+      [scheduleId, [...unavailable], SeatStatus.AVAILABLE, !!options.reclaimExpiredLocks, SeatStatus.LOCKED]
+    );
+
+    if (free.rows.length < count) {
+      throw new InsufficientSeatsError(
+        `${count} seat(s) requested but only ${free.rows.length} are available`
+      );
+    }
+
+    const allocation = pickSeats(free.rows.map((row) => toCandidate(row, geometry, preferences)), count);
+
+    const locked = await client.query<{ seat_number: string }>(
+      `SELECT seat_number
+       FROM seat_availability
+       WHERE schedule_id = $1
+       AND seat_number = ANY($2::varchar[])
+       AND (status = $3 OR ($4 AND status = $5 AND locked_until < NOW()))
+       ORDER BY seat_number
+       FOR UPDATE SKIP LOCKED`,
+      [scheduleId, allocation.seatNumbers, SeatStatus.AVAILABLE, !!options.reclaimExpiredLocks, SeatStatus.LOCKED]
+    );
+
+    if (locked.rows.length === allocation.seatNumbers.length) {
+      return allocation;
+    }
+
+    // Another transaction took some of the chosen seats - choose again without them
+    const lockedSeats = new Set(locked.rows.map((row) => row.seat_number));
+    for (const seatNumber of allocation.seatNumbers) {
+      if (!lockedSeats.has(seatNumber)) {
+        unavailable.add(seatNumber);
+      }
+    }
+  }
+
+  throw new InsufficientSeatsError(
+    `Seats of schedule ${scheduleId} kept being taken by concurrent bookings, please retry`
+  );
+}
+
+/**
+ * The best single seat, or the best group of seats - side by side in one row
+ * when possible
+ */
+function pickSeats(candidates: CandidateSeat[], count: number): SeatAllocation {
+  if (count === 1) {
+    const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+    return { seatNumbers: [best.seatNumber], together: true };
+  }
+
+  const inRow = bestRun(candidates, count);
+  if (inRow) {
+    return { seatNumbers: inRow.map((seat) => seat.seatNumber), together: true };
+  }
+
+  return { seatNumbers: closestCluster(candidates, count).map((seat) => seat.seatNumber), together: false };
+}
+
+interface LayoutGeometry {
+  rowColumns: Map<string, Set<number>>; // deck:row -> columns that have a seat
+  minRow: number;
+  maxRow: number;
+}
+
+function describeLayout(rows: SeatRow[]): LayoutGeometry {
+  const rowColumns = new Map<string, Set<number>>();
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+
+  for (const row of rows) {
+    if (row.seat_row === null || row.seat_column === null) {
+      continue;
+    }
+    const key = rowKey(row.deck ?? 1, row.seat_row);
+    if (!rowColumns.has(key)) {
+      rowColumns.set(key, new Set());
+    }
+    rowColumns.get(key)!.add(row.seat_column);
+    minRow = Math.min(minRow, row.seat_row);
+    maxRow = Math.max(maxRow, row.seat_row);
+  }
+
+  return { rowColumns, minRow, maxRow };
+}
+
+function toCandidate(row: SeatRow, geometry: LayoutGeometry, preferences: SeatPreferences): CandidateSeat {
+  const seat: CandidateSeat = {
+    seatNumber: row.seat_number,
+    row: row.seat_row,
+    column: row.seat_column,
+    deck: row.deck ?? 1,
+    features: new Set(row.features || []),
+    score: 0,
+  };
+
+  // Layouts without explicit WINDOW/AISLE seats: the outermost seats of a row
+  // are window seats, seats next to a gap are aisle seats
+  if (!seat.features.has(SeatFeature.WINDOW) && !seat.features.has(SeatFeature.AISLE) &&
+      seat.row !== null && seat.column !== null) {
+    const columns = geometry.rowColumns.get(rowKey(seat.deck, seat.row))!;
+    const min = Math.min(...columns);
+    const max = Math.max(...columns);
+
+    if (seat.column === min || seat.column === max) {
+      seat.features.add(SeatFeature.WINDOW);
+    } else if (!columns.has(seat.column - 1) || !columns.has(seat.column + 1)) {
+      seat.features.add(SeatFeature.AISLE);
+    }
+  }
+
+  if (preferences.position && seat.features.has(preferences.position as SeatFeature)) {
+    seat.score += POSITION_WEIGHT;
+  }
+
+  if (preferences.zone && seat.row !== null && geometry.maxRow > geometry.minRow) {
+    const towardsBack = (seat.row - geometry.minRow) / (geometry.maxRow - geometry.minRow);
+    seat.score += ZONE_WEIGHT * (preferences.zone === 'BACK' ? towardsBack : 1 - towardsBack);
+  }
+
+  if (seat.features.has(SeatFeature.ACCESSIBLE)) {
+    seat.score += preferences.accessible ? ACCESSIBLE_WEIGHT : -ACCESSIBLE_RESERVE_PENALTY;
+  }
+
+  if (preferences.quietZone && seat.features.has(SeatFeature.QUIET_ZONE)) {
+    seat.score += QUIET_ZONE_WEIGHT;
+  }
+
+  return seat;
+}
+
+/**
+ * The best scoring run of `count` free seats side by side in one row
+ */
+function bestRun(candidates: CandidateSeat[], count: number): CandidateSeat[] | null {
+  const rows = new Map<string, CandidateSeat[]>();
+
+  for (const seat of candidates) {
+    if (seat.row === null || seat.column === null) {
+      continue;
+    }
+    const key = rowKey(seat.deck, seat.row);
+    if (!rows.has(key)) {
+      rows.set(key, []);
+    }
+    rows.get(key)!.push(seat);
+  }
+
+  let best: CandidateSeat[] | null = null;
+  let bestScore = -Infinity;
+
+  for (const seats of rows.values()) {
+    seats.sort((a, b) => a.column! - b.column!);
+
+    for (let start = 0; start + count <= seats.length; start++) {
+      const run = seats.slice(start, start + count);
+      const adjacent = run.every((seat, i) => i === 0 || seat.column === run[i - 1].column! + 1);
+
+      if (!adjacent) {
+        continue;
+      }
+
+      const score = totalScore(run);
+      if (score > bestScore) {
+        best = run;
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fallback for a fragmented vehicle: the `count` free seats nearest to one
+ * another, preferring better scoring seats among equally close groups
+ */
+function closestCluster(candidates: CandidateSeat[], count: number): CandidateSeat[] {
+  let best: CandidateSeat[] = [];
+  let bestCost = Infinity;
+
+  for (const anchor of candidates) {
+    const cluster = [...candidates]
+      .sort((a, b) => distance(anchor, a) - distance(anchor, b))
+      .slice(0, count);
+
+    const spread = cluster.reduce((sum, seat) => sum + distance(anchor, seat), 0);
+    const cost = spread - totalScore(cluster) / 100;
+
+    if (cost < bestCost) {
+      best = cluster;
+      bestCost = cost;
+    }
+  }
+
+  return best.sort((a, b) => a.seatNumber.localeCompare(b.seatNumber, undefined, { numeric: true }));
+}
+
+function distance(a: CandidateSeat, b: CandidateSeat): number {
+  if (a.row === null || a.column === null || b.row === null || b.column === null) {
+    return a === b ? 0 : DECK_DISTANCE; // Without a layout, no seat is closer than another
+  }
+  return (a.deck !== b.deck ? DECK_DISTANCE : 0) +
+    Math.abs(a.row - b.row) * ROW_DISTANCE +
+    Math.abs(a.column - b.column);
+}
+
+function totalScore(seats: CandidateSeat[]): number {
+  return seats.reduce((sum, seat) => sum + seat.score, 0);
+}
+
+function rowKey(deck: number, row: number): string {
+  return `${deck}:${row}`;
+}
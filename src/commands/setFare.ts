@@ -0,0 +1,63 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { FareTableEntry, SetFareCommand } from '../models/fare';
+import { BadRequestError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Create or replace the base fare of a route (between two zones, or for the
+ * whole route when no zones are given)
+ */
+export const setFareHandler = async (command: SetFareCommand): Promise<FareTableEntry> => {
+  logger.info('Executing SetFare command', { command });
+
+  // Validate command
+  validateSetFareCommand(command);
+
+  // Zones are stored in a fixed order so A->B and B->A are one fare
+  const [originZone, destinationZone] = command.originZone && command.destinationZone
+    ? [command.originZone, command.destinationZone].sort()
+    : [null, null];
+
+  const row = await writeDb.queryOne<Record<string, unknown>>(
+    `INSERT INTO fare_tables (route_id, origin_zone, destination_zone, base_fare, currency)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (route_id, COALESCE(origin_zone, ''), COALESCE(destination_zone, '')) DO UPDATE SET
+       base_fare = EXCLUDED.base_fare,
+       currency = EXCLUDED.currency
+     RETURNING *`,
+    [command.routeId, originZone, destinationZone, command.baseFare, command.currency || 'USD']
+  );
+
+  const fare = mapRowToFare(row!);
+
+  logger.info('SetFare command executed successfully', { fareId: fare.id, baseFare: fare.baseFare });
+
+  return fare;
+};
+
+function validateSetFareCommand(command: SetFareCommand): void {
+  if (!command.routeId) {
+    throw new BadRequestError('routeId is required');
+  }
+  if (!command.originZone !== !command.destinationZone) {
+    throw new BadRequestError('originZone and destinationZone must be given together');
+  }
+  if (!(command.baseFare >= 0)) {
+    throw new BadRequestError('baseFare must not be negative');
+  }
+}
+
+function mapRowToFare(row: Record<string, unknown>): FareTableEntry {
+  return {
+    id: row.id as string,
+    routeId: row.route_id as string,
+    originZone: row.origin_zone as string | null,
+    destinationZone: row.destination_zone as string | null,
+    baseFare: parseFloat(row.base_fare as string),
+    currency: row.currency as string,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+export default setFareHandler;
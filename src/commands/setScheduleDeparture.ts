@@ -0,0 +1,72 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { ScheduleInventory, SetScheduleDepartureCommand } from '../models/inventory';
+import { lockScheduleInventory, mapRowToInventory } from './scheduleInventory';
+import { BadRequestError, ConflictError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface SetScheduleDepartureResult {
+  inventory: ScheduleInventory;
+}
+
+/**
+ * Record when a schedule departs, and the route it runs on. Time-of-day fares
+ * are priced from the departure; tickets change only between schedules of a route.
+ */
+export const setScheduleDepartureHandler = async (
+  command: SetScheduleDepartureCommand,
+  correlationId?: string
+): Promise<SetScheduleDepartureResult> => {
+  logger.info('Executing SetScheduleDeparture command', { command, correlationId });
+
+  // Validate command
+  validateSetScheduleDepartureCommand(command);
+
+  const inventory = await writeDb.transaction(async (client) => {
+    const current = await lockScheduleInventory(client, command.scheduleId);
+    const version = current.version + 1;
+
+    // Its tickets were sold for that route
+    if (command.routeId && current.routeId && command.routeId !== current.routeId) {
+      throw new ConflictError(`Schedule ${command.scheduleId} runs on route ${current.routeId}`);
+    }
+
+    const updated = await client.query(
+      `UPDATE schedule_inventory
+       SET departure_time = $1, route_id = COALESCE(route_id, $2), version = $3
+       WHERE schedule_id = $4
+       RETURNING *`,
+      [command.departureTime, command.routeId || null, version, command.scheduleId]
+    );
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishScheduleDepartureChanged(
+      client,
+      command.scheduleId,
+      command.departureTime,
+      current.departureTime,
+      version,
+      correlationId
+    );
+
+    return mapRowToInventory(updated.rows[0]);
+  });
+
+  logger.info('SetScheduleDeparture command executed successfully', {
+    scheduleId: command.scheduleId,
+    departureTime: inventory.departureTime,
+  });
+
+  return { inventory };
+};
+
+function validateSetScheduleDepartureCommand(command: SetScheduleDepartureCommand): void {
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (!(command.departureTime instanceof Date) || isNaN(command.departureTime.getTime())) {
+    throw new BadRequestError('departureTime must be a valid date');
+  }
+}
+
+export default setScheduleDepartureHandler;
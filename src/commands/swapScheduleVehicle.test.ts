@@ -0,0 +1,137 @@
+import { swapScheduleVehicleHandler } from './swapScheduleVehicle';
+import { BookingStatus, SeatStatus } from '../models/booking';
+import { ConflictError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import {
+  bookingOf,
+  eventsOf,
+  insertBooking,
+  insertReservation,
+  insertSchedule,
+  minutesFromNow,
+  seatOf,
+  seatRows,
+  SCHEDULE_ID,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+// A vehicle with the given seats, numbered like 1A, 2C
+async function insertLayout(name: string, seatNumbers: string[]): Promise<string> {
+  const seats = seatNumbers.map((seatNumber) => {
+    const [, row, letter] = seatNumber.match(/^(\d+)([A-Z])$/)!;
+    return { seatNumber, row: parseInt(row, 10), column: letter.charCodeAt(0) - 64, deck: 1, seatClass: 'STANDARD' };
+  });
+  const [layout] = await db.query<{ id: string }>(
+    `INSERT INTO vehicle_layouts (name, seats, capacity) VALUES ($1, $2, $3) RETURNING id`,
+    [name, JSON.stringify(seats), seats.length]
+  );
+  return layout.id;
+}
+
+// A confirmed ticket holding its seat
+async function bookSeat(seatNumber: string): Promise<string> {
+  const booking = await insertBooking({ seat_number: seatNumber });
+  await db.query(
+    `UPDATE seat_availability SET status = $1, booking_id = $2 WHERE schedule_id = $3 AND seat_number = $4`,
+    [SeatStatus.BOOKED, booking.id, SCHEDULE_ID, seatNumber]
+  );
+  return booking.id as string;
+}
+
+const seatNumbers = async () =>
+  (await db.query<{ seat_number: string }>(`SELECT seat_number FROM seat_availability ORDER BY seat_number`))
+    .map((seat) => seat.seat_number);
+
+const swap = (layoutId: string, seatMapping?: Record<string, string>) =>
+  swapScheduleVehicleHandler({ scheduleId: SCHEDULE_ID, layoutId, seatMapping });
+
+// Two rows of four seats
+beforeEach(async () => {
+  await insertSchedule({}, seatRows(2));
+});
+
+describe('swapScheduleVehicleHandler', () => {
+  it('keeps seat numbers the new vehicle has and moves the rest to the closest free seat', async () => {
+    const staying = await bookSeat('1A');
+    const moving = await bookSeat('2D');
+    const layoutId = await insertLayout('Minibus', ['1A', '1B', '1C']);
+
+    const result = await swap(layoutId);
+
+    expect(result.moved).toEqual([{ bookingId: moving, fromSeat: '2D', toSeat: '1C' }]);
+    expect(result.inventory).toMatchObject({ layoutId, capacity: 3 });
+    expect(await seatNumbers()).toEqual(['1A', '1B', '1C']);
+    expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.BOOKED, booking_id: staying });
+    expect(await seatOf('1C')).toMatchObject({ status: SeatStatus.BOOKED, booking_id: moving });
+    expect((await bookingOf(moving)).seat_number).toBe('1C');
+
+    const [event] = await eventsOf(moving);
+    expect(event).toMatchObject({ event_type: 'TICKET_SEAT_CHANGED', version: 2 });
+    expect(event.payload).toMatchObject({ previousSeatNumber: '2D', seatNumber: '1C', previousSeatRemoved: true });
+    expect(await eventsOf(staying)).toEqual([]);
+  });
+
+  it('moves passengers to the seats of the mapping', async () => {
+    const moving = await bookSeat('2D');
+    const layoutId = await insertLayout('Minibus', ['1A', '1B', '1C']);
+
+    await swap(layoutId, { '2D': '1A' });
+
+    expect((await bookingOf(moving)).seat_number).toBe('1A');
+  });
+
+  it('keeps a live reservation locked on its new seat', async () => {
+    const reservation = await insertReservation({ seat_number: '2A' });
+    const layoutId = await insertLayout('Minibus', ['1A', '1B']);
+
+    await swap(layoutId);
+
+    expect(await seatOf('1A')).toMatchObject({
+      status: SeatStatus.LOCKED,
+      booking_id: reservation.id,
+      locked_until: reservation.expires_at,
+    });
+  });
+
+  describe('a vehicle too small for its passengers', () => {
+    it('is refused, leaving everyone in their seat', async () => {
+      const bookings = [await bookSeat('1A'), await bookSeat('1B'), await bookSeat('2A')];
+      const layoutId = await insertLayout('Minibus', ['1A', '1B']);
+
+      await expect(swap(layoutId)).rejects.toThrow(ConflictError);
+
+      expect(await seatNumbers()).toEqual(seatRows(2).sort());
+      expect((await bookingOf(bookings[2])).seat_number).toBe('2A');
+      expect(await eventsOf(bookings[2])).toEqual([]);
+    });
+
+    it('is refused when the tickets without a seat do not fit either', async () => {
+      await bookSeat('1A');
+      await insertBooking({ status: BookingStatus.CONFIRMED });
+      const layoutId = await insertLayout('Minibus', ['1A']);
+
+      await expect(swap(layoutId)).rejects.toThrow(/fewer than the 2 already booked/);
+    });
+
+    it('is refused when blocked seats leave too few', async () => {
+      await bookSeat('2A');
+      await db.query(`UPDATE seat_availability SET status = $1 WHERE seat_number = '1A'`, [SeatStatus.BLOCKED]);
+      const layoutId = await insertLayout('Single', ['1A']);
+
+      await expect(swap(layoutId)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  it('leaves expired reservations behind', async () => {
+    await bookSeat('1A');
+    await insertReservation({ seat_number: '2A', expires_at: minutesFromNow(-1) });
+    const layoutId = await insertLayout('Single', ['1A']);
+
+    const result = await swap(layoutId);
+
+    expect(result.inventory.capacity).toBe(1);
+  });
+});
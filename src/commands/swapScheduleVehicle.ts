@@ -0,0 +1,393 @@
+import { PoolClient } from 'pg';
+import writeDb from '../infrastructure/database/writeDb';
+import { eventPublisher } from '../events/publisher';
+import { PassengerCategory, SeatStatus } from '../models/booking';
+import { LayoutSeat, ScheduleInventory, SwapScheduleVehicleCommand } from '../models/inventory';
+import { countHeldSeats, lockScheduleInventory, mapRowToInventory } from './scheduleInventory';
+import { ticketTokens } from '../tickets/ticketTokens';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const SWAP_REASON = 'VEHICLE_SWAP';
+
+// Best-fit penalties - stay on the same deck, then in the same class, then close by
+const DECK_PENALTY = 1000;
+const CLASS_PENALTY = 100;
+
+export interface SeatMove {
+  bookingId: string;
+  fromSeat: string;
+  toSeat: string;
+}
+
+export interface SwapScheduleVehicleResult {
+  inventory: ScheduleInventory;
+  moved: SeatMove[];
+}
+
+// A seat held by a booking (BOOKED, or LOCKED by a reservation that hasn't run out)
+interface HeldSeat {
+  seatNumber: string;
+  bookingId: string;
+  userId: string;
+  bookingVersion: number;
+  bookingReference: string | null;
+  passengerCategory: PassengerCategory;
+  ticketToken: string | null;
+  status: SeatStatus.BOOKED | SeatStatus.LOCKED;
+  lockedUntil: Date | null;
+  row: number | null;
+  column: number | null;
+  deck: number | null;
+  seatClass: string | null;
+}
+
+/**
+ * Put a different vehicle on a schedule. Passengers keep their seat number if the
+ * new layout has it; everyone else is moved by the explicit seat mapping or to
+ * the closest free seat. A vehicle that can't seat every passenger is refused.
+ */
+export const swapScheduleVehicleHandler = async (
+  command: SwapScheduleVehicleCommand,
+  correlationId?: string
+): Promise<SwapScheduleVehicleResult> => {
+  logger.info('Executing SwapScheduleVehicle command', { command, correlationId });
+
+  // Validate command
+  validateSwapScheduleVehicleCommand(command);
+
+  const result = await writeDb.transaction(async (client) => {
+    const inventory = await lockScheduleInventory(client, command.scheduleId);
+
+    const layoutResult = await client.query(
+      `SELECT id, seats FROM vehicle_layouts WHERE id = $1`,
+      [command.layoutId]
+    );
+
+    if (layoutResult.rows.length === 0) {
+      throw new NotFoundError(`Vehicle layout with ID ${command.layoutId} not found`);
+    }
+
+    const layout = layoutResult.rows[0].seats as LayoutSeat[];
+    const layoutSeatNumbers = layout.map((seat) => seat.seatNumber);
+
+    const held = await lockHeldSeats(client, command.scheduleId);
+
+    const blocked = await client.query(
+      `SELECT seat_number FROM seat_availability
+       WHERE schedule_id = $1 AND status = $2 AND seat_number = ANY($3::varchar[])`,
+      [command.scheduleId, SeatStatus.BLOCKED, layoutSeatNumbers]
+    );
+    const blockedSeats = new Set<string>(blocked.rows.map((row) => row.seat_number));
+
+    const capacity = layout.length - blockedSeats.size;
+
+    // Unseated tickets need room too
+    const heldSeats = await countHeldSeats(client, command.scheduleId);
+    if (capacity < heldSeats) {
+      throw new ConflictError(
+        `The new vehicle has ${capacity} unblocked seats, fewer than the ${heldSeats} already booked or reserved`
+      );
+    }
+
+    const plan = planRemapping(held, layout, blockedSeats, command.seatMapping || {});
+
+    const unplaced = held.filter((seat) => !plan.get(seat.seatNumber)).map((seat) => seat.seatNumber);
+    if (unplaced.length > 0) {
+      throw new ConflictError(
+        `The new vehicle has no seat left for seat(s) ${unplaced.join(', ')} - map them with seatMapping`
+      );
+    }
+
+    // Free every held seat first, so moves can't collide with each other
+    await client.query(
+      `UPDATE seat_availability
+       SET status = $1, booking_id = NULL, locked_until = NULL, updated_at = NOW()
+       WHERE schedule_id = $2 AND seat_number = ANY($3::varchar[])`,
+      [SeatStatus.AVAILABLE, command.scheduleId, held.map((seat) => seat.seatNumber)]
+    );
+
+    await client.query(
+      `DELETE FROM seat_availability
+       WHERE schedule_id = $1 AND NOT (seat_number = ANY($2::varchar[]))`,
+      [command.scheduleId, layoutSeatNumbers]
+    );
+
+    await client.query(
+      `INSERT INTO seat_availability (schedule_id, seat_number, status, seat_row, seat_column, deck, seat_class, features)
+       SELECT $1, seat_number, $2, seat_row, seat_column, deck, seat_class, features
+       FROM UNNEST($3::varchar[], $4::int[], $5::int[], $6::int[], $7::varchar[], $8::jsonb[])
+         AS s(seat_number, seat_row, seat_column, deck, seat_class, features)
+       ON CONFLICT (schedule_id, seat_number) DO UPDATE SET
+         seat_row = EXCLUDED.seat_row,
+         seat_column = EXCLUDED.seat_column,
+         deck = EXCLUDED.deck,
+         seat_class = EXCLUDED.seat_class,
+         features = EXCLUDED.features,
+         updated_at = NOW()`,
+      [
+        command.scheduleId,
+        SeatStatus.AVAILABLE,
+        layoutSeatNumbers,
+        layout.map((seat) => seat.row),
+        layout.map((seat) => seat.column),
+        layout.map((seat) => seat.deck),
+        layout.map((seat) => seat.seatClass),
+        layout.map((seat) => JSON.stringify(seat.features || [])),
+      ]
+    );
+
+    const moved: SeatMove[] = [];
+    const layoutSet = new Set(layoutSeatNumbers);
+
+    for (const seat of held) {
+      const target = plan.get(seat.seatNumber) as string;
+
+      await client.query(
+        `UPDATE seat_availability
+         SET status = $1, booking_id = $2, locked_until = $3, updated_at = NOW()
+         WHERE schedule_id = $4 AND seat_number = $5`,
+        [seat.status, seat.bookingId, seat.lockedUntil, command.scheduleId, target]
+      );
+
+      if (target === seat.seatNumber) {
+        continue;
+      }
+
+      const version = seat.bookingVersion + 1;
+
+      // A confirmed ticket's token names its seat - replace it and revoke the old one
+      const ticketToken = seat.ticketToken
+        ? await ticketTokens.issue(client, {
+          id: seat.bookingId,
+          bookingReference: seat.bookingReference,
+          scheduleId: command.scheduleId,
+          seatNumber: target,
+          passengerCategory: seat.passengerCategory,
+        })
+        : undefined;
+      const revokedToken = ticketTokens.revocationOf(seat.ticketToken);
+
+      await client.query(
+        `UPDATE bookings
+         SET seat_number = $1, version = $2, ticket_token = COALESCE($4, ticket_token), updated_at = NOW()
+         WHERE id = $3`,
+        [target, version, seat.bookingId, ticketToken || null]
+      );
+
+      // Store event in event store (published to Kafka via the outbox)
+      await eventPublisher.publishTicketSeatChanged(
+        client,
+        {
+          bookingId: seat.bookingId,
+          userId: seat.userId,
+          scheduleId: command.scheduleId,
+          previousSeatNumber: seat.seatNumber,
+          seatNumber: target,
+          previousSeatRemoved: !layoutSet.has(seat.seatNumber),
+          seatStatus: seat.status,
+          lockedUntil: seat.lockedUntil,
+          reason: SWAP_REASON,
+          ticketToken,
+          revokedToken,
+        },
+        version,
+        correlationId
+      );
+      moved.push({ bookingId: seat.bookingId, fromSeat: seat.seatNumber, toSeat: target });
+    }
+
+    const version = inventory.version + 1;
+
+    const updated = await client.query(
+      `UPDATE schedule_inventory
+       SET layout_id = $1, capacity = $2, version = $3
+       WHERE schedule_id = $4
+       RETURNING *`,
+      [command.layoutId, capacity, version, command.scheduleId]
+    );
+
+    await eventPublisher.publishScheduleLayoutAssigned(
+      client,
+      command.scheduleId,
+      command.layoutId,
+      layout,
+      capacity,
+      version,
+      correlationId
+    );
+
+    return {
+      inventory: mapRowToInventory(updated.rows[0]),
+      moved,
+    };
+  });
+
+  logger.info('SwapScheduleVehicle command executed successfully', {
+    scheduleId: command.scheduleId,
+    layoutId: command.layoutId,
+    moved: result.moved.length,
+  });
+
+  return result;
+};
+
+/**
+ * Lock the bookings holding seats on the schedule, then the seats themselves
+ * (same order as the booking commands, which lock the booking before its seat)
+ */
+async function lockHeldSeats(client: PoolClient, scheduleId: string): Promise<HeldSeat[]> {
+  const bookings = await client.query(
+    `SELECT b.id, b.user_id, b.version, b.booking_reference, b.passenger_category, b.ticket_token
+     FROM bookings b
+     JOIN seat_availability s ON s.booking_id = b.id
+     WHERE s.schedule_id = $1
+     ORDER BY b.id
+     FOR UPDATE OF b`,
+    [scheduleId]
+  );
+  const lockedBookings = new Map<string, {
+    user_id: string;
+    version: number;
+    booking_reference: string | null;
+    passenger_category: PassengerCategory;
+    ticket_token: string | null;
+  }>(
+    bookings.rows.map((row) => [row.id, row])
+  );
+
+  const seats = await client.query(
+    `SELECT seat_number, booking_id, status, locked_until, seat_row, seat_column, deck, seat_class
+     FROM seat_availability
+     WHERE schedule_id = $1
+     FOR UPDATE`,
+    [scheduleId]
+  );
+
+  const now = new Date();
+  const held: HeldSeat[] = [];
+
+  for (const row of seats.rows) {
+    const isHeld = row.status === SeatStatus.BOOKED ||
+      (row.status === SeatStatus.LOCKED && row.locked_until && new Date(row.locked_until) >= now);
+
+    if (!isHeld || !row.booking_id) {
+      continue;
+    }
+
+    const booking = lockedBookings.get(row.booking_id);
+    if (!booking) {
+      // The seat was taken between the two locking queries
+      throw new ConflictError(`Seat ${row.seat_number} changed while swapping the vehicle, please retry`);
+    }
+
+    held.push({
+      seatNumber: row.seat_number,
+      bookingId: row.booking_id,
+      userId: booking.user_id,
+      bookingVersion: booking.version,
+      bookingReference: booking.booking_reference,
+      passengerCategory: booking.passenger_category,
+      ticketToken: booking.ticket_token,
+      status: row.status,
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : null,
+      row: row.seat_row,
+      column: row.seat_column,
+      deck: row.deck,
+      seatClass: row.seat_class,
+    });
+  }
+
+  return held;
+}
+
+/**
+ * Decide where each held seat goes: explicit mapping first, then the same seat
+ * number, then the best free seat. Returns old seat -> new seat (null = no seat left).
+ */
+function planRemapping(
+  held: HeldSeat[],
+  layout: LayoutSeat[],
+  blockedSeats: Set<string>,
+  seatMapping: Record<string, string>
+): Map<string, string | null> {
+  const layoutByNumber = new Map(layout.map((seat) => [seat.seatNumber, seat]));
+  const taken = new Set<string>(blockedSeats);
+  const plan = new Map<string, string | null>();
+
+  // 1. Explicit mapping
+  for (const seat of held) {
+    const target = seatMapping[seat.seatNumber];
+    if (!target) {
+      continue;
+    }
+    if (!layoutByNumber.has(target)) {
+      throw new BadRequestError(`Mapped seat ${target} is not part of the new layout`);
+    }
+    if (taken.has(target)) {
+      throw new BadRequestError(`Mapped seat ${target} is blocked or mapped more than once`);
+    }
+    taken.add(target);
+    plan.set(seat.seatNumber, target);
+  }
+
+  // 2. Same seat number
+  for (const seat of held) {
+    if (!plan.has(seat.seatNumber) && layoutByNumber.has(seat.seatNumber) && !taken.has(seat.seatNumber)) {
+      taken.add(seat.seatNumber);
+      plan.set(seat.seatNumber, seat.seatNumber);
+    }
+  }
+
+  // 3. Best fit - confirmed seats first, front to back
+  const remaining = held
+    .filter((seat) => !plan.has(seat.seatNumber))
+    .sort((a, b) =>
+      (a.status === b.status ? 0 : a.status === SeatStatus.BOOKED ? -1 : 1) ||
+      (a.row ?? 0) - (b.row ?? 0) ||
+      (a.column ?? 0) - (b.column ?? 0)
+    );
+
+  for (const seat of remaining) {
+    let best: LayoutSeat | null = null;
+    let bestCost = Infinity;
+
+    for (const candidate of layout) {
+      if (taken.has(candidate.seatNumber)) {
+        continue;
+      }
+      const cost = seatDistance(seat, candidate);
+      if (cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+      }
+    }
+
+    if (best) {
+      taken.add(best.seatNumber);
+    }
+    plan.set(seat.seatNumber, best ? best.seatNumber : null);
+  }
+
+  return plan;
+}
+
+function seatDistance(seat: HeldSeat, candidate: LayoutSeat): number {
+  return (
+    ((seat.deck ?? 1) !== candidate.deck ? DECK_PENALTY : 0) +
+    (seat.seatClass && seat.seatClass !== candidate.seatClass ? CLASS_PENALTY : 0) +
+    Math.abs((seat.row ?? 1) - candidate.row) +
+    Math.abs((seat.column ?? 1) - candidate.column)
+  );
+}
+
+function validateSwapScheduleVehicleCommand(command: SwapScheduleVehicleCommand): void {
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (!command.layoutId) {
+    throw new BadRequestError('layoutId is required');
+  }
+}
+
+export default swapScheduleVehicleHandler;
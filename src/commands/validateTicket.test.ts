@@ -0,0 +1,142 @@
+import { validateTicketHandler } from './validateTicket';
+import { ticketTokens } from '../tickets/ticketTokens';
+import { BookingStatus, PassengerCategory, ValidateTicketCommand } from '../models/booking';
+import { BadRequestError } from '../utils/errors';
+import { testClient, useTestDatabase } from '../testing/database';
+import {
+  bookingOf,
+  eventsOf,
+  insertBooking,
+  insertSchedule,
+  minutesFromNow,
+  OTHER_SCHEDULE_ID,
+  SCHEDULE_ID,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const scan = (ticket: Partial<ValidateTicketCommand>, deviceId = 'gate-1') =>
+  validateTicketHandler({ scheduleId: SCHEDULE_ID, deviceId, validatedBy: 'inspector-7', ...ticket });
+
+// A confirmed ticket carrying its current token
+async function ticketWithToken(): Promise<{ bookingId: string; token: string }> {
+  const booking = await insertBooking({ seat_number: '1A' });
+  const token = await ticketTokens.issue(testClient, {
+    id: booking.id as string,
+    bookingReference: 'K7PX3M',
+    scheduleId: SCHEDULE_ID,
+    seatNumber: '1A',
+    passengerCategory: PassengerCategory.ADULT,
+  });
+  await db.query(`UPDATE bookings SET ticket_token = $1 WHERE id = $2`, [token, booking.id]);
+  return { bookingId: booking.id as string, token };
+}
+
+// Boarding is open - the trip leaves in half an hour
+beforeEach(async () => {
+  await insertSchedule({ departure_time: minutesFromNow(30) });
+});
+
+describe('validateTicketHandler', () => {
+  it('accepts a confirmed ticket once, marking it used', async () => {
+    const bookingId = (await insertBooking()).id as string;
+
+    const result = await scan({ bookingId });
+
+    expect(result).toMatchObject({ accepted: true, suspectedFraud: false, validationCount: 1 });
+    expect(result.reason).toBeUndefined();
+    expect(await bookingOf(bookingId)).toMatchObject({
+      status: BookingStatus.USED,
+      validated_device_id: 'gate-1',
+      validation_count: 1,
+      version: 2,
+    });
+
+    const [event] = await eventsOf(bookingId);
+    expect(event).toMatchObject({ event_type: 'TICKET_VALIDATED', version: 2 });
+    expect(event.payload).toMatchObject({ accepted: true, deviceId: 'gate-1', validationCount: 1 });
+  });
+
+  describe('a ticket scanned again', () => {
+    let bookingId: string;
+
+    beforeEach(async () => {
+      bookingId = (await insertBooking()).id as string;
+      await scan({ bookingId }, 'gate-1');
+    });
+
+    it('is refused on the device that used it, without suspicion', async () => {
+      const result = await scan({ bookingId }, 'gate-1');
+
+      expect(result).toMatchObject({ accepted: false, reason: 'ALREADY_USED', suspectedFraud: false, validationCount: 2 });
+    });
+
+    it('is flagged as suspected fraud on another device', async () => {
+      const result = await scan({ bookingId }, 'gate-2');
+
+      expect(result).toMatchObject({ accepted: false, reason: 'ALREADY_USED', suspectedFraud: true, validationCount: 2 });
+      // The first use stands
+      expect(await bookingOf(bookingId)).toMatchObject({ validated_device_id: 'gate-1', validation_count: 2 });
+
+      const events = await eventsOf(bookingId);
+      expect(events[1].payload).toMatchObject({ accepted: false, deviceId: 'gate-2', suspectedFraud: true });
+    });
+  });
+
+  it.each([
+    ['NOT_CONFIRMED', BookingStatus.PENDING, SCHEDULE_ID],
+    ['NOT_CONFIRMED', BookingStatus.CANCELLED, SCHEDULE_ID],
+    ['WRONG_SCHEDULE', BookingStatus.CONFIRMED, OTHER_SCHEDULE_ID],
+  ])('refuses with %s a %s ticket', async (reason, status, scheduleId) => {
+    const bookingId = (await insertBooking({ status })).id as string;
+
+    const result = await scan({ bookingId, scheduleId });
+
+    expect(result).toMatchObject({ accepted: false, reason, suspectedFraud: false, validationCount: 1 });
+    expect((await bookingOf(bookingId)).status).toBe(status);
+  });
+
+  it('refuses a ticket outside the boarding window', async () => {
+    await db.query(`UPDATE schedule_inventory SET departure_time = $1`, [minutesFromNow(24 * 60)]);
+    const bookingId = (await insertBooking()).id as string;
+
+    expect((await scan({ bookingId })).reason).toBe('OUTSIDE_VALIDITY_WINDOW');
+  });
+
+  describe('by token', () => {
+    it('accepts the current token of the ticket', async () => {
+      const { bookingId, token } = await ticketWithToken();
+
+      const result = await scan({ token });
+
+      expect(result.accepted).toBe(true);
+      expect(result.booking!.id).toBe(bookingId);
+    });
+
+    it('refuses a token the ticket no longer carries', async () => {
+      const { token } = await ticketWithToken();
+      await db.query(`UPDATE bookings SET ticket_token = NULL`);
+
+      expect((await scan({ token })).reason).toBe('TOKEN_REVOKED');
+    });
+
+    it('refuses a forged token without recording anything', async () => {
+      const { bookingId, token } = await ticketWithToken();
+      const forged = `${token.slice(0, token.lastIndexOf('.'))}.${Buffer.from('forged').toString('base64url')}`;
+
+      const result = await scan({ token: forged });
+
+      expect(result).toMatchObject({ accepted: false, reason: 'INVALID_TOKEN', booking: null });
+      expect(await eventsOf(bookingId)).toEqual([]);
+    });
+  });
+
+  it('requires exactly one of token and booking id', async () => {
+    const { bookingId, token } = await ticketWithToken();
+
+    await expect(scan({ bookingId, token })).rejects.toThrow(BadRequestError);
+    await expect(scan({})).rejects.toThrow(BadRequestError);
+  });
+});
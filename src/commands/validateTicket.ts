@@ -0,0 +1,217 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { config } from '../config';
+import { eventPublisher } from '../events/publisher';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { ticketTokens } from '../tickets/ticketTokens';
+import { TicketTokenRejection, verifyTicketToken } from '../tickets/ticketVerifier';
+import { mapRowToBooking } from './bookingMapper';
+import {
+  Booking,
+  BookingStatus,
+  TicketValidationRejection,
+  ValidateTicketCommand
+} from '../models/booking';
+import { BadRequestError, BookingNotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+// Token checks that mean we didn't sign it - expiry and revocation are judged from the booking
+const FORGED_TOKEN_REASONS: TicketTokenRejection[] = ['MALFORMED', 'UNKNOWN_KEY', 'BAD_SIGNATURE'];
+
+export interface ValidateTicketResult {
+  accepted: boolean;
+  reason?: TicketValidationRejection;
+  suspectedFraud: boolean;
+  validationCount: number;
+  booking: Booking | null; // null when the token isn't one of ours
+  validatedAt: Date;
+}
+
+/**
+ * Validate a ticket at boarding. The first accepted scan marks the booking USED;
+ * every scan of a known ticket is recorded, and a used ticket scanned again on
+ * another device is flagged as suspected fraud.
+ */
+export const validateTicketHandler = async (
+  command: ValidateTicketCommand,
+  correlationId?: string
+): Promise<ValidateTicketResult> => {
+  // The token is what the passenger shows - keep it out of the logs
+  logger.info('Executing ValidateTicket command', {
+    bookingId: command.bookingId,
+    scheduleId: command.scheduleId,
+    deviceId: command.deviceId,
+    correlationId,
+  });
+
+  // Validate command
+  validateValidateTicketCommand(command);
+
+  let bookingId = command.bookingId;
+
+  if (command.token) {
+    const signingKey = ticketTokens.signingKey();
+    const verification = verifyTicketToken(command.token, { [signingKey.keyId]: signingKey.publicKey });
+
+    if (!verification.claims || (verification.reason && FORGED_TOKEN_REASONS.includes(verification.reason))) {
+      logger.warn('Ticket token rejected', { deviceId: command.deviceId, reason: verification.reason });
+      return {
+        accepted: false,
+        reason: 'INVALID_TOKEN',
+        suspectedFraud: false,
+        validationCount: 0,
+        booking: null,
+        validatedAt: new Date(),
+      };
+    }
+
+    bookingId = verification.claims.bid;
+  }
+
+  const result = await writeDb.transaction(async (client) => {
+    // Get current booking with lock
+    const currentBooking = await client.query(
+      `SELECT * FROM bookings WHERE id = $1 FOR UPDATE`,
+      [bookingId]
+    );
+
+    if (currentBooking.rows.length === 0) {
+      throw new BookingNotFoundError(bookingId!);
+    }
+
+    const existingBooking = currentBooking.rows[0];
+
+    const schedule = await client.query(
+      `SELECT departure_time FROM schedule_inventory WHERE schedule_id = $1`,
+      [existingBooking.schedule_id]
+    );
+    const departureTime: Date | null = schedule.rows[0]?.departure_time
+      ? new Date(schedule.rows[0].departure_time)
+      : null;
+
+    const now = new Date();
+    const reason = checkTicket(existingBooking, command, departureTime, now);
+    const accepted = reason === undefined;
+
+    // A used ticket shown again on another device is likely being shared
+    const suspectedFraud = reason === 'ALREADY_USED' &&
+      existingBooking.validated_device_id !== command.deviceId;
+
+    const version = existingBooking.version + 1;
+    const validationCount = existingBooking.validation_count + 1;
+
+    const updateResult = await client.query(
+      `UPDATE bookings
+       SET status = $1, used_at = $2, validated_device_id = $3, validation_count = $4, version = $5, updated_at = $6
+       WHERE id = $7
+       RETURNING *`,
+      [
+        accepted ? BookingStatus.USED : existingBooking.status,
+        accepted ? now : existingBooking.used_at,
+        accepted ? command.deviceId : existingBooking.validated_device_id,
+        validationCount,
+        version,
+        now,
+        existingBooking.id,
+      ]
+    );
+
+    // Store event in event store (published to Kafka via the outbox)
+    await eventPublisher.publishTicketValidated(
+      client,
+      {
+        bookingId: existingBooking.id,
+        userId: existingBooking.user_id,
+        scheduleId: command.scheduleId,
+        deviceId: command.deviceId,
+        validatedBy: command.validatedBy,
+        validatedAt: now,
+        accepted,
+        reason,
+        validationCount,
+        suspectedFraud,
+      },
+      version,
+      correlationId
+    );
+
+    return {
+      accepted,
+      reason,
+      suspectedFraud,
+      validationCount,
+      booking: mapRowToBooking(updateResult.rows[0]),
+      validatedAt: now,
+    };
+  });
+
+  if (result.suspectedFraud) {
+    logger.warn('Used ticket validated again on another device', {
+      bookingId: result.booking?.id,
+      deviceId: command.deviceId,
+      validationCount: result.validationCount,
+    });
+  }
+
+  logger.info('ValidateTicket command executed successfully', {
+    bookingId: result.booking?.id,
+    accepted: result.accepted,
+    reason: result.reason,
+  });
+
+  return result;
+};
+
+/**
+ * Why the ticket can't board this trip now, or undefined when it can
+ */
+function checkTicket(
+  booking: Record<string, unknown>,
+  command: ValidateTicketCommand,
+  departureTime: Date | null,
+  now: Date
+): TicketValidationRejection | undefined {
+  // Only the booking's current token is good - older ones were replaced or cancelled
+  if (command.token && booking.ticket_token !== command.token) {
+    return 'TOKEN_REVOKED';
+  }
+
+  if (booking.status === BookingStatus.USED) {
+    return 'ALREADY_USED';
+  }
+
+  if (!bookingStateMachine.canTransition(booking.status as BookingStatus, BookingStatus.USED)) {
+    return 'NOT_CONFIRMED';
+  }
+
+  if (booking.schedule_id !== command.scheduleId) {
+    return 'WRONG_SCHEDULE';
+  }
+
+  if (departureTime) {
+    const opensAt = departureTime.getTime() - config.validation.opensMinutesBeforeDeparture * 60 * 1000;
+    const closesAt = departureTime.getTime() + config.validation.closesMinutesAfterDeparture * 60 * 1000;
+
+    if (now.getTime() < opensAt || now.getTime() > closesAt) {
+      return 'OUTSIDE_VALIDITY_WINDOW';
+    }
+  }
+
+  return undefined;
+}
+
+function validateValidateTicketCommand(command: ValidateTicketCommand): void {
+  if (!command.token === !command.bookingId) {
+    throw new BadRequestError('Exactly one of token or bookingId is required');
+  }
+  if (!command.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+  if (!command.deviceId) {
+    throw new BadRequestError('deviceId is required');
+  }
+  if (!command.validatedBy) {
+    throw new BadRequestError('validatedBy is required');
+  }
+}
+
+export default validateTicketHandler;
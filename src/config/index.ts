@@ -40,6 +40,12 @@ export const config = {
     brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
     clientId: process.env.KAFKA_CLIENT_ID || 'ticketing-service',
     groupId: process.env.KAFKA_GROUP_ID || 'ticketing-service-group',
+    // Handler retries before a message is sent to the dead letter topic
+    consumerRetry: {
+      maxRetries: parseInt(process.env.KAFKA_CONSUMER_MAX_RETRIES || '3', 10),
+      initialBackoffMs: parseInt(process.env.KAFKA_CONSUMER_INITIAL_BACKOFF_MS || '500', 10),
+      maxBackoffMs: parseInt(process.env.KAFKA_CONSUMER_MAX_BACKOFF_MS || '10000', 10),
+    },
   },
 
   // JWT
@@ -48,6 +54,73 @@ export const config = {
     issuer: process.env.JWT_ISSUER || 'scmtp-user-service',
   },
 
+  // Reservations
+  reservations: {
+    expirySweepIntervalMs: parseInt(process.env.RESERVATION_EXPIRY_SWEEP_INTERVAL_MS || '30000', 10),
+    expirySweepBatchSize: parseInt(process.env.RESERVATION_EXPIRY_SWEEP_BATCH_SIZE || '100', 10),
+    // Hold extensions (e.g. while 3-D Secure runs): default length, how many, and the
+    // longest a reservation may be held in total, counted from when it was made
+    holdExtensionMinutes: parseInt(process.env.RESERVATION_HOLD_EXTENSION_MINUTES || '10', 10),
+    maxHoldExtensions: parseInt(process.env.RESERVATION_MAX_HOLD_EXTENSIONS || '3', 10),
+    maxHoldMinutes: parseInt(process.env.RESERVATION_MAX_HOLD_MINUTES || '60', 10),
+  },
+
+  // Schedules
+  schedules: {
+    // Seat count assumed for schedules without a known capacity
+    defaultCapacity: parseInt(process.env.SCHEDULE_DEFAULT_CAPACITY || '50', 10),
+  },
+
+  // Fare engine
+  fares: {
+    // Time zone that time-of-day fare modifiers are evaluated in
+    timezone: process.env.FARE_TIMEZONE || 'UTC',
+    // What to do with a client price that differs from the calculated fare: 'reject' or 'override'
+    priceMismatch: process.env.FARE_PRICE_MISMATCH || 'reject',
+  },
+
+  // Group bookings
+  groups: {
+    maxPassengers: parseInt(process.env.GROUP_MAX_PASSENGERS || '20', 10),
+  },
+
+  // Signed ticket tokens (QR codes)
+  tickets: {
+    // Ed25519 private key (PKCS#8 PEM); a temporary key is generated when unset
+    signingPrivateKey: process.env.TICKET_SIGNING_PRIVATE_KEY || '',
+    signingKeyId: process.env.TICKET_SIGNING_KEY_ID || 'ticket-key-1',
+    // How long after departure a token stays valid
+    tokenValidityHours: parseInt(process.env.TICKET_TOKEN_VALIDITY_HOURS || '24', 10),
+  },
+
+  // Boarding validation
+  validation: {
+    // Window around departure in which a ticket is accepted
+    opensMinutesBeforeDeparture: parseInt(process.env.TICKET_VALIDATION_OPENS_MINUTES_BEFORE || '60', 10),
+    closesMinutesAfterDeparture: parseInt(process.env.TICKET_VALIDATION_CLOSES_MINUTES_AFTER || '180', 10),
+  },
+
+  // Ticket changes (moving a booking to another schedule)
+  changes: {
+    feeAmount: parseFloat(process.env.TICKET_CHANGE_FEE_AMOUNT || '0'),
+    feePercent: parseFloat(process.env.TICKET_CHANGE_FEE_PERCENT || '0'), // Of the new fare
+  },
+
+  // Transactional outbox relay
+  outbox: {
+    pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+    batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10),
+    maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10),
+    retryBaseDelayMs: parseInt(process.env.OUTBOX_RETRY_BASE_DELAY_MS || '1000', 10),
+    retryMaxDelayMs: parseInt(process.env.OUTBOX_RETRY_MAX_DELAY_MS || '300000', 10),
+  },
+
+  // Idempotency-Key handling for command routes
+  idempotency: {
+    keyTtlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+    inProgressTimeoutSeconds: parseInt(process.env.IDEMPOTENCY_IN_PROGRESS_TIMEOUT_SECONDS || '60', 10),
+  },
+
   // External Services
   services: {
     userService: process.env.USER_SERVICE_URL || 'http://localhost:3001',
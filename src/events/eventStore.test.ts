@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { eventStore } from './eventStore';
+import { TicketEventType } from './types';
+import { reserveTicketHandler } from '../commands/reserveTicket';
+import { confirmTicketHandler } from '../commands/confirmTicket';
+import { cancelTicketHandler } from '../commands/cancelTicket';
+import { extendReservationHandler } from '../commands/extendReservation';
+import { BookingStatus } from '../models/booking';
+import { ConcurrencyConflictError } from '../utils/errors';
+import { testClient, useTestDatabase } from '../testing/database';
+import {
+  bookingOf,
+  eventsOf,
+  insertFare,
+  insertReservation,
+  insertSchedule,
+  ROUTE_ID,
+  SCHEDULE_ID,
+  USER_ID,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const PAYMENT_ID = '7e57d000-0000-4000-8000-000000000001';
+
+const expiredEvent = (aggregateId: string, version: number) => ({
+  eventId: uuidv4(),
+  eventType: TicketEventType.TICKET_EXPIRED,
+  aggregateId,
+  aggregateType: 'Booking',
+  timestamp: new Date(),
+  version,
+  payload: { bookingId: aggregateId, userId: USER_ID, expiredAt: new Date() },
+});
+
+const outboxEventIds = async () =>
+  (await db.query<{ event_id: string }>(`SELECT event_id FROM event_outbox ORDER BY id`)).map((row) => row.event_id);
+
+describe('eventStore.append', () => {
+  it('stores the event and queues it in the outbox', async () => {
+    const event = expiredEvent(uuidv4(), 1);
+
+    await eventStore.append(testClient, event);
+
+    expect(await eventsOf(event.aggregateId)).toEqual([
+      expect.objectContaining({ event_id: event.eventId, event_type: 'TICKET_EXPIRED', version: 1 }),
+    ]);
+    expect(await outboxEventIds()).toEqual([event.eventId]);
+  });
+
+  it('refuses a second event at a version the aggregate already has', async () => {
+    const aggregateId = uuidv4();
+    await eventStore.append(testClient, expiredEvent(aggregateId, 1));
+
+    await expect(eventStore.append(testClient, expiredEvent(aggregateId, 1))).rejects.toThrow(ConcurrencyConflictError);
+    expect(await eventsOf(aggregateId)).toHaveLength(1);
+  });
+
+  it('keeps versions per aggregate', async () => {
+    await eventStore.append(testClient, expiredEvent(uuidv4(), 1));
+
+    await expect(eventStore.append(testClient, expiredEvent(uuidv4(), 1))).resolves.toBeUndefined();
+  });
+});
+
+describe('booking versions', () => {
+  beforeEach(async () => {
+    await insertFare();
+    await insertSchedule({}, ['1A']);
+  });
+
+  it('numbers the events of a booking from 1, matching the booking version', async () => {
+    const { booking } = await reserveTicketHandler({
+      userId: USER_ID,
+      routeId: ROUTE_ID,
+      scheduleId: SCHEDULE_ID,
+      passengerName: 'Ada Lovelace',
+      passengerEmail: 'ada@example.com',
+    });
+    await extendReservationHandler({ bookingId: booking.id });
+    await confirmTicketHandler({ bookingId: booking.id, paymentId: PAYMENT_ID });
+    await cancelTicketHandler({ bookingId: booking.id });
+
+    expect((await eventsOf(booking.id)).map((event) => [event.event_type, event.version])).toEqual([
+      ['TICKET_RESERVED', 1],
+      ['TICKET_HOLD_EXTENDED', 2],
+      ['TICKET_CONFIRMED', 3],
+      ['TICKET_CANCELLED', 4],
+    ]);
+    expect((await bookingOf(booking.id)).version).toBe(4);
+  });
+
+  it('rolls back a command whose event another writer recorded first', async () => {
+    const bookingId = (await insertReservation({ seat_number: '1A' })).id as string;
+    await eventStore.append(testClient, expiredEvent(bookingId, 2));
+    await db.query(`DELETE FROM event_outbox`);
+
+    await expect(confirmTicketHandler({ bookingId, paymentId: PAYMENT_ID })).rejects.toThrow(ConcurrencyConflictError);
+
+    expect(await bookingOf(bookingId)).toMatchObject({ status: BookingStatus.RESERVED, version: 1, payment_id: null });
+    expect(await outboxEventIds()).toEqual([]);
+  });
+
+  it('refuses commands made against an outdated version', async () => {
+    const bookingId = (await insertReservation({ seat_number: '1A', version: 2 })).id as string;
+
+    await expect(confirmTicketHandler({ bookingId, paymentId: PAYMENT_ID, expectedVersion: 1 }))
+      .rejects.toThrow(/is at version 2, expected 1/);
+    await expect(cancelTicketHandler({ bookingId, expectedVersion: 1 })).rejects.toThrow(ConcurrencyConflictError);
+
+    await expect(cancelTicketHandler({ bookingId, expectedVersion: 2 })).resolves.toBeDefined();
+  });
+});
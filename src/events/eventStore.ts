@@ -0,0 +1,60 @@
+import { PoolClient, DatabaseError } from 'pg';
+import { outbox } from '../infrastructure/messaging/outbox';
+import { DomainEvent, KAFKA_TOPICS } from './types';
+import { ConcurrencyConflictError } from '../utils/errors';
+
+const VERSION_CONSTRAINT = 'uq_booking_events_aggregate_version';
+
+type StoredEvent = DomainEvent & { payload: object };
+
+/**
+ * Event Store - appends domain events to booking_events
+ */
+export const eventStore = {
+  /**
+   * Append an event and queue it in the outbox for publishing.
+   * Must be called with the command's transaction client so the state change,
+   * the stored event and its outbox entry are committed together.
+   * Throws ConcurrencyConflictError if the aggregate already has an event at
+   * event.version (another writer got there first).
+   */
+  append: async (
+    client: PoolClient,
+    event: StoredEvent,
+    topic: string = KAFKA_TOPICS.TICKET_EVENTS
+  ): Promise<void> => {
+    try {
+      await insertEvent(client, event);
+    } catch (error) {
+      if (error instanceof DatabaseError && error.constraint === VERSION_CONSTRAINT) {
+        throw new ConcurrencyConflictError(event.aggregateId, event.version);
+      }
+      throw error;
+    }
+
+    await outbox.enqueue(client, topic, event);
+  },
+};
+
+async function insertEvent(client: PoolClient, event: StoredEvent): Promise<void> {
+  await client.query(
+    `INSERT INTO booking_events (
+      event_id, event_type, aggregate_id, aggregate_type, payload, metadata,
+      correlation_id, causation_id, version, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      event.eventId,
+      event.eventType,
+      event.aggregateId,
+      event.aggregateType,
+      JSON.stringify(event.payload),
+      event.metadata ? JSON.stringify(event.metadata) : null,
+      event.correlationId || null,
+      event.causationId || null,
+      event.version,
+      event.timestamp,
+    ]
+  );
+}
+
+export default eventStore;
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
-import { publishEvent, KAFKA_TOPICS } from '../infrastructure/messaging/kafka';
+import { PoolClient } from 'pg';
+import { eventStore } from './eventStore';
 import {
   TicketEventType,
   TicketBookedEvent,
@@ -7,32 +8,57 @@ import {
   TicketConfirmedEvent,
   TicketCancelledEvent,
   TicketExpiredEvent,
+  TicketRefundedEvent,
+  TicketSeatChangedEvent,
+  TicketValidatedEvent,
+  TicketChangedEvent,
+  TicketHoldExtendedEvent,
+  TicketPaymentRefundRequestedEvent,
+  ScheduleEventType,
+  ScheduleLayoutAssignedEvent,
+  ScheduleCapacityChangedEvent,
+  ScheduleDepartureChangedEvent,
+  SeatBlockedEvent,
+  SeatUnblockedEvent,
+  BookingGroupEventType,
+  BookingGroupCreatedEvent,
+  RevokedTicketToken,
 } from './types';
-import { Booking } from '../models/booking';
+import { Booking, BookingGroup } from '../models/booking';
+import { LayoutSeat } from '../models/inventory';
+import { RefundBreakdown, RefundInitiator } from '../models/refund';
 import logger from '../utils/logger';
 
 const createBaseEvent = (
-  eventType: TicketEventType,
+  eventType: TicketEventType | ScheduleEventType | BookingGroupEventType,
   aggregateId: string,
-  correlationId?: string
+  version: number,
+  correlationId?: string,
+  aggregateType: string = 'Booking'
 ) => ({
   eventId: uuidv4(),
   eventType,
   aggregateId,
-  aggregateType: 'Booking',
+  aggregateType,
   timestamp: new Date(),
-  version: 1,
+  version,
   correlationId,
 });
 
+/**
+ * Event Publisher - records domain events in the event store and outbox.
+ * Every method takes the command's transaction client; the outbox relay
+ * delivers the events to Kafka once the transaction has committed.
+ */
 export const eventPublisher = {
   // Publish TicketBooked event
   publishTicketBooked: async (
+    client: PoolClient,
     booking: Booking,
     correlationId?: string
   ): Promise<void> => {
     const event: TicketBookedEvent = {
-      ...createBaseEvent(TicketEventType.TICKET_BOOKED, booking.id, correlationId),
+      ...createBaseEvent(TicketEventType.TICKET_BOOKED, booking.id, booking.version, correlationId),
       eventType: TicketEventType.TICKET_BOOKED,
       payload: {
         bookingId: booking.id,
@@ -42,23 +68,27 @@ export const eventPublisher = {
         seatNumber: booking.seatNumber,
         passengerName: booking.passengerName,
         passengerEmail: booking.passengerEmail,
+        passengerCategory: booking.passengerCategory,
+        groupId: booking.groupId,
+        bookingReference: booking.bookingReference,
         price: booking.price,
         currency: booking.currency,
       },
     };
 
-    await publishEvent(KAFKA_TOPICS.TICKET_EVENTS, event);
-    logger.info('TicketBooked event published', { bookingId: booking.id });
+    await eventStore.append(client, event);
+    logger.info('TicketBooked event recorded', { bookingId: booking.id });
   },
 
   // Publish TicketReserved event
   publishTicketReserved: async (
+    client: PoolClient,
     booking: Booking,
     expiresAt: Date,
     correlationId?: string
   ): Promise<void> => {
     const event: TicketReservedEvent = {
-      ...createBaseEvent(TicketEventType.TICKET_RESERVED, booking.id, correlationId),
+      ...createBaseEvent(TicketEventType.TICKET_RESERVED, booking.id, booking.version, correlationId),
       eventType: TicketEventType.TICKET_RESERVED,
       payload: {
         bookingId: booking.id,
@@ -68,70 +98,119 @@ export const eventPublisher = {
         seatNumber: booking.seatNumber,
         passengerName: booking.passengerName,
         passengerEmail: booking.passengerEmail,
+        passengerCategory: booking.passengerCategory,
+        groupId: booking.groupId,
+        bookingReference: booking.bookingReference,
         price: booking.price,
         currency: booking.currency,
         expiresAt,
       },
     };
 
-    await publishEvent(KAFKA_TOPICS.TICKET_EVENTS, event);
-    logger.info('TicketReserved event published', { bookingId: booking.id, expiresAt });
+    await eventStore.append(client, event);
+    logger.info('TicketReserved event recorded', { bookingId: booking.id, expiresAt });
+  },
+
+  // Publish BookingGroupCreated event
+  publishBookingGroupCreated: async (
+    client: PoolClient,
+    group: BookingGroup,
+    bookingIds: string[],
+    correlationId?: string
+  ): Promise<void> => {
+    const event: BookingGroupCreatedEvent = {
+      ...createBaseEvent(
+        BookingGroupEventType.BOOKING_GROUP_CREATED,
+        group.id,
+        group.version,
+        correlationId,
+        'BookingGroup'
+      ),
+      eventType: BookingGroupEventType.BOOKING_GROUP_CREATED,
+      payload: {
+        groupId: group.id,
+        bookingReference: group.bookingReference,
+        userId: group.userId,
+        routeId: group.routeId,
+        scheduleId: group.scheduleId,
+        bookingIds,
+        passengerCount: group.passengerCount,
+        totalPrice: group.totalPrice,
+        currency: group.currency,
+      },
+    };
+
+    await eventStore.append(client, event);
+    logger.info('BookingGroupCreated event recorded', { groupId: group.id, passengerCount: group.passengerCount });
   },
 
   // Publish TicketConfirmed event
   publishTicketConfirmed: async (
+    client: PoolClient,
     bookingId: string,
     userId: string,
     paymentId: string,
+    version: number,
+    ticketToken?: string,
     correlationId?: string
   ): Promise<void> => {
     const event: TicketConfirmedEvent = {
-      ...createBaseEvent(TicketEventType.TICKET_CONFIRMED, bookingId, correlationId),
+      ...createBaseEvent(TicketEventType.TICKET_CONFIRMED, bookingId, version, correlationId),
       eventType: TicketEventType.TICKET_CONFIRMED,
       payload: {
         bookingId,
         userId,
         paymentId,
         confirmedAt: new Date(),
+        ticketToken,
       },
     };
 
-    await publishEvent(KAFKA_TOPICS.TICKET_EVENTS, event);
-    logger.info('TicketConfirmed event published', { bookingId, paymentId });
+    await eventStore.append(client, event);
+    logger.info('TicketConfirmed event recorded', { bookingId, paymentId });
   },
 
   // Publish TicketCancelled event
   publishTicketCancelled: async (
+    client: PoolClient,
     bookingId: string,
     userId: string,
+    version: number,
     reason?: string,
-    refundAmount?: number,
+    refund?: RefundBreakdown,
+    initiatedBy?: RefundInitiator,
+    revokedToken?: RevokedTicketToken,
     correlationId?: string
   ): Promise<void> => {
     const event: TicketCancelledEvent = {
-      ...createBaseEvent(TicketEventType.TICKET_CANCELLED, bookingId, correlationId),
+      ...createBaseEvent(TicketEventType.TICKET_CANCELLED, bookingId, version, correlationId),
       eventType: TicketEventType.TICKET_CANCELLED,
       payload: {
         bookingId,
         userId,
         reason,
         cancelledAt: new Date(),
-        refundAmount,
+        refundAmount: refund?.refundAmount,
+        refundMethod: refund?.method,
+        initiatedBy,
+        revokedToken,
       },
     };
 
-    await publishEvent(KAFKA_TOPICS.TICKET_EVENTS, event);
-    logger.info('TicketCancelled event published', { bookingId, reason });
+    await eventStore.append(client, event);
+    logger.info('TicketCancelled event recorded', { bookingId, reason });
   },
 
   // Publish TicketExpired event
   publishTicketExpired: async (
+    client: PoolClient,
     bookingId: string,
     userId: string,
+    version: number,
     correlationId?: string
   ): Promise<void> => {
     const event: TicketExpiredEvent = {
-      ...createBaseEvent(TicketEventType.TICKET_EXPIRED, bookingId, correlationId),
+      ...createBaseEvent(TicketEventType.TICKET_EXPIRED, bookingId, version, correlationId),
       eventType: TicketEventType.TICKET_EXPIRED,
       payload: {
         bookingId,
@@ -140,10 +219,255 @@ export const eventPublisher = {
       },
     };
 
-    await publishEvent(KAFKA_TOPICS.TICKET_EVENTS, event);
-    logger.info('TicketExpired event published', { bookingId });
+    await eventStore.append(client, event);
+    logger.info('TicketExpired event recorded', { bookingId });
+  },
+
+  // Publish TicketRefunded event
+  publishTicketRefunded: async (
+    client: PoolClient,
+    payload: TicketRefundedEvent['payload'],
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: TicketRefundedEvent = {
+      ...createBaseEvent(TicketEventType.TICKET_REFUNDED, payload.bookingId, version, correlationId),
+      eventType: TicketEventType.TICKET_REFUNDED,
+      payload,
+    };
+
+    await eventStore.append(client, event);
+    logger.info('TicketRefunded event recorded', {
+      bookingId: payload.bookingId,
+      refundAmount: payload.refundAmount,
+      fullyRefunded: payload.fullyRefunded,
+    });
+  },
+
+  // Publish TicketSeatChanged event
+  publishTicketSeatChanged: async (
+    client: PoolClient,
+    payload: TicketSeatChangedEvent['payload'],
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: TicketSeatChangedEvent = {
+      ...createBaseEvent(TicketEventType.TICKET_SEAT_CHANGED, payload.bookingId, version, correlationId),
+      eventType: TicketEventType.TICKET_SEAT_CHANGED,
+      payload,
+    };
+
+    await eventStore.append(client, event);
+    logger.info('TicketSeatChanged event recorded', {
+      bookingId: payload.bookingId,
+      from: payload.previousSeatNumber,
+      to: payload.seatNumber,
+    });
+  },
+
+  // Publish TicketValidated event
+  publishTicketValidated: async (
+    client: PoolClient,
+    payload: TicketValidatedEvent['payload'],
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: TicketValidatedEvent = {
+      ...createBaseEvent(TicketEventType.TICKET_VALIDATED, payload.bookingId, version, correlationId),
+      eventType: TicketEventType.TICKET_VALIDATED,
+      payload,
+    };
+
+    await eventStore.append(client, event);
+    logger.info('TicketValidated event recorded', {
+      bookingId: payload.bookingId,
+      accepted: payload.accepted,
+      reason: payload.reason,
+      suspectedFraud: payload.suspectedFraud,
+    });
+  },
+
+  // Publish TicketChanged event
+  publishTicketChanged: async (
+    client: PoolClient,
+    payload: TicketChangedEvent['payload'],
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: TicketChangedEvent = {
+      ...createBaseEvent(TicketEventType.TICKET_CHANGED, payload.bookingId, version, correlationId),
+      eventType: TicketEventType.TICKET_CHANGED,
+      payload,
+    };
+
+    await eventStore.append(client, event);
+    logger.info('TicketChanged event recorded', {
+      bookingId: payload.bookingId,
+      from: payload.previousScheduleId,
+      to: payload.scheduleId,
+    });
+  },
+
+  // Publish TicketHoldExtended event
+  publishTicketHoldExtended: async (
+    client: PoolClient,
+    payload: TicketHoldExtendedEvent['payload'],
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: TicketHoldExtendedEvent = {
+      ...createBaseEvent(TicketEventType.TICKET_HOLD_EXTENDED, payload.bookingId, version, correlationId),
+      eventType: TicketEventType.TICKET_HOLD_EXTENDED,
+      payload,
+    };
+
+    await eventStore.append(client, event);
+    logger.info('TicketHoldExtended event recorded', {
+      bookingId: payload.bookingId,
+      expiresAt: payload.expiresAt,
+      extensionCount: payload.extensionCount,
+    });
+  },
+
+  // Publish TicketPaymentRefundRequested event
+  publishTicketPaymentRefundRequested: async (
+    client: PoolClient,
+    payload: TicketPaymentRefundRequestedEvent['payload'],
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: TicketPaymentRefundRequestedEvent = {
+      ...createBaseEvent(TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED, payload.bookingId, version, correlationId),
+      eventType: TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED,
+      payload,
+    };
+
+    await eventStore.append(client, event);
+    logger.info('TicketPaymentRefundRequested event recorded', {
+      bookingId: payload.bookingId,
+      paymentId: payload.paymentId,
+      amount: payload.amount,
+    });
+  },
+
+  // Publish ScheduleLayoutAssigned event
+  publishScheduleLayoutAssigned: async (
+    client: PoolClient,
+    scheduleId: string,
+    layoutId: string,
+    seats: LayoutSeat[],
+    capacity: number,
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: ScheduleLayoutAssignedEvent = {
+      ...createBaseEvent(ScheduleEventType.SCHEDULE_LAYOUT_ASSIGNED, scheduleId, version, correlationId, 'Schedule'),
+      eventType: ScheduleEventType.SCHEDULE_LAYOUT_ASSIGNED,
+      payload: {
+        scheduleId,
+        layoutId,
+        seats,
+        capacity,
+      },
+    };
+
+    await eventStore.append(client, event);
+    logger.info('ScheduleLayoutAssigned event recorded', { scheduleId, layoutId, capacity });
+  },
+
+  // Publish ScheduleCapacityChanged event
+  publishScheduleCapacityChanged: async (
+    client: PoolClient,
+    scheduleId: string,
+    capacity: number,
+    previousCapacity: number,
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: ScheduleCapacityChangedEvent = {
+      ...createBaseEvent(ScheduleEventType.SCHEDULE_CAPACITY_CHANGED, scheduleId, version, correlationId, 'Schedule'),
+      eventType: ScheduleEventType.SCHEDULE_CAPACITY_CHANGED,
+      payload: {
+        scheduleId,
+        capacity,
+        previousCapacity,
+      },
+    };
+
+    await eventStore.append(client, event);
+    logger.info('ScheduleCapacityChanged event recorded', { scheduleId, capacity, previousCapacity });
+  },
+
+  // Publish ScheduleDepartureChanged event
+  publishScheduleDepartureChanged: async (
+    client: PoolClient,
+    scheduleId: string,
+    departureTime: Date,
+    previousDepartureTime: Date | null,
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: ScheduleDepartureChangedEvent = {
+      ...createBaseEvent(ScheduleEventType.SCHEDULE_DEPARTURE_CHANGED, scheduleId, version, correlationId, 'Schedule'),
+      eventType: ScheduleEventType.SCHEDULE_DEPARTURE_CHANGED,
+      payload: {
+        scheduleId,
+        departureTime,
+        previousDepartureTime,
+      },
+    };
+
+    await eventStore.append(client, event);
+    logger.info('ScheduleDepartureChanged event recorded', { scheduleId, departureTime });
+  },
+
+  // Publish SeatBlocked event
+  publishSeatBlocked: async (
+    client: PoolClient,
+    scheduleId: string,
+    seatNumber: string,
+    capacity: number,
+    version: number,
+    reason?: string,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: SeatBlockedEvent = {
+      ...createBaseEvent(ScheduleEventType.SEAT_BLOCKED, scheduleId, version, correlationId, 'Schedule'),
+      eventType: ScheduleEventType.SEAT_BLOCKED,
+      payload: {
+        scheduleId,
+        seatNumber,
+        reason,
+        capacity,
+      },
+    };
+
+    await eventStore.append(client, event);
+    logger.info('SeatBlocked event recorded', { scheduleId, seatNumber, reason });
+  },
+
+  // Publish SeatUnblocked event
+  publishSeatUnblocked: async (
+    client: PoolClient,
+    scheduleId: string,
+    seatNumber: string,
+    capacity: number,
+    version: number,
+    correlationId?: string
+  ): Promise<void> => {
+    const event: SeatUnblockedEvent = {
+      ...createBaseEvent(ScheduleEventType.SEAT_UNBLOCKED, scheduleId, version, correlationId, 'Schedule'),
+      eventType: ScheduleEventType.SEAT_UNBLOCKED,
+      payload: {
+        scheduleId,
+        seatNumber,
+        capacity,
+      },
+    };
+
+    await eventStore.append(client, event);
+    logger.info('SeatUnblocked event recorded', { scheduleId, seatNumber });
   },
 };
 
 export default eventPublisher;
-
@@ -1,3 +1,7 @@
+import { BookingStatus, PassengerCategory, TicketChangeBreakdown, TicketValidationRejection } from '../models/booking';
+import { RefundInitiator, RefundMethod } from '../models/refund';
+import { LayoutSeat } from '../models/inventory';
+
 // Domain Event Types
 export enum TicketEventType {
   TICKET_BOOKED = 'TICKET_BOOKED',
@@ -6,6 +10,12 @@ export enum TicketEventType {
   TICKET_CANCELLED = 'TICKET_CANCELLED',
   TICKET_EXPIRED = 'TICKET_EXPIRED',
   TICKET_REFUNDED = 'TICKET_REFUNDED',
+  TICKET_SEAT_CHANGED = 'TICKET_SEAT_CHANGED',
+  TICKET_SEAT_DISPLACED = 'TICKET_SEAT_DISPLACED',
+  TICKET_VALIDATED = 'TICKET_VALIDATED',
+  TICKET_CHANGED = 'TICKET_CHANGED',
+  TICKET_HOLD_EXTENDED = 'TICKET_HOLD_EXTENDED',
+  TICKET_PAYMENT_REFUND_REQUESTED = 'TICKET_PAYMENT_REFUND_REQUESTED',
 }
 
 // Base Event Interface
@@ -32,6 +42,9 @@ export interface TicketBookedEvent extends DomainEvent {
     seatNumber: string | null;
     passengerName: string;
     passengerEmail: string;
+    passengerCategory?: PassengerCategory; // Absent on events recorded before categories existed
+    groupId?: string | null;
+    bookingReference?: string | null; // Absent on events recorded before references existed
     price: number;
     currency: string;
   };
@@ -47,12 +60,21 @@ export interface TicketReservedEvent extends DomainEvent {
     seatNumber: string | null;
     passengerName: string;
     passengerEmail: string;
+    passengerCategory?: PassengerCategory; // Absent on events recorded before categories existed
+    groupId?: string | null;
+    bookingReference?: string | null; // Absent on events recorded before references existed
     price: number;
     currency: string;
     expiresAt: Date;
   };
 }
 
+// A ticket token taken out of use - goes on the token revocation list
+export interface RevokedTicketToken {
+  tokenId: string;
+  expiresAt: Date; // After this the token is expired anyway and can leave the list
+}
+
 export interface TicketConfirmedEvent extends DomainEvent {
   eventType: TicketEventType.TICKET_CONFIRMED;
   payload: {
@@ -60,6 +82,7 @@ export interface TicketConfirmedEvent extends DomainEvent {
     userId: string;
     paymentId: string;
     confirmedAt: Date;
+    ticketToken?: string; // Signed token for the QR code
   };
 }
 
@@ -71,6 +94,9 @@ export interface TicketCancelledEvent extends DomainEvent {
     reason?: string;
     cancelledAt: Date;
     refundAmount?: number;
+    refundMethod?: RefundMethod;
+    initiatedBy?: RefundInitiator;
+    revokedToken?: RevokedTicketToken;
   };
 }
 
@@ -88,8 +114,116 @@ export interface TicketRefundedEvent extends DomainEvent {
   payload: {
     bookingId: string;
     userId: string;
-    refundAmount: number;
+    refundAmount: number; // This refund transaction
     refundedAt: Date;
+    refundTransactionId: string;
+    paymentId?: string;
+    currency: string;
+    refundMethod: RefundMethod;
+    totalRefunded: number; // All refund transactions so far
+    amountOwed: number;
+    fullyRefunded: boolean; // false - a partial refund, the booking stays CANCELLED
+  };
+}
+
+export interface TicketSeatChangedEvent extends DomainEvent {
+  eventType: TicketEventType.TICKET_SEAT_CHANGED;
+  payload: {
+    bookingId: string;
+    userId: string;
+    scheduleId: string;
+    previousSeatNumber: string;
+    seatNumber: string;
+    previousSeatRemoved: boolean; // The old seat no longer exists on the schedule
+    seatStatus: 'LOCKED' | 'BOOKED';
+    lockedUntil: Date | null;
+    reason: string;
+    ticketToken?: string; // Reissued for the new seat
+    revokedToken?: RevokedTicketToken;
+  };
+}
+
+// The booking keeps its status but has no seat any more. No longer recorded -
+// vehicle swaps that can't seat everyone are refused - but kept for replays.
+export interface TicketSeatDisplacedEvent extends DomainEvent {
+  eventType: TicketEventType.TICKET_SEAT_DISPLACED;
+  payload: {
+    bookingId: string;
+    userId: string;
+    scheduleId: string;
+    previousSeatNumber: string;
+    previousSeatRemoved: boolean;
+    reason: string;
+    ticketToken?: string; // Reissued without a seat
+    revokedToken?: RevokedTicketToken;
+  };
+}
+
+// A boarding scan - recorded whether the ticket was accepted or not
+export interface TicketValidatedEvent extends DomainEvent {
+  eventType: TicketEventType.TICKET_VALIDATED;
+  payload: {
+    bookingId: string;
+    userId: string;
+    scheduleId: string; // The trip the scan was made on
+    deviceId: string;
+    validatedBy: string;
+    validatedAt: Date;
+    accepted: boolean;
+    reason?: TicketValidationRejection;
+    validationCount: number; // Scans of this ticket so far, this one included
+    suspectedFraud: boolean; // Scanned again on another device after being used
+  };
+}
+
+// The booking moved to another schedule of its route
+export interface TicketChangedEvent extends DomainEvent {
+  eventType: TicketEventType.TICKET_CHANGED;
+  payload: {
+    bookingId: string;
+    userId: string;
+    previousScheduleId: string;
+    scheduleId: string;
+    previousSeatNumber: string | null;
+    seatNumber: string | null; // null - the new schedule sells unseated tickets
+    price: number; // Fare of the new schedule
+    change: TicketChangeBreakdown;
+    paymentId?: string; // Payment of change.amountDue, when anything was due
+    paidAmount: number; // Paid for the booking in total, change charges included
+    reason?: string;
+    changedAt: Date;
+    ticketToken?: string; // Reissued for the new schedule
+    revokedToken?: RevokedTicketToken;
+  };
+}
+
+// A reservation keeps its seat for longer
+export interface TicketHoldExtendedEvent extends DomainEvent {
+  eventType: TicketEventType.TICKET_HOLD_EXTENDED;
+  payload: {
+    bookingId: string;
+    userId: string;
+    scheduleId: string;
+    seatNumber: string | null;
+    previousExpiresAt: Date;
+    expiresAt: Date;
+    extensionCount: number; // Extensions so far, this one included
+  };
+}
+
+// Money was taken for a booking that can no longer be confirmed - asks the
+// payment service to return it. The booking keeps its status.
+export interface TicketPaymentRefundRequestedEvent extends DomainEvent {
+  eventType: TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED;
+  payload: {
+    bookingId: string;
+    userId: string;
+    paymentId: string;
+    amount: number;
+    currency: string;
+    bookingStatus: BookingStatus; // Why the payment can't be kept, e.g. EXPIRED
+    reason: string;
+    requestedAt: Date;
   };
 }
 
@@ -99,12 +233,131 @@ export type TicketEvent =
   | TicketConfirmedEvent
   | TicketCancelledEvent
   | TicketExpiredEvent
-  | TicketRefundedEvent;
+  | TicketRefundedEvent
+  | TicketSeatChangedEvent
+  | TicketSeatDisplacedEvent
+  | TicketValidatedEvent
+  | TicketChangedEvent
+  | TicketHoldExtendedEvent
+  | TicketPaymentRefundRequestedEvent;
+
+// Schedule Inventory Events (aggregate: Schedule)
+export enum ScheduleEventType {
+  SCHEDULE_LAYOUT_ASSIGNED = 'SCHEDULE_LAYOUT_ASSIGNED',
+  SCHEDULE_CAPACITY_CHANGED = 'SCHEDULE_CAPACITY_CHANGED',
+  SEAT_BLOCKED = 'SEAT_BLOCKED',
+  SEAT_UNBLOCKED = 'SEAT_UNBLOCKED',
+  SCHEDULE_DEPARTURE_CHANGED = 'SCHEDULE_DEPARTURE_CHANGED',
+}
+
+export interface ScheduleLayoutAssignedEvent extends DomainEvent {
+  eventType: ScheduleEventType.SCHEDULE_LAYOUT_ASSIGNED;
+  payload: {
+    scheduleId: string;
+    layoutId: string;
+    seats: LayoutSeat[];
+    capacity: number;
+  };
+}
+
+export interface ScheduleCapacityChangedEvent extends DomainEvent {
+  eventType: ScheduleEventType.SCHEDULE_CAPACITY_CHANGED;
+  payload: {
+    scheduleId: string;
+    capacity: number;
+    previousCapacity: number;
+  };
+}
+
+export interface SeatBlockedEvent extends DomainEvent {
+  eventType: ScheduleEventType.SEAT_BLOCKED;
+  payload: {
+    scheduleId: string;
+    seatNumber: string;
+    reason?: string;
+    capacity: number;
+  };
+}
+
+export interface SeatUnblockedEvent extends DomainEvent {
+  eventType: ScheduleEventType.SEAT_UNBLOCKED;
+  payload: {
+    scheduleId: string;
+    seatNumber: string;
+    capacity: number;
+  };
+}
+
+export interface ScheduleDepartureChangedEvent extends DomainEvent {
+  eventType: ScheduleEventType.SCHEDULE_DEPARTURE_CHANGED;
+  payload: {
+    scheduleId: string;
+    departureTime: Date;
+    previousDepartureTime: Date | null;
+  };
+}
+
+export type ScheduleEvent =
+  | ScheduleLayoutAssignedEvent
+  | ScheduleCapacityChangedEvent
+  | SeatBlockedEvent
+  | SeatUnblockedEvent
+  | ScheduleDepartureChangedEvent;
+
+// Booking Group Events (aggregate: BookingGroup)
+export enum BookingGroupEventType {
+  BOOKING_GROUP_CREATED = 'BOOKING_GROUP_CREATED',
+}
+
+// The group's tickets are recorded by their own TicketBooked/TicketReserved events
+export interface BookingGroupCreatedEvent extends DomainEvent {
+  eventType: BookingGroupEventType.BOOKING_GROUP_CREATED;
+  payload: {
+    groupId: string;
+    bookingReference: string;
+    userId: string;
+    routeId: string;
+    scheduleId: string;
+    bookingIds: string[];
+    passengerCount: number;
+    totalPrice: number;
+    currency: string;
+  };
+}
+
+export type BookingGroupEvent = BookingGroupCreatedEvent;
+
+// Everything recorded in the event store and projected into the read model
+export type ProjectedEvent = TicketEvent | ScheduleEvent | BookingGroupEvent;
+
+// Payment Events (consumed from the payment service)
+export enum PaymentEventType {
+  PAYMENT_SUCCEEDED = 'PAYMENT_SUCCEEDED',
+  PAYMENT_FAILED = 'PAYMENT_FAILED',
+  PAYMENT_REFUNDED = 'PAYMENT_REFUNDED',
+}
+
+export interface PaymentEvent {
+  eventId: string;
+  eventType: PaymentEventType;
+  timestamp: Date;
+  correlationId?: string;
+  payload: {
+    paymentId: string;
+    bookingId?: string;
+    groupId?: string; // A payment for a whole booking group
+    amount?: number;
+    currency?: string;
+    reason?: string;
+  };
+}
 
 // Kafka Topics
 export const KAFKA_TOPICS = {
   TICKET_EVENTS: 'ticket-events',
+  TICKET_EVENTS_DLQ: 'ticket-events.dlq',
   PAYMENT_EVENTS: 'payment-events',
+  PAYMENT_EVENTS_DLQ: 'payment-events.dlq',
   WALLET_EVENTS: 'wallet-events',
   USER_EVENTS: 'user-events',
 } as const;
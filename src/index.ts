@@ -14,6 +14,10 @@ import readDb from './infrastructure/database/readDb';
 import { disconnectKafka, createTopics, KAFKA_TOPICS, createConsumer } from './infrastructure/messaging/kafka';
 import redis from './infrastructure/cache/redis';
 import ticketProjector from './projections/ticketProjector';
+import deadLetters from './infrastructure/messaging/deadLetters';
+import paymentSaga from './sagas/paymentSaga';
+import reservationExpiryWorker from './workers/reservationExpiryWorker';
+import outboxRelay from './workers/outboxRelay';
 
 const app: Application = express();
 
@@ -72,6 +76,10 @@ const gracefulShutdown = async (signal: string): Promise<void> => {
   logger.info(`${signal} received, starting graceful shutdown...`);
 
   try {
+    // Stop background workers
+    await reservationExpiryWorker.stop();
+    await outboxRelay.stop();
+
     // Close Kafka connections
     await disconnectKafka();
     logger.info('Kafka disconnected');
@@ -102,7 +110,9 @@ const startServer = async (): Promise<void> => {
     logger.info('Creating Kafka topics...');
     await createTopics([
       KAFKA_TOPICS.TICKET_EVENTS,
+      KAFKA_TOPICS.TICKET_EVENTS_DLQ,
       KAFKA_TOPICS.PAYMENT_EVENTS,
+      KAFKA_TOPICS.PAYMENT_EVENTS_DLQ,
       KAFKA_TOPICS.WALLET_EVENTS,
     ]);
 
@@ -114,6 +124,29 @@ const startServer = async (): Promise<void> => {
       ticketProjector.processMessage
     );
 
+    // Confirm / cancel bookings from payment outcomes
+    logger.info('Starting payment saga consumer...');
+    await createConsumer(
+      `${config.kafka.groupId}-payment-saga`,
+      [KAFKA_TOPICS.PAYMENT_EVENTS],
+      paymentSaga.processMessage
+    );
+
+    // Archive dead-lettered messages so they can be inspected and re-driven
+    logger.info('Starting dead letter archiver consumer...');
+    await createConsumer(
+      `${config.kafka.groupId}-dlq-archiver`,
+      [KAFKA_TOPICS.TICKET_EVENTS_DLQ, KAFKA_TOPICS.PAYMENT_EVENTS_DLQ],
+      deadLetters.archive,
+      { deadLetter: false }
+    );
+
+    // Start the reservation expiry sweeper
+    reservationExpiryWorker.start();
+
+    // Start relaying outbox events to Kafka
+    outboxRelay.start();
+
     // Start HTTP server
     app.listen(config.port, config.host, () => {
       logger.info(`🚀 Ticketing Service started`, {
@@ -125,9 +158,47 @@ const startServer = async (): Promise<void> => {
       logger.info(`   POST /api/tickets/commands/book`);
       logger.info(`   POST /api/tickets/commands/reserve`);
       logger.info(`   POST /api/tickets/commands/confirm`);
+      logger.info(`   POST /api/tickets/commands/extend-hold`);
       logger.info(`   POST /api/tickets/commands/cancel`);
+      logger.info(`   POST /api/tickets/commands/change`);
+      logger.info(`   POST /api/tickets/commands/refund`);
+      logger.info(`   POST /api/tickets/commands/validate`);
+      logger.info(`   POST /api/tickets/commands/groups/book`);
+      logger.info(`   POST /api/tickets/commands/groups/reserve`);
       logger.info(`   GET  /api/tickets/queries/my-tickets`);
+      logger.info(`   GET  /api/tickets/queries/schedules/availability`);
+      logger.info(`   GET  /api/tickets/queries/schedules/:scheduleId/availability`);
+      logger.info(`   GET  /api/tickets/queries/schedules/:scheduleId/seats`);
+      logger.info(`   GET  /api/tickets/queries/fares/quote`);
+      logger.info(`   GET  /api/tickets/queries/groups/:groupId`);
+      logger.info(`   GET  /api/tickets/queries/bookings/lookup`);
+      logger.info(`   GET  /api/tickets/queries/passenger-categories`);
+      logger.info(`   GET  /api/tickets/queries/booking-states`);
+      logger.info(`   GET  /api/tickets/queries/tokens/public-key`);
+      logger.info(`   GET  /api/tickets/queries/tokens/revocations`);
+      logger.info(`   GET  /api/tickets/queries/:bookingId/token`);
+      logger.info(`   GET  /api/tickets/queries/:bookingId/refund-quote`);
       logger.info(`   GET  /api/tickets/queries/:bookingId`);
+      logger.info(`   GET  /api/tickets/admin/outbox`);
+      logger.info(`   POST /api/tickets/admin/outbox/:id/retry`);
+      logger.info(`   GET  /api/tickets/admin/dlq`);
+      logger.info(`   POST /api/tickets/admin/dlq/:id/redrive`);
+      logger.info(`   POST /api/tickets/admin/layouts`);
+      logger.info(`   GET  /api/tickets/admin/layouts`);
+      logger.info(`   PUT  /api/tickets/admin/schedules/:scheduleId/layout`);
+      logger.info(`   POST /api/tickets/admin/schedules/:scheduleId/vehicle-swap`);
+      logger.info(`   PUT  /api/tickets/admin/schedules/:scheduleId/departure`);
+      logger.info(`   PUT  /api/tickets/admin/schedules/:scheduleId/capacity`);
+      logger.info(`   POST /api/tickets/admin/schedules/:scheduleId/seats/:seatNumber/block`);
+      logger.info(`   POST /api/tickets/admin/schedules/:scheduleId/seats/:seatNumber/unblock`);
+      logger.info(`   PUT  /api/tickets/admin/fares`);
+      logger.info(`   POST /api/tickets/admin/fares/modifiers`);
+      logger.info(`   GET  /api/tickets/admin/fares`);
+      logger.info(`   POST /api/tickets/admin/refund-rules`);
+      logger.info(`   GET  /api/tickets/admin/refund-rules`);
+      logger.info(`   GET  /api/tickets/admin/validations/suspected-fraud`);
+      logger.info(`   POST /api/tickets/admin/projections/rebuild`);
+      logger.info(`   GET  /api/tickets/admin/projections/rebuild`);
       logger.info(`   GET  /api/health`);
       logger.info(`   GET  /api/health/ready`);
       logger.info(`   GET  /api/health/live`);
@@ -107,5 +107,6 @@ export const cacheKeys = {
   userTickets: (userId: string) => `user:${userId}:tickets`,
   ticketDetails: (bookingId: string) => `ticket:${bookingId}`,
   scheduleAvailability: (scheduleId: string) => `schedule:${scheduleId}:availability`,
+  seatMap: (scheduleId: string) => `schedule:${scheduleId}:seats`,
 };
 
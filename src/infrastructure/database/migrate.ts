@@ -6,6 +6,7 @@ const writeDbSchema = `
 -- Bookings table (Write Model)
 CREATE TABLE IF NOT EXISTS bookings (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_reference VARCHAR(6),
     user_id UUID NOT NULL,
     route_id UUID NOT NULL,
     schedule_id UUID NOT NULL,
@@ -13,6 +14,8 @@ CREATE TABLE IF NOT EXISTS bookings (
     passenger_name VARCHAR(255) NOT NULL,
     passenger_email VARCHAR(255) NOT NULL,
     passenger_phone VARCHAR(20),
+    passenger_category VARCHAR(20) NOT NULL DEFAULT 'ADULT',
+    entitlement_reference VARCHAR(50),
     price DECIMAL(10, 2) NOT NULL,
     currency VARCHAR(3) DEFAULT 'USD',
     status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
@@ -21,15 +24,90 @@ CREATE TABLE IF NOT EXISTS bookings (
     confirmed_at TIMESTAMP,
     cancelled_at TIMESTAMP,
     expires_at TIMESTAMP,
+    hold_extension_count INTEGER NOT NULL DEFAULT 0,
+    origin_zone VARCHAR(20),
+    destination_zone VARCHAR(20),
+    fare_breakdown JSONB,
+    refund_breakdown JSONB,
+    refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    refunded_at TIMESTAMP,
+    group_id UUID,
+    ticket_token TEXT,
+    used_at TIMESTAMP,
+    validation_count INTEGER NOT NULL DEFAULT 0,
+    validated_device_id VARCHAR(100),
+    version INTEGER NOT NULL DEFAULT 0,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+
+-- Fare the server charged (see fare_tables / fare_modifiers)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS origin_zone VARCHAR(20);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS destination_zone VARCHAR(20);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS fare_breakdown JSONB;
+
+-- Refund owed on cancellation (see refund_rules)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS refund_breakdown JSONB;
+
+-- What the passenger actually paid: the fare at confirmation plus change charges
+-- collected since. Refunds are based on it, not on the current fare.
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS paid_amount DECIMAL(10, 2);
+UPDATE bookings SET paid_amount = price WHERE paid_amount IS NULL AND payment_id IS NOT NULL;
+
+-- Refunds paid back so far (see booking_refunds)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+
+-- Passenger category (concession) and its proof of entitlement
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS passenger_category VARCHAR(20) NOT NULL DEFAULT 'ADULT';
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS entitlement_reference VARCHAR(50);
+
+-- Tickets booked together share a booking group
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS group_id UUID;
+
+-- Short code read out by customers (PNR); tickets of a group share the group's code
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS booking_reference VARCHAR(6);
+
+-- Signed ticket token of a confirmed booking
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS ticket_token TEXT;
+
+-- Boarding validations: first accepted scan, scans so far and the device of the first one
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS used_at TIMESTAMP;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS validation_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS validated_device_id VARCHAR(100);
+
+-- Times a reservation's hold was extended
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hold_extension_count INTEGER NOT NULL DEFAULT 0;
+
 -- Indexes for Write Model
 CREATE INDEX IF NOT EXISTS idx_bookings_user_id ON bookings(user_id);
 CREATE INDEX IF NOT EXISTS idx_bookings_status ON bookings(status);
 CREATE INDEX IF NOT EXISTS idx_bookings_route_schedule ON bookings(route_id, schedule_id);
 CREATE INDEX IF NOT EXISTS idx_bookings_expires_at ON bookings(expires_at) WHERE status = 'RESERVED';
+CREATE INDEX IF NOT EXISTS idx_bookings_group ON bookings(group_id) WHERE group_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_reference ON bookings(booking_reference);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_reference_unique ON bookings(booking_reference)
+    WHERE group_id IS NULL;
+
+-- Booking groups (parent aggregate of tickets booked together)
+CREATE TABLE IF NOT EXISTS booking_groups (
+    id UUID PRIMARY KEY,
+    booking_reference VARCHAR(6) UNIQUE,
+    user_id UUID NOT NULL,
+    route_id UUID NOT NULL,
+    schedule_id UUID NOT NULL,
+    contact_email VARCHAR(255) NOT NULL,
+    passenger_count INTEGER NOT NULL,
+    total_price DECIMAL(10, 2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    version INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE booking_groups ADD COLUMN IF NOT EXISTS booking_reference VARCHAR(6) UNIQUE;
 
 -- Event Store (for event sourcing/audit)
 CREATE TABLE IF NOT EXISTS booking_events (
@@ -46,8 +124,101 @@ CREATE TABLE IF NOT EXISTS booking_events (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX IF NOT EXISTS idx_booking_events_aggregate ON booking_events(aggregate_id, version);
 CREATE INDEX IF NOT EXISTS idx_booking_events_type ON booking_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_booking_events_correlation ON booking_events(correlation_id);
+
+-- One event per aggregate version. Older event stores used fixed versions (1 for
+-- create, 2 for every later event), so renumber them before adding the constraint
+-- and bring bookings.version in line with the renumbered stream.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'uq_booking_events_aggregate_version'
+    ) THEN
+        UPDATE booking_events e
+        SET version = r.rn
+        FROM (
+            SELECT id, ROW_NUMBER() OVER (
+                PARTITION BY aggregate_id ORDER BY created_at, version, id
+            ) AS rn
+            FROM booking_events
+        ) r
+        WHERE e.id = r.id;
+
+        UPDATE bookings b
+        SET version = v.max_version
+        FROM (
+            SELECT aggregate_id, MAX(version) AS max_version
+            FROM booking_events
+            GROUP BY aggregate_id
+        ) v
+        WHERE b.id = v.aggregate_id;
+
+        ALTER TABLE booking_events
+            ADD CONSTRAINT uq_booking_events_aggregate_version UNIQUE (aggregate_id, version);
+    END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_booking_events_aggregate;
+
+-- Transactional outbox (events waiting to be published to Kafka)
+CREATE TABLE IF NOT EXISTS event_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    event_id UUID NOT NULL UNIQUE,
+    aggregate_id UUID NOT NULL,
+    topic VARCHAR(100) NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    event JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    published_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_outbox_unpublished ON event_outbox(aggregate_id, id) WHERE status <> 'PUBLISHED';
+CREATE INDEX IF NOT EXISTS idx_event_outbox_pending ON event_outbox(next_attempt_at) WHERE status = 'PENDING';
+
+-- Dead-lettered Kafka messages (archived from the *.dlq topics)
+CREATE TABLE IF NOT EXISTS dead_letter_messages (
+    id BIGSERIAL PRIMARY KEY,
+    dlq_topic VARCHAR(100) NOT NULL,
+    dlq_partition INTEGER NOT NULL,
+    dlq_offset VARCHAR(30) NOT NULL,
+    original_topic VARCHAR(100) NOT NULL,
+    original_partition INTEGER,
+    original_offset VARCHAR(30),
+    consumer_group VARCHAR(255),
+    message_key TEXT,
+    message_value TEXT,
+    headers JSONB,
+    error_message TEXT,
+    attempts INTEGER,
+    failed_at TIMESTAMP,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    redriven_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (dlq_topic, dlq_partition, dlq_offset)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_messages_status ON dead_letter_messages(status);
+
+-- Idempotency keys (stored results of command requests)
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    idempotency_key VARCHAR(255) NOT NULL,
+    scope VARCHAR(100) NOT NULL,
+    request_path VARCHAR(255) NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'IN_PROGRESS',
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    PRIMARY KEY (idempotency_key, scope)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at);
 
 -- Seat availability tracking
 CREATE TABLE IF NOT EXISTS seat_availability (
@@ -57,13 +228,150 @@ CREATE TABLE IF NOT EXISTS seat_availability (
     booking_id UUID REFERENCES bookings(id),
     status VARCHAR(20) NOT NULL DEFAULT 'AVAILABLE',
     locked_until TIMESTAMP,
+    seat_row INTEGER,
+    seat_column INTEGER,
+    deck INTEGER,
+    seat_class VARCHAR(20),
+    features JSONB NOT NULL DEFAULT '[]',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(schedule_id, seat_number)
 );
 
+-- Seat layout (optional - rendered by the seat map)
+ALTER TABLE seat_availability ADD COLUMN IF NOT EXISTS seat_row INTEGER;
+ALTER TABLE seat_availability ADD COLUMN IF NOT EXISTS seat_column INTEGER;
+ALTER TABLE seat_availability ADD COLUMN IF NOT EXISTS deck INTEGER;
+ALTER TABLE seat_availability ADD COLUMN IF NOT EXISTS seat_class VARCHAR(20);
+ALTER TABLE seat_availability ADD COLUMN IF NOT EXISTS features JSONB NOT NULL DEFAULT '[]';
+
 CREATE INDEX IF NOT EXISTS idx_seat_availability_schedule ON seat_availability(schedule_id);
 
+-- Vehicle layouts (reusable seat plans)
+CREATE TABLE IF NOT EXISTS vehicle_layouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT,
+    seats JSONB NOT NULL,
+    capacity INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Schedule inventory (layout and sellable capacity of each schedule)
+CREATE TABLE IF NOT EXISTS schedule_inventory (
+    schedule_id UUID PRIMARY KEY,
+    layout_id UUID REFERENCES vehicle_layouts(id),
+    capacity INTEGER NOT NULL,
+    departure_time TIMESTAMP,
+    version INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE schedule_inventory ADD COLUMN IF NOT EXISTS departure_time TIMESTAMP;
+
+-- Route the schedule runs on - tickets are only changed between schedules of one route
+ALTER TABLE schedule_inventory ADD COLUMN IF NOT EXISTS route_id UUID;
+UPDATE schedule_inventory s SET route_id = b.route_id
+FROM bookings b
+WHERE s.route_id IS NULL AND b.schedule_id = s.schedule_id;
+
+-- Fare tables: base fare of a route, either between two zones or (zones NULL) for the whole route
+CREATE TABLE IF NOT EXISTS fare_tables (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    route_id UUID NOT NULL,
+    origin_zone VARCHAR(20),
+    destination_zone VARCHAR(20),
+    base_fare DECIMAL(10, 2) NOT NULL CHECK (base_fare >= 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fare_tables_route_zones
+    ON fare_tables(route_id, COALESCE(origin_zone, ''), COALESCE(destination_zone, ''));
+
+-- Fare modifiers: adjust the base fare when every condition that is set matches
+CREATE TABLE IF NOT EXISTS fare_modifiers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    route_id UUID,
+    schedule_id UUID,
+    passenger_type VARCHAR(20),
+    start_time TIME,
+    end_time TIME,
+    days_of_week SMALLINT[],
+    min_group_size INTEGER,
+    multiplier DECIMAL(6, 4) NOT NULL DEFAULT 1 CHECK (multiplier >= 0),
+    amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    priority INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE fare_modifiers ADD COLUMN IF NOT EXISTS min_group_size INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_fare_modifiers_active ON fare_modifiers(priority) WHERE active;
+
+-- Refund rules: the first active rule (by priority) whose conditions all match
+-- decides what a cancellation refunds
+CREATE TABLE IF NOT EXISTS refund_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    route_id UUID,
+    fare_class VARCHAR(20),
+    passenger_type VARCHAR(20),
+    initiated_by VARCHAR(20),
+    min_hours_before_departure DECIMAL(8, 2),
+    max_hours_before_departure DECIMAL(8, 2),
+    refundable BOOLEAN NOT NULL DEFAULT TRUE,
+    fee_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (fee_percent BETWEEN 0 AND 100),
+    fee_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (fee_amount >= 0),
+    voucher_only BOOLEAN NOT NULL DEFAULT FALSE,
+    voucher_bonus_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (voucher_bonus_percent >= 0),
+    priority INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_rules_active ON refund_rules(priority) WHERE active;
+
+-- Refund transactions reported by the payment side; a booking may be refunded
+-- in several parts, and a group refund transaction covers several bookings
+CREATE TABLE IF NOT EXISTS booking_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    refund_transaction_id VARCHAR(100) NOT NULL,
+    payment_id UUID,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+    currency VARCHAR(3) NOT NULL,
+    method VARCHAR(20) NOT NULL DEFAULT 'CASH',
+    reason TEXT,
+    refunded_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (booking_id, refund_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_refunds_booking ON booking_refunds(booking_id, refunded_at);
+
+-- A booking owed nothing is closed with a zero refund
+ALTER TABLE booking_refunds DROP CONSTRAINT IF EXISTS booking_refunds_amount_check;
+ALTER TABLE booking_refunds ADD CONSTRAINT booking_refunds_amount_check CHECK (amount >= 0);
+
+-- Payments reported by the payment side (PaymentSucceeded) for a booking. A
+-- ticket change is paid with one of them, which can't be used again.
+CREATE TABLE IF NOT EXISTS booking_payments (
+    payment_id UUID PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL,
+    received_at TIMESTAMP NOT NULL,
+    applied_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_payments_booking ON booking_payments(booking_id);
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -74,6 +382,24 @@ END;
 $$ language 'plpgsql';
 
 -- Triggers
+DROP TRIGGER IF EXISTS update_schedule_inventory_updated_at ON schedule_inventory;
+CREATE TRIGGER update_schedule_inventory_updated_at
+    BEFORE UPDATE ON schedule_inventory
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_fare_tables_updated_at ON fare_tables;
+CREATE TRIGGER update_fare_tables_updated_at
+    BEFORE UPDATE ON fare_tables
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_booking_groups_updated_at ON booking_groups;
+CREATE TRIGGER update_booking_groups_updated_at
+    BEFORE UPDATE ON booking_groups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS update_bookings_updated_at ON bookings;
 CREATE TRIGGER update_bookings_updated_at
     BEFORE UPDATE ON bookings
@@ -92,6 +418,7 @@ const readDbSchema = `
 -- User Tickets View (Read Model - Optimized for queries)
 CREATE TABLE IF NOT EXISTS user_tickets_view (
     id UUID PRIMARY KEY,
+    booking_reference VARCHAR(6),
     user_id UUID NOT NULL,
     route_id UUID NOT NULL,
     route_name VARCHAR(255),
@@ -103,6 +430,12 @@ CREATE TABLE IF NOT EXISTS user_tickets_view (
     seat_number VARCHAR(10),
     passenger_name VARCHAR(255) NOT NULL,
     passenger_email VARCHAR(255) NOT NULL,
+    passenger_category VARCHAR(20) NOT NULL DEFAULT 'ADULT',
+    group_id UUID,
+    ticket_token TEXT,
+    used_at TIMESTAMP,
+    validation_count INTEGER NOT NULL DEFAULT 0,
+    suspected_fraud BOOLEAN NOT NULL DEFAULT FALSE,
     price DECIMAL(10, 2) NOT NULL,
     currency VARCHAR(3) DEFAULT 'USD',
     status VARCHAR(20) NOT NULL,
@@ -110,11 +443,23 @@ CREATE TABLE IF NOT EXISTS user_tickets_view (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+ALTER TABLE user_tickets_view ADD COLUMN IF NOT EXISTS passenger_category VARCHAR(20) NOT NULL DEFAULT 'ADULT';
+ALTER TABLE user_tickets_view ADD COLUMN IF NOT EXISTS group_id UUID;
+ALTER TABLE user_tickets_view ADD COLUMN IF NOT EXISTS booking_reference VARCHAR(6);
+ALTER TABLE user_tickets_view ADD COLUMN IF NOT EXISTS ticket_token TEXT;
+ALTER TABLE user_tickets_view ADD COLUMN IF NOT EXISTS used_at TIMESTAMP;
+ALTER TABLE user_tickets_view ADD COLUMN IF NOT EXISTS validation_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_tickets_view ADD COLUMN IF NOT EXISTS suspected_fraud BOOLEAN NOT NULL DEFAULT FALSE;
+
 -- Indexes for Read Model (optimized for common queries)
 CREATE INDEX IF NOT EXISTS idx_user_tickets_user_id ON user_tickets_view(user_id);
 CREATE INDEX IF NOT EXISTS idx_user_tickets_status ON user_tickets_view(status);
 CREATE INDEX IF NOT EXISTS idx_user_tickets_user_status ON user_tickets_view(user_id, status);
 CREATE INDEX IF NOT EXISTS idx_user_tickets_departure ON user_tickets_view(departure_time);
+CREATE INDEX IF NOT EXISTS idx_user_tickets_schedule ON user_tickets_view(schedule_id);
+CREATE INDEX IF NOT EXISTS idx_user_tickets_reference ON user_tickets_view(booking_reference);
+CREATE INDEX IF NOT EXISTS idx_user_tickets_group ON user_tickets_view(group_id) WHERE group_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_user_tickets_suspected_fraud ON user_tickets_view(used_at) WHERE suspected_fraud;
 
 -- Schedule Availability View (for checking seat availability)
 CREATE TABLE IF NOT EXISTS schedule_availability_view (
@@ -122,10 +467,41 @@ CREATE TABLE IF NOT EXISTS schedule_availability_view (
     total_seats INTEGER NOT NULL DEFAULT 50,
     booked_seats INTEGER NOT NULL DEFAULT 0,
     available_seats INTEGER GENERATED ALWAYS AS (total_seats - booked_seats) STORED,
+    departure_time TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     PRIMARY KEY (schedule_id)
 );
 
+ALTER TABLE schedule_availability_view ADD COLUMN IF NOT EXISTS departure_time TIMESTAMP;
+
+-- Seat Map View (per-seat status and layout of each schedule)
+CREATE TABLE IF NOT EXISTS seat_map_view (
+    schedule_id UUID NOT NULL,
+    seat_number VARCHAR(10) NOT NULL,
+    seat_row INTEGER,
+    seat_column INTEGER,
+    deck INTEGER,
+    seat_class VARCHAR(20),
+    status VARCHAR(20) NOT NULL DEFAULT 'AVAILABLE',
+    booking_id UUID,
+    locked_until TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (schedule_id, seat_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seat_map_booking ON seat_map_view(booking_id);
+
+-- Ticket token revocation list (synced by validators)
+CREATE TABLE IF NOT EXISTS ticket_token_revocations (
+    token_id UUID PRIMARY KEY,
+    booking_id UUID NOT NULL,
+    revoked_at TIMESTAMP NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    recorded_at TIMESTAMP NOT NULL DEFAULT NOW() -- When projected - what validators sync from
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_token_revocations_recorded_at ON ticket_token_revocations(recorded_at);
+
 -- Projection tracking (to track which events have been processed)
 CREATE TABLE IF NOT EXISTS projection_checkpoints (
     projection_name VARCHAR(100) PRIMARY KEY,
@@ -133,6 +509,24 @@ CREATE TABLE IF NOT EXISTS projection_checkpoints (
     last_processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Events already applied to the read model (redelivered events are skipped)
+CREATE TABLE IF NOT EXISTS processed_events (
+    projection_name VARCHAR(100) NOT NULL,
+    event_id UUID NOT NULL,
+    aggregate_id VARCHAR(255),
+    version INTEGER,
+    processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (projection_name, event_id)
+);
+
+-- Rebuild progress (used by the read model replay)
+ALTER TABLE projection_checkpoints ADD COLUMN IF NOT EXISTS status VARCHAR(20);
+ALTER TABLE projection_checkpoints ADD COLUMN IF NOT EXISTS events_processed BIGINT;
+ALTER TABLE projection_checkpoints ADD COLUMN IF NOT EXISTS events_total BIGINT;
+ALTER TABLE projection_checkpoints ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+ALTER TABLE projection_checkpoints ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP;
+ALTER TABLE projection_checkpoints ADD COLUMN IF NOT EXISTS error TEXT;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -222,6 +616,11 @@ async function migrate(): Promise<void> {
   }
 }
 
+// Also used to set up the database of the tests
+export { writeDbSchema, readDbSchema };
+
 // Run migrations if this file is executed directly
-migrate();
+if (require.main === module) {
+  migrate();
+}
 
@@ -0,0 +1,26 @@
+import readDb from './readDb';
+import writeDb from './writeDb';
+import redis from '../cache/redis';
+import { projectionRebuilder } from '../../projections/projectionRebuilder';
+
+// Rebuild the read model by replaying the booking_events store
+const replay = async (): Promise<void> => {
+  console.log('Rebuilding read model from booking_events...\n');
+
+  try {
+    const status = await projectionRebuilder.rebuild();
+
+    console.log(`Replayed ${status.eventsProcessed} events`);
+    console.log(`Last processed event: ${status.lastProcessedEventId || '-'}`);
+    console.log('\n✅ Read model rebuilt successfully!');
+  } catch (error) {
+    console.error('\n❌ Read model rebuild failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await redis.close();
+    await writeDb.close();
+    await readDb.close();
+  }
+};
+
+replay();
@@ -2,6 +2,23 @@ import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../../config';
 
+// Fixed ids for the seed rows not tied to the generated route, so running the
+// seed again leaves them alone instead of adding duplicates
+const SEED_FARE_MODIFIER_IDS = {
+  child: '5eed0000-0000-4000-8000-000000000101',
+  student: '5eed0000-0000-4000-8000-000000000102',
+  senior: '5eed0000-0000-4000-8000-000000000103',
+  disabled: '5eed0000-0000-4000-8000-000000000104',
+  companion: '5eed0000-0000-4000-8000-000000000105',
+  group: '5eed0000-0000-4000-8000-000000000106',
+};
+const SEED_REFUND_RULE_IDS = {
+  operator: '5eed0000-0000-4000-8000-000000000201',
+  early: '5eed0000-0000-4000-8000-000000000202',
+  late: '5eed0000-0000-4000-8000-000000000203',
+  afterDeparture: '5eed0000-0000-4000-8000-000000000204',
+};
+
 // Seed data for testing
 const seedData = async (): Promise<void> => {
   console.log('Seeding database with test data...\n');
@@ -37,15 +54,88 @@ const seedData = async (): Promise<void> => {
     const seats = ['A1', 'A2', 'A3', 'A4', 'B1', 'B2', 'B3', 'B4', 'C1', 'C2'];
     
     for (const seat of seats) {
+      // Row letter, column number (A1 = row 1, column 1)
+      const seatRow = seat.charCodeAt(0) - 'A'.charCodeAt(0) + 1;
+      const seatColumn = parseInt(seat.substring(1), 10);
+
       await writePool.query(
-        `INSERT INTO seat_availability (id, schedule_id, seat_number, status)
-         VALUES ($1, $2, $3, $4)
+        `INSERT INTO seat_availability (id, schedule_id, seat_number, status, seat_row, seat_column, deck, seat_class)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
          ON CONFLICT (schedule_id, seat_number) DO NOTHING`,
-        [uuidv4(), testScheduleId, seat, 'AVAILABLE']
+        [uuidv4(), testScheduleId, seat, 'AVAILABLE', seatRow, seatColumn, 1, 'STANDARD']
+      );
+
+      await readPool.query(
+        `INSERT INTO seat_map_view (schedule_id, seat_number, status, seat_row, seat_column, deck, seat_class)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (schedule_id, seat_number) DO NOTHING`,
+        [testScheduleId, seat, 'AVAILABLE', seatRow, seatColumn, 1, 'STANDARD']
       );
     }
     console.log(`Created ${seats.length} seat availability records`);
 
+    // Seed fare tables for the route
+    console.log('\nSeeding fare tables...');
+    await writePool.query(
+      `INSERT INTO fare_tables (route_id, origin_zone, destination_zone, base_fare, currency)
+       VALUES ($1, NULL, NULL, 25.00, 'USD'), ($1, 'Z1', 'Z2', 15.00, 'USD')
+       ON CONFLICT DO NOTHING`,
+      [testRouteId]
+    );
+    await writePool.query(
+      `INSERT INTO fare_modifiers (name, route_id, start_time, end_time, days_of_week, multiplier)
+       SELECT 'Weekday evening peak', $1::uuid, '16:00', '19:00', '{1,2,3,4,5}', 1.2
+       WHERE NOT EXISTS (
+         SELECT 1 FROM fare_modifiers WHERE route_id = $1::uuid AND name = 'Weekday evening peak'
+       )`,
+      [testRouteId]
+    );
+    // Concessions apply after surcharges (higher priority runs later)
+    await writePool.query(
+      `INSERT INTO fare_modifiers (id, name, passenger_type, multiplier, priority)
+       VALUES
+         ($1, 'Child fare', 'CHILD', 0.5, 100),
+         ($2, 'Student fare', 'STUDENT', 0.75, 100),
+         ($3, 'Senior fare', 'SENIOR', 0.6, 100),
+         ($4, 'Disabled fare', 'DISABLED', 0.5, 100),
+         ($5, 'Companion travels free', 'COMPANION', 0, 100)
+       ON CONFLICT (id) DO NOTHING`,
+      [
+        SEED_FARE_MODIFIER_IDS.child,
+        SEED_FARE_MODIFIER_IDS.student,
+        SEED_FARE_MODIFIER_IDS.senior,
+        SEED_FARE_MODIFIER_IDS.disabled,
+        SEED_FARE_MODIFIER_IDS.companion,
+      ]
+    );
+    await writePool.query(
+      `INSERT INTO fare_modifiers (id, name, min_group_size, multiplier, priority)
+       VALUES ($1, 'Group of 10 or more', 10, 0.9, 200)
+       ON CONFLICT (id) DO NOTHING`,
+      [SEED_FARE_MODIFIER_IDS.group]
+    );
+    console.log('Created route fare, zone Z1-Z2 fare, a peak modifier, concession and group fares');
+
+    // Refund policy - the first matching rule (lowest priority) applies
+    await writePool.query(
+      `INSERT INTO refund_rules (
+        id, name, initiated_by, min_hours_before_departure, max_hours_before_departure,
+        refundable, fee_percent, fee_amount, voucher_only, voucher_bonus_percent, priority
+      ) VALUES
+        ($1, 'Operator cancellation', 'OPERATOR', NULL, NULL, TRUE, 0, 0, FALSE, 0, 0),
+        ($2, '24 hours or more before departure', 'PASSENGER', 24, NULL, TRUE, 0, 1.00, FALSE, 10, 100),
+        ($3, 'Up to 24 hours before departure', 'PASSENGER', 0, 24, TRUE, 25, 0, FALSE, 10, 100),
+        ($4, 'After departure', 'PASSENGER', NULL, 0, FALSE, 0, 0, FALSE, 0, 100)
+      ON CONFLICT (id) DO NOTHING`,
+      [
+        SEED_REFUND_RULE_IDS.operator,
+        SEED_REFUND_RULE_IDS.early,
+        SEED_REFUND_RULE_IDS.late,
+        SEED_REFUND_RULE_IDS.afterDeparture,
+      ]
+    );
+    console.log('Created refund rules');
+
     // Seed a sample confirmed booking
     const bookingId = uuidv4();
     console.log('\nSeeding sample booking...');
@@ -74,6 +164,12 @@ const seedData = async (): Promise<void> => {
     );
     console.log('Created sample booking:', bookingId);
 
+    await writePool.query(
+      `UPDATE seat_availability SET status = 'BOOKED', booking_id = $1
+       WHERE schedule_id = $2 AND seat_number = $3`,
+      [bookingId, testScheduleId, 'A1']
+    );
+
     // Seed read model
     console.log('\nSeeding read model...');
     await readPool.query(
@@ -109,10 +205,16 @@ const seedData = async (): Promise<void> => {
       `INSERT INTO schedule_availability_view (schedule_id, total_seats, booked_seats)
        VALUES ($1, $2, $3)
        ON CONFLICT (schedule_id) DO UPDATE SET booked_seats = $3`,
-      [testScheduleId, 50, 1]
+      [testScheduleId, seats.length, 1]
     );
     console.log('Created schedule availability record');
 
+    await readPool.query(
+      `UPDATE seat_map_view SET status = 'BOOKED', booking_id = $1
+       WHERE schedule_id = $2 AND seat_number = $3`,
+      [bookingId, testScheduleId, 'A1']
+    );
+
     console.log('\n✅ Seed data created successfully!');
     console.log('\nUse these IDs for testing:');
     console.log(`  User ID: ${testUserId}`);
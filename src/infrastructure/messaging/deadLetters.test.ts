@@ -0,0 +1,127 @@
+import { EachMessagePayload } from 'kafkajs';
+import { deadLetters, DeadLetterStatus } from './deadLetters';
+import { DLQ_HEADERS, publishRaw } from './kafka';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { useTestDatabase } from '../../testing/database';
+
+jest.mock('../database/writeDb', () => jest.requireActual('../../testing/database').writeDbModule);
+jest.mock('./kafka', () => ({
+  ...jest.requireActual('./kafka'),
+  publishRaw: jest.fn(),
+}));
+
+useTestDatabase();
+
+const publish = publishRaw as jest.MockedFunction<typeof publishRaw>;
+
+// A message the ticket projector gave up on, as read from the dead letter topic
+const deadLettered = (offset: string) =>
+  ({
+    topic: 'ticket-events.dlq',
+    partition: 0,
+    message: {
+      offset,
+      key: Buffer.from('booking-1'),
+      value: Buffer.from('{"eventType":"TICKET_CONFIRMED"}'),
+      headers: {
+        'correlation-id': Buffer.from('corr-1'),
+        [DLQ_HEADERS.ORIGINAL_TOPIC]: Buffer.from('ticket-events'),
+        [DLQ_HEADERS.ORIGINAL_PARTITION]: Buffer.from('2'),
+        [DLQ_HEADERS.ORIGINAL_OFFSET]: Buffer.from('41'),
+        [DLQ_HEADERS.CONSUMER_GROUP]: Buffer.from('ticket-projector'),
+        [DLQ_HEADERS.ERROR_MESSAGE]: Buffer.from('read model unavailable'),
+        [DLQ_HEADERS.ATTEMPTS]: Buffer.from('4'),
+        [DLQ_HEADERS.FAILED_AT]: Buffer.from('2026-01-01T00:00:00.000Z'),
+      },
+    },
+  }) as unknown as EachMessagePayload;
+
+async function archived(offset = '0'): Promise<string> {
+  await deadLetters.archive(deadLettered(offset));
+  const [deadLetter] = await deadLetters.list();
+  return deadLetter.id;
+}
+
+describe('deadLetters', () => {
+  describe('archive', () => {
+    it('keeps the message apart from the metadata the consumer added', async () => {
+      await deadLetters.archive(deadLettered('0'));
+
+      expect(await deadLetters.list()).toEqual([
+        expect.objectContaining({
+          dlqTopic: 'ticket-events.dlq',
+          originalTopic: 'ticket-events',
+          originalPartition: 2,
+          originalOffset: '41',
+          consumerGroup: 'ticket-projector',
+          key: 'booking-1',
+          value: '{"eventType":"TICKET_CONFIRMED"}',
+          headers: { 'correlation-id': 'corr-1' },
+          errorMessage: 'read model unavailable',
+          attempts: 4,
+          failedAt: new Date('2026-01-01T00:00:00.000Z'),
+          status: DeadLetterStatus.PENDING,
+        }),
+      ]);
+    });
+
+    it('archives a redelivered message once', async () => {
+      await deadLetters.archive(deadLettered('0'));
+      await deadLetters.archive(deadLettered('0'));
+
+      expect(await deadLetters.list()).toHaveLength(1);
+    });
+  });
+
+  describe('redrive', () => {
+    it('publishes the message back to its original topic as it was', async () => {
+      const id = await archived();
+
+      const redriven = await deadLetters.redrive(id);
+
+      expect(publish).toHaveBeenCalledWith(
+        'ticket-events',
+        'booking-1',
+        '{"eventType":"TICKET_CONFIRMED"}',
+        { 'correlation-id': 'corr-1' }
+      );
+      expect(redriven).toMatchObject({ id, status: DeadLetterStatus.REDRIVEN, redrivenAt: expect.any(Date) });
+      expect(await deadLetters.list()).toEqual([]);
+      expect(await deadLetters.list({ status: DeadLetterStatus.REDRIVEN })).toHaveLength(1);
+    });
+
+    it('refuses to re-drive a message twice', async () => {
+      const id = await archived();
+      await deadLetters.redrive(id);
+
+      await expect(deadLetters.redrive(id)).rejects.toThrow(ConflictError);
+      expect(publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves the message waiting when it cannot be published', async () => {
+      const id = await archived();
+      publish.mockRejectedValueOnce(new Error('broker unavailable'));
+
+      await expect(deadLetters.redrive(id)).rejects.toThrow('broker unavailable');
+
+      expect(await deadLetters.list()).toEqual([expect.objectContaining({ id, status: DeadLetterStatus.PENDING })]);
+    });
+
+    it('rejects an unknown message', async () => {
+      await expect(deadLetters.redrive('999')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('list', () => {
+    it('lists messages oldest first, up to the limit', async () => {
+      await deadLetters.archive(deadLettered('0'));
+      await deadLetters.archive(deadLettered('1'));
+      await deadLetters.archive(deadLettered('2'));
+
+      const listed = await deadLetters.list({ limit: 2 });
+
+      expect(listed).toHaveLength(2);
+      expect(Number(listed[0].id)).toBeLessThan(Number(listed[1].id));
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { EachMessagePayload, IHeaders } from 'kafkajs';
+import writeDb from '../database/writeDb';
+import { publishRaw, DLQ_HEADERS } from './kafka';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import logger from '../../utils/logger';
+
+// Dead Letter Status
+export enum DeadLetterStatus {
+  PENDING = 'PENDING', // Waiting for an operator
+  REDRIVEN = 'REDRIVEN', // Sent back to the original topic
+}
+
+export interface DeadLetterMessage {
+  id: string;
+  dlqTopic: string;
+  originalTopic: string;
+  originalPartition: number | null;
+  originalOffset: string | null;
+  consumerGroup: string | null;
+  key: string | null;
+  value: string | null;
+  headers: Record<string, string>;
+  errorMessage: string | null;
+  attempts: number | null;
+  failedAt: Date | null;
+  status: DeadLetterStatus;
+  redrivenAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ListDeadLettersOptions {
+  status?: DeadLetterStatus;
+  limit?: number;
+}
+
+const DLQ_HEADER_NAMES: string[] = Object.values(DLQ_HEADERS);
+
+/**
+ * Dead Letter Store - keeps dead-lettered Kafka messages in the write DB so
+ * they can be inspected and re-driven through the admin API
+ */
+export const deadLetters = {
+  /**
+   * Consumer handler for the dead letter topics - archives each message
+   */
+  archive: async (payload: EachMessagePayload): Promise<void> => {
+    const { topic, partition, message } = payload;
+    const headers = decodeHeaders(message.headers);
+
+    // Keep the original headers separate from the DLQ metadata
+    const originalHeaders = Object.fromEntries(
+      Object.entries(headers).filter(([name]) => !DLQ_HEADER_NAMES.includes(name))
+    );
+
+    await writeDb.query(
+      `INSERT INTO dead_letter_messages (
+        dlq_topic, dlq_partition, dlq_offset,
+        original_topic, original_partition, original_offset, consumer_group,
+        message_key, message_value, headers, error_message, attempts, failed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      ON CONFLICT (dlq_topic, dlq_partition, dlq_offset) DO NOTHING`,
+      [
+        topic,
+        partition,
+        message.offset,
+        headers[DLQ_HEADERS.ORIGINAL_TOPIC] || topic.replace(/\.dlq$/, ''),
+        headers[DLQ_HEADERS.ORIGINAL_PARTITION] ? parseInt(headers[DLQ_HEADERS.ORIGINAL_PARTITION], 10) : null,
+        headers[DLQ_HEADERS.ORIGINAL_OFFSET] || null,
+        headers[DLQ_HEADERS.CONSUMER_GROUP] || null,
+        message.key ? message.key.toString() : null,
+        message.value ? message.value.toString() : null,
+        JSON.stringify(originalHeaders),
+        headers[DLQ_HEADERS.ERROR_MESSAGE] || null,
+        headers[DLQ_HEADERS.ATTEMPTS] ? parseInt(headers[DLQ_HEADERS.ATTEMPTS], 10) : null,
+        headers[DLQ_HEADERS.FAILED_AT] ? new Date(headers[DLQ_HEADERS.FAILED_AT]) : null,
+      ]
+    );
+
+    logger.info('Dead letter message archived', { topic, partition, offset: message.offset });
+  },
+
+  list: async (options: ListDeadLettersOptions = {}): Promise<DeadLetterMessage[]> => {
+    const rows = await writeDb.query<Record<string, unknown>>(
+      `SELECT * FROM dead_letter_messages
+       WHERE status = $1
+       ORDER BY id
+       LIMIT $2`,
+      [options.status || DeadLetterStatus.PENDING, options.limit || 100]
+    );
+
+    return rows.map(mapRowToDeadLetter);
+  },
+
+  /**
+   * Publish a dead-lettered message back to its original topic
+   */
+  redrive: async (id: string): Promise<DeadLetterMessage> => {
+    return writeDb.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT * FROM dead_letter_messages WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError(`Dead letter message ${id} not found`);
+      }
+
+      const deadLetter = mapRowToDeadLetter(result.rows[0]);
+
+      if (deadLetter.status !== DeadLetterStatus.PENDING) {
+        throw new ConflictError(`Dead letter message ${id} has already been re-driven`);
+      }
+
+      await publishRaw(deadLetter.originalTopic, deadLetter.key, deadLetter.value, deadLetter.headers);
+
+      const updated = await client.query(
+        `UPDATE dead_letter_messages
+         SET status = $1, redriven_at = NOW()
+         WHERE id = $2
+         RETURNING *`,
+        [DeadLetterStatus.REDRIVEN, id]
+      );
+
+      logger.info('Dead letter message re-driven', {
+        id,
+        topic: deadLetter.originalTopic,
+        originalOffset: deadLetter.originalOffset,
+      });
+
+      return mapRowToDeadLetter(updated.rows[0]);
+    });
+  },
+};
+
+function decodeHeaders(headers: IHeaders | undefined): Record<string, string> {
+  const decoded: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value !== undefined) {
+      decoded[name] = Array.isArray(value) ? value.map(String).join(',') : value.toString();
+    }
+  }
+
+  return decoded;
+}
+
+function mapRowToDeadLetter(row: Record<string, unknown>): DeadLetterMessage {
+  return {
+    id: String(row.id),
+    dlqTopic: row.dlq_topic as string,
+    originalTopic: row.original_topic as string,
+    originalPartition: row.original_partition as number | null,
+    originalOffset: row.original_offset as string | null,
+    consumerGroup: row.consumer_group as string | null,
+    key: row.message_key as string | null,
+    value: row.message_value as string | null,
+    headers: (row.headers as Record<string, string>) || {},
+    errorMessage: row.error_message as string | null,
+    attempts: row.attempts as number | null,
+    failedAt: row.failed_at ? new Date(row.failed_at as string) : null,
+    status: row.status as DeadLetterStatus,
+    redrivenAt: row.redriven_at ? new Date(row.redriven_at as string) : null,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default deadLetters;
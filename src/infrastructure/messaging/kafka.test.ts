@@ -0,0 +1,91 @@
+import { EachMessagePayload } from 'kafkajs';
+import { createConsumer, DLQ_HEADERS, MessageHandler } from './kafka';
+
+// A broker-less kafkajs: the consumer hands back its message handler and the
+// producer records what it sends
+const mockConsumer = {
+  connect: jest.fn(),
+  subscribe: jest.fn(),
+  run: jest.fn(),
+};
+const mockProducer = {
+  connect: jest.fn(),
+  send: jest.fn(),
+};
+
+jest.mock('kafkajs', () => ({
+  ...jest.requireActual('kafkajs'),
+  Kafka: function Kafka() {
+    return { consumer: () => mockConsumer, producer: () => mockProducer };
+  },
+}));
+
+const NO_BACKOFF = { maxRetries: 2, initialBackoffMs: 0, maxBackoffMs: 0 };
+
+const payload = {
+  topic: 'ticket-events',
+  partition: 1,
+  message: { offset: '7', key: Buffer.from('booking-1'), value: Buffer.from('{}'), headers: { 'correlation-id': 'corr-1' } },
+  heartbeat: jest.fn(),
+} as unknown as EachMessagePayload;
+
+// Start a consumer and deliver it the message
+async function deliver(handler: MessageHandler, deadLetter?: boolean): Promise<void> {
+  await createConsumer('ticket-projector', ['ticket-events'], handler, { retry: NO_BACKOFF, deadLetter });
+  const { eachMessage } = mockConsumer.run.mock.calls[0][0];
+  await eachMessage(payload);
+}
+
+describe('createConsumer', () => {
+  it('retries a failing message until it goes through', async () => {
+    const handler = jest.fn()
+      .mockRejectedValueOnce(new Error('read model unavailable'))
+      .mockRejectedValueOnce(new Error('read model unavailable'))
+      .mockResolvedValue(undefined);
+
+    await deliver(handler);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(payload.heartbeat).toHaveBeenCalledTimes(2);
+    expect(mockProducer.send).not.toHaveBeenCalled();
+  });
+
+  it('forwards a message that still fails after every retry to the dead letter topic', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('read model unavailable'));
+
+    await deliver(handler);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(mockProducer.send).toHaveBeenCalledWith({
+      topic: 'ticket-events.dlq',
+      messages: [
+        {
+          key: payload.message.key,
+          value: payload.message.value,
+          headers: expect.objectContaining({
+            'correlation-id': 'corr-1',
+            [DLQ_HEADERS.ORIGINAL_TOPIC]: 'ticket-events',
+            [DLQ_HEADERS.ORIGINAL_PARTITION]: '1',
+            [DLQ_HEADERS.ORIGINAL_OFFSET]: '7',
+            [DLQ_HEADERS.CONSUMER_GROUP]: 'ticket-projector',
+            [DLQ_HEADERS.ERROR_MESSAGE]: 'read model unavailable',
+            [DLQ_HEADERS.ATTEMPTS]: '3',
+          }),
+        },
+      ],
+    });
+  });
+
+  it('fails the message, leaving its offset uncommitted, when the dead letter topic is unavailable', async () => {
+    mockProducer.send.mockRejectedValueOnce(new Error('broker unavailable'));
+
+    await expect(deliver(jest.fn().mockRejectedValue(new Error('read model unavailable'))))
+      .rejects.toThrow('broker unavailable');
+  });
+
+  it('hands the error back to kafkajs when dead lettering is off', async () => {
+    await expect(deliver(jest.fn().mockRejectedValue(new Error('read model unavailable')), false))
+      .rejects.toThrow('read model unavailable');
+    expect(mockProducer.send).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,4 @@
-import { Kafka, Producer, Consumer, EachMessagePayload, logLevel } from 'kafkajs';
+import { Kafka, Producer, Consumer, EachMessagePayload, IHeaders, logLevel } from 'kafkajs';
 import { config } from '../../config';
 import logger from '../../utils/logger';
 import { DomainEvent, KAFKA_TOPICS } from '../../events/types';
@@ -24,7 +24,7 @@ const getKafka = (): Kafka => {
 };
 
 let producer: Producer | null = null;
-let consumer: Consumer | null = null;
+const consumers: Consumer[] = [];
 
 // Producer
 export const getProducer = async (): Promise<Producer> => {
@@ -112,13 +112,45 @@ export const publishEvents = async (
 // Consumer
 export type MessageHandler = (payload: EachMessagePayload) => Promise<void>;
 
+export interface RetryPolicy {
+  maxRetries: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface ConsumerOptions {
+  retry?: RetryPolicy;
+  // Forward messages that still fail after all retries to `<topic>.dlq` (default: true)
+  deadLetter?: boolean;
+}
+
+// Headers added to messages forwarded to a dead letter topic
+export const DLQ_HEADERS = {
+  ORIGINAL_TOPIC: 'dlq-original-topic',
+  ORIGINAL_PARTITION: 'dlq-original-partition',
+  ORIGINAL_OFFSET: 'dlq-original-offset',
+  CONSUMER_GROUP: 'dlq-consumer-group',
+  ERROR_MESSAGE: 'dlq-error-message',
+  ATTEMPTS: 'dlq-attempts',
+  FAILED_AT: 'dlq-failed-at',
+} as const;
+
+export const deadLetterTopic = (topic: string): string => `${topic}.dlq`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export const createConsumer = async (
   groupId: string,
   topics: string[],
-  handler: MessageHandler
+  handler: MessageHandler,
+  options: ConsumerOptions = {}
 ): Promise<Consumer> => {
+  const retry = options.retry || config.kafka.consumerRetry;
+  const deadLetter = options.deadLetter ?? true;
+
   const kafka = getKafka();
-  consumer = kafka.consumer({ groupId });
+  const consumer = kafka.consumer({ groupId });
+  consumers.push(consumer);
 
   await consumer.connect();
   logger.info('Kafka consumer connected', { groupId });
@@ -130,17 +162,38 @@ export const createConsumer = async (
 
   await consumer.run({
     eachMessage: async (payload) => {
-      try {
-        await handler(payload);
-      } catch (error) {
-        logger.error('Error processing message', {
-          topic: payload.topic,
-          partition: payload.partition,
-          offset: payload.message.offset,
-          error,
-        });
-        // Don't throw - let Kafka know message was processed to avoid infinite loop
-        // In production, you might want to send to a dead letter queue
+      let attempt = 0;
+
+      for (;;) {
+        try {
+          await handler(payload);
+          return;
+        } catch (error) {
+          attempt++;
+
+          logger.error('Error processing message', {
+            topic: payload.topic,
+            partition: payload.partition,
+            offset: payload.message.offset,
+            attempt,
+            error,
+          });
+
+          if (attempt <= retry.maxRetries) {
+            await sleep(Math.min(retry.initialBackoffMs * 2 ** (attempt - 1), retry.maxBackoffMs));
+            await payload.heartbeat();
+            continue;
+          }
+
+          if (!deadLetter) {
+            // Let kafkajs restart the consumer - the offset is not committed
+            throw error;
+          }
+
+          // Throws if the DLQ is unavailable, so the message is retried rather than lost
+          await sendToDeadLetter(groupId, payload, error, attempt);
+          return;
+        }
       }
     },
   });
@@ -148,6 +201,56 @@ export const createConsumer = async (
   return consumer;
 };
 
+/**
+ * Forward a message that could not be processed to the topic's dead letter topic,
+ * keeping the original key, value and headers
+ */
+async function sendToDeadLetter(
+  groupId: string,
+  payload: EachMessagePayload,
+  error: unknown,
+  attempts: number
+): Promise<void> {
+  const { topic, partition, message } = payload;
+  const dlqTopic = deadLetterTopic(topic);
+  const prod = await getProducer();
+
+  const headers: IHeaders = {
+    ...message.headers,
+    [DLQ_HEADERS.ORIGINAL_TOPIC]: topic,
+    [DLQ_HEADERS.ORIGINAL_PARTITION]: String(partition),
+    [DLQ_HEADERS.ORIGINAL_OFFSET]: message.offset,
+    [DLQ_HEADERS.CONSUMER_GROUP]: groupId,
+    [DLQ_HEADERS.ERROR_MESSAGE]: error instanceof Error ? error.message : String(error),
+    [DLQ_HEADERS.ATTEMPTS]: String(attempts),
+    [DLQ_HEADERS.FAILED_AT]: new Date().toISOString(),
+  };
+
+  await prod.send({
+    topic: dlqTopic,
+    messages: [{ key: message.key, value: message.value, headers }],
+  });
+
+  logger.warn('Message sent to dead letter topic', {
+    topic,
+    dlqTopic,
+    partition,
+    offset: message.offset,
+    groupId,
+  });
+}
+
+// Send a raw message (used to re-drive dead-lettered messages)
+export const publishRaw = async (
+  topic: string,
+  key: string | null,
+  value: string | null,
+  headers: IHeaders = {}
+): Promise<void> => {
+  const prod = await getProducer();
+  await prod.send({ topic, messages: [{ key, value, headers }] });
+};
+
 // Graceful shutdown
 export const disconnectKafka = async (): Promise<void> => {
   try {
@@ -156,7 +259,7 @@ export const disconnectKafka = async (): Promise<void> => {
       logger.info('Kafka producer disconnected');
     }
 
-    if (consumer) {
+    for (const consumer of consumers) {
       await consumer.disconnect();
       logger.info('Kafka consumer disconnected');
     }
@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from 'uuid';
+import { outbox, OutboxStatus } from './outbox';
+import { DomainEvent } from '../../events/types';
+import { NotFoundError } from '../../utils/errors';
+import { testClient, useTestDatabase } from '../../testing/database';
+import { minutesFromNow } from '../../testing/fixtures';
+
+jest.mock('../database/writeDb', () => jest.requireActual('../../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const BOOKING_A = uuidv4();
+const BOOKING_B = uuidv4();
+
+// Queue an event of the aggregate, returns its outbox id
+async function enqueue(aggregateId: string): Promise<string> {
+  const event = {
+    eventId: uuidv4(),
+    eventType: 'TICKET_BOOKED',
+    aggregateId,
+    aggregateType: 'Booking',
+    timestamp: new Date(),
+    version: 1,
+    payload: {},
+  } as unknown as DomainEvent;
+
+  await outbox.enqueue(testClient, 'ticket-events', event);
+  const row = await db.queryOne<{ id: string }>(`SELECT id FROM event_outbox WHERE event_id = $1`, [event.eventId]);
+  return String(row!.id);
+}
+
+const claimedIds = async (limit = 10) => (await outbox.claimPending(testClient, limit)).map((entry) => entry.id);
+
+describe('outbox', () => {
+  describe('claimPending', () => {
+    it('claims the oldest entries first, up to the limit', async () => {
+      const first = await enqueue(uuidv4());
+      const second = await enqueue(uuidv4());
+      await enqueue(uuidv4());
+
+      expect(await claimedIds(2)).toEqual([first, second]);
+    });
+
+    it('claims one entry per aggregate, the next once the previous is published', async () => {
+      const a1 = await enqueue(BOOKING_A);
+      const a2 = await enqueue(BOOKING_A);
+      const b1 = await enqueue(BOOKING_B);
+
+      expect(await claimedIds()).toEqual([a1, b1]);
+
+      await outbox.markPublished(testClient, a1);
+
+      expect(await claimedIds()).toEqual([a2, b1]);
+    });
+
+    it('waits for the backoff of a failed attempt, holding back the later entries of its aggregate', async () => {
+      const a1 = await enqueue(BOOKING_A);
+      await enqueue(BOOKING_A);
+      const b1 = await enqueue(BOOKING_B);
+
+      await outbox.markAttemptFailed(testClient, a1, 'broker unavailable', minutesFromNow(5), false);
+
+      expect(await claimedIds()).toEqual([b1]);
+
+      await db.query(`UPDATE event_outbox SET next_attempt_at = $1 WHERE id = $2`, [minutesFromNow(-1), a1]);
+
+      expect(await claimedIds()).toEqual([a1, b1]);
+    });
+
+    it('keeps an aggregate blocked behind a FAILED entry until it is retried', async () => {
+      const a1 = await enqueue(BOOKING_A);
+      await enqueue(BOOKING_A);
+      const b1 = await enqueue(BOOKING_B);
+
+      await outbox.markAttemptFailed(testClient, a1, 'broker unavailable', minutesFromNow(-1), true);
+
+      expect(await claimedIds()).toEqual([b1]);
+      expect(await outbox.backlog()).toEqual({ failed: 1, blockedAggregates: 1, heldBack: 1 });
+
+      const retried = await outbox.retry(a1);
+
+      expect(retried.status).toBe(OutboxStatus.PENDING);
+      expect(retried.attempts).toBe(0);
+      expect(await claimedIds()).toEqual([a1, b1]);
+      expect(await outbox.backlog()).toEqual({ failed: 0, blockedAggregates: 0, heldBack: 0 });
+    });
+  });
+
+  describe('markAttemptFailed', () => {
+    it('counts the attempt and records the error', async () => {
+      const id = await enqueue(BOOKING_A);
+
+      await outbox.markAttemptFailed(testClient, id, 'broker unavailable', minutesFromNow(1), false);
+      const [entry] = await outbox.list();
+
+      expect(entry).toMatchObject({ id, status: OutboxStatus.PENDING, attempts: 1, lastError: 'broker unavailable' });
+    });
+  });
+
+  describe('list', () => {
+    it('lists the unpublished entries, or those of one status', async () => {
+      const published = await enqueue(BOOKING_A);
+      const failed = await enqueue(BOOKING_B);
+      const pending = await enqueue(uuidv4());
+
+      await outbox.markPublished(testClient, published);
+      await outbox.markAttemptFailed(testClient, failed, 'broker unavailable', new Date(), true);
+
+      expect((await outbox.list()).map((entry) => entry.id)).toEqual([failed, pending]);
+      expect((await outbox.list({ status: OutboxStatus.FAILED })).map((entry) => entry.id)).toEqual([failed]);
+    });
+  });
+
+  describe('retry', () => {
+    it('refuses published and unknown entries', async () => {
+      const id = await enqueue(BOOKING_A);
+      await outbox.markPublished(testClient, id);
+
+      await expect(outbox.retry(id)).rejects.toThrow(NotFoundError);
+      await expect(outbox.retry('999')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { PoolClient } from 'pg';
+import writeDb from '../database/writeDb';
+import { DomainEvent } from '../../events/types';
+import { NotFoundError } from '../../utils/errors';
+
+// Outbox Entry Status
+export enum OutboxStatus {
+  PENDING = 'PENDING',
+  PUBLISHED = 'PUBLISHED',
+  FAILED = 'FAILED', // Gave up after max attempts - needs manual retry
+}
+
+export interface OutboxEntry {
+  id: string;
+  eventId: string;
+  aggregateId: string;
+  topic: string;
+  eventType: string;
+  event: DomainEvent;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+  publishedAt: Date | null;
+}
+
+// Entries that gave up and what they hold back
+export interface OutboxBacklog {
+  failed: number;
+  blockedAggregates: number;
+  heldBack: number; // Later entries of those aggregates waiting behind them
+}
+
+export interface ListOutboxOptions {
+  status?: OutboxStatus;
+  limit?: number;
+}
+
+/**
+ * Transactional outbox - domain events are written here in the same write
+ * transaction as the state change and published to Kafka by the outbox relay.
+ */
+export const outbox = {
+  /**
+   * Queue an event for publishing (must use the caller's transaction client)
+   */
+  enqueue: async (
+    client: PoolClient,
+    topic: string,
+    event: DomainEvent
+  ): Promise<void> => {
+    await client.query(
+      `INSERT INTO event_outbox (event_id, aggregate_id, topic, event_type, event)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [event.eventId, event.aggregateId, topic, event.eventType, JSON.stringify(event)]
+    );
+  },
+
+  /**
+   * Lock the next publishable entries.
+   * Only the oldest unpublished entry of each aggregate is eligible, which keeps
+   * events in order per aggregate even with several relays running.
+   */
+  claimPending: async (client: PoolClient, limit: number): Promise<OutboxEntry[]> => {
+    const result = await client.query(
+      `SELECT * FROM event_outbox o
+       WHERE o.status = $1 AND o.next_attempt_at <= NOW()
+         AND NOT EXISTS (
+           SELECT 1 FROM event_outbox p
+           WHERE p.aggregate_id = o.aggregate_id AND p.id < o.id AND p.status <> $2
+         )
+       ORDER BY o.id
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED`,
+      [OutboxStatus.PENDING, OutboxStatus.PUBLISHED, limit]
+    );
+
+    return result.rows.map(mapRowToOutboxEntry);
+  },
+
+  markPublished: async (client: PoolClient, id: string): Promise<void> => {
+    await client.query(
+      `UPDATE event_outbox
+       SET status = $1, attempts = attempts + 1, last_error = NULL, published_at = NOW()
+       WHERE id = $2`,
+      [OutboxStatus.PUBLISHED, id]
+    );
+  },
+
+  markAttemptFailed: async (
+    client: PoolClient,
+    id: string,
+    error: string,
+    nextAttemptAt: Date,
+    giveUp: boolean
+  ): Promise<void> => {
+    await client.query(
+      `UPDATE event_outbox
+       SET status = $1, attempts = attempts + 1, last_error = $2, next_attempt_at = $3
+       WHERE id = $4`,
+      [giveUp ? OutboxStatus.FAILED : OutboxStatus.PENDING, error, nextAttemptAt, id]
+    );
+  },
+
+  /**
+   * FAILED entries and the later entries of their aggregates they hold back -
+   * nothing of those aggregates is published again until the entries are retried
+   */
+  backlog: async (): Promise<OutboxBacklog> => {
+    const row = await writeDb.queryOne<Record<string, string>>(
+      `SELECT
+         COUNT(*) FILTER (WHERE o.status = $1) AS failed,
+         COUNT(DISTINCT o.aggregate_id) FILTER (WHERE o.status = $1) AS blocked_aggregates,
+         COUNT(*) FILTER (
+           WHERE o.status = $2 AND EXISTS (
+             SELECT 1 FROM event_outbox f
+             WHERE f.aggregate_id = o.aggregate_id AND f.id < o.id AND f.status = $1
+           )
+         ) AS held_back
+       FROM event_outbox o
+       WHERE o.status <> $3`,
+      [OutboxStatus.FAILED, OutboxStatus.PENDING, OutboxStatus.PUBLISHED]
+    );
+
+    return {
+      failed: parseInt(row?.failed || '0', 10),
+      blockedAggregates: parseInt(row?.blocked_aggregates || '0', 10),
+      heldBack: parseInt(row?.held_back || '0', 10),
+    };
+  },
+
+  /**
+   * List unpublished entries (PENDING and FAILED unless a status is given)
+   */
+  list: async (options: ListOutboxOptions = {}): Promise<OutboxEntry[]> => {
+    const statuses = options.status
+      ? [options.status]
+      : [OutboxStatus.PENDING, OutboxStatus.FAILED];
+
+    const rows = await writeDb.query<Record<string, unknown>>(
+      `SELECT * FROM event_outbox
+       WHERE status = ANY($1)
+       ORDER BY id
+       LIMIT $2`,
+      [statuses, options.limit || 100]
+    );
+
+    return rows.map(mapRowToOutboxEntry);
+  },
+
+  /**
+   * Reset an entry so the relay picks it up again on its next poll
+   */
+  retry: async (id: string): Promise<OutboxEntry> => {
+    const row = await writeDb.queryOne<Record<string, unknown>>(
+      `UPDATE event_outbox
+       SET status = $1, attempts = 0, next_attempt_at = NOW()
+       WHERE id = $2 AND status <> $3
+       RETURNING *`,
+      [OutboxStatus.PENDING, id, OutboxStatus.PUBLISHED]
+    );
+
+    if (!row) {
+      throw new NotFoundError(`Unpublished outbox entry ${id} not found`);
+    }
+
+    return mapRowToOutboxEntry(row);
+  },
+};
+
+function mapRowToOutboxEntry(row: Record<string, unknown>): OutboxEntry {
+  const event = row.event as DomainEvent & { timestamp: string | Date };
+
+  return {
+    id: String(row.id),
+    eventId: row.event_id as string,
+    aggregateId: row.aggregate_id as string,
+    topic: row.topic as string,
+    eventType: row.event_type as string,
+    event: { ...event, timestamp: new Date(event.timestamp) },
+    status: row.status as OutboxStatus,
+    attempts: row.attempts as number,
+    lastError: row.last_error as string | null,
+    nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at as string) : null,
+    createdAt: new Date(row.created_at as string),
+    publishedAt: row.published_at ? new Date(row.published_at as string) : null,
+  };
+}
+
+export default outbox;
@@ -13,16 +13,20 @@ declare global {
   }
 }
 
+// INSPECTOR - ticket inspectors and boarding gate devices
+// SERVICE - other services of the platform calling with a service token
+export type UserRole = 'USER' | 'INSPECTOR' | 'ADMIN' | 'SERVICE';
+
 export interface AuthUser {
   userId: string;
   email: string;
-  role: 'USER' | 'ADMIN';
+  role: UserRole;
 }
 
 interface JwtPayload {
   sub: string;
   email: string;
-  role: 'USER' | 'ADMIN';
+  role: UserRole;
   iat: number;
   exp: number;
 }
@@ -72,7 +76,7 @@ export const authenticate = (
 /**
  * Authorization middleware - checks user role
  */
-export const authorize = (...allowedRoles: Array<'USER' | 'ADMIN'>) => {
+export const authorize = (...allowedRoles: UserRole[]) => {
   return (req: Request, _res: Response, next: NextFunction): void => {
     if (!req.user) {
       return next(new UnauthorizedError('Authentication required'));
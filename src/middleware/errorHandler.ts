@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
-import { AppError, ValidationError } from '../utils/errors';
+import { AppError, ChangePaymentRequiredError, InvalidBookingStateError, ValidationError } from '../utils/errors';
 import logger from '../utils/logger';
 import { config } from '../config';
 
@@ -47,6 +47,16 @@ export const errorHandler = (
       response.error.details = { validationErrors: err.errors };
     }
 
+    // Tell the client where the booking can go from here
+    if (err instanceof InvalidBookingStateError && err.allowedNextStates) {
+      response.error.details = { currentState: err.currentState, allowedNextStates: err.allowedNextStates };
+    }
+
+    // Tell the client what to pay before retrying the change
+    if (err instanceof ChangePaymentRequiredError) {
+      response.error.details = { amountDue: err.amountDue, currency: err.currency };
+    }
+
     // Add stack trace in development
     if (config.env === 'development') {
       response.stack = err.stack;
@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { idempotent } from './idempotency';
+import { config } from '../config';
+import { BadRequestError, ConflictError, IdempotencyKeyReusedError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import { minutesFromNow } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+function fakeRequest(options: {
+  key?: string;
+  path?: string;
+  body?: unknown;
+  userId?: string;
+  ip?: string;
+} = {}): Request {
+  return {
+    header: (name: string) => (name.toLowerCase() === 'idempotency-key' ? options.key : undefined),
+    method: 'POST',
+    baseUrl: '/api/commands',
+    path: options.path || '/bookings',
+    body: options.body ?? { routeId: 'route-1', seatNumber: 'A1' },
+    user: options.userId ? { userId: options.userId, role: 'USER' } : undefined,
+    ip: options.ip || '10.0.0.1',
+    socket: {},
+  } as unknown as Request;
+}
+
+function fakeResponse() {
+  const send = jest.fn();
+  const setHeader = jest.fn();
+  const res = { statusCode: 200, setHeader, json: send } as unknown as Response;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  return { res, send, setHeader };
+}
+
+// Let the deferred store-then-send of a wrapped res.json finish
+const flush = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+/**
+ * Run a request through the middleware; a request it lets through is answered
+ * with `status` and `body`
+ */
+async function send(req: Request, status = 201, body: unknown = { bookingId: 'booking-1' }) {
+  const response = fakeResponse();
+  const next = jest.fn();
+
+  await idempotent(req, response.res, next);
+
+  if (next.mock.calls.length > 0 && next.mock.calls[0].length === 0) {
+    response.res.status(status).json(body);
+    await flush();
+  }
+  return { ...response, next };
+}
+
+const storedKeys = () =>
+  db.query<{ idempotency_key: string; scope: string; status: string; response_status: number; response_body: unknown }>(
+    `SELECT idempotency_key, scope, status, response_status, response_body FROM idempotency_keys ORDER BY scope`
+  );
+
+describe('idempotent', () => {
+  it('passes requests without an Idempotency-Key straight through', async () => {
+    const { next } = await send(fakeRequest());
+
+    expect(next).toHaveBeenCalledWith();
+    expect(await storedKeys()).toEqual([]);
+  });
+
+  it('rejects keys that are too long', async () => {
+    const { next } = await send(fakeRequest({ key: 'k'.repeat(256) }));
+
+    expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+  });
+
+  it('stores the first response for a key before sending it', async () => {
+    const { send: sent, next } = await send(fakeRequest({ key: 'key-1' }));
+
+    expect(next).toHaveBeenCalledWith();
+    expect(sent).toHaveBeenCalledWith({ bookingId: 'booking-1' });
+    expect(await storedKeys()).toEqual([{
+      idempotency_key: 'key-1',
+      scope: 'anonymous:10.0.0.1',
+      status: 'COMPLETED',
+      response_status: 201,
+      response_body: { bookingId: 'booking-1' },
+    }]);
+  });
+
+  it('releases the key instead of storing a server error', async () => {
+    const { send: sent } = await send(fakeRequest({ key: 'key-1', userId: 'user-1' }), 503, { error: 'unavailable' });
+
+    expect(sent).toHaveBeenCalledWith({ error: 'unavailable' });
+    expect(await storedKeys()).toEqual([]);
+  });
+
+  describe('a repeated key', () => {
+    it('replays the stored response for the same request', async () => {
+      await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+
+      const { res, send: sent, setHeader, next } = await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(sent).toHaveBeenCalledWith({ bookingId: 'booking-1' });
+      expect(setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    });
+
+    it('rejects the key reused with a different payload', async () => {
+      await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+
+      const { next } = await send(
+        fakeRequest({ key: 'key-1', userId: 'user-1', body: { routeId: 'route-1', seatNumber: 'B2' } })
+      );
+
+      expect(next).toHaveBeenCalledWith(expect.any(IdempotencyKeyReusedError));
+    });
+
+    it('rejects the key reused on a different route', async () => {
+      await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+
+      const { next } = await send(fakeRequest({ key: 'key-1', userId: 'user-1', path: '/reservations' }));
+
+      expect(next).toHaveBeenCalledWith(expect.any(IdempotencyKeyReusedError));
+    });
+
+    it('answers 409 while the first request is still in progress', async () => {
+      await idempotent(fakeRequest({ key: 'key-1', userId: 'user-1' }), fakeResponse().res, jest.fn());
+
+      const { next } = await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+
+      expect(next).toHaveBeenCalledWith(expect.any(ConflictError));
+    });
+
+    it('takes over a request abandoned in progress', async () => {
+      await idempotent(fakeRequest({ key: 'key-1', userId: 'user-1' }), fakeResponse().res, jest.fn());
+      const abandonedAt = minutesFromNow(-(config.idempotency.inProgressTimeoutSeconds / 60) - 1);
+      await db.query(`UPDATE idempotency_keys SET created_at = $1`, [abandonedAt]);
+
+      const { next } = await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+
+      expect(next).toHaveBeenCalledWith();
+      expect((await storedKeys())[0].status).toBe('COMPLETED');
+    });
+
+    it('lets an expired key be used for a new request', async () => {
+      await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+      await db.query(`UPDATE idempotency_keys SET created_at = $1`, [
+        minutesFromNow(-config.idempotency.keyTtlHours * 60 - 1),
+      ]);
+
+      const { next } = await send(fakeRequest({ key: 'key-1', userId: 'user-1', path: '/reservations' }));
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('scope', () => {
+    it('scopes keys to the authenticated user', async () => {
+      await send(fakeRequest({ key: 'key-1', userId: 'user-1' }));
+      const { next } = await send(fakeRequest({ key: 'key-1', userId: 'user-2', path: '/reservations' }));
+
+      expect(next).toHaveBeenCalledWith();
+      expect((await storedKeys()).map((row) => row.scope)).toEqual(['user-1', 'user-2']);
+    });
+
+    it('scopes anonymous keys to the client address', async () => {
+      await send(fakeRequest({ key: 'key-1', ip: '10.0.0.1' }));
+      await send(fakeRequest({ key: 'key-1', ip: '10.0.0.2' }));
+
+      expect((await storedKeys()).map((row) => row.scope)).toEqual(['anonymous:10.0.0.1', 'anonymous:10.0.0.2']);
+    });
+  });
+});
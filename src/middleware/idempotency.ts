@@ -0,0 +1,181 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { StatusCodes } from 'http-status-codes';
+import { config } from '../config';
+import writeDb from '../infrastructure/database/writeDb';
+import { BadRequestError, ConflictError, IdempotencyKeyReusedError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyKeyRow {
+  request_path: string;
+  request_hash: string;
+  status: 'IN_PROGRESS' | 'COMPLETED';
+  response_status: number | null;
+  response_body: unknown;
+  created_at: string;
+}
+
+/**
+ * Idempotency middleware - honours the Idempotency-Key header on command routes.
+ * The first response for a key is stored and replayed for repeats with the same
+ * payload; reusing the key for a different payload is rejected.
+ * Must run after validate() so the hash is computed over the normalised body.
+ */
+export const idempotent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.header(IDEMPOTENCY_HEADER);
+
+  if (!key) {
+    return next();
+  }
+
+  try {
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+
+    // Keys are scoped per caller so two callers can't collide on the same key -
+    // or replay each other's responses
+    const scope = callerScope(req);
+    const requestPath = `${req.baseUrl}${req.path}`;
+    const requestHash = hashRequest(req.method, requestPath, req.body);
+
+    const claimed = await claimKey(key, scope, requestPath, requestHash);
+
+    if (!claimed) {
+      const existing = await writeDb.queryOne<IdempotencyKeyRow>(
+        `SELECT request_path, request_hash, status, response_status, response_body, created_at
+         FROM idempotency_keys
+         WHERE idempotency_key = $1 AND scope = $2`,
+        [key, scope]
+      );
+
+      if (!existing) {
+        // Released between our insert attempt and the lookup - let the client retry
+        throw new ConflictError('A request with this Idempotency-Key is still being processed');
+      }
+
+      if (existing.request_path !== requestPath || existing.request_hash !== requestHash) {
+        throw new IdempotencyKeyReusedError();
+      }
+
+      if (existing.status === 'IN_PROGRESS') {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed');
+      }
+
+      logger.info('Replaying stored response for Idempotency-Key', { key, scope, path: requestPath });
+
+      res.setHeader(REPLAYED_HEADER, 'true');
+      res.status(existing.response_status || StatusCodes.OK).json(existing.response_body);
+      return;
+    }
+
+    // Store the response before it is sent, so a retry never races the write
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      storeResponse(key, scope, res.statusCode, body)
+        .catch((error) => {
+          logger.error('Failed to store idempotent response', { key, scope, error });
+        })
+        .finally(() => {
+          originalJson(body);
+        });
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * The namespace of a caller's keys: the authenticated user, else the client
+ * address - anonymous callers must not share one namespace
+ */
+function callerScope(req: Request): string {
+  if (req.user) {
+    return req.user.userId;
+  }
+  return `anonymous:${req.ip || req.socket.remoteAddress || 'unknown'}`;
+}
+
+function hashRequest(method: string, path: string, body: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${method}\n${path}\n${JSON.stringify(body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Try to take ownership of a key. Expired keys and abandoned in-progress
+ * requests (e.g. the instance crashed mid-request) are taken over.
+ */
+async function claimKey(
+  key: string,
+  scope: string,
+  requestPath: string,
+  requestHash: string
+): Promise<boolean> {
+  const rows = await writeDb.query<{ idempotency_key: string }>(
+    `INSERT INTO idempotency_keys (idempotency_key, scope, request_path, request_hash, status)
+     VALUES ($1, $2, $3, $4, 'IN_PROGRESS')
+     ON CONFLICT (idempotency_key, scope) DO UPDATE SET
+       request_path = EXCLUDED.request_path,
+       request_hash = EXCLUDED.request_hash,
+       status = 'IN_PROGRESS',
+       response_status = NULL,
+       response_body = NULL,
+       created_at = NOW(),
+       completed_at = NULL
+     WHERE idempotency_keys.created_at < NOW() - make_interval(hours => $5)
+        OR (idempotency_keys.status = 'IN_PROGRESS'
+            AND idempotency_keys.created_at < NOW() - make_interval(secs => $6))
+     RETURNING idempotency_key`,
+    [
+      key,
+      scope,
+      requestPath,
+      requestHash,
+      config.idempotency.keyTtlHours,
+      config.idempotency.inProgressTimeoutSeconds,
+    ]
+  );
+
+  return rows.length > 0;
+}
+
+/**
+ * Persist the final response. Server errors are not stored - the key is
+ * released so the client can retry the request.
+ */
+async function storeResponse(
+  key: string,
+  scope: string,
+  statusCode: number,
+  body: unknown
+): Promise<void> {
+  if (statusCode >= StatusCodes.INTERNAL_SERVER_ERROR) {
+    await writeDb.query(
+      `DELETE FROM idempotency_keys WHERE idempotency_key = $1 AND scope = $2`,
+      [key, scope]
+    );
+    return;
+  }
+
+  await writeDb.query(
+    `UPDATE idempotency_keys
+     SET status = 'COMPLETED', response_status = $1, response_body = $2, completed_at = NOW()
+     WHERE idempotency_key = $3 AND scope = $4`,
+    [statusCode, JSON.stringify(body), key, scope]
+  );
+}
+
+export default idempotent;
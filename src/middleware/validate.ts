@@ -37,6 +37,25 @@ export const validate = (
   };
 };
 
+// Preferences used to assign a seat when none is requested
+const seatPreferences = z.object({
+  position: z.enum(['WINDOW', 'AISLE']).optional(),
+  zone: z.enum(['FRONT', 'BACK']).optional(),
+  accessible: z.boolean().optional(),
+  quietZone: z.boolean().optional(),
+});
+
+// One passenger of a group booking
+const groupPassenger = z.object({
+  seatNumber: z.string().max(10).optional(),
+  passengerName: z.string().min(2, 'Name must be at least 2 characters').max(255),
+  passengerEmail: z.string().email('Invalid email address').optional(),
+  passengerPhone: z.string().max(20).optional(),
+  passengerCategory: z.enum(['ADULT', 'CHILD', 'STUDENT', 'SENIOR', 'DISABLED', 'COMPANION']).optional(),
+  entitlementReference: z.string().max(50).optional(),
+  price: z.number().positive('Price must be greater than 0').optional(),
+});
+
 // Common validation schemas
 export const schemas = {
   // UUID validation
@@ -50,8 +69,14 @@ export const schemas = {
     passengerName: z.string().min(2, 'Name must be at least 2 characters').max(255),
     passengerEmail: z.string().email('Invalid email address'),
     passengerPhone: z.string().max(20).optional(),
-    price: z.number().positive('Price must be greater than 0'),
-    currency: z.string().length(3).default('USD'),
+    passengerCategory: z.enum(['ADULT', 'CHILD', 'STUDENT', 'SENIOR', 'DISABLED', 'COMPANION']).optional(),
+    entitlementReference: z.string().max(50).optional(),
+    seatPreferences: seatPreferences.optional(),
+    originZone: z.string().max(20).optional(),
+    destinationZone: z.string().max(20).optional(),
+    // Optional - the server calculates the fare and rejects a different price
+    price: z.number().positive('Price must be greater than 0').optional(),
+    currency: z.string().length(3).optional(),
   }),
 
   reserveTicket: z.object({
@@ -62,25 +87,97 @@ export const schemas = {
     passengerName: z.string().min(2, 'Name must be at least 2 characters').max(255),
     passengerEmail: z.string().email('Invalid email address'),
     passengerPhone: z.string().max(20).optional(),
-    price: z.number().positive('Price must be greater than 0'),
-    currency: z.string().length(3).default('USD'),
+    passengerCategory: z.enum(['ADULT', 'CHILD', 'STUDENT', 'SENIOR', 'DISABLED', 'COMPANION']).optional(),
+    entitlementReference: z.string().max(50).optional(),
+    seatPreferences: seatPreferences.optional(),
+    originZone: z.string().max(20).optional(),
+    destinationZone: z.string().max(20).optional(),
+    // Optional - the server calculates the fare and rejects a different price
+    price: z.number().positive('Price must be greater than 0').optional(),
+    currency: z.string().length(3).optional(),
+    reservationDurationMinutes: z.number().min(5).max(60).optional(),
+  }),
+
+  bookGroup: z.object({
+    routeId: z.string().uuid('Invalid route ID'),
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+    contactEmail: z.string().email('Invalid email address'),
+    passengers: z.array(groupPassenger).min(2, 'A group needs at least 2 passengers'),
+    seatPreferences: seatPreferences.optional(),
+    originZone: z.string().max(20).optional(),
+    destinationZone: z.string().max(20).optional(),
+    currency: z.string().length(3).optional(),
+  }),
+
+  reserveGroup: z.object({
+    userId: z.string().uuid('Invalid user ID').optional(), // Optional for service-to-service calls
+    routeId: z.string().uuid('Invalid route ID'),
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+    contactEmail: z.string().email('Invalid email address'),
+    passengers: z.array(groupPassenger).min(2, 'A group needs at least 2 passengers'),
+    seatPreferences: seatPreferences.optional(),
+    originZone: z.string().max(20).optional(),
+    destinationZone: z.string().max(20).optional(),
+    currency: z.string().length(3).optional(),
     reservationDurationMinutes: z.number().min(5).max(60).optional(),
   }),
 
   confirmTicket: z.object({
     bookingId: z.string().uuid('Invalid booking ID'),
     paymentId: z.string().uuid('Invalid payment ID'),
+    expectedVersion: z.number().int().min(0).optional(),
   }),
 
   cancelTicket: z.object({
     bookingId: z.string().uuid('Invalid booking ID'),
     userId: z.string().uuid('Invalid user ID').optional(), // Optional for service-to-service calls
     reason: z.string().max(500).optional(),
+    initiatedBy: z.enum(['PASSENGER', 'OPERATOR']).optional(), // OPERATOR only for admins and services
+    refundMethod: z.enum(['CASH', 'VOUCHER']).optional(),
+    expectedVersion: z.number().int().min(0).optional(),
+  }),
+
+  extendReservation: z.object({
+    bookingId: z.string().uuid('Invalid booking ID'),
+    extensionMinutes: z.number().int().min(1).max(60).optional(),
+    expectedVersion: z.number().int().min(0).optional(),
+  }),
+
+  changeTicket: z.object({
+    bookingId: z.string().uuid('Invalid booking ID'),
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+    seatNumber: z.string().max(10).optional(),
+    seatPreferences: seatPreferences.optional(),
+    price: z.number().positive('Price must be greater than 0').optional(),
+    currency: z.string().length(3).optional(),
+    paymentId: z.string().uuid('Invalid payment ID').optional(),
+    reason: z.string().max(500).optional(),
+    expectedVersion: z.number().int().min(0).optional(),
+  }),
+
+  refundTicket: z.object({
+    bookingId: z.string().uuid('Invalid booking ID'),
+    refundTransactionId: z.string().trim().min(1).max(100),
+    amount: z.number().positive().multipleOf(0.01).optional(), // Default: everything still owed
+    currency: z.string().length(3).optional(),
+    paymentId: z.string().uuid('Invalid payment ID').optional(),
+    refundMethod: z.enum(['CASH', 'VOUCHER']).optional(),
+    reason: z.string().max(500).optional(),
+  }),
+
+  validateTicket: z.object({
+    token: z.string().trim().min(1).max(2000).optional(),
+    bookingId: z.string().uuid('Invalid booking ID').optional(),
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+    deviceId: z.string().trim().min(1).max(100),
+  }).refine((body) => !body.token !== !body.bookingId, {
+    message: 'Provide either token or bookingId',
+    path: ['token'],
   }),
 
   // Query schemas
   getUserTickets: z.object({
-    status: z.enum(['PENDING', 'RESERVED', 'CONFIRMED', 'CANCELLED', 'EXPIRED', 'REFUNDED']).optional(),
+    status: z.enum(['PENDING', 'RESERVED', 'CONFIRMED', 'USED', 'CANCELLED', 'EXPIRED', 'REFUNDED']).optional(),
     page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
     limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional(),
   }),
@@ -88,6 +185,166 @@ export const schemas = {
   getTicketDetails: z.object({
     bookingId: z.string().uuid('Invalid booking ID'),
   }),
+
+  getSuspectedFraud: z.object({
+    scheduleId: z.string().uuid('Invalid schedule ID').optional(),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(500)).optional(),
+  }),
+
+  getRefundQuote: z.object({
+    initiatedBy: z.enum(['PASSENGER', 'OPERATOR']).optional(),
+    refundMethod: z.enum(['CASH', 'VOUCHER']).optional(),
+  }),
+
+  getTicketToken: z.object({
+    bookingId: z.string().uuid('Invalid booking ID'),
+  }),
+
+  getTicketTokenRevocations: z.object({
+    since: z.string().datetime({ offset: true }).transform((value) => new Date(value)).optional(),
+  }),
+
+  getScheduleAvailability: z.object({
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+  }),
+
+  getBookingByReference: z.object({
+    bookingReference: z.string().trim().regex(/^[A-Za-z2-9]{6}$/, 'Booking reference must be 6 letters and digits'),
+    surname: z.string().trim().min(1).max(255),
+  }),
+
+  getBookingGroup: z.object({
+    groupId: z.string().uuid('Invalid group ID'),
+  }),
+
+  getSeatMap: z.object({
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+  }),
+
+  getFareQuote: z.object({
+    routeId: z.string().uuid('Invalid route ID'),
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+    originZone: z.string().max(20).optional(),
+    destinationZone: z.string().max(20).optional(),
+    passengerCategory: z.enum(['ADULT', 'CHILD', 'STUDENT', 'SENIOR', 'DISABLED', 'COMPANION']).optional(),
+    groupSize: z.string().transform(Number).pipe(z.number().int().min(1)).optional(),
+  }),
+
+  getSchedulesAvailability: z.object({
+    scheduleIds: z.string()
+      .transform((ids) => ids.split(',').map((id) => id.trim()).filter(Boolean))
+      .pipe(z.array(z.string().uuid('Invalid schedule ID')).min(1).max(100)),
+  }),
+
+  // Admin schemas
+  createVehicleLayout: z.object({
+    name: z.string().min(1).max(255),
+    description: z.string().max(1000).optional(),
+    seats: z.array(z.object({
+      seatNumber: z.string().min(1).max(10),
+      row: z.number().int().min(1),
+      column: z.number().int().min(1),
+      deck: z.number().int().min(1).optional(),
+      seatClass: z.string().max(20).optional(),
+      features: z.array(z.enum(['WINDOW', 'AISLE', 'ACCESSIBLE', 'QUIET_ZONE'])).max(4).optional(),
+    })).min(1).max(500),
+  }),
+
+  scheduleId: z.object({
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+  }),
+
+  scheduleSeat: z.object({
+    scheduleId: z.string().uuid('Invalid schedule ID'),
+    seatNumber: z.string().min(1).max(10),
+  }),
+
+  assignScheduleLayout: z.object({
+    layoutId: z.string().uuid('Invalid layout ID'),
+  }),
+
+  swapScheduleVehicle: z.object({
+    layoutId: z.string().uuid('Invalid layout ID'),
+    // Old seat number -> seat number on the new vehicle
+    seatMapping: z.record(z.string().max(10), z.string().max(10)).optional(),
+  }),
+
+  changeScheduleCapacity: z.object({
+    capacity: z.number().int().min(0),
+  }),
+
+  blockSeat: z.object({
+    reason: z.string().max(500).optional(),
+  }),
+
+  setScheduleDeparture: z.object({
+    departureTime: z.string().datetime({ offset: true }).transform((value) => new Date(value)),
+    routeId: z.string().uuid('Invalid route ID').optional(),
+  }),
+
+  setFare: z.object({
+    routeId: z.string().uuid('Invalid route ID'),
+    originZone: z.string().min(1).max(20).optional(),
+    destinationZone: z.string().min(1).max(20).optional(),
+    baseFare: z.number().min(0),
+    currency: z.string().length(3).default('USD'),
+  }),
+
+  createFareModifier: z.object({
+    name: z.string().min(1).max(255),
+    routeId: z.string().uuid('Invalid route ID').optional(),
+    scheduleId: z.string().uuid('Invalid schedule ID').optional(),
+    passengerType: z.enum(['ADULT', 'CHILD', 'STUDENT', 'SENIOR', 'DISABLED', 'COMPANION']).optional(),
+    startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM').optional(),
+    endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM').optional(),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+    minGroupSize: z.number().int().min(2).optional(),
+    multiplier: z.number().min(0).max(100).optional(),
+    amount: z.number().min(-100000).max(100000).optional(),
+    priority: z.number().int().optional(),
+  }),
+
+  createRefundRule: z.object({
+    name: z.string().min(1).max(255),
+    routeId: z.string().uuid('Invalid route ID').optional(),
+    fareClass: z.string().min(1).max(20).optional(),
+    passengerType: z.enum(['ADULT', 'CHILD', 'STUDENT', 'SENIOR', 'DISABLED', 'COMPANION']).optional(),
+    initiatedBy: z.enum(['PASSENGER', 'OPERATOR']).optional(),
+    minHoursBeforeDeparture: z.number().min(-100000).max(100000).optional(),
+    maxHoursBeforeDeparture: z.number().min(-100000).max(100000).optional(),
+    refundable: z.boolean().optional(),
+    feePercent: z.number().min(0).max(100).optional(),
+    feeAmount: z.number().min(0).max(100000).optional(),
+    voucherOnly: z.boolean().optional(),
+    voucherBonusPercent: z.number().min(0).max(100).optional(),
+    priority: z.number().int().optional(),
+  }),
+
+  getRefundRules: z.object({
+    routeId: z.string().uuid('Invalid route ID').optional(),
+  }),
+
+  getFareTables: z.object({
+    routeId: z.string().uuid('Invalid route ID').optional(),
+  }),
+
+  listOutbox: z.object({
+    status: z.enum(['PENDING', 'PUBLISHED', 'FAILED']).optional(),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(500)).optional(),
+  }),
+
+  outboxEntryId: z.object({
+    id: z.string().regex(/^\d+$/, 'Invalid outbox entry ID'),
+  }),
+
+  listDeadLetters: z.object({
+    status: z.enum(['PENDING', 'REDRIVEN']).optional(),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(500)).optional(),
+  }),
+
+  deadLetterId: z.object({
+    id: z.string().regex(/^\d+$/, 'Invalid dead letter message ID'),
+  }),
 };
 
 export default validate;
@@ -1,16 +1,48 @@
+import { FareBreakdown } from './fare';
+import { RefundBreakdown, RefundInitiator, RefundMethod } from './refund';
+import { TicketTokenClaims } from '../tickets/ticketVerifier';
+
 // Booking Status Enum
 export enum BookingStatus {
   PENDING = 'PENDING',
   RESERVED = 'RESERVED',
   CONFIRMED = 'CONFIRMED',
+  USED = 'USED', // Validated on board
   CANCELLED = 'CANCELLED',
   EXPIRED = 'EXPIRED',
   REFUNDED = 'REFUNDED',
 }
 
+// Passenger Category - drives concession fares (see fare_modifiers.passenger_type)
+export enum PassengerCategory {
+  ADULT = 'ADULT',
+  CHILD = 'CHILD',
+  STUDENT = 'STUDENT',
+  SENIOR = 'SENIOR',
+  DISABLED = 'DISABLED',
+  COMPANION = 'COMPANION', // Travels with a DISABLED passenger
+}
+
+// Seat Status (seat_availability / seat_map_view)
+export enum SeatStatus {
+  AVAILABLE = 'AVAILABLE',
+  LOCKED = 'LOCKED',
+  BOOKED = 'BOOKED',
+  BLOCKED = 'BLOCKED', // Taken out of sale by an operator
+}
+
+// Seat Preferences - used to pick a seat when none is requested
+export interface SeatPreferences {
+  position?: 'WINDOW' | 'AISLE';
+  zone?: 'FRONT' | 'BACK';
+  accessible?: boolean;
+  quietZone?: boolean;
+}
+
 // Booking Entity (Write Model)
 export interface Booking {
   id: string;
+  bookingReference: string | null; // Short code for customers (PNR); shared by a group's tickets
   userId: string;
   routeId: string;
   scheduleId: string;
@@ -18,14 +50,28 @@ export interface Booking {
   passengerName: string;
   passengerEmail: string;
   passengerPhone: string | null;
+  passengerCategory: PassengerCategory;
+  entitlementReference: string | null; // Proof of a concession (student card, pass number, ...)
   price: number;
   currency: string;
   status: BookingStatus;
   paymentId: string | null;
+  paidAmount: number | null; // Fare paid on confirmation plus change charges, null until paid
   reservedAt: Date | null;
   confirmedAt: Date | null;
   cancelledAt: Date | null;
   expiresAt: Date | null;
+  holdExtensionCount: number; // Times the reservation's hold was extended
+  originZone: string | null;
+  destinationZone: string | null;
+  fareBreakdown: FareBreakdown | null; // How the server priced the booking
+  refundBreakdown: RefundBreakdown | null; // Refund owed, set when a paid booking is cancelled
+  refundedAmount: number; // Returned by the payment side so far
+  refundedAt: Date | null; // When the refund owed was paid back in full
+  groupId: string | null; // Set when booked as part of a group
+  ticketToken: string | null; // Signed QR token, issued on confirmation
+  usedAt: Date | null; // First accepted validation
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,6 +79,7 @@ export interface Booking {
 // Booking View (Read Model)
 export interface BookingView {
   id: string;
+  bookingReference: string | null;
   userId: string;
   routeId: string;
   routeName: string | null;
@@ -44,12 +91,107 @@ export interface BookingView {
   seatNumber: string | null;
   passengerName: string;
   passengerEmail: string;
+  passengerCategory: PassengerCategory;
+  groupId: string | null;
   price: number;
   currency: string;
   status: BookingStatus;
   createdAt: Date;
 }
 
+// Booking Group (Write Model) - parent of the tickets booked together
+export interface BookingGroup {
+  id: string;
+  bookingReference: string;
+  userId: string;
+  routeId: string;
+  scheduleId: string;
+  contactEmail: string;
+  passengerCount: number;
+  totalPrice: number;
+  currency: string;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Booking Group View (Read Model) - assembled from the group's tickets
+export interface BookingGroupView {
+  groupId: string;
+  bookingReference: string | null;
+  userId: string;
+  routeId: string;
+  scheduleId: string;
+  passengerCount: number; // Tickets not cancelled, expired or refunded
+  totalPrice: number;
+  currency: string;
+  tickets: BookingView[];
+}
+
+// Booking Lookup View (Read Model) - tickets found by reference and surname
+export interface BookingLookupView {
+  bookingReference: string;
+  groupId: string | null;
+  tickets: BookingView[];
+}
+
+// Ticket Token View (Read Model) - what the passenger shows on board
+export interface TicketTokenView {
+  bookingId: string;
+  token: string; // QR-ready string
+  claims: TicketTokenClaims;
+}
+
+// Used ticket validated again on another device (Read Model)
+export interface SuspectedFraudView {
+  bookingId: string;
+  bookingReference: string | null;
+  userId: string;
+  scheduleId: string;
+  seatNumber: string | null;
+  passengerName: string;
+  usedAt: Date | null;
+  validationCount: number;
+}
+
+// Revoked ticket tokens validators must reject
+export interface TicketTokenRevocation {
+  tokenId: string;
+  revokedAt: Date;
+  expiresAt: Date; // Dropped from the list after this - the token has run out anyway
+}
+
+export interface TicketTokenRevocationList {
+  revocations: TicketTokenRevocation[];
+  generatedAt: Date; // Pass as `since` on the next sync
+}
+
+// Schedule Availability View (Read Model)
+export interface ScheduleAvailabilityView {
+  scheduleId: string;
+  totalSeats: number;
+  bookedSeats: number;
+  availableSeats: number;
+  updatedAt: Date | null;
+}
+
+// Seat Map View (Read Model)
+export interface SeatMapSeat {
+  seatNumber: string;
+  status: SeatStatus;
+  row: number | null;
+  column: number | null;
+  deck: number | null;
+  seatClass: string | null;
+}
+
+export interface SeatMapView {
+  scheduleId: string;
+  totalSeats: number;
+  availableSeats: number;
+  seats: SeatMapSeat[];
+}
+
 // Command DTOs
 export interface BookTicketCommand {
   userId: string;
@@ -59,7 +201,12 @@ export interface BookTicketCommand {
   passengerName: string;
   passengerEmail: string;
   passengerPhone?: string;
-  price: number;
+  passengerCategory?: PassengerCategory; // Defaults to ADULT
+  entitlementReference?: string;
+  seatPreferences?: SeatPreferences; // Used to assign a seat when seatNumber is omitted
+  originZone?: string;
+  destinationZone?: string;
+  price?: number; // Optional - checked against the calculated fare
   currency?: string;
 }
 
@@ -71,20 +218,124 @@ export interface ReserveTicketCommand {
   passengerName: string;
   passengerEmail: string;
   passengerPhone?: string;
-  price: number;
+  passengerCategory?: PassengerCategory; // Defaults to ADULT
+  entitlementReference?: string;
+  seatPreferences?: SeatPreferences; // Used to assign a seat when seatNumber is omitted
+  originZone?: string;
+  destinationZone?: string;
+  price?: number; // Optional - checked against the calculated fare
+  currency?: string;
+  reservationDurationMinutes?: number;
+}
+
+export interface GroupPassenger {
+  seatNumber?: string;
+  passengerName: string;
+  passengerEmail?: string; // Defaults to the group's contact email
+  passengerPhone?: string;
+  passengerCategory?: PassengerCategory;
+  entitlementReference?: string;
+  price?: number; // Optional - checked against the calculated fare
+}
+
+export interface BookGroupCommand {
+  userId: string;
+  routeId: string;
+  scheduleId: string;
+  contactEmail: string;
+  passengers: GroupPassenger[];
+  seatPreferences?: SeatPreferences; // Passengers without a seatNumber are seated together
+  originZone?: string;
+  destinationZone?: string;
   currency?: string;
+}
+
+export interface ReserveGroupCommand extends BookGroupCommand {
   reservationDurationMinutes?: number;
 }
 
 export interface ConfirmTicketCommand {
   bookingId: string;
   paymentId: string;
+  expectedVersion?: number; // Optimistic concurrency - reject if the booking has moved on
 }
 
+// Scanned by an inspector or gate device - identify the ticket by its token or booking id
+export interface ValidateTicketCommand {
+  token?: string;
+  bookingId?: string;
+  scheduleId: string; // The trip being boarded
+  deviceId: string;
+  validatedBy: string; // Inspector (or device account) user id
+}
+
+export type TicketValidationRejection =
+  | 'INVALID_TOKEN' // Not signed by us
+  | 'TOKEN_REVOKED' // Replaced or taken out of use
+  | 'NOT_CONFIRMED'
+  | 'ALREADY_USED'
+  | 'WRONG_SCHEDULE'
+  | 'OUTSIDE_VALIDITY_WINDOW';
+
 export interface CancelTicketCommand {
   bookingId: string;
   userId?: string; // Optional - can be obtained from booking for service-to-service calls
   reason?: string;
+  initiatedBy?: RefundInitiator; // Default PASSENGER
+  refundMethod?: RefundMethod; // Requested payout, default CASH
+  expectedVersion?: number; // Optimistic concurrency - reject if the booking has moved on
+}
+
+// Keep a reservation's seat longer, e.g. while the payment is being authenticated
+export interface ExtendReservationCommand {
+  bookingId: string;
+  userId?: string; // Owner the booking must belong to - unset for services and admins
+  extensionMinutes?: number; // Default RESERVATION_HOLD_EXTENSION_MINUTES
+  expectedVersion?: number; // Optimistic concurrency - reject if the booking has moved on
+}
+
+// Move a confirmed booking to another schedule of its route
+export interface ChangeTicketCommand {
+  bookingId: string;
+  userId?: string; // Optional - can be obtained from booking for service-to-service calls
+  scheduleId: string; // The schedule to move to
+  seatNumber?: string; // Default: assigned from seatPreferences
+  seatPreferences?: SeatPreferences;
+  price?: number; // Expected new fare - checked like a booking's price
+  currency?: string;
+  paymentId?: string; // Payment of the amount due - required when the change costs anything
+  reason?: string;
+  expectedVersion?: number; // Optimistic concurrency - reject if the booking has moved on
+}
+
+// What changing a ticket costs - a negative fare difference is never paid out
+export interface TicketChangeBreakdown {
+  previousPrice: number;
+  newPrice: number;
+  fareDifference: number; // newPrice - previousPrice
+  changeFee: number;
+  amountDue: number; // To collect from the passenger, never below 0
+  currency: string;
+}
+
+// Reported by the payment side for each refund transaction of a cancelled booking
+export interface RefundTicketCommand {
+  bookingId: string;
+  refundTransactionId: string; // Payment-side id - reporting it again is a no-op
+  amount?: number; // Default: everything still owed
+  currency?: string;
+  paymentId?: string; // The payment being refunded
+  refundMethod?: RefundMethod; // Default: the method of the refund owed
+  reason?: string;
+}
+
+// Return a payment that arrived for a booking that can no longer be confirmed
+export interface RequestPaymentRefundCommand {
+  bookingId: string;
+  paymentId: string;
+  amount: number; // What was taken for this booking
+  currency: string;
+  reason?: string;
 }
 
 // Query DTOs
@@ -100,6 +351,42 @@ export interface GetTicketDetailsQuery {
   userId: string;
 }
 
+export interface GetTicketTokenQuery {
+  bookingId: string;
+  userId: string;
+}
+
+export interface GetTicketTokenRevocationsQuery {
+  since?: Date; // Only revocations recorded since then (the previous list's generatedAt)
+}
+
+export interface GetSuspectedFraudQuery {
+  scheduleId?: string;
+  limit?: number;
+}
+
+export interface GetBookingGroupQuery {
+  groupId: string;
+  userId: string;
+}
+
+export interface GetBookingByReferenceQuery {
+  bookingReference: string;
+  surname: string; // Of any passenger on the booking
+}
+
+export interface GetScheduleAvailabilityQuery {
+  scheduleId: string;
+}
+
+export interface GetSchedulesAvailabilityQuery {
+  scheduleIds: string[];
+}
+
+export interface GetSeatMapQuery {
+  scheduleId: string;
+}
+
 // Paginated Response
 export interface PaginatedResult<T> {
   data: T[];
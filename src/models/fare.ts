@@ -0,0 +1,92 @@
+// Fare Table Entry - base fare of a route (zones NULL = whole route)
+export interface FareTableEntry {
+  id: string;
+  routeId: string;
+  originZone: string | null;
+  destinationZone: string | null;
+  baseFare: number;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Fare Modifier - conditions left NULL match everything
+export interface FareModifier {
+  id: string;
+  name: string;
+  routeId: string | null;
+  scheduleId: string | null;
+  passengerType: string | null;
+  startTime: string | null; // HH:MM, departure time of day
+  endTime: string | null; // HH:MM, exclusive; may wrap past midnight
+  daysOfWeek: number[] | null; // 0 = Sunday
+  minGroupSize: number | null; // Group discount - passengers booked together
+  multiplier: number;
+  amount: number;
+  priority: number;
+  active: boolean;
+  createdAt: Date;
+}
+
+// One applied modifier in a fare breakdown
+export interface FareAdjustment {
+  modifierId: string;
+  name: string;
+  multiplier: number;
+  amount: number;
+  delta: number; // Change to the running fare
+}
+
+// How a price was calculated - stored on the booking
+export interface FareBreakdown {
+  routeId: string;
+  scheduleId: string;
+  originZone: string | null;
+  destinationZone: string | null;
+  passengerType: string | null;
+  groupSize: number;
+  departureTime: Date | null;
+  fareTableId: string;
+  baseFare: number;
+  adjustments: FareAdjustment[];
+  total: number;
+  currency: string;
+  calculatedAt: Date;
+}
+
+// Command DTOs
+export interface SetFareCommand {
+  routeId: string;
+  originZone?: string;
+  destinationZone?: string;
+  baseFare: number;
+  currency?: string;
+}
+
+export interface CreateFareModifierCommand {
+  name: string;
+  routeId?: string;
+  scheduleId?: string;
+  passengerType?: string;
+  startTime?: string;
+  endTime?: string;
+  daysOfWeek?: number[];
+  minGroupSize?: number;
+  multiplier?: number;
+  amount?: number;
+  priority?: number;
+}
+
+// Query DTOs
+export interface GetFareQuoteQuery {
+  routeId: string;
+  scheduleId: string;
+  originZone?: string;
+  destinationZone?: string;
+  passengerType?: string;
+  groupSize?: number; // Passengers booked together (default 1)
+}
+
+export interface GetFareTablesQuery {
+  routeId?: string;
+}
@@ -0,0 +1,79 @@
+// Seat Feature - what a passenger may ask for when seats are assigned
+export enum SeatFeature {
+  WINDOW = 'WINDOW',
+  AISLE = 'AISLE',
+  ACCESSIBLE = 'ACCESSIBLE', // Wheelchair space or priority seat
+  QUIET_ZONE = 'QUIET_ZONE',
+}
+
+// Seat in a vehicle layout
+export interface LayoutSeat {
+  seatNumber: string;
+  row: number;
+  column: number;
+  deck: number;
+  seatClass: string;
+  features?: SeatFeature[]; // WINDOW/AISLE are worked out from the columns when not given
+}
+
+// Vehicle Layout (reusable seat plan)
+export interface VehicleLayout {
+  id: string;
+  name: string;
+  description: string | null;
+  seats: LayoutSeat[];
+  capacity: number;
+  createdAt: Date;
+}
+
+// Schedule Inventory (Write Model)
+export interface ScheduleInventory {
+  scheduleId: string;
+  routeId: string | null;
+  layoutId: string | null;
+  capacity: number; // Sellable seats (blocked seats excluded)
+  departureTime: Date | null;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Command DTOs
+export interface CreateVehicleLayoutCommand {
+  name: string;
+  description?: string;
+  seats: Array<Omit<LayoutSeat, 'deck' | 'seatClass'> & Partial<Pick<LayoutSeat, 'deck' | 'seatClass'>>>;
+}
+
+export interface AssignScheduleLayoutCommand {
+  scheduleId: string;
+  layoutId: string;
+}
+
+export interface SwapScheduleVehicleCommand {
+  scheduleId: string;
+  layoutId: string;
+  seatMapping?: Record<string, string>; // Old seat number -> new seat number
+}
+
+export interface ChangeScheduleCapacityCommand {
+  scheduleId: string;
+  capacity: number;
+}
+
+export interface SetScheduleDepartureCommand {
+  scheduleId: string;
+  departureTime: Date;
+  routeId?: string; // Route the schedule runs on, if not known yet
+}
+
+export interface BlockSeatCommand {
+  scheduleId: string;
+  seatNumber: string;
+  reason?: string;
+}
+
+export interface UnblockSeatCommand {
+  scheduleId: string;
+  seatNumber: string;
+}
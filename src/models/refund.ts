@@ -0,0 +1,89 @@
+// Who cancelled - operators cancelling a trip usually owe a full refund
+export type RefundInitiator = 'PASSENGER' | 'OPERATOR';
+
+// How the refund is paid out
+export type RefundMethod = 'CASH' | 'VOUCHER';
+
+// Refund Rule - conditions left NULL match everything. The first matching
+// rule in priority order decides the refund.
+export interface RefundRule {
+  id: string;
+  name: string;
+  routeId: string | null;
+  fareClass: string | null; // Seat class of the booking's seat
+  passengerType: string | null;
+  initiatedBy: RefundInitiator | null;
+  minHoursBeforeDeparture: number | null; // Inclusive
+  maxHoursBeforeDeparture: number | null; // Exclusive
+  refundable: boolean; // false = non-refundable fare
+  feePercent: number; // Of the price paid
+  feeAmount: number;
+  voucherOnly: boolean; // No cash - the refund is paid as a voucher
+  voucherBonusPercent: number; // Extra value for taking a voucher instead of cash
+  priority: number;
+  active: boolean;
+  createdAt: Date;
+}
+
+// How a refund was calculated - returned by cancel and the refund quote
+export interface RefundBreakdown {
+  ruleId: string | null; // null - no rule matched, full refund
+  ruleName: string | null;
+  initiatedBy: RefundInitiator;
+  fareClass: string | null;
+  passengerType: string;
+  hoursBeforeDeparture: number | null; // Negative after departure, null when unknown
+  paidAmount: number;
+  refundable: boolean;
+  percentageFee: number;
+  fixedFee: number;
+  totalFee: number;
+  method: RefundMethod;
+  voucherBonus: number;
+  refundAmount: number; // What the passenger gets back, voucher bonus included
+  currency: string;
+  calculatedAt: Date;
+}
+
+// One refund transaction reported by the payment side - a booking can be
+// refunded in several parts
+export interface BookingRefund {
+  id: string;
+  bookingId: string;
+  refundTransactionId: string;
+  paymentId: string | null;
+  amount: number;
+  currency: string;
+  method: RefundMethod;
+  reason: string | null;
+  refundedAt: Date;
+}
+
+// Command DTOs
+export interface CreateRefundRuleCommand {
+  name: string;
+  routeId?: string;
+  fareClass?: string;
+  passengerType?: string;
+  initiatedBy?: RefundInitiator;
+  minHoursBeforeDeparture?: number;
+  maxHoursBeforeDeparture?: number;
+  refundable?: boolean;
+  feePercent?: number;
+  feeAmount?: number;
+  voucherOnly?: boolean;
+  voucherBonusPercent?: number;
+  priority?: number;
+}
+
+// Query DTOs
+export interface GetRefundQuoteQuery {
+  bookingId: string;
+  userId: string;
+  initiatedBy?: RefundInitiator;
+  refundMethod?: RefundMethod;
+}
+
+export interface GetRefundRulesQuery {
+  routeId?: string;
+}
@@ -0,0 +1,157 @@
+import { fareEngine } from './fareEngine';
+import { GetFareQuoteQuery } from '../models/fare';
+import { FareMismatchError, FareNotFoundError } from '../utils/errors';
+import { testClient, useTestDatabase } from '../testing/database';
+import {
+  insertFare,
+  insertFareModifier,
+  insertSchedule,
+  OTHER_SCHEDULE_ID,
+  ROUTE_ID,
+  SCHEDULE_ID,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+useTestDatabase();
+
+const input: GetFareQuoteQuery = { routeId: ROUTE_ID, scheduleId: SCHEDULE_ID };
+
+// 2024-01-15 is a Monday (FARE_TIMEZONE defaults to UTC)
+const MONDAY_17_00 = '2024-01-15T17:00:00Z';
+
+const totalOf = async (query = input) => (await fareEngine.quote(testClient, query)).total;
+
+describe('fareEngine.quote', () => {
+  beforeEach(async () => {
+    await insertFare({ base_fare: 10 });
+  });
+
+  it('applies modifiers one after another in priority order', async () => {
+    await insertFareModifier({ name: 'Child fare', multiplier: 0.5, priority: 2 });
+    await insertFareModifier({ name: 'Booking fee', amount: 2, priority: 1 });
+
+    const quote = await fareEngine.quote(testClient, input);
+
+    // (10 + 2) * 0.5 - the discount applies to the surcharged fare
+    expect(quote.total).toBe(6);
+    expect(quote.adjustments.map((a) => [a.name, a.delta])).toEqual([
+      ['Booking fee', 2],
+      ['Child fare', -6],
+    ]);
+  });
+
+  it('gives a different fare when the same modifiers have the other priorities', async () => {
+    await insertFareModifier({ name: 'Child fare', multiplier: 0.5, priority: 1 });
+    await insertFareModifier({ name: 'Booking fee', amount: 2, priority: 2 });
+
+    expect(await totalOf()).toBe(7);
+  });
+
+  it('never prices below 0', async () => {
+    await insertFareModifier({ name: 'Voucher', amount: -25 });
+
+    expect(await totalOf()).toBe(0);
+  });
+
+  it('skips inactive modifiers and those of other schedules, passenger types or larger groups', async () => {
+    await insertFareModifier({ name: 'Retired', amount: 1, active: false });
+    await insertFareModifier({ name: 'Other schedule', amount: 1, schedule_id: OTHER_SCHEDULE_ID });
+    await insertFareModifier({ name: 'Child fare', multiplier: 0.5, passenger_type: 'CHILD' });
+    await insertFareModifier({ name: 'Group discount', multiplier: 0.9, min_group_size: 5 });
+
+    expect(await totalOf()).toBe(10);
+    expect(await totalOf({ ...input, passengerType: 'CHILD', groupSize: 5 })).toBe(4.5);
+  });
+
+  it('prefers the zone fare, in either direction, to the whole-route fare', async () => {
+    await insertFare({ base_fare: 4, origin_zone: 'A', destination_zone: 'B' });
+
+    const quote = await fareEngine.quote(testClient, { ...input, originZone: 'B', destinationZone: 'A' });
+
+    expect(quote.total).toBe(4);
+    expect(quote).toMatchObject({ originZone: 'B', destinationZone: 'A' });
+    expect(await totalOf({ ...input, originZone: 'A', destinationZone: 'C' })).toBe(10);
+  });
+
+  it('throws when the route has no fare', async () => {
+    await expect(fareEngine.quote(testClient, { ...input, routeId: SCHEDULE_ID })).rejects.toThrow(FareNotFoundError);
+  });
+
+  describe('time windows', () => {
+    const peak = {
+      name: 'Weekday evening peak',
+      start_time: '16:00',
+      end_time: '19:00',
+      days_of_week: [1, 2, 3, 4, 5],
+      multiplier: 1.2,
+    };
+
+    const totalDepartingAt = async (departureTime: string) => {
+      await insertSchedule({ departure_time: new Date(departureTime) });
+      const total = await totalOf();
+      await testClient.query(`DELETE FROM schedule_inventory`);
+      return total;
+    };
+
+    it('applies inside the window on a listed day', async () => {
+      await insertFareModifier(peak);
+
+      expect(await totalDepartingAt(MONDAY_17_00)).toBe(12);
+    });
+
+    it('includes the start and excludes the end of the window', async () => {
+      await insertFareModifier(peak);
+
+      expect(await totalDepartingAt('2024-01-15T16:00:00Z')).toBe(12);
+      expect(await totalDepartingAt('2024-01-15T19:00:00Z')).toBe(10);
+    });
+
+    it('does not apply on a day that is not listed', async () => {
+      await insertFareModifier(peak);
+
+      // 2024-01-13 is a Saturday
+      expect(await totalDepartingAt('2024-01-13T17:00:00Z')).toBe(10);
+    });
+
+    it('handles windows that wrap past midnight', async () => {
+      await insertFareModifier({ name: 'Night service', start_time: '22:00', end_time: '05:00', amount: 3 });
+
+      expect(await totalDepartingAt('2024-01-15T23:30:00Z')).toBe(13);
+      expect(await totalDepartingAt('2024-01-16T04:59:00Z')).toBe(13);
+      expect(await totalDepartingAt('2024-01-16T12:00:00Z')).toBe(10);
+    });
+
+    it('skips time-bound modifiers when the departure is unknown, but not the others', async () => {
+      await insertFareModifier({ ...peak, priority: 1 });
+      await insertFareModifier({ name: 'Booking fee', amount: 1, priority: 2 });
+
+      const quote = await fareEngine.quote(testClient, input);
+
+      expect(quote.total).toBe(11);
+      expect(quote.departureTime).toBeNull();
+      expect(quote.adjustments.map((a) => a.name)).toEqual(['Booking fee']);
+    });
+  });
+});
+
+describe('fareEngine.priceBooking', () => {
+  beforeEach(async () => {
+    await insertFare({ base_fare: 25 });
+  });
+
+  it('accepts a client price matching the fare', async () => {
+    const priced = await fareEngine.priceBooking(testClient, input, 25, 'USD');
+
+    expect(priced.price).toBe(25);
+    expect(priced.currency).toBe('USD');
+  });
+
+  it('rejects a client price that differs from the fare', async () => {
+    await expect(fareEngine.priceBooking(testClient, input, 20)).rejects.toThrow(FareMismatchError);
+  });
+
+  it('rejects a client currency that differs from the fare', async () => {
+    await expect(fareEngine.priceBooking(testClient, input, 25, 'EUR')).rejects.toThrow(FareMismatchError);
+  });
+});
@@ -0,0 +1,229 @@
+import { PoolClient } from 'pg';
+import { config } from '../config';
+import { FareAdjustment, FareBreakdown, GetFareQuoteQuery } from '../models/fare';
+import { BadRequestError, FareMismatchError, FareNotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+// Prices closer than this are the same price
+const PRICE_TOLERANCE = 0.005;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface PricedFare {
+  price: number;
+  currency: string;
+  breakdown: FareBreakdown;
+}
+
+interface ModifierRow {
+  id: string;
+  name: string;
+  start_time: string | null;
+  end_time: string | null;
+  days_of_week: number[] | null;
+  multiplier: string;
+  amount: string;
+}
+
+/**
+ * Fare Engine - prices a journey from the locally stored fare tables. Clients
+ * never set the price of a booking; at most they echo the quote they were shown.
+ */
+export const fareEngine = {
+  /**
+   * Calculate the fare of a journey: the zone (or whole route) base fare, then
+   * every matching modifier in priority order
+   */
+  quote: async (client: PoolClient, input: GetFareQuoteQuery): Promise<FareBreakdown> => {
+    const originZone = input.originZone || null;
+    const destinationZone = input.destinationZone || null;
+    const groupSize = input.groupSize || 1;
+
+    if ((originZone === null) !== (destinationZone === null)) {
+      throw new BadRequestError('originZone and destinationZone must be given together');
+    }
+
+    // Zones are symmetric; fall back to the whole-route fare
+    const fares = await client.query(
+      `SELECT id, base_fare, currency, origin_zone
+       FROM fare_tables
+       WHERE route_id = $1
+       AND (
+         (origin_zone = $2 AND destination_zone = $3)
+         OR (origin_zone = $3 AND destination_zone = $2)
+         OR (origin_zone IS NULL AND destination_zone IS NULL)
+       )
+       ORDER BY origin_zone IS NULL
+       LIMIT 1`,
+      [input.routeId, originZone, destinationZone]
+    );
+
+    if (fares.rows.length === 0) {
+      throw new FareNotFoundError(input.routeId);
+    }
+
+    const fare = fares.rows[0];
+
+    const schedule = await client.query(
+      `SELECT departure_time FROM schedule_inventory WHERE schedule_id = $1`,
+      [input.scheduleId]
+    );
+    const departureTime: Date | null = schedule.rows[0]?.departure_time
+      ? new Date(schedule.rows[0].departure_time)
+      : null;
+
+    const modifiers = await client.query<ModifierRow>(
+      `SELECT id, name, start_time, end_time, days_of_week, multiplier, amount
+       FROM fare_modifiers
+       WHERE active
+       AND (route_id IS NULL OR route_id = $1)
+       AND (schedule_id IS NULL OR schedule_id = $2)
+       AND (passenger_type IS NULL OR passenger_type = $3)
+       AND (min_group_size IS NULL OR min_group_size <= $4)
+       ORDER BY priority, created_at`,
+      [input.routeId, input.scheduleId, input.passengerType || null, groupSize]
+    );
+
+    const baseFare = parseFloat(fare.base_fare);
+    const adjustments: FareAdjustment[] = [];
+    let total = baseFare;
+
+    for (const modifier of modifiers.rows) {
+      if (!matchesDeparture(modifier, departureTime)) {
+        continue;
+      }
+
+      const multiplier = parseFloat(modifier.multiplier);
+      const amount = parseFloat(modifier.amount);
+      const next = Math.max(0, roundCents(total * multiplier + amount));
+
+      adjustments.push({
+        modifierId: modifier.id,
+        name: modifier.name,
+        multiplier,
+        amount,
+        delta: roundCents(next - total),
+      });
+      total = next;
+    }
+
+    return {
+      routeId: input.routeId,
+      scheduleId: input.scheduleId,
+      originZone: fare.origin_zone === null ? null : originZone,
+      destinationZone: fare.origin_zone === null ? null : destinationZone,
+      passengerType: input.passengerType || null,
+      groupSize,
+      departureTime,
+      fareTableId: fare.id,
+      baseFare,
+      adjustments,
+      total,
+      currency: fare.currency,
+      calculatedAt: new Date(),
+    };
+  },
+
+  /**
+   * Price a booking. A client price (or currency) that differs from the fare is
+   * rejected, or replaced by the fare when FARE_PRICE_MISMATCH=override.
+   */
+  priceBooking: async (
+    client: PoolClient,
+    input: GetFareQuoteQuery,
+    clientPrice?: number,
+    clientCurrency?: string
+  ): Promise<PricedFare> => {
+    const breakdown = await fareEngine.quote(client, input);
+
+    const priceMismatch = clientPrice !== undefined && Math.abs(clientPrice - breakdown.total) >= PRICE_TOLERANCE;
+    const currencyMismatch = clientCurrency !== undefined && clientCurrency !== breakdown.currency;
+
+    if (priceMismatch || currencyMismatch) {
+      if (config.fares.priceMismatch !== 'override') {
+        throw new FareMismatchError(breakdown.total, breakdown.currency);
+      }
+
+      logger.warn('Client price overridden by calculated fare', {
+        routeId: input.routeId,
+        scheduleId: input.scheduleId,
+        clientPrice,
+        clientCurrency,
+        fare: breakdown.total,
+        currency: breakdown.currency,
+      });
+    }
+
+    return {
+      price: breakdown.total,
+      currency: breakdown.currency,
+      breakdown,
+    };
+  },
+};
+
+/**
+ * Whether a modifier's time-of-day and day-of-week conditions hold for the
+ * departure. Conditional modifiers never apply when the departure is unknown.
+ */
+function matchesDeparture(modifier: ModifierRow, departureTime: Date | null): boolean {
+  const hasTimeWindow = modifier.start_time !== null && modifier.end_time !== null;
+  const hasDays = modifier.days_of_week !== null && modifier.days_of_week.length > 0;
+
+  if (!hasTimeWindow && !hasDays) {
+    return true;
+  }
+  if (!departureTime) {
+    return false;
+  }
+
+  const local = localTime(departureTime);
+
+  if (hasDays && !modifier.days_of_week!.includes(local.dayOfWeek)) {
+    return false;
+  }
+
+  if (hasTimeWindow) {
+    const start = minutesOf(modifier.start_time!);
+    const end = minutesOf(modifier.end_time!);
+
+    // A window like 22:00-05:00 wraps past midnight
+    const inWindow = start <= end
+      ? local.minutes >= start && local.minutes < end
+      : local.minutes >= start || local.minutes < end;
+
+    if (!inWindow) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function localTime(date: Date): { dayOfWeek: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: config.fares.timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+  };
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':');
+  return parseInt(hours, 10) * 60 + parseInt(minutes, 10);
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export default fareEngine;
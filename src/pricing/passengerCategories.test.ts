@@ -0,0 +1,88 @@
+import { passengerCategories } from './passengerCategories';
+import { bookTicketHandler } from '../commands/bookTicket';
+import { reserveTicketHandler } from '../commands/reserveTicket';
+import { BookTicketCommand, PassengerCategory } from '../models/booking';
+import { PassengerNotEligibleError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import { insertFare, insertFareModifier, insertSchedule, ROUTE_ID, SCHEDULE_ID, USER_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+describe('passengerCategories.assertEligible', () => {
+  it('asks no proof of adults and children', () => {
+    expect(() => passengerCategories.assertEligible(PassengerCategory.ADULT)).not.toThrow();
+    expect(() => passengerCategories.assertEligible(PassengerCategory.CHILD)).not.toThrow();
+  });
+
+  it.each([
+    PassengerCategory.STUDENT,
+    PassengerCategory.SENIOR,
+    PassengerCategory.DISABLED,
+    PassengerCategory.COMPANION,
+  ])('requires an entitlement reference for %s fares', (category) => {
+    expect(() => passengerCategories.assertEligible(category)).toThrow(PassengerNotEligibleError);
+    expect(() => passengerCategories.assertEligible(category, 'CARD-1234')).not.toThrow();
+  });
+
+  it('rejects malformed entitlement references', () => {
+    expect(() => passengerCategories.assertEligible(PassengerCategory.STUDENT, 'ab'))
+      .toThrow(/is not valid/);
+    expect(() => passengerCategories.assertEligible(PassengerCategory.STUDENT, 'card 1234'))
+      .toThrow(PassengerNotEligibleError);
+  });
+
+  it('rejects unknown categories', () => {
+    expect(() => passengerCategories.assertEligible('VETERAN' as PassengerCategory, 'CARD-1234'))
+      .toThrow(/Unknown passenger category/);
+  });
+
+  it('lists the rules of every category', () => {
+    expect(passengerCategories.list().map((rule) => rule.category)).toEqual(Object.values(PassengerCategory));
+  });
+});
+
+describe('concession bookings', () => {
+  const command: BookTicketCommand = {
+    userId: USER_ID,
+    routeId: ROUTE_ID,
+    scheduleId: SCHEDULE_ID,
+    passengerName: 'Ada Lovelace',
+    passengerEmail: 'ada@example.com',
+    seatNumber: '1A',
+  };
+
+  beforeEach(async () => {
+    await insertFare({ base_fare: 20 });
+    await insertFareModifier({ name: 'Student fare', multiplier: 0.5, passenger_type: 'STUDENT' });
+    await insertSchedule({}, ['1A']);
+  });
+
+  it('prices the ticket at the concession and keeps the proof given', async () => {
+    const { booking } = await bookTicketHandler({
+      ...command,
+      passengerCategory: PassengerCategory.STUDENT,
+      entitlementReference: 'STU-2024-001',
+    });
+
+    expect(booking).toMatchObject({
+      price: 10,
+      passengerCategory: PassengerCategory.STUDENT,
+      entitlementReference: 'STU-2024-001',
+    });
+  });
+
+  it('books adults at the full fare', async () => {
+    expect((await bookTicketHandler(command)).booking.price).toBe(20);
+  });
+
+  it('refuses a concession without proof, booking nothing', async () => {
+    await expect(bookTicketHandler({ ...command, passengerCategory: PassengerCategory.STUDENT }))
+      .rejects.toThrow(PassengerNotEligibleError);
+    await expect(reserveTicketHandler({ ...command, passengerCategory: PassengerCategory.SENIOR }))
+      .rejects.toThrow(PassengerNotEligibleError);
+
+    expect(await db.query(`SELECT id FROM bookings`)).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { PassengerCategory } from '../models/booking';
+import { PassengerNotEligibleError } from '../utils/errors';
+
+// Card numbers, pass numbers, booking references, ...
+const ENTITLEMENT_REFERENCE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9-/]{3,49}$/;
+
+export interface PassengerCategoryRule {
+  category: PassengerCategory;
+  description: string;
+  proofRequired: boolean; // An entitlement reference must be given at booking
+  proofDescription?: string;
+}
+
+const RULES: Record<PassengerCategory, PassengerCategoryRule> = {
+  [PassengerCategory.ADULT]: {
+    category: PassengerCategory.ADULT,
+    description: 'Standard fare',
+    proofRequired: false,
+  },
+  [PassengerCategory.CHILD]: {
+    category: PassengerCategory.CHILD,
+    description: 'Children (age checked on board)',
+    proofRequired: false,
+  },
+  [PassengerCategory.STUDENT]: {
+    category: PassengerCategory.STUDENT,
+    description: 'Students in full-time education',
+    proofRequired: true,
+    proofDescription: 'Student card number',
+  },
+  [PassengerCategory.SENIOR]: {
+    category: PassengerCategory.SENIOR,
+    description: 'Senior citizens',
+    proofRequired: true,
+    proofDescription: 'Senior pass number',
+  },
+  [PassengerCategory.DISABLED]: {
+    category: PassengerCategory.DISABLED,
+    description: 'Passengers with a disability',
+    proofRequired: true,
+    proofDescription: 'Disability card number',
+  },
+  [PassengerCategory.COMPANION]: {
+    category: PassengerCategory.COMPANION,
+    description: 'Companion of a passenger with a disability',
+    proofRequired: true,
+    proofDescription: 'Disability card number of the passenger accompanied',
+  },
+};
+
+/**
+ * Passenger Categories - who may travel on which concession
+ */
+export const passengerCategories = {
+  /**
+   * Eligibility rules of every category (for API docs and clients)
+   */
+  list: (): PassengerCategoryRule[] => Object.values(RULES),
+
+  /**
+   * Reject a booking whose category needs proof of entitlement it doesn't have
+   */
+  assertEligible: (category: PassengerCategory, entitlementReference?: string): void => {
+    const rule = RULES[category];
+
+    if (!rule) {
+      throw new PassengerNotEligibleError(`Unknown passenger category ${category}`);
+    }
+
+    if (!rule.proofRequired) {
+      return;
+    }
+
+    if (!entitlementReference) {
+      throw new PassengerNotEligibleError(
+        `${category} fares require an entitlement reference (${rule.proofDescription})`
+      );
+    }
+
+    if (!ENTITLEMENT_REFERENCE_PATTERN.test(entitlementReference)) {
+      throw new PassengerNotEligibleError(`Entitlement reference "${entitlementReference}" is not valid`);
+    }
+  },
+};
+
+export default passengerCategories;
@@ -0,0 +1,134 @@
+import { refundPolicy, RefundSubject } from './refundPolicy';
+import { PassengerCategory } from '../models/booking';
+import { testClient, useTestDatabase } from '../testing/database';
+import { insertRefundRule, insertSchedule, ROUTE_ID, SCHEDULE_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+const booking: RefundSubject = {
+  id: '7e57d000-0000-4000-8000-000000000001',
+  routeId: ROUTE_ID,
+  scheduleId: SCHEDULE_ID,
+  seatNumber: '1A',
+  passengerCategory: PassengerCategory.ADULT,
+  price: 25,
+  paidAmount: 25,
+  currency: 'USD',
+};
+
+// 5.5 hours before the 08:00 departure
+const at = new Date('2024-01-16T02:30:00Z');
+
+describe('refundPolicy.quote', () => {
+  beforeEach(async () => {
+    await insertSchedule({ departure_time: new Date('2024-01-16T08:00:00Z') }, ['1A']);
+  });
+
+  it('refunds in full when no rule matches', async () => {
+    const refund = await refundPolicy.quote(testClient, booking, { at });
+
+    expect(refund.ruleId).toBeNull();
+    expect(refund.refundAmount).toBe(25);
+    expect(refund.totalFee).toBe(0);
+    expect(refund.method).toBe('CASH');
+  });
+
+  it('takes a percentage fee and a fixed fee off the amount paid', async () => {
+    await insertRefundRule({ fee_percent: 25, fee_amount: 1 });
+
+    const refund = await refundPolicy.quote(testClient, booking, { at });
+
+    expect(refund.percentageFee).toBe(6.25);
+    expect(refund.fixedFee).toBe(1);
+    expect(refund.totalFee).toBe(7.25);
+    expect(refund.refundAmount).toBe(17.75);
+  });
+
+  it('never refunds below 0 nor charges more than was paid', async () => {
+    await insertRefundRule({ fee_amount: 40 });
+
+    const refund = await refundPolicy.quote(testClient, booking, { at });
+
+    expect(refund.refundAmount).toBe(0);
+    expect(refund.totalFee).toBe(25);
+  });
+
+  it('refunds nothing for a non-refundable rule', async () => {
+    await insertRefundRule({ refundable: false, fee_percent: 10 });
+
+    const refund = await refundPolicy.quote(testClient, booking, { at, method: 'VOUCHER' });
+
+    expect(refund.refundable).toBe(false);
+    expect(refund.refundAmount).toBe(0);
+    expect(refund.method).toBe('CASH');
+  });
+
+  it('adds the voucher bonus when a voucher is asked for', async () => {
+    await insertRefundRule({ fee_percent: 25, voucher_bonus_percent: 10 });
+
+    const refund = await refundPolicy.quote(testClient, booking, { at, method: 'VOUCHER' });
+
+    // 25 - 6.25 = 18.75, plus 10%
+    expect(refund.method).toBe('VOUCHER');
+    expect(refund.voucherBonus).toBe(1.88);
+    expect(refund.refundAmount).toBe(20.63);
+  });
+
+  it('pays voucher-only rules as a voucher even when cash is asked for', async () => {
+    await insertRefundRule({ voucher_only: true, voucher_bonus_percent: 20 });
+
+    const refund = await refundPolicy.quote(testClient, booking, { at, method: 'CASH' });
+
+    expect(refund.method).toBe('VOUCHER');
+    expect(refund.refundAmount).toBe(30);
+  });
+
+  it('bases the refund on what was paid rather than the current fare', async () => {
+    await insertRefundRule({ fee_percent: 10 });
+
+    // Changed to a cheaper schedule after paying 25
+    const refund = await refundPolicy.quote(testClient, { ...booking, price: 15, paidAmount: 25 }, { at });
+
+    expect(refund.paidAmount).toBe(25);
+    expect(refund.refundAmount).toBe(22.5);
+  });
+
+  it('picks the first rule, by priority, matching who cancelled and the hours left before departure', async () => {
+    await insertRefundRule({ name: 'Operator cancellation', initiated_by: 'OPERATOR', priority: 1 });
+    await insertRefundRule({ name: 'Last day', max_hours_before_departure: 24, fee_percent: 50, priority: 2 });
+    await insertRefundRule({ name: 'Early', min_hours_before_departure: 24, fee_percent: 10, priority: 3 });
+
+    const byPassenger = await refundPolicy.quote(testClient, booking, { at });
+    const byOperator = await refundPolicy.quote(testClient, booking, { at, initiatedBy: 'OPERATOR' });
+    const early = await refundPolicy.quote(testClient, booking, { at: new Date('2024-01-14T08:00:00Z') });
+
+    expect(byPassenger).toMatchObject({ ruleName: 'Last day', hoursBeforeDeparture: 5.5, initiatedBy: 'PASSENGER' });
+    expect(byOperator).toMatchObject({ ruleName: 'Operator cancellation', refundAmount: 25 });
+    expect(early).toMatchObject({ ruleName: 'Early', hoursBeforeDeparture: 48, refundAmount: 22.5 });
+  });
+
+  it('matches the fare class of the booked seat', async () => {
+    await insertRefundRule({ name: 'First class', fare_class: 'FIRST', fee_percent: 0, priority: 1 });
+    await insertRefundRule({ name: 'Standard class', fare_class: 'STANDARD', fee_percent: 20, priority: 2 });
+
+    const standard = await refundPolicy.quote(testClient, booking, { at });
+    await db.query(`UPDATE seat_availability SET seat_class = 'FIRST'`);
+    const first = await refundPolicy.quote(testClient, booking, { at });
+
+    expect(standard).toMatchObject({ fareClass: 'STANDARD', ruleName: 'Standard class', refundAmount: 20 });
+    expect(first).toMatchObject({ fareClass: 'FIRST', ruleName: 'First class', refundAmount: 25 });
+  });
+
+  it('skips time-bounded rules when the departure is unknown', async () => {
+    await insertRefundRule({ name: 'Last day', max_hours_before_departure: 24, fee_percent: 50 });
+    await db.query(`DELETE FROM schedule_inventory`);
+
+    const refund = await refundPolicy.quote(testClient, booking, { at });
+
+    expect(refund.hoursBeforeDeparture).toBeNull();
+    expect(refund.ruleId).toBeNull();
+    expect(refund.refundAmount).toBe(25);
+  });
+});
@@ -0,0 +1,136 @@
+import { PoolClient } from 'pg';
+import { Booking } from '../models/booking';
+import { RefundBreakdown, RefundInitiator, RefundMethod } from '../models/refund';
+import logger from '../utils/logger';
+
+// The booking details a refund depends on
+export type RefundSubject = Pick<
+  Booking,
+  'id' | 'routeId' | 'scheduleId' | 'seatNumber' | 'passengerCategory' | 'price' | 'paidAmount' | 'currency'
+>;
+
+export interface RefundOptions {
+  initiatedBy?: RefundInitiator; // Default PASSENGER
+  method?: RefundMethod; // Requested payout, default CASH
+  at?: Date; // When the cancellation happens, default now
+}
+
+interface RefundRuleRow {
+  id: string;
+  name: string;
+  refundable: boolean;
+  fee_percent: string;
+  fee_amount: string;
+  voucher_only: boolean;
+  voucher_bonus_percent: string;
+}
+
+/**
+ * Refund Policy - decides what cancelling a paid booking refunds, from the
+ * refund rules in the write DB. No matching rule means a full cash refund.
+ */
+export const refundPolicy = {
+  /**
+   * Calculate the refund of a booking if it were cancelled now. Doesn't
+   * change anything - cancel stores the result, the quote endpoint only shows it.
+   */
+  quote: async (
+    client: PoolClient,
+    booking: RefundSubject,
+    options: RefundOptions = {}
+  ): Promise<RefundBreakdown> => {
+    const initiatedBy = options.initiatedBy || 'PASSENGER';
+    const at = options.at || new Date();
+
+    const schedule = await client.query(
+      `SELECT departure_time FROM schedule_inventory WHERE schedule_id = $1`,
+      [booking.scheduleId]
+    );
+    const departureTime: Date | null = schedule.rows[0]?.departure_time
+      ? new Date(schedule.rows[0].departure_time)
+      : null;
+    const hoursBeforeDeparture = departureTime
+      ? Math.round(((departureTime.getTime() - at.getTime()) / (60 * 60 * 1000)) * 100) / 100
+      : null;
+
+    // The fare class is the class of the seat the passenger paid for
+    const seat = booking.seatNumber
+      ? await client.query(
+        `SELECT seat_class FROM seat_availability WHERE schedule_id = $1 AND seat_number = $2`,
+        [booking.scheduleId, booking.seatNumber]
+      )
+      : null;
+    const fareClass: string | null = seat?.rows[0]?.seat_class || null;
+
+    // Time-bounded rules never match when the departure is unknown
+    const rules = await client.query<RefundRuleRow>(
+      `SELECT id, name, refundable, fee_percent, fee_amount, voucher_only, voucher_bonus_percent
+       FROM refund_rules
+       WHERE active
+       AND (route_id IS NULL OR route_id = $1)
+       AND (fare_class IS NULL OR fare_class = $2)
+       AND (passenger_type IS NULL OR passenger_type = $3)
+       AND (initiated_by IS NULL OR initiated_by = $4)
+       AND (min_hours_before_departure IS NULL OR min_hours_before_departure <= $5)
+       AND (max_hours_before_departure IS NULL OR max_hours_before_departure > $5)
+       ORDER BY priority, created_at
+       LIMIT 1`,
+      [booking.routeId, fareClass, booking.passengerCategory, initiatedBy, hoursBeforeDeparture]
+    );
+    const rule = rules.rows[0];
+
+    // Ticket changes reprice the booking - refund what was paid, not the current fare
+    const paidAmount = booking.paidAmount ?? booking.price;
+    let percentageFee = 0;
+    let fixedFee = 0;
+    let method: RefundMethod = options.method || 'CASH';
+    let voucherBonus = 0;
+    let refundAmount = paidAmount;
+
+    if (rule && !rule.refundable) {
+      refundAmount = 0;
+      method = 'CASH';
+    } else if (rule) {
+      percentageFee = roundCents(paidAmount * parseFloat(rule.fee_percent) / 100);
+      fixedFee = parseFloat(rule.fee_amount);
+      refundAmount = Math.max(0, roundCents(paidAmount - percentageFee - fixedFee));
+
+      if (rule.voucher_only) {
+        method = 'VOUCHER';
+      }
+      if (method === 'VOUCHER') {
+        voucherBonus = roundCents(refundAmount * parseFloat(rule.voucher_bonus_percent) / 100);
+        refundAmount = roundCents(refundAmount + voucherBonus);
+      }
+    } else {
+      // No policy for this booking - refund in full, as requested
+      logger.debug('No refund rule matched, refunding in full', { bookingId: booking.id });
+    }
+
+    return {
+      ruleId: rule?.id || null,
+      ruleName: rule?.name || null,
+      initiatedBy,
+      fareClass,
+      passengerType: booking.passengerCategory,
+      hoursBeforeDeparture,
+      paidAmount,
+      refundable: rule ? rule.refundable : true,
+      percentageFee,
+      fixedFee,
+      // Fees never take more than was paid
+      totalFee: Math.min(paidAmount, roundCents(percentageFee + fixedFee)),
+      method,
+      voucherBonus,
+      refundAmount,
+      currency: booking.currency,
+      calculatedAt: at,
+    };
+  },
+};
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export default refundPolicy;
@@ -0,0 +1,120 @@
+import { projectionRebuilder } from './projectionRebuilder';
+import { reserveTicketHandler } from '../commands/reserveTicket';
+import { confirmTicketHandler } from '../commands/confirmTicket';
+import { BookingStatus, SeatStatus } from '../models/booking';
+import { testDb, useTestDatabase } from '../testing/database';
+import { insertFare, insertSchedule, minutesFromNow, ROUTE_ID, SCHEDULE_ID, USER_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+jest.mock('../infrastructure/database/readDb', () => jest.requireActual('../testing/database').readDbModule);
+jest.mock('../infrastructure/cache/redis', () => ({
+  __esModule: true,
+  cacheKeys: jest.requireActual('../infrastructure/cache/redis').cacheKeys,
+  default: { del: jest.fn(), delPattern: jest.fn() },
+}));
+
+const db = useTestDatabase();
+
+const PAYMENT_ID = '7e57d000-0000-4000-8000-000000000001';
+
+const reserve = async (seatNumber: string) =>
+  (await reserveTicketHandler({
+    userId: USER_ID,
+    routeId: ROUTE_ID,
+    scheduleId: SCHEDULE_ID,
+    passengerName: 'Ada Lovelace',
+    passengerEmail: 'ada@example.com',
+    seatNumber,
+  })).booking.id;
+
+const ticketStatuses = async () =>
+  Object.fromEntries(
+    (await db.query<{ id: string; status: string }>(`SELECT id, status FROM user_tickets_view`))
+      .map((ticket) => [ticket.id, ticket.status])
+  );
+
+beforeEach(async () => {
+  await insertFare();
+  await insertSchedule({}, ['1A', '1B', '1C']);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('projectionRebuilder.rebuild', () => {
+  it('replays the event store into the read model', async () => {
+    const reserved = await reserve('1A');
+    const confirmed = await reserve('1B');
+    await confirmTicketHandler({ bookingId: confirmed, paymentId: PAYMENT_ID });
+
+    const status = await projectionRebuilder.rebuild();
+
+    expect(status).toMatchObject({ status: 'COMPLETED', eventsProcessed: 3, eventsTotal: 3, error: null });
+    expect(await ticketStatuses()).toEqual({
+      [reserved]: BookingStatus.RESERVED,
+      [confirmed]: BookingStatus.CONFIRMED,
+    });
+    expect(await db.query(`SELECT seat_number, status FROM seat_map_view ORDER BY seat_number`)).toEqual([
+      { seat_number: '1A', status: SeatStatus.LOCKED },
+      { seat_number: '1B', status: SeatStatus.BOOKED },
+      { seat_number: '1C', status: SeatStatus.AVAILABLE },
+    ]);
+    expect(await projectionRebuilder.getStatus()).toMatchObject({ status: 'COMPLETED', eventsProcessed: 3 });
+  });
+
+  it('replaces whatever the live tables held', async () => {
+    await reserve('1A');
+    await db.query(
+      `INSERT INTO user_tickets_view (id, user_id, route_id, schedule_id, passenger_name, passenger_email, price, status)
+       VALUES (gen_random_uuid(), $1, $2, $3, 'Stale', 'stale@example.com', 1, 'CONFIRMED')`,
+      [USER_ID, ROUTE_ID, SCHEDULE_ID]
+    );
+
+    await projectionRebuilder.rebuild();
+
+    expect(Object.values(await ticketStatuses())).toEqual([BookingStatus.RESERVED]);
+  });
+
+  it('catches up on an event whose transaction committed after the main pass went by', async () => {
+    const late = await reserve('1A');
+    const other = await reserve('1B');
+    await confirmTicketHandler({ bookingId: late, paymentId: PAYMENT_ID });
+
+    // The confirmation was inserted before the other booking's event but not
+    // yet committed when the main pass read the store
+    const [confirmation] = await db.query<Record<string, unknown>>(
+      `DELETE FROM booking_events WHERE aggregate_id = $1 AND version = 2 RETURNING *`,
+      [late]
+    );
+    await db.query(`UPDATE booking_events SET created_at = $1 WHERE aggregate_id = $2`, [minutesFromNow(1), other]);
+
+    const query = testDb.query;
+    let eventReads = 0;
+    jest.spyOn(testDb, 'query').mockImplementation(async (text: string, params?: unknown[]) => {
+      const rows = await query(text, params);
+      // The main pass has read everything - now the confirmation commits
+      if (text.includes('FROM booking_events e') && ++eventReads === 2) {
+        await query(
+          `INSERT INTO booking_events (event_id, event_type, aggregate_id, aggregate_type, payload, version, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            confirmation.event_id,
+            confirmation.event_type,
+            confirmation.aggregate_id,
+            confirmation.aggregate_type,
+            confirmation.payload,
+            confirmation.version,
+            minutesFromNow(0),
+          ]
+        );
+      }
+      return rows as never;
+    });
+
+    const status = await projectionRebuilder.rebuild();
+
+    expect(status.eventsProcessed).toBe(3);
+    expect((await ticketStatuses())[late]).toBe(BookingStatus.CONFIRMED);
+  });
+});
@@ -0,0 +1,475 @@
+import { PoolClient } from 'pg';
+import readDb from '../infrastructure/database/readDb';
+import writeDb from '../infrastructure/database/writeDb';
+import redis, { cacheKeys } from '../infrastructure/cache/redis';
+import { ProjectedEvent } from '../events/types';
+import {
+  ticketProjector,
+  createProjectionContext,
+  ProjectionContext,
+  ProjectionTables,
+  LIVE_PROJECTION_TABLES,
+} from './ticketProjector';
+import { ConflictError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const REBUILD_CHECKPOINT = 'ticket_projector_rebuild';
+const REBUILD_LOCK_ID = 4815162342; // pg advisory lock - one rebuild at a time across replicas
+const PAGE_SIZE = 500;
+const SEAT_PAGE_SIZE = 1000;
+
+// created_at is taken when an event is inserted, not when its transaction
+// commits - the catch-up re-reads this far behind the cursor so events of
+// transactions still open while the main pass went by are not missed
+const CATCH_UP_WINDOW_MS = 15 * 60 * 1000;
+
+export type RebuildState = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface RebuildStatus {
+  status: RebuildState;
+  eventsProcessed: number;
+  eventsTotal: number;
+  lastProcessedEventId: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  error: string | null;
+}
+
+// Position in the event store (events are replayed in this order)
+interface EventCursor {
+  createdAt: Date;
+  aggregateId: string;
+  version: number;
+}
+
+interface ReplayPosition {
+  cursor: EventCursor | null;
+  lastEventId: string | null;
+  processed: number;
+}
+
+interface StoredEventRow {
+  event_id: string;
+  event_type: string;
+  aggregate_id: string;
+  aggregate_type: string;
+  payload: Record<string, unknown>;
+  correlation_id: string | null;
+  version: number;
+  created_at: Date;
+  booking_user_id: string | null;
+  booking_passenger_name: string | null;
+  booking_passenger_email: string | null;
+  booking_currency: string | null;
+}
+
+interface SeatLayoutRow {
+  id: string;
+  schedule_id: string;
+  seat_number: string;
+  seat_row: number | null;
+  seat_column: number | null;
+  deck: number | null;
+  seat_class: string | null;
+}
+
+const SHADOW_TABLES: ProjectionTables = {
+  userTickets: `${LIVE_PROJECTION_TABLES.userTickets}_rebuild`,
+  scheduleAvailability: `${LIVE_PROJECTION_TABLES.scheduleAvailability}_rebuild`,
+  seatMap: `${LIVE_PROJECTION_TABLES.seatMap}_rebuild`,
+  tokenRevocations: `${LIVE_PROJECTION_TABLES.tokenRevocations}_rebuild`,
+  processedEvents: `${LIVE_PROJECTION_TABLES.processedEvents}_rebuild`,
+};
+
+/**
+ * Projection Rebuilder - rebuilds the read model by replaying booking_events.
+ *
+ * Events are replayed through the ticket projector into shadow tables while the
+ * live tables keep serving (and being updated by the Kafka consumer). The live
+ * tables are then locked, the events recorded in the meantime are caught up, and
+ * the shadow contents are swapped in within a single read DB transaction.
+ */
+export const projectionRebuilder = {
+  /**
+   * Start a rebuild in the background; resolves once the rebuild lock is held
+   */
+  start: async (): Promise<void> => {
+    const client = await acquireRebuildLock();
+
+    run(client).catch((error) => {
+      logger.error('Read model rebuild failed', { error });
+    });
+  },
+
+  /**
+   * Run a rebuild to completion
+   */
+  rebuild: async (): Promise<RebuildStatus> => {
+    const client = await acquireRebuildLock();
+    return run(client);
+  },
+
+  getStatus: async (): Promise<RebuildStatus | null> => {
+    const row = await readDb.queryOne<Record<string, unknown>>(
+      `SELECT * FROM projection_checkpoints WHERE projection_name = $1`,
+      [REBUILD_CHECKPOINT]
+    );
+
+    return row ? mapRowToStatus(row) : null;
+  },
+};
+
+async function acquireRebuildLock(): Promise<PoolClient> {
+  const client = await readDb.getClient();
+
+  try {
+    const result = await client.query(
+      `SELECT pg_try_advisory_lock($1) AS locked`,
+      [REBUILD_LOCK_ID]
+    );
+
+    if (!result.rows[0].locked) {
+      throw new ConflictError('A read model rebuild is already running');
+    }
+
+    return client;
+  } catch (error) {
+    client.release();
+    throw error;
+  }
+}
+
+async function run(client: PoolClient): Promise<RebuildStatus> {
+  const startedAt = new Date();
+  const ctx = createProjectionContext(client, SHADOW_TABLES, false);
+
+  const position: ReplayPosition = { cursor: null, lastEventId: null, processed: 0 };
+  let total = 0;
+
+  try {
+    total = await countEvents();
+    logger.info('Starting read model rebuild', { eventsTotal: total });
+
+    await saveProgress(client, {
+      status: 'RUNNING',
+      eventsProcessed: 0,
+      eventsTotal: total,
+      lastProcessedEventId: null,
+      startedAt,
+      completedAt: null,
+      error: null,
+    });
+
+    await createShadowTables(client);
+    await loadSeatLayouts(client);
+
+    // Main pass - live tables stay untouched
+    while (await replayNextPage(ctx, position)) {
+      await saveProgress(client, {
+        status: 'RUNNING',
+        eventsProcessed: position.processed,
+        eventsTotal: Math.max(total, position.processed),
+        lastProcessedEventId: position.lastEventId,
+        startedAt,
+        completedAt: null,
+        error: null,
+      });
+    }
+
+    // Swap - block projector writes, catch up and copy the shadow tables in
+    await client.query('BEGIN');
+    try {
+      await client.query(
+        `LOCK TABLE ${Object.values(LIVE_PROJECTION_TABLES).join(', ')} IN EXCLUSIVE MODE`
+      );
+
+      // Catch up on events recorded during the main pass - those already
+      // replayed are skipped by the shadow processed_events table
+      position.cursor = rewindCursor(position.cursor);
+      while (await replayNextPage(ctx, position)) {
+        // Keep paging until caught up
+      }
+
+      await swapTables(client);
+
+      if (position.lastEventId) {
+        await client.query(
+          `INSERT INTO projection_checkpoints (projection_name, last_processed_event_id, last_processed_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (projection_name) DO UPDATE SET
+             last_processed_event_id = EXCLUDED.last_processed_event_id,
+             last_processed_at = NOW()`,
+          ['ticket_projector', position.lastEventId]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+
+    await dropShadowTables(client);
+
+    // Cached read models may reflect the old tables
+    await redis.delPattern(`${cacheKeys.userTickets('*')}:*`);
+    await redis.delPattern(cacheKeys.ticketDetails('*'));
+    await redis.delPattern(cacheKeys.scheduleAvailability('*'));
+    await redis.delPattern(cacheKeys.seatMap('*'));
+
+    const status: RebuildStatus = {
+      status: 'COMPLETED',
+      eventsProcessed: position.processed,
+      eventsTotal: Math.max(total, position.processed),
+      lastProcessedEventId: position.lastEventId,
+      startedAt,
+      completedAt: new Date(),
+      error: null,
+    };
+    await saveProgress(client, status);
+
+    logger.info('Read model rebuild completed', { eventsProcessed: position.processed });
+    return status;
+  } catch (error) {
+    await saveProgress(client, {
+      status: 'FAILED',
+      eventsProcessed: position.processed,
+      eventsTotal: total,
+      lastProcessedEventId: position.lastEventId,
+      startedAt,
+      completedAt: new Date(),
+      error: error instanceof Error ? error.message : String(error),
+    }).catch((saveError) => {
+      logger.error('Failed to record rebuild failure', { error: saveError });
+    });
+
+    await dropShadowTables(client).catch((dropError) => {
+      logger.error('Failed to drop rebuild shadow tables', { error: dropError });
+    });
+
+    throw error;
+  } finally {
+    await client.query(`SELECT pg_advisory_unlock($1)`, [REBUILD_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+}
+
+/**
+ * Replay the next page of events into the context, returns false once caught up
+ */
+async function replayNextPage(ctx: ProjectionContext, position: ReplayPosition): Promise<boolean> {
+  const page = await fetchEvents(position.cursor, PAGE_SIZE);
+  if (page.length === 0) {
+    return false;
+  }
+
+  for (const row of page) {
+    if (await ticketProjector.applyEventOnce(ctx, mapRowToEvent(row))) {
+      position.processed++;
+    }
+  }
+
+  const last = page[page.length - 1];
+  position.cursor = { createdAt: last.created_at, aggregateId: last.aggregate_id, version: last.version };
+  position.lastEventId = last.event_id;
+
+  return true;
+}
+
+/**
+ * Move the cursor back by the catch-up window, to the start of its position
+ */
+function rewindCursor(cursor: EventCursor | null): EventCursor | null {
+  if (!cursor) {
+    return null;
+  }
+
+  return {
+    createdAt: new Date(new Date(cursor.createdAt).getTime() - CATCH_UP_WINDOW_MS),
+    aggregateId: '00000000-0000-0000-0000-000000000000',
+    version: 0,
+  };
+}
+
+async function countEvents(): Promise<number> {
+  const row = await writeDb.queryOne<{ count: string }>(`SELECT COUNT(*) FROM booking_events`);
+  return parseInt(row?.count || '0', 10);
+}
+
+/**
+ * Read the next page of events after the cursor, in replay order.
+ * Booking columns are joined in to complete payloads of events recorded before
+ * the event store kept full payloads.
+ */
+async function fetchEvents(cursor: EventCursor | null, limit: number): Promise<StoredEventRow[]> {
+  const select = `
+    SELECT
+      e.event_id, e.event_type, e.aggregate_id, e.aggregate_type, e.payload,
+      e.correlation_id, e.version, e.created_at,
+      b.user_id AS booking_user_id,
+      b.passenger_name AS booking_passenger_name,
+      b.passenger_email AS booking_passenger_email,
+      b.currency AS booking_currency
+    FROM booking_events e
+    LEFT JOIN bookings b ON b.id = e.aggregate_id
+  `;
+
+  if (!cursor) {
+    return writeDb.query<StoredEventRow>(
+      `${select} ORDER BY e.created_at, e.aggregate_id, e.version LIMIT $1`,
+      [limit]
+    );
+  }
+
+  return writeDb.query<StoredEventRow>(
+    `${select}
+     WHERE (e.created_at, e.aggregate_id, e.version) > ($1, $2, $3)
+     ORDER BY e.created_at, e.aggregate_id, e.version
+     LIMIT $4`,
+    [cursor.createdAt, cursor.aggregateId, cursor.version, limit]
+  );
+}
+
+function mapRowToEvent(row: StoredEventRow): ProjectedEvent {
+  const fallback = row.booking_user_id
+    ? {
+        userId: row.booking_user_id,
+        passengerName: row.booking_passenger_name,
+        passengerEmail: row.booking_passenger_email,
+        currency: row.booking_currency,
+      }
+    : {};
+
+  return {
+    eventId: row.event_id,
+    eventType: row.event_type,
+    aggregateId: row.aggregate_id,
+    aggregateType: row.aggregate_type,
+    timestamp: row.created_at,
+    version: row.version,
+    correlationId: row.correlation_id || undefined,
+    payload: { ...fallback, ...row.payload },
+  } as ProjectedEvent;
+}
+
+async function createShadowTables(client: PoolClient): Promise<void> {
+  await dropShadowTables(client);
+
+  for (const key of Object.keys(LIVE_PROJECTION_TABLES) as Array<keyof ProjectionTables>) {
+    await client.query(
+      `CREATE TABLE ${SHADOW_TABLES[key]} (LIKE ${LIVE_PROJECTION_TABLES[key]} INCLUDING ALL)`
+    );
+  }
+}
+
+/**
+ * Seats provisioned outside the event store (e.g. seed data) have no layout
+ * event - start the shadow seat map from the seats in the write DB, all
+ * available until the replay says otherwise
+ */
+async function loadSeatLayouts(client: PoolClient): Promise<void> {
+  let lastId: string | null = null;
+
+  for (;;) {
+    const seats: SeatLayoutRow[] = await writeDb.query<SeatLayoutRow>(
+      `SELECT id, schedule_id, seat_number, seat_row, seat_column, deck, seat_class
+       FROM seat_availability
+       WHERE $1::uuid IS NULL OR id > $1::uuid
+       ORDER BY id
+       LIMIT $2`,
+      [lastId, SEAT_PAGE_SIZE]
+    );
+
+    if (seats.length === 0) {
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO ${SHADOW_TABLES.seatMap} (schedule_id, seat_number, seat_row, seat_column, deck, seat_class)
+       SELECT * FROM UNNEST($1::uuid[], $2::varchar[], $3::int[], $4::int[], $5::int[], $6::varchar[])
+       ON CONFLICT (schedule_id, seat_number) DO NOTHING`,
+      [
+        seats.map((s) => s.schedule_id),
+        seats.map((s) => s.seat_number),
+        seats.map((s) => s.seat_row),
+        seats.map((s) => s.seat_column),
+        seats.map((s) => s.deck),
+        seats.map((s) => s.seat_class),
+      ]
+    );
+
+    lastId = seats[seats.length - 1].id;
+  }
+}
+
+async function dropShadowTables(client: PoolClient): Promise<void> {
+  for (const table of Object.values(SHADOW_TABLES)) {
+    await client.query(`DROP TABLE IF EXISTS ${table}`);
+  }
+}
+
+/**
+ * Replace the live table contents with the shadow tables (caller holds the transaction)
+ */
+async function swapTables(client: PoolClient): Promise<void> {
+  await client.query(`TRUNCATE ${Object.values(LIVE_PROJECTION_TABLES).join(', ')}`);
+
+  for (const key of Object.keys(LIVE_PROJECTION_TABLES) as Array<keyof ProjectionTables>) {
+    const live = LIVE_PROJECTION_TABLES[key];
+
+    // Generated columns (e.g. available_seats) can't be inserted into
+    const columns = await client.query(
+      `SELECT column_name FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = $1 AND is_generated = 'NEVER'
+       ORDER BY ordinal_position`,
+      [live]
+    );
+    const columnList = columns.rows.map((c) => c.column_name).join(', ');
+
+    await client.query(
+      `INSERT INTO ${live} (${columnList}) SELECT ${columnList} FROM ${SHADOW_TABLES[key]}`
+    );
+  }
+}
+
+async function saveProgress(client: PoolClient, status: RebuildStatus): Promise<void> {
+  await client.query(
+    `INSERT INTO projection_checkpoints (
+      projection_name, last_processed_event_id, last_processed_at,
+      status, events_processed, events_total, started_at, completed_at, error
+    ) VALUES ($1, $2, NOW(), $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (projection_name) DO UPDATE SET
+      last_processed_event_id = EXCLUDED.last_processed_event_id,
+      last_processed_at = NOW(),
+      status = EXCLUDED.status,
+      events_processed = EXCLUDED.events_processed,
+      events_total = EXCLUDED.events_total,
+      started_at = EXCLUDED.started_at,
+      completed_at = EXCLUDED.completed_at,
+      error = EXCLUDED.error`,
+    [
+      REBUILD_CHECKPOINT,
+      status.lastProcessedEventId,
+      status.status,
+      status.eventsProcessed,
+      status.eventsTotal,
+      status.startedAt,
+      status.completedAt,
+      status.error,
+    ]
+  );
+}
+
+function mapRowToStatus(row: Record<string, unknown>): RebuildStatus {
+  return {
+    status: row.status as RebuildState,
+    eventsProcessed: parseInt(String(row.events_processed ?? 0), 10),
+    eventsTotal: parseInt(String(row.events_total ?? 0), 10),
+    lastProcessedEventId: row.last_processed_event_id as string | null,
+    startedAt: row.started_at ? new Date(row.started_at as string) : null,
+    completedAt: row.completed_at ? new Date(row.completed_at as string) : null,
+    error: row.error as string | null,
+  };
+}
+
+export default projectionRebuilder;
@@ -0,0 +1,198 @@
+import { EachMessagePayload } from 'kafkajs';
+import { ticketProjector } from './ticketProjector';
+import { reserveTicketHandler } from '../commands/reserveTicket';
+import { confirmTicketHandler } from '../commands/confirmTicket';
+import { cancelTicketHandler } from '../commands/cancelTicket';
+import { refundTicketHandler } from '../commands/refundTicket';
+import { expireReservationsHandler } from '../commands/expireReservations';
+import { BookingStatus, SeatStatus } from '../models/booking';
+import { useTestDatabase } from '../testing/database';
+import { insertFare, insertSchedule, minutesFromNow, ROUTE_ID, SCHEDULE_ID, USER_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+jest.mock('../infrastructure/database/readDb', () => jest.requireActual('../testing/database').readDbModule);
+jest.mock('../infrastructure/cache/redis', () => ({
+  __esModule: true,
+  cacheKeys: jest.requireActual('../infrastructure/cache/redis').cacheKeys,
+  default: { del: jest.fn(), delPattern: jest.fn() },
+}));
+
+const db = useTestDatabase();
+
+const PAYMENT_ID = '7e57d000-0000-4000-8000-000000000001';
+
+const deliver = (event: unknown) =>
+  ticketProjector.processMessage({
+    topic: 'ticket-events',
+    partition: 0,
+    message: { value: Buffer.from(JSON.stringify(event)), headers: {}, offset: '0' },
+  } as unknown as EachMessagePayload);
+
+/**
+ * Deliver the events the commands queued in the outbox to the projector, as
+ * the outbox relay and Kafka would
+ */
+async function projectRecordedEvents(): Promise<void> {
+  const entries = await db.query<{ event: unknown }>(`SELECT event FROM event_outbox WHERE status = 'PENDING' ORDER BY id`);
+
+  for (const { event } of entries) {
+    await deliver(event);
+  }
+  await db.query(`UPDATE event_outbox SET status = 'PUBLISHED'`);
+}
+
+const recordedEvents = async () =>
+  (await db.query<{ event: { eventId: string; eventType: string } }>(`SELECT event FROM event_outbox ORDER BY id`))
+    .map((entry) => entry.event);
+
+const checkpoint = async () =>
+  (await db.queryOne<{ last_processed_event_id: string }>(
+    `SELECT last_processed_event_id FROM projection_checkpoints WHERE projection_name = 'ticket_projector'`
+  ))!.last_processed_event_id;
+
+const ticketOf = async (bookingId: string) =>
+  (await db.queryOne<{ status: string; seat_number: string | null }>(
+    `SELECT status, seat_number FROM user_tickets_view WHERE id = $1`,
+    [bookingId]
+  ))!;
+
+const bookedSeats = async () =>
+  (await db.queryOne<{ booked_seats: number }>(
+    `SELECT booked_seats FROM schedule_availability_view WHERE schedule_id = $1`,
+    [SCHEDULE_ID]
+  ))!.booked_seats;
+
+const seatMapOf = async (seatNumber: string) =>
+  db.queryOne<{ status: string; booking_id: string | null }>(
+    `SELECT status, booking_id FROM seat_map_view WHERE schedule_id = $1 AND seat_number = $2`,
+    [SCHEDULE_ID, seatNumber]
+  );
+
+// A reservation of seat 1A, projected
+async function reserve(): Promise<string> {
+  const { booking } = await reserveTicketHandler({
+    userId: USER_ID,
+    routeId: ROUTE_ID,
+    scheduleId: SCHEDULE_ID,
+    passengerName: 'Ada Lovelace',
+    passengerEmail: 'ada@example.com',
+    seatNumber: '1A',
+  });
+  await projectRecordedEvents();
+  return booking.id;
+}
+
+beforeEach(async () => {
+  await insertFare();
+  await insertSchedule({}, ['1A', '1B']);
+});
+
+describe('ticketProjector', () => {
+  it('projects a reservation holding its seat', async () => {
+    const bookingId = await reserve();
+
+    expect(await ticketOf(bookingId)).toEqual({ status: BookingStatus.RESERVED, seat_number: '1A' });
+    expect(await bookedSeats()).toBe(1);
+    expect(await seatMapOf('1A')).toMatchObject({ status: SeatStatus.LOCKED, booking_id: bookingId });
+  });
+
+  describe('TICKET_EXPIRED', () => {
+    it('expires the ticket and frees its seat', async () => {
+      const bookingId = await reserve();
+      await db.query(`UPDATE bookings SET expires_at = $1`, [minutesFromNow(-1)]);
+      await expireReservationsHandler(10);
+
+      await projectRecordedEvents();
+
+      expect((await ticketOf(bookingId)).status).toBe(BookingStatus.EXPIRED);
+      expect(await bookedSeats()).toBe(0);
+      expect(await seatMapOf('1A')).toMatchObject({ status: SeatStatus.AVAILABLE, booking_id: null });
+    });
+  });
+
+  describe('TICKET_REFUNDED', () => {
+    // Confirmed, then cancelled by the operator with the 25.00 fare owed back
+    let bookingId: string;
+
+    beforeEach(async () => {
+      bookingId = await reserve();
+      await confirmTicketHandler({ bookingId, paymentId: PAYMENT_ID });
+      await cancelTicketHandler({ bookingId, initiatedBy: 'OPERATOR' });
+      await projectRecordedEvents();
+    });
+
+    it('marks the ticket refunded once the refund is paid in full', async () => {
+      await refundTicketHandler({ bookingId, refundTransactionId: 're_1' });
+
+      await projectRecordedEvents();
+
+      expect((await ticketOf(bookingId)).status).toBe(BookingStatus.REFUNDED);
+    });
+
+    it('leaves the ticket cancelled after a partial refund', async () => {
+      await refundTicketHandler({ bookingId, refundTransactionId: 're_1', amount: 10 });
+
+      await projectRecordedEvents();
+
+      expect((await ticketOf(bookingId)).status).toBe(BookingStatus.CANCELLED);
+    });
+
+    it('does not give back the seat the cancellation already released', async () => {
+      await reserveTicketHandler({
+        userId: USER_ID,
+        routeId: ROUTE_ID,
+        scheduleId: SCHEDULE_ID,
+        passengerName: 'Charles Babbage',
+        passengerEmail: 'charles@example.com',
+        seatNumber: '1A',
+      });
+      await refundTicketHandler({ bookingId, refundTransactionId: 're_1' });
+
+      await projectRecordedEvents();
+
+      expect(await bookedSeats()).toBe(1);
+      expect((await seatMapOf('1A'))!.status).toBe(SeatStatus.LOCKED);
+    });
+  });
+
+  describe('a redelivered event', () => {
+    it('is skipped, leaving the read model and checkpoint as they were', async () => {
+      const bookingId = await reserve();
+      await confirmTicketHandler({ bookingId, paymentId: PAYMENT_ID });
+      await projectRecordedEvents();
+      const [reserved, confirmed] = await recordedEvents();
+
+      await deliver(reserved);
+      await deliver(confirmed);
+
+      expect((await ticketOf(bookingId)).status).toBe(BookingStatus.CONFIRMED);
+      expect(await bookedSeats()).toBe(1);
+      expect(await db.query(`SELECT event_id FROM processed_events ORDER BY version`)).toEqual([
+        { event_id: reserved.eventId },
+        { event_id: confirmed.eventId },
+      ]);
+      expect(await checkpoint()).toBe(confirmed.eventId);
+    });
+
+    it('is applied when its first delivery failed to project', async () => {
+      jest.spyOn(ticketProjector, 'applyEvent').mockRejectedValueOnce(new Error('read model unavailable'));
+      await reserveTicketHandler({
+        userId: USER_ID,
+        routeId: ROUTE_ID,
+        scheduleId: SCHEDULE_ID,
+        passengerName: 'Ada Lovelace',
+        passengerEmail: 'ada@example.com',
+        seatNumber: '1A',
+      });
+      const [reserved] = await recordedEvents();
+
+      await expect(deliver(reserved)).rejects.toThrow('read model unavailable');
+      expect(await db.query(`SELECT event_id FROM processed_events`)).toEqual([]);
+
+      await deliver(reserved);
+
+      expect(await bookedSeats()).toBe(1);
+      expect(await checkpoint()).toBe(reserved.eventId);
+    });
+  });
+});
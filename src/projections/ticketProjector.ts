@@ -1,15 +1,89 @@
 import { EachMessagePayload } from 'kafkajs';
+import { PoolClient } from 'pg';
+import { config } from '../config';
 import readDb from '../infrastructure/database/readDb';
 import redis, { cacheKeys } from '../infrastructure/cache/redis';
-import { 
-  TicketEventType, 
-  TicketBookedEvent, 
+import {
+  TicketEventType,
+  ScheduleEventType,
+  BookingGroupEventType,
+  ProjectedEvent,
+  TicketBookedEvent,
   TicketReservedEvent,
-  TicketConfirmedEvent, 
-  TicketCancelledEvent 
+  TicketConfirmedEvent,
+  TicketCancelledEvent,
+  TicketExpiredEvent,
+  TicketRefundedEvent,
+  TicketSeatChangedEvent,
+  TicketSeatDisplacedEvent,
+  TicketValidatedEvent,
+  TicketChangedEvent,
+  TicketHoldExtendedEvent,
+  ScheduleLayoutAssignedEvent,
+  ScheduleCapacityChangedEvent,
+  SeatBlockedEvent,
+  SeatUnblockedEvent,
+  ScheduleDepartureChangedEvent,
+  RevokedTicketToken
 } from '../events/types';
+import { BookingStatus, PassengerCategory, SeatStatus } from '../models/booking';
 import logger from '../utils/logger';
 
+const PROJECTION_NAME = 'ticket_projector';
+
+// Read model tables written by the projector
+export interface ProjectionTables {
+  userTickets: string;
+  scheduleAvailability: string;
+  seatMap: string;
+  tokenRevocations: string;
+  processedEvents: string;
+}
+
+export const LIVE_PROJECTION_TABLES: ProjectionTables = {
+  userTickets: 'user_tickets_view',
+  scheduleAvailability: 'schedule_availability_view',
+  seatMap: 'seat_map_view',
+  tokenRevocations: 'ticket_token_revocations',
+  processedEvents: 'processed_events',
+};
+
+// Cache entries to drop once the projection transaction has committed
+interface CacheEviction {
+  key: string;
+  pattern: boolean;
+}
+
+/**
+ * Where an event is projected to - the live tables (Kafka consumer) or the
+ * shadow tables of a rebuild, which don't touch the Redis cache
+ */
+export interface ProjectionContext {
+  query: <T>(text: string, params?: unknown[]) => Promise<T[]>;
+  tables: ProjectionTables;
+  invalidateCache: boolean;
+  evictions: CacheEviction[];
+}
+
+/**
+ * Create a context that runs its queries on the given client
+ */
+export function createProjectionContext(
+  client: PoolClient,
+  tables: ProjectionTables,
+  invalidateCache: boolean
+): ProjectionContext {
+  return {
+    query: async <T>(text: string, params?: unknown[]) => {
+      const result = await client.query(text, params);
+      return result.rows as T[];
+    },
+    tables,
+    invalidateCache,
+    evictions: [],
+  };
+}
+
 /**
  * Ticket Projector - Updates the read model based on domain events
  * This is a key component of the CQRS pattern
@@ -20,7 +94,7 @@ export const ticketProjector = {
    */
   processMessage: async (payload: EachMessagePayload): Promise<void> => {
     const { topic, partition, message } = payload;
-    
+
     if (!message.value) {
       logger.warn('Received empty message', { topic, partition });
       return;
@@ -30,49 +104,152 @@ export const ticketProjector = {
       const event = JSON.parse(message.value.toString());
       const eventType = message.headers?.eventType?.toString() || event.eventType;
 
-      logger.info('Processing event for projection', { 
-        eventType, 
-        aggregateId: event.aggregateId 
+      logger.info('Processing event for projection', {
+        eventType,
+        aggregateId: event.aggregateId
       });
 
-      switch (eventType) {
-        case TicketEventType.TICKET_BOOKED:
-          await handleTicketBooked(event as TicketBookedEvent);
-          break;
-        case TicketEventType.TICKET_RESERVED:
-          await handleTicketReserved(event as TicketReservedEvent);
-          break;
-        case TicketEventType.TICKET_CONFIRMED:
-          await handleTicketConfirmed(event as TicketConfirmedEvent);
-          break;
-        case TicketEventType.TICKET_CANCELLED:
-          await handleTicketCancelled(event as TicketCancelledEvent);
-          break;
-        default:
-          logger.warn('Unknown event type', { eventType });
+      // The view update, dedup record and checkpoint commit together, so a
+      // redelivered event is either fully applied or skipped
+      const client = await readDb.getClient();
+      const ctx = createProjectionContext(client, LIVE_PROJECTION_TABLES, true);
+      let applied: boolean;
+
+      try {
+        await client.query('BEGIN');
+
+        applied = await ticketProjector.applyEventOnce(ctx, { ...event, eventType });
+
+        // Update projection checkpoint
+        if (applied) {
+          await updateCheckpoint(ctx, event.eventId);
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+
+      if (!applied) {
+        logger.info('Skipping already projected event', {
+          eventId: event.eventId,
+          eventType,
+        });
+        return;
       }
 
-      // Update projection checkpoint
-      await updateCheckpoint(event.eventId);
+      await flushEvictions(ctx);
 
     } catch (error) {
       logger.error('Error processing event for projection', { error, payload });
       throw error;
     }
   },
+
+  /**
+   * Apply an event unless it was already applied to the context's tables.
+   * Returns false for duplicates.
+   */
+  applyEventOnce: async (ctx: ProjectionContext, event: ProjectedEvent): Promise<boolean> => {
+    const recorded = await ctx.query<{ event_id: string }>(
+      `INSERT INTO ${ctx.tables.processedEvents} (projection_name, event_id, aggregate_id, version)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (projection_name, event_id) DO NOTHING
+       RETURNING event_id`,
+      [PROJECTION_NAME, event.eventId, event.aggregateId, event.version]
+    );
+
+    if (recorded.length === 0) {
+      return false;
+    }
+
+    await ticketProjector.applyEvent(ctx, event);
+    return true;
+  },
+
+  /**
+   * Apply a single event to the read model described by the context
+   */
+  applyEvent: async (ctx: ProjectionContext, event: ProjectedEvent): Promise<void> => {
+    switch (event.eventType) {
+      case TicketEventType.TICKET_BOOKED:
+        await handleTicketBooked(ctx, event);
+        break;
+      case TicketEventType.TICKET_RESERVED:
+        await handleTicketReserved(ctx, event);
+        break;
+      case TicketEventType.TICKET_CONFIRMED:
+        await handleTicketConfirmed(ctx, event);
+        break;
+      case TicketEventType.TICKET_CANCELLED:
+        await handleTicketCancelled(ctx, event);
+        break;
+      case TicketEventType.TICKET_EXPIRED:
+        await handleTicketExpired(ctx, event);
+        break;
+      case TicketEventType.TICKET_REFUNDED:
+        await handleTicketRefunded(ctx, event);
+        break;
+      case TicketEventType.TICKET_SEAT_CHANGED:
+        await handleTicketSeatChanged(ctx, event);
+        break;
+      case TicketEventType.TICKET_SEAT_DISPLACED:
+        await handleTicketSeatDisplaced(ctx, event);
+        break;
+      case TicketEventType.TICKET_VALIDATED:
+        await handleTicketValidated(ctx, event);
+        break;
+      case TicketEventType.TICKET_CHANGED:
+        await handleTicketChanged(ctx, event);
+        break;
+      case TicketEventType.TICKET_HOLD_EXTENDED:
+        await handleTicketHoldExtended(ctx, event);
+        break;
+      case TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED:
+        // Nothing to project - the booking keeps its status, the payment service returns the money
+        break;
+      case ScheduleEventType.SCHEDULE_LAYOUT_ASSIGNED:
+        await handleScheduleLayoutAssigned(ctx, event);
+        break;
+      case ScheduleEventType.SCHEDULE_CAPACITY_CHANGED:
+        await handleScheduleCapacityChanged(ctx, event);
+        break;
+      case ScheduleEventType.SEAT_BLOCKED:
+        await handleSeatBlocked(ctx, event);
+        break;
+      case ScheduleEventType.SEAT_UNBLOCKED:
+        await handleSeatUnblocked(ctx, event);
+        break;
+      case ScheduleEventType.SCHEDULE_DEPARTURE_CHANGED:
+        await handleScheduleDepartureChanged(ctx, event);
+        break;
+      case BookingGroupEventType.BOOKING_GROUP_CREATED:
+        // Nothing to project - each ticket of the group carries the groupId
+        break;
+      default:
+        logger.warn('Unknown event type', { eventType: (event as { eventType: string }).eventType });
+    }
+  },
 };
 
 /**
  * Handle TicketBooked event - Insert new record into read model
  */
-async function handleTicketBooked(event: TicketBookedEvent): Promise<void> {
+async function handleTicketBooked(ctx: ProjectionContext, event: TicketBookedEvent): Promise<void> {
   const { payload } = event;
 
-  await readDb.query(
-    `INSERT INTO user_tickets_view (
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.userTickets} (
       id, user_id, route_id, schedule_id, seat_number,
-      passenger_name, passenger_email, price, currency, status, created_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      passenger_name, passenger_email, passenger_category, group_id, booking_reference,
+      price, currency, status, created_at, departure_time
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+      (SELECT departure_time FROM ${ctx.tables.scheduleAvailability} WHERE schedule_id = $4)
+    )
     ON CONFLICT (id) DO UPDATE SET
       status = EXCLUDED.status,
       updated_at = NOW()`,
@@ -84,6 +261,9 @@ async function handleTicketBooked(event: TicketBookedEvent): Promise<void> {
       payload.seatNumber,
       payload.passengerName,
       payload.passengerEmail,
+      payload.passengerCategory || PassengerCategory.ADULT,
+      payload.groupId || null,
+      payload.bookingReference || null,
       payload.price,
       payload.currency,
       'PENDING',
@@ -92,10 +272,14 @@ async function handleTicketBooked(event: TicketBookedEvent): Promise<void> {
   );
 
   // Invalidate user's tickets cache
-  await redis.delPattern(`${cacheKeys.userTickets(payload.userId)}:*`);
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
 
   // Update schedule availability
-  await updateScheduleAvailability(payload.scheduleId, 1);
+  await updateScheduleAvailability(ctx, payload.scheduleId, 1);
+
+  if (payload.seatNumber) {
+    await occupySeat(ctx, payload.scheduleId, payload.seatNumber, payload.bookingId, SeatStatus.BOOKED, null);
+  }
 
   logger.info('Projected TicketBooked event', { bookingId: payload.bookingId });
 }
@@ -103,14 +287,18 @@ async function handleTicketBooked(event: TicketBookedEvent): Promise<void> {
 /**
  * Handle TicketReserved event - Insert/update with RESERVED status
  */
-async function handleTicketReserved(event: TicketReservedEvent): Promise<void> {
+async function handleTicketReserved(ctx: ProjectionContext, event: TicketReservedEvent): Promise<void> {
   const { payload } = event;
 
-  await readDb.query(
-    `INSERT INTO user_tickets_view (
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.userTickets} (
       id, user_id, route_id, schedule_id, seat_number,
-      passenger_name, passenger_email, price, currency, status, created_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      passenger_name, passenger_email, passenger_category, group_id, booking_reference,
+      price, currency, status, created_at, departure_time
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+      (SELECT departure_time FROM ${ctx.tables.scheduleAvailability} WHERE schedule_id = $4)
+    )
     ON CONFLICT (id) DO UPDATE SET
       status = EXCLUDED.status,
       updated_at = NOW()`,
@@ -122,6 +310,9 @@ async function handleTicketReserved(event: TicketReservedEvent): Promise<void> {
       payload.seatNumber,
       payload.passengerName,
       payload.passengerEmail,
+      payload.passengerCategory || PassengerCategory.ADULT,
+      payload.groupId || null,
+      payload.bookingReference || null,
       payload.price,
       payload.currency,
       'RESERVED',
@@ -130,10 +321,21 @@ async function handleTicketReserved(event: TicketReservedEvent): Promise<void> {
   );
 
   // Invalidate caches
-  await redis.delPattern(`${cacheKeys.userTickets(payload.userId)}:*`);
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
 
   // Update schedule availability
-  await updateScheduleAvailability(payload.scheduleId, 1);
+  await updateScheduleAvailability(ctx, payload.scheduleId, 1);
+
+  if (payload.seatNumber) {
+    await occupySeat(
+      ctx,
+      payload.scheduleId,
+      payload.seatNumber,
+      payload.bookingId,
+      SeatStatus.LOCKED,
+      payload.expiresAt
+    );
+  }
 
   logger.info('Projected TicketReserved event', { bookingId: payload.bookingId });
 }
@@ -141,19 +343,31 @@ async function handleTicketReserved(event: TicketReservedEvent): Promise<void> {
 /**
  * Handle TicketConfirmed event - Update status to CONFIRMED
  */
-async function handleTicketConfirmed(event: TicketConfirmedEvent): Promise<void> {
+async function handleTicketConfirmed(ctx: ProjectionContext, event: TicketConfirmedEvent): Promise<void> {
   const { payload } = event;
 
-  await readDb.query(
-    `UPDATE user_tickets_view 
-     SET status = $1, updated_at = NOW()
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET status = $1, ticket_token = COALESCE($3, ticket_token), updated_at = NOW()
      WHERE id = $2`,
-    ['CONFIRMED', payload.bookingId]
+    ['CONFIRMED', payload.bookingId, payload.ticketToken || null]
   );
 
   // Invalidate caches
-  await redis.del(cacheKeys.ticketDetails(payload.bookingId));
-  await redis.delPattern(`${cacheKeys.userTickets(payload.userId)}:*`);
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
+
+  // A confirmed reservation keeps its seat for good
+  const seats = await ctx.query<{ schedule_id: string }>(
+    `UPDATE ${ctx.tables.seatMap}
+     SET status = $1, locked_until = NULL, updated_at = NOW()
+     WHERE booking_id = $2
+     RETURNING schedule_id`,
+    [SeatStatus.BOOKED, payload.bookingId]
+  );
+  for (const seat of seats) {
+    await evict(ctx, cacheKeys.seatMap(seat.schedule_id));
+  }
 
   logger.info('Projected TicketConfirmed event', { bookingId: payload.bookingId });
 }
@@ -161,67 +375,593 @@ async function handleTicketConfirmed(event: TicketConfirmedEvent): Promise<void>
 /**
  * Handle TicketCancelled event - Update status to CANCELLED
  */
-async function handleTicketCancelled(event: TicketCancelledEvent): Promise<void> {
+async function handleTicketCancelled(ctx: ProjectionContext, event: TicketCancelledEvent): Promise<void> {
   const { payload } = event;
 
   // Get booking details first to update availability
-  const booking = await readDb.queryOne<{ schedule_id: string }>(
-    `SELECT schedule_id FROM user_tickets_view WHERE id = $1`,
+  const booking = await queryOne<{ schedule_id: string }>(
+    ctx,
+    `SELECT schedule_id FROM ${ctx.tables.userTickets} WHERE id = $1`,
     [payload.bookingId]
   );
 
-  await readDb.query(
-    `UPDATE user_tickets_view 
-     SET status = $1, updated_at = NOW()
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET status = $1, ticket_token = NULL, updated_at = NOW()
      WHERE id = $2`,
     ['CANCELLED', payload.bookingId]
   );
+  await revokeTicketToken(ctx, payload.bookingId, payload.revokedToken, event.timestamp);
 
   // Invalidate caches
-  await redis.del(cacheKeys.ticketDetails(payload.bookingId));
-  await redis.delPattern(`${cacheKeys.userTickets(payload.userId)}:*`);
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
 
   // Update schedule availability (decrease booked count)
   if (booking) {
-    await updateScheduleAvailability(booking.schedule_id, -1);
+    await updateScheduleAvailability(ctx, booking.schedule_id, -1);
   }
 
+  await releaseSeats(ctx, payload.bookingId);
+
   logger.info('Projected TicketCancelled event', { bookingId: payload.bookingId });
 }
 
+/**
+ * Handle TicketExpired event - Update status to EXPIRED and release the seat
+ */
+async function handleTicketExpired(ctx: ProjectionContext, event: TicketExpiredEvent): Promise<void> {
+  const { payload } = event;
+
+  // Get booking details first to update availability
+  const booking = await queryOne<{ schedule_id: string; status: BookingStatus }>(
+    ctx,
+    `SELECT schedule_id, status FROM ${ctx.tables.userTickets} WHERE id = $1`,
+    [payload.bookingId]
+  );
+
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET status = $1, updated_at = NOW()
+     WHERE id = $2`,
+    ['EXPIRED', payload.bookingId]
+  );
+
+  // Invalidate caches
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
+
+  // Update schedule availability (decrease booked count)
+  if (booking && holdsSeat(booking.status)) {
+    await updateScheduleAvailability(ctx, booking.schedule_id, -1);
+  }
+
+  await releaseSeats(ctx, payload.bookingId);
+
+  logger.info('Projected TicketExpired event', { bookingId: payload.bookingId });
+}
+
+/**
+ * Handle TicketRefunded event - Update status to REFUNDED once the refund owed is paid back in full
+ */
+async function handleTicketRefunded(ctx: ProjectionContext, event: TicketRefundedEvent): Promise<void> {
+  const { payload } = event;
+
+  // A partial refund leaves the booking CANCELLED
+  if (!payload.fullyRefunded) {
+    logger.debug('Skipping partial TicketRefunded event', {
+      bookingId: payload.bookingId,
+      totalRefunded: payload.totalRefunded,
+      amountOwed: payload.amountOwed,
+    });
+    return;
+  }
+
+  // Get booking details first to update availability
+  const booking = await queryOne<{ schedule_id: string; status: BookingStatus }>(
+    ctx,
+    `SELECT schedule_id, status FROM ${ctx.tables.userTickets} WHERE id = $1`,
+    [payload.bookingId]
+  );
+
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET status = $1, updated_at = NOW()
+     WHERE id = $2`,
+    ['REFUNDED', payload.bookingId]
+  );
+
+  // Invalidate caches
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
+
+  // A refund usually follows a cancellation, which already released the seat -
+  // only decrease the booked count if the booking was still holding one
+  if (booking && holdsSeat(booking.status)) {
+    await updateScheduleAvailability(ctx, booking.schedule_id, -1);
+  }
+
+  await releaseSeats(ctx, payload.bookingId);
+
+  logger.info('Projected TicketRefunded event', { bookingId: payload.bookingId });
+}
+
+/**
+ * Handle TicketSeatChanged event - Move the booking to its new seat
+ */
+async function handleTicketSeatChanged(ctx: ProjectionContext, event: TicketSeatChangedEvent): Promise<void> {
+  const { payload } = event;
+
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET seat_number = $1, ticket_token = COALESCE($3, ticket_token), updated_at = NOW()
+     WHERE id = $2`,
+    [payload.seatNumber, payload.bookingId, payload.ticketToken || null]
+  );
+  await revokeTicketToken(ctx, payload.bookingId, payload.revokedToken, event.timestamp);
+
+  // Invalidate caches
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
+
+  await vacateSeat(ctx, payload.scheduleId, payload.previousSeatNumber, payload.bookingId, payload.previousSeatRemoved);
+  await occupySeat(
+    ctx,
+    payload.scheduleId,
+    payload.seatNumber,
+    payload.bookingId,
+    payload.seatStatus === 'BOOKED' ? SeatStatus.BOOKED : SeatStatus.LOCKED,
+    payload.lockedUntil ? new Date(payload.lockedUntil) : null
+  );
+
+  logger.info('Projected TicketSeatChanged event', { bookingId: payload.bookingId, seatNumber: payload.seatNumber });
+}
+
+/**
+ * Handle TicketSeatDisplaced event - The booking no longer has a seat
+ */
+async function handleTicketSeatDisplaced(ctx: ProjectionContext, event: TicketSeatDisplacedEvent): Promise<void> {
+  const { payload } = event;
+
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET seat_number = NULL, ticket_token = COALESCE($2, ticket_token), updated_at = NOW()
+     WHERE id = $1`,
+    [payload.bookingId, payload.ticketToken || null]
+  );
+  await revokeTicketToken(ctx, payload.bookingId, payload.revokedToken, event.timestamp);
+
+  // Invalidate caches
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
+
+  await vacateSeat(ctx, payload.scheduleId, payload.previousSeatNumber, payload.bookingId, payload.previousSeatRemoved);
+
+  logger.info('Projected TicketSeatDisplaced event', { bookingId: payload.bookingId });
+}
+
+/**
+ * Handle TicketValidated event - An accepted scan marks the ticket USED;
+ * every scan counts, and suspected fraud stays flagged on the ticket
+ */
+async function handleTicketValidated(ctx: ProjectionContext, event: TicketValidatedEvent): Promise<void> {
+  const { payload } = event;
+
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET status = CASE WHEN $2 THEN $3 ELSE status END,
+         used_at = CASE WHEN $2 THEN $4 ELSE used_at END,
+         validation_count = $5,
+         suspected_fraud = suspected_fraud OR $6,
+         updated_at = NOW()
+     WHERE id = $1`,
+    [
+      payload.bookingId,
+      payload.accepted,
+      BookingStatus.USED,
+      payload.validatedAt,
+      payload.validationCount,
+      payload.suspectedFraud,
+    ]
+  );
+
+  // Invalidate caches
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
+
+  logger.info('Projected TicketValidated event', {
+    bookingId: payload.bookingId,
+    accepted: payload.accepted,
+    suspectedFraud: payload.suspectedFraud,
+  });
+}
+
+/**
+ * Handle TicketChanged event - Move the booking to its new schedule, seat and fare
+ */
+async function handleTicketChanged(ctx: ProjectionContext, event: TicketChangedEvent): Promise<void> {
+  const { payload } = event;
+
+  await ctx.query(
+    `UPDATE ${ctx.tables.userTickets}
+     SET schedule_id = $1, seat_number = $2, price = $3, ticket_token = COALESCE($4, ticket_token),
+         departure_time = (SELECT departure_time FROM ${ctx.tables.scheduleAvailability} WHERE schedule_id = $1),
+         updated_at = NOW()
+     WHERE id = $5`,
+    [payload.scheduleId, payload.seatNumber, payload.price, payload.ticketToken || null, payload.bookingId]
+  );
+  await revokeTicketToken(ctx, payload.bookingId, payload.revokedToken, event.timestamp);
+
+  // Invalidate caches
+  await evict(ctx, cacheKeys.ticketDetails(payload.bookingId));
+  await evictPattern(ctx, `${cacheKeys.userTickets(payload.userId)}:*`);
+
+  // The booked seat moves from one schedule to the other
+  await updateScheduleAvailability(ctx, payload.previousScheduleId, -1);
+  await updateScheduleAvailability(ctx, payload.scheduleId, 1);
+
+  if (payload.previousSeatNumber) {
+    await vacateSeat(ctx, payload.previousScheduleId, payload.previousSeatNumber, payload.bookingId, false);
+  }
+  if (payload.seatNumber) {
+    await occupySeat(ctx, payload.scheduleId, payload.seatNumber, payload.bookingId, SeatStatus.BOOKED, null);
+  }
+
+  logger.info('Projected TicketChanged event', {
+    bookingId: payload.bookingId,
+    from: payload.previousScheduleId,
+    to: payload.scheduleId,
+  });
+}
+
+/**
+ * Handle TicketHoldExtended event - Keep the reservation's seat locked until the new expiry
+ */
+async function handleTicketHoldExtended(ctx: ProjectionContext, event: TicketHoldExtendedEvent): Promise<void> {
+  const { payload } = event;
+
+  const seats = await ctx.query<{ schedule_id: string }>(
+    `UPDATE ${ctx.tables.seatMap}
+     SET locked_until = $1, updated_at = NOW()
+     WHERE booking_id = $2 AND status = $3
+     RETURNING schedule_id`,
+    [payload.expiresAt, payload.bookingId, SeatStatus.LOCKED]
+  );
+  for (const seat of seats) {
+    await evict(ctx, cacheKeys.seatMap(seat.schedule_id));
+  }
+
+  logger.info('Projected TicketHoldExtended event', {
+    bookingId: payload.bookingId,
+    expiresAt: payload.expiresAt,
+  });
+}
+
+/**
+ * Put a ticket token on the revocation list that validators sync
+ */
+async function revokeTicketToken(
+  ctx: ProjectionContext,
+  bookingId: string,
+  revoked: RevokedTicketToken | undefined,
+  revokedAt: Date
+): Promise<void> {
+  if (!revoked) {
+    return;
+  }
+
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.tokenRevocations} (token_id, booking_id, revoked_at, expires_at)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (token_id) DO NOTHING`,
+    [revoked.tokenId, bookingId, revokedAt, revoked.expiresAt]
+  );
+}
+
+/**
+ * Handle ScheduleLayoutAssigned event - Rebuild the schedule's seat map from the layout
+ */
+async function handleScheduleLayoutAssigned(
+  ctx: ProjectionContext,
+  event: ScheduleLayoutAssignedEvent
+): Promise<void> {
+  const { payload } = event;
+  const seatNumbers = payload.seats.map((seat) => seat.seatNumber);
+
+  // Drop free seats the new layout doesn't have
+  await ctx.query(
+    `DELETE FROM ${ctx.tables.seatMap}
+     WHERE schedule_id = $1 AND booking_id IS NULL AND NOT (seat_number = ANY($2::varchar[]))`,
+    [payload.scheduleId, seatNumbers]
+  );
+
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.seatMap} (schedule_id, seat_number, seat_row, seat_column, deck, seat_class)
+     SELECT $1, seat_number, seat_row, seat_column, deck, seat_class
+     FROM UNNEST($2::varchar[], $3::int[], $4::int[], $5::int[], $6::varchar[])
+       AS s(seat_number, seat_row, seat_column, deck, seat_class)
+     ON CONFLICT (schedule_id, seat_number) DO UPDATE SET
+       seat_row = EXCLUDED.seat_row,
+       seat_column = EXCLUDED.seat_column,
+       deck = EXCLUDED.deck,
+       seat_class = EXCLUDED.seat_class,
+       updated_at = NOW()`,
+    [
+      payload.scheduleId,
+      seatNumbers,
+      payload.seats.map((seat) => seat.row),
+      payload.seats.map((seat) => seat.column),
+      payload.seats.map((seat) => seat.deck),
+      payload.seats.map((seat) => seat.seatClass),
+    ]
+  );
+
+  await evict(ctx, cacheKeys.seatMap(payload.scheduleId));
+  await setScheduleCapacity(ctx, payload.scheduleId, payload.capacity);
+
+  logger.info('Projected ScheduleLayoutAssigned event', { scheduleId: payload.scheduleId });
+}
+
+/**
+ * Handle ScheduleCapacityChanged event - Update total seats
+ */
+async function handleScheduleCapacityChanged(
+  ctx: ProjectionContext,
+  event: ScheduleCapacityChangedEvent
+): Promise<void> {
+  const { payload } = event;
+
+  await setScheduleCapacity(ctx, payload.scheduleId, payload.capacity);
+
+  logger.info('Projected ScheduleCapacityChanged event', { scheduleId: payload.scheduleId });
+}
+
+/**
+ * Handle SeatBlocked event - Mark the seat BLOCKED
+ */
+async function handleSeatBlocked(ctx: ProjectionContext, event: SeatBlockedEvent): Promise<void> {
+  const { payload } = event;
+
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.seatMap} (schedule_id, seat_number, status)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (schedule_id, seat_number) DO UPDATE SET
+       status = EXCLUDED.status,
+       booking_id = NULL,
+       locked_until = NULL,
+       updated_at = NOW()`,
+    [payload.scheduleId, payload.seatNumber, SeatStatus.BLOCKED]
+  );
+
+  await evict(ctx, cacheKeys.seatMap(payload.scheduleId));
+  await setScheduleCapacity(ctx, payload.scheduleId, payload.capacity);
+
+  logger.info('Projected SeatBlocked event', { scheduleId: payload.scheduleId, seatNumber: payload.seatNumber });
+}
+
+/**
+ * Handle SeatUnblocked event - Put the seat back to AVAILABLE
+ */
+async function handleSeatUnblocked(ctx: ProjectionContext, event: SeatUnblockedEvent): Promise<void> {
+  const { payload } = event;
+
+  await ctx.query(
+    `UPDATE ${ctx.tables.seatMap}
+     SET status = $1, updated_at = NOW()
+     WHERE schedule_id = $2 AND seat_number = $3 AND status = $4`,
+    [SeatStatus.AVAILABLE, payload.scheduleId, payload.seatNumber, SeatStatus.BLOCKED]
+  );
+
+  await evict(ctx, cacheKeys.seatMap(payload.scheduleId));
+  await setScheduleCapacity(ctx, payload.scheduleId, payload.capacity);
+
+  logger.info('Projected SeatUnblocked event', { scheduleId: payload.scheduleId, seatNumber: payload.seatNumber });
+}
+
+/**
+ * Handle ScheduleDepartureChanged event - Update the departure of the schedule and its tickets
+ */
+async function handleScheduleDepartureChanged(
+  ctx: ProjectionContext,
+  event: ScheduleDepartureChangedEvent
+): Promise<void> {
+  const { payload } = event;
+
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.scheduleAvailability} (schedule_id, total_seats, booked_seats, departure_time)
+     VALUES ($1, $2, 0, $3)
+     ON CONFLICT (schedule_id) DO UPDATE SET
+       departure_time = EXCLUDED.departure_time,
+       updated_at = NOW()`,
+    [payload.scheduleId, config.schedules.defaultCapacity, payload.departureTime]
+  );
+
+  const tickets = await ctx.query<{ id: string; user_id: string }>(
+    `UPDATE ${ctx.tables.userTickets}
+     SET departure_time = $1, updated_at = NOW()
+     WHERE schedule_id = $2
+     RETURNING id, user_id`,
+    [payload.departureTime, payload.scheduleId]
+  );
+
+  // Invalidate caches
+  await evict(ctx, cacheKeys.scheduleAvailability(payload.scheduleId));
+  for (const ticket of tickets) {
+    await evict(ctx, cacheKeys.ticketDetails(ticket.id));
+    await evictPattern(ctx, `${cacheKeys.userTickets(ticket.user_id)}:*`);
+  }
+
+  logger.info('Projected ScheduleDepartureChanged event', { scheduleId: payload.scheduleId });
+}
+
+/**
+ * Whether a booking in the given status is counted in booked_seats
+ */
+function holdsSeat(status: BookingStatus): boolean {
+  return [
+    BookingStatus.PENDING,
+    BookingStatus.RESERVED,
+    BookingStatus.CONFIRMED,
+    BookingStatus.USED,
+  ].includes(status);
+}
+
 /**
  * Update schedule availability in read model
  */
 async function updateScheduleAvailability(
+  ctx: ProjectionContext,
   scheduleId: string,
   delta: number
 ): Promise<void> {
-  await readDb.query(
-    `INSERT INTO schedule_availability_view (schedule_id, total_seats, booked_seats)
-     VALUES ($1, 50, GREATEST(0, $2))
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.scheduleAvailability} (schedule_id, total_seats, booked_seats)
+     VALUES ($1, $3, GREATEST(0, $2))
      ON CONFLICT (schedule_id) DO UPDATE SET
-       booked_seats = GREATEST(0, schedule_availability_view.booked_seats + $2),
+       booked_seats = GREATEST(0, ${ctx.tables.scheduleAvailability}.booked_seats + $2),
        updated_at = NOW()`,
-    [scheduleId, delta]
+    [scheduleId, delta, config.schedules.defaultCapacity]
   );
 
   // Invalidate cache
-  await redis.del(cacheKeys.scheduleAvailability(scheduleId));
+  await evict(ctx, cacheKeys.scheduleAvailability(scheduleId));
+}
+
+/**
+ * Mark a seat as held by a booking in the seat map. Seats the map doesn't know
+ * yet are added without layout.
+ */
+async function occupySeat(
+  ctx: ProjectionContext,
+  scheduleId: string,
+  seatNumber: string,
+  bookingId: string,
+  status: SeatStatus,
+  lockedUntil: Date | null
+): Promise<void> {
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.seatMap} (schedule_id, seat_number, status, booking_id, locked_until)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (schedule_id, seat_number) DO UPDATE SET
+       status = EXCLUDED.status,
+       booking_id = EXCLUDED.booking_id,
+       locked_until = EXCLUDED.locked_until,
+       updated_at = NOW()`,
+    [scheduleId, seatNumber, status, bookingId, lockedUntil]
+  );
+
+  await evict(ctx, cacheKeys.seatMap(scheduleId));
+}
+
+/**
+ * Free the seats still held by a booking in the seat map
+ */
+async function releaseSeats(ctx: ProjectionContext, bookingId: string): Promise<void> {
+  const seats = await ctx.query<{ schedule_id: string }>(
+    `UPDATE ${ctx.tables.seatMap}
+     SET status = $1, booking_id = NULL, locked_until = NULL, updated_at = NOW()
+     WHERE booking_id = $2
+     RETURNING schedule_id`,
+    [SeatStatus.AVAILABLE, bookingId]
+  );
+
+  for (const seat of seats) {
+    await evict(ctx, cacheKeys.seatMap(seat.schedule_id));
+  }
+}
+
+/**
+ * Let go of the seat a booking is moving off. Only touches the seat while the
+ * booking still holds it - another passenger may already have been moved onto it.
+ */
+async function vacateSeat(
+  ctx: ProjectionContext,
+  scheduleId: string,
+  seatNumber: string,
+  bookingId: string,
+  removed: boolean
+): Promise<void> {
+  if (removed) {
+    await ctx.query(
+      `DELETE FROM ${ctx.tables.seatMap}
+       WHERE schedule_id = $1 AND seat_number = $2 AND booking_id = $3`,
+      [scheduleId, seatNumber, bookingId]
+    );
+  } else {
+    await ctx.query(
+      `UPDATE ${ctx.tables.seatMap}
+       SET status = $1, booking_id = NULL, locked_until = NULL, updated_at = NOW()
+       WHERE schedule_id = $2 AND seat_number = $3 AND booking_id = $4`,
+      [SeatStatus.AVAILABLE, scheduleId, seatNumber, bookingId]
+    );
+  }
+
+  await evict(ctx, cacheKeys.seatMap(scheduleId));
+}
+
+/**
+ * Set the sellable seats of a schedule in the read model
+ */
+async function setScheduleCapacity(
+  ctx: ProjectionContext,
+  scheduleId: string,
+  capacity: number
+): Promise<void> {
+  await ctx.query(
+    `INSERT INTO ${ctx.tables.scheduleAvailability} (schedule_id, total_seats, booked_seats)
+     VALUES ($1, $2, 0)
+     ON CONFLICT (schedule_id) DO UPDATE SET
+       total_seats = EXCLUDED.total_seats,
+       updated_at = NOW()`,
+    [scheduleId, capacity]
+  );
+
+  await evict(ctx, cacheKeys.scheduleAvailability(scheduleId));
+}
+
+async function queryOne<T>(ctx: ProjectionContext, text: string, params?: unknown[]): Promise<T | null> {
+  const rows = await ctx.query<T>(text, params);
+  return rows[0] || null;
+}
+
+async function evict(ctx: ProjectionContext, key: string): Promise<void> {
+  if (ctx.invalidateCache) {
+    ctx.evictions.push({ key, pattern: false });
+  }
+}
+
+async function evictPattern(ctx: ProjectionContext, pattern: string): Promise<void> {
+  if (ctx.invalidateCache) {
+    ctx.evictions.push({ key: pattern, pattern: true });
+  }
+}
+
+/**
+ * Drop cached entries after commit, so a concurrent read can't re-cache stale rows
+ */
+async function flushEvictions(ctx: ProjectionContext): Promise<void> {
+  for (const eviction of ctx.evictions) {
+    if (eviction.pattern) {
+      await redis.delPattern(eviction.key);
+    } else {
+      await redis.del(eviction.key);
+    }
+  }
+  ctx.evictions = [];
 }
 
 /**
  * Update projection checkpoint
  */
-async function updateCheckpoint(eventId: string): Promise<void> {
-  await readDb.query(
+async function updateCheckpoint(ctx: ProjectionContext, eventId: string): Promise<void> {
+  await ctx.query(
     `INSERT INTO projection_checkpoints (projection_name, last_processed_event_id, last_processed_at)
      VALUES ($1, $2, NOW())
      ON CONFLICT (projection_name) DO UPDATE SET
        last_processed_event_id = EXCLUDED.last_processed_event_id,
        last_processed_at = NOW()`,
-    ['ticket_projector', eventId]
+    [PROJECTION_NAME, eventId]
   );
 }
 
 export default ticketProjector;
-
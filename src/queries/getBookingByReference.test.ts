@@ -0,0 +1,76 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getBookingByReferenceHandler } from './getBookingByReference';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import { ROUTE_ID, SCHEDULE_ID, USER_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/readDb', () => jest.requireActual('../testing/database').readDbModule);
+
+const db = useTestDatabase();
+
+const GROUP_ID = uuidv4();
+
+const project = async (passengerName: string, seatNumber: string | null, groupId: string | null = null) => {
+  const id = uuidv4();
+  await db.query(
+    `INSERT INTO user_tickets_view (
+      id, booking_reference, user_id, route_id, schedule_id, seat_number,
+      passenger_name, passenger_email, group_id, price, currency, status
+    ) VALUES ($1, 'K7PX3M', $2, $3, $4, $5, $6, 'ada@example.com', $7, 25, 'USD', 'CONFIRMED')`,
+    [id, USER_ID, ROUTE_ID, SCHEDULE_ID, seatNumber, passengerName, groupId]
+  );
+  return id;
+};
+
+const lookUp = (surname: string, bookingReference = 'K7PX3M') =>
+  getBookingByReferenceHandler({ bookingReference, surname });
+
+describe('getBookingByReferenceHandler', () => {
+  it('finds the booking by its reference and the surname of the passenger', async () => {
+    const id = await project('Ada Lovelace', '1A');
+
+    const lookup = await lookUp('Lovelace');
+
+    expect(lookup).toMatchObject({ bookingReference: 'K7PX3M', groupId: null });
+    expect(lookup.tickets).toEqual([
+      expect.objectContaining({ id, passengerName: 'Ada Lovelace', seatNumber: '1A', price: 25, status: 'CONFIRMED' }),
+    ]);
+  });
+
+  it('ignores the case of the reference and the case and accents of the surname', async () => {
+    await project('José  Núñez', '1A');
+
+    await expect(lookUp('nunez', 'k7px3m')).resolves.toBeDefined();
+    await expect(lookUp('NÚÑEZ ')).resolves.toBeDefined();
+  });
+
+  it('returns every ticket of a group for the surname of any of its passengers', async () => {
+    await project('Charles Babbage', null, GROUP_ID);
+    await project('Ada Lovelace', '1B', GROUP_ID);
+    await project('Mary Somerville', '1A', GROUP_ID);
+
+    const lookup = await lookUp('Somerville');
+
+    expect(lookup.groupId).toBe(GROUP_ID);
+    expect(lookup.tickets.map((ticket) => ticket.seatNumber)).toEqual(['1A', '1B', null]);
+  });
+
+  it('gives the same answer for a wrong surname and an unknown reference', async () => {
+    await project('Ada Lovelace', '1A');
+
+    await expect(lookUp('Babbage')).rejects.toThrow('No booking found for this reference and surname');
+    await expect(lookUp('Lovelace', 'ZZZZZZ')).rejects.toThrow('No booking found for this reference and surname');
+  });
+
+  it('does not accept part of the surname or the first name', async () => {
+    await project('Ada Lovelace', '1A');
+
+    await expect(lookUp('lace')).rejects.toThrow(NotFoundError);
+    await expect(lookUp('Ada')).rejects.toThrow(NotFoundError);
+  });
+
+  it('requires both the reference and the surname', async () => {
+    await expect(lookUp('')).rejects.toThrow(BadRequestError);
+    await expect(lookUp('Lovelace', '')).rejects.toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,124 @@
+import readDb from '../infrastructure/database/readDb';
+import { BookingLookupView, BookingView, GetBookingByReferenceQuery } from '../models/booking';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Guest access to a booking: the reference and the surname of any passenger
+ * on it stand in for a login
+ */
+export const getBookingByReferenceHandler = async (
+  query: GetBookingByReferenceQuery
+): Promise<BookingLookupView> => {
+  // The surname is a credential here - keep it out of the logs
+  logger.info('Executing GetBookingByReference query', { bookingReference: query.bookingReference });
+
+  // Validate query
+  validateQuery(query);
+
+  const bookingReference = query.bookingReference.toUpperCase();
+
+  const sqlQuery = `
+    SELECT
+      id, booking_reference, user_id, route_id, route_name, schedule_id,
+      departure_time, arrival_time, origin_stop, destination_stop,
+      seat_number, passenger_name, passenger_email, passenger_category, group_id,
+      price, currency, status, created_at
+    FROM user_tickets_view
+    WHERE booking_reference = $1
+    ORDER BY seat_number NULLS LAST, id
+  `;
+
+  const rows = await readDb.query<BookingViewRow>(sqlQuery, [bookingReference]);
+
+  // Same answer for an unknown reference and a wrong surname
+  if (!rows.some((row) => hasSurname(row.passenger_name, query.surname))) {
+    throw new NotFoundError('No booking found for this reference and surname');
+  }
+
+  const lookup: BookingLookupView = {
+    bookingReference,
+    groupId: rows[0].group_id,
+    tickets: rows.map(mapRowToBookingView),
+  };
+
+  logger.info('GetBookingByReference query executed', { bookingReference, tickets: rows.length });
+
+  return lookup;
+};
+
+function validateQuery(query: GetBookingByReferenceQuery): void {
+  if (!query.bookingReference) {
+    throw new BadRequestError('bookingReference is required');
+  }
+  if (!query.surname) {
+    throw new BadRequestError('surname is required');
+  }
+}
+
+/**
+ * Whether a passenger name ends with the surname, ignoring case and accents
+ */
+function hasSurname(passengerName: string, surname: string): boolean {
+  const name = normaliseName(passengerName);
+  const wanted = normaliseName(surname);
+
+  return name === wanted || name.endsWith(` ${wanted}`);
+}
+
+function normaliseName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface BookingViewRow {
+  id: string;
+  booking_reference: string | null;
+  user_id: string;
+  route_id: string;
+  route_name: string | null;
+  schedule_id: string;
+  departure_time: string | null;
+  arrival_time: string | null;
+  origin_stop: string | null;
+  destination_stop: string | null;
+  seat_number: string | null;
+  passenger_name: string;
+  passenger_email: string;
+  passenger_category: string;
+  group_id: string | null;
+  price: string;
+  currency: string;
+  status: string;
+  created_at: string;
+}
+
+function mapRowToBookingView(row: BookingViewRow): BookingView {
+  return {
+    id: row.id,
+    bookingReference: row.booking_reference,
+    userId: row.user_id,
+    routeId: row.route_id,
+    routeName: row.route_name,
+    scheduleId: row.schedule_id,
+    departureTime: row.departure_time,
+    arrivalTime: row.arrival_time,
+    originStop: row.origin_stop,
+    destinationStop: row.destination_stop,
+    seatNumber: row.seat_number,
+    passengerName: row.passenger_name,
+    passengerEmail: row.passenger_email,
+    passengerCategory: row.passenger_category as BookingView['passengerCategory'],
+    groupId: row.group_id,
+    price: parseFloat(row.price),
+    currency: row.currency,
+    status: row.status as BookingView['status'],
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export default getBookingByReferenceHandler;
@@ -0,0 +1,116 @@
+import readDb from '../infrastructure/database/readDb';
+import { BookingGroupView, BookingStatus, BookingView, GetBookingGroupQuery } from '../models/booking';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const INACTIVE_STATUSES = [BookingStatus.CANCELLED, BookingStatus.EXPIRED, BookingStatus.REFUNDED];
+
+export const getBookingGroupHandler = async (
+  query: GetBookingGroupQuery
+): Promise<BookingGroupView> => {
+  logger.info('Executing GetBookingGroup query', { query });
+
+  // Validate query
+  validateQuery(query);
+
+  // Query from read database - the group is the set of its tickets
+  const sqlQuery = `
+    SELECT
+      id, booking_reference, user_id, route_id, route_name, schedule_id,
+      departure_time, arrival_time, origin_stop, destination_stop,
+      seat_number, passenger_name, passenger_email, passenger_category, group_id,
+      price, currency, status, created_at
+    FROM user_tickets_view
+    WHERE group_id = $1
+    ORDER BY seat_number NULLS LAST, id
+  `;
+
+  const rows = await readDb.query<BookingViewRow>(sqlQuery, [query.groupId]);
+
+  if (rows.length === 0) {
+    throw new NotFoundError(`Booking group ${query.groupId} not found`);
+  }
+
+  // Verify user owns this group
+  if (rows[0].user_id !== query.userId) {
+    throw new ForbiddenError('You are not authorized to view this booking group');
+  }
+
+  const tickets = rows.map(mapRowToBookingView);
+
+  // Cancelled tickets stay listed but no longer count towards the group
+  const active = tickets.filter((ticket) => !INACTIVE_STATUSES.includes(ticket.status));
+
+  const group: BookingGroupView = {
+    groupId: query.groupId,
+    bookingReference: rows[0].booking_reference,
+    userId: rows[0].user_id,
+    routeId: rows[0].route_id,
+    scheduleId: rows[0].schedule_id,
+    passengerCount: active.length,
+    totalPrice: Math.round(active.reduce((sum, ticket) => sum + ticket.price, 0) * 100) / 100,
+    currency: tickets[0].currency,
+    tickets,
+  };
+
+  logger.info('GetBookingGroup query executed', { groupId: query.groupId, tickets: tickets.length });
+
+  return group;
+};
+
+function validateQuery(query: GetBookingGroupQuery): void {
+  if (!query.groupId) {
+    throw new BadRequestError('groupId is required');
+  }
+  if (!query.userId) {
+    throw new BadRequestError('userId is required');
+  }
+}
+
+interface BookingViewRow {
+  id: string;
+  booking_reference: string | null;
+  user_id: string;
+  route_id: string;
+  route_name: string | null;
+  schedule_id: string;
+  departure_time: string | null;
+  arrival_time: string | null;
+  origin_stop: string | null;
+  destination_stop: string | null;
+  seat_number: string | null;
+  passenger_name: string;
+  passenger_email: string;
+  passenger_category: string;
+  group_id: string | null;
+  price: string;
+  currency: string;
+  status: string;
+  created_at: string;
+}
+
+function mapRowToBookingView(row: BookingViewRow): BookingView {
+  return {
+    id: row.id,
+    bookingReference: row.booking_reference,
+    userId: row.user_id,
+    routeId: row.route_id,
+    routeName: row.route_name,
+    scheduleId: row.schedule_id,
+    departureTime: row.departure_time,
+    arrivalTime: row.arrival_time,
+    originStop: row.origin_stop,
+    destinationStop: row.destination_stop,
+    seatNumber: row.seat_number,
+    passengerName: row.passenger_name,
+    passengerEmail: row.passenger_email,
+    passengerCategory: row.passenger_category as BookingView['passengerCategory'],
+    groupId: row.group_id,
+    price: parseFloat(row.price),
+    currency: row.currency,
+    status: row.status as BookingView['status'],
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export default getBookingGroupHandler;
@@ -0,0 +1,85 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { fareEngine } from '../pricing/fareEngine';
+import {
+  FareBreakdown,
+  FareModifier,
+  FareTableEntry,
+  GetFareQuoteQuery,
+  GetFareTablesQuery
+} from '../models/fare';
+import logger from '../utils/logger';
+
+export interface FareTables {
+  fares: FareTableEntry[];
+  modifiers: FareModifier[];
+}
+
+/**
+ * Quote the fare of a journey - the price book/reserve will charge
+ */
+export const getFareQuoteHandler = async (query: GetFareQuoteQuery): Promise<FareBreakdown> => {
+  logger.info('Executing GetFareQuote query', { query });
+
+  return writeDb.transaction((client) => fareEngine.quote(client, query));
+};
+
+/**
+ * List fare tables and modifiers. Fares are operator data that is never
+ * projected, so this reads the write DB.
+ */
+export const getFareTablesHandler = async (query: GetFareTablesQuery): Promise<FareTables> => {
+  logger.info('Executing GetFareTables query', { query });
+
+  const fares = await writeDb.query<Record<string, unknown>>(
+    `SELECT * FROM fare_tables
+     WHERE ($1::uuid IS NULL OR route_id = $1)
+     ORDER BY route_id, origin_zone NULLS FIRST, destination_zone NULLS FIRST`,
+    [query.routeId || null]
+  );
+
+  const modifiers = await writeDb.query<Record<string, unknown>>(
+    `SELECT * FROM fare_modifiers
+     WHERE ($1::uuid IS NULL OR route_id IS NULL OR route_id = $1)
+     ORDER BY priority, created_at`,
+    [query.routeId || null]
+  );
+
+  return {
+    fares: fares.map(mapRowToFare),
+    modifiers: modifiers.map(mapRowToFareModifier),
+  };
+};
+
+function mapRowToFare(row: Record<string, unknown>): FareTableEntry {
+  return {
+    id: row.id as string,
+    routeId: row.route_id as string,
+    originZone: row.origin_zone as string | null,
+    destinationZone: row.destination_zone as string | null,
+    baseFare: parseFloat(row.base_fare as string),
+    currency: row.currency as string,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+function mapRowToFareModifier(row: Record<string, unknown>): FareModifier {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    routeId: row.route_id as string | null,
+    scheduleId: row.schedule_id as string | null,
+    passengerType: row.passenger_type as string | null,
+    startTime: row.start_time ? (row.start_time as string).substring(0, 5) : null,
+    endTime: row.end_time ? (row.end_time as string).substring(0, 5) : null,
+    daysOfWeek: row.days_of_week as number[] | null,
+    minGroupSize: row.min_group_size as number | null,
+    multiplier: parseFloat(row.multiplier as string),
+    amount: parseFloat(row.amount as string),
+    priority: row.priority as number,
+    active: row.active as boolean,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default getFareQuoteHandler;
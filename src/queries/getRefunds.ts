@@ -0,0 +1,120 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { refundPolicy } from '../pricing/refundPolicy';
+import { BookingStatus, PassengerCategory } from '../models/booking';
+import {
+  GetRefundQuoteQuery,
+  GetRefundRulesQuery,
+  RefundBreakdown,
+  RefundInitiator,
+  RefundRule
+} from '../models/refund';
+import {
+  BadRequestError,
+  BookingNotFoundError,
+  ForbiddenError,
+  InvalidBookingStateError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * What cancelling the booking now would refund - a dry run of cancel
+ */
+export const getRefundQuoteHandler = async (query: GetRefundQuoteQuery): Promise<RefundBreakdown> => {
+  logger.info('Executing GetRefundQuote query', { query });
+
+  // Validate query
+  if (!query.bookingId) {
+    throw new BadRequestError('bookingId is required');
+  }
+  if (!query.userId) {
+    throw new BadRequestError('userId is required');
+  }
+
+  // Refunds depend on the current booking and rules, so this reads the write DB
+  return writeDb.transaction(async (client) => {
+    const result = await client.query(
+      `SELECT id, user_id, route_id, schedule_id, seat_number, passenger_category, price, paid_amount,
+              currency, status
+       FROM bookings
+       WHERE id = $1`,
+      [query.bookingId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new BookingNotFoundError(query.bookingId);
+    }
+
+    const booking = result.rows[0];
+
+    // Verify user owns this booking
+    if (booking.user_id !== query.userId) {
+      throw new ForbiddenError('You are not authorized to view this booking');
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new InvalidBookingStateError(booking.status, BookingStatus.CONFIRMED);
+    }
+
+    return refundPolicy.quote(
+      client,
+      {
+        id: booking.id,
+        routeId: booking.route_id,
+        scheduleId: booking.schedule_id,
+        seatNumber: booking.seat_number,
+        passengerCategory: booking.passenger_category as PassengerCategory,
+        price: parseFloat(booking.price),
+        paidAmount: booking.paid_amount ? parseFloat(booking.paid_amount) : null,
+        currency: booking.currency,
+      },
+      {
+        initiatedBy: query.initiatedBy,
+        method: query.refundMethod,
+      }
+    );
+  });
+};
+
+/**
+ * List refund rules in the order they are tried. Rules are operator data that
+ * is never projected, so this reads the write DB.
+ */
+export const getRefundRulesHandler = async (query: GetRefundRulesQuery): Promise<RefundRule[]> => {
+  logger.info('Executing GetRefundRules query', { query });
+
+  const rows = await writeDb.query<Record<string, unknown>>(
+    `SELECT * FROM refund_rules
+     WHERE ($1::uuid IS NULL OR route_id IS NULL OR route_id = $1)
+     ORDER BY priority, created_at`,
+    [query.routeId || null]
+  );
+
+  return rows.map(mapRowToRefundRule);
+};
+
+function mapRowToRefundRule(row: Record<string, unknown>): RefundRule {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    routeId: row.route_id as string | null,
+    fareClass: row.fare_class as string | null,
+    passengerType: row.passenger_type as string | null,
+    initiatedBy: row.initiated_by as RefundInitiator | null,
+    minHoursBeforeDeparture: row.min_hours_before_departure === null
+      ? null
+      : parseFloat(row.min_hours_before_departure as string),
+    maxHoursBeforeDeparture: row.max_hours_before_departure === null
+      ? null
+      : parseFloat(row.max_hours_before_departure as string),
+    refundable: row.refundable as boolean,
+    feePercent: parseFloat(row.fee_percent as string),
+    feeAmount: parseFloat(row.fee_amount as string),
+    voucherOnly: row.voucher_only as boolean,
+    voucherBonusPercent: parseFloat(row.voucher_bonus_percent as string),
+    priority: row.priority as number,
+    active: row.active as boolean,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default getRefundQuoteHandler;
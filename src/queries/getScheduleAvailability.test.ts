@@ -0,0 +1,90 @@
+import { getScheduleAvailabilityHandler, getSchedulesAvailabilityHandler } from './getScheduleAvailability';
+import redis from '../infrastructure/cache/redis';
+import { config } from '../config';
+import { BadRequestError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import { OTHER_SCHEDULE_ID, SCHEDULE_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/readDb', () => jest.requireActual('../testing/database').readDbModule);
+jest.mock('../infrastructure/cache/redis', () => ({
+  __esModule: true,
+  cacheKeys: jest.requireActual('../infrastructure/cache/redis').cacheKeys,
+  default: { get: jest.fn(), set: jest.fn() },
+}));
+
+const db = useTestDatabase();
+
+const cache = redis as jest.Mocked<typeof redis>;
+
+const project = (scheduleId: string, totalSeats: number, bookedSeats: number) =>
+  db.query(
+    `INSERT INTO schedule_availability_view (schedule_id, total_seats, booked_seats) VALUES ($1, $2, $3)`,
+    [scheduleId, totalSeats, bookedSeats]
+  );
+
+describe('getScheduleAvailabilityHandler', () => {
+  it('returns the projected availability of the schedule', async () => {
+    await project(SCHEDULE_ID, 40, 12);
+
+    expect(await getScheduleAvailabilityHandler({ scheduleId: SCHEDULE_ID })).toEqual({
+      scheduleId: SCHEDULE_ID,
+      totalSeats: 40,
+      bookedSeats: 12,
+      availableSeats: 28,
+      updatedAt: expect.any(Date),
+    });
+  });
+
+  it('reports every seat free on a schedule nothing was booked on yet', async () => {
+    expect(await getScheduleAvailabilityHandler({ scheduleId: SCHEDULE_ID })).toEqual({
+      scheduleId: SCHEDULE_ID,
+      totalSeats: config.schedules.defaultCapacity,
+      bookedSeats: 0,
+      availableSeats: config.schedules.defaultCapacity,
+      updatedAt: null,
+    });
+  });
+
+  it('never reports fewer than zero seats available', async () => {
+    await project(SCHEDULE_ID, 2, 3);
+
+    expect((await getScheduleAvailabilityHandler({ scheduleId: SCHEDULE_ID })).availableSeats).toBe(0);
+  });
+});
+
+describe('getSchedulesAvailabilityHandler', () => {
+  it('answers in request order, repeats included', async () => {
+    await project(SCHEDULE_ID, 40, 1);
+    await project(OTHER_SCHEDULE_ID, 40, 2);
+
+    const availability = await getSchedulesAvailabilityHandler({
+      scheduleIds: [OTHER_SCHEDULE_ID, SCHEDULE_ID, OTHER_SCHEDULE_ID],
+    });
+
+    expect(availability.map((schedule) => [schedule.scheduleId, schedule.bookedSeats])).toEqual([
+      [OTHER_SCHEDULE_ID, 2],
+      [SCHEDULE_ID, 1],
+      [OTHER_SCHEDULE_ID, 2],
+    ]);
+  });
+
+  it('serves cached schedules from the cache and caches the rest', async () => {
+    const cached = { scheduleId: SCHEDULE_ID, totalSeats: 40, bookedSeats: 39, availableSeats: 1, updatedAt: null };
+    cache.get.mockImplementation(async (key) => (key.includes(SCHEDULE_ID) ? cached : null) as never);
+    await project(SCHEDULE_ID, 40, 0);
+    await project(OTHER_SCHEDULE_ID, 40, 5);
+
+    const [first, second] = await getSchedulesAvailabilityHandler({ scheduleIds: [SCHEDULE_ID, OTHER_SCHEDULE_ID] });
+
+    expect(first).toEqual(cached);
+    expect(second.bookedSeats).toBe(5);
+    expect(cache.set).toHaveBeenCalledTimes(1);
+    expect(cache.set).toHaveBeenCalledWith(expect.stringContaining(OTHER_SCHEDULE_ID), second, 30);
+  });
+
+  it('rejects an empty or oversized batch', async () => {
+    await expect(getSchedulesAvailabilityHandler({ scheduleIds: [] })).rejects.toThrow(BadRequestError);
+    await expect(getSchedulesAvailabilityHandler({ scheduleIds: Array(101).fill(SCHEDULE_ID) }))
+      .rejects.toThrow(/At most 100/);
+  });
+});
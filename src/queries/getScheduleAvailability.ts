@@ -0,0 +1,114 @@
+import { config } from '../config';
+import readDb from '../infrastructure/database/readDb';
+import redis, { cacheKeys } from '../infrastructure/cache/redis';
+import {
+  GetScheduleAvailabilityQuery,
+  GetSchedulesAvailabilityQuery,
+  ScheduleAvailabilityView
+} from '../models/booking';
+import { BadRequestError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const MAX_SCHEDULES = 100;
+const CACHE_TTL_SECONDS = 30; // Short cache - the projector also evicts on every booking change
+
+export const getScheduleAvailabilityHandler = async (
+  query: GetScheduleAvailabilityQuery
+): Promise<ScheduleAvailabilityView> => {
+  logger.info('Executing GetScheduleAvailability query', { query });
+
+  if (!query.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+
+  const [availability] = await getSchedulesAvailabilityHandler({ scheduleIds: [query.scheduleId] });
+  return availability;
+};
+
+/**
+ * Batch variant - returns availability for every requested schedule, in request order
+ */
+export const getSchedulesAvailabilityHandler = async (
+  query: GetSchedulesAvailabilityQuery
+): Promise<ScheduleAvailabilityView[]> => {
+  // Validate query
+  validateQuery(query);
+
+  const scheduleIds = Array.from(new Set(query.scheduleIds));
+  const results = new Map<string, ScheduleAvailabilityView>();
+
+  // Try cache first
+  for (const scheduleId of scheduleIds) {
+    const cached = await redis.get<ScheduleAvailabilityView>(cacheKeys.scheduleAvailability(scheduleId));
+    if (cached) {
+      results.set(scheduleId, cached);
+    }
+  }
+
+  const misses = scheduleIds.filter((scheduleId) => !results.has(scheduleId));
+
+  if (misses.length > 0) {
+    const rows = await readDb.query<ScheduleAvailabilityRow>(
+      `SELECT schedule_id, total_seats, booked_seats, available_seats, updated_at
+       FROM schedule_availability_view
+       WHERE schedule_id = ANY($1::uuid[])`,
+      [misses]
+    );
+
+    const found = new Map(rows.map((row) => [row.schedule_id, mapRowToAvailability(row)]));
+
+    for (const scheduleId of misses) {
+      // Schedules without bookings have no row yet - every seat is free
+      const availability = found.get(scheduleId) || emptyAvailability(scheduleId);
+
+      results.set(scheduleId, availability);
+      await redis.set(cacheKeys.scheduleAvailability(scheduleId), availability, CACHE_TTL_SECONDS);
+    }
+  }
+
+  logger.debug('Schedule availability resolved', {
+    requested: scheduleIds.length,
+    cacheHits: scheduleIds.length - misses.length,
+  });
+
+  return query.scheduleIds.map((scheduleId) => results.get(scheduleId)!);
+};
+
+function validateQuery(query: GetSchedulesAvailabilityQuery): void {
+  if (!query.scheduleIds || query.scheduleIds.length === 0) {
+    throw new BadRequestError('At least one scheduleId is required');
+  }
+  if (query.scheduleIds.length > MAX_SCHEDULES) {
+    throw new BadRequestError(`At most ${MAX_SCHEDULES} scheduleIds can be requested at once`);
+  }
+}
+
+interface ScheduleAvailabilityRow {
+  schedule_id: string;
+  total_seats: number;
+  booked_seats: number;
+  available_seats: number;
+  updated_at: string | null;
+}
+
+function mapRowToAvailability(row: ScheduleAvailabilityRow): ScheduleAvailabilityView {
+  return {
+    scheduleId: row.schedule_id,
+    totalSeats: row.total_seats,
+    bookedSeats: row.booked_seats,
+    availableSeats: Math.max(0, row.available_seats),
+    updatedAt: row.updated_at ? new Date(row.updated_at) : null,
+  };
+}
+
+function emptyAvailability(scheduleId: string): ScheduleAvailabilityView {
+  return {
+    scheduleId,
+    totalSeats: config.schedules.defaultCapacity,
+    bookedSeats: 0,
+    availableSeats: config.schedules.defaultCapacity,
+    updatedAt: null,
+  };
+}
+
+export default getScheduleAvailabilityHandler;
@@ -0,0 +1,79 @@
+import { getSeatMapHandler } from './getSeatMap';
+import redis from '../infrastructure/cache/redis';
+import { SeatStatus } from '../models/booking';
+import { NotFoundError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import { minutesFromNow, SCHEDULE_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/readDb', () => jest.requireActual('../testing/database').readDbModule);
+jest.mock('../infrastructure/cache/redis', () => ({
+  __esModule: true,
+  cacheKeys: jest.requireActual('../infrastructure/cache/redis').cacheKeys,
+  default: { get: jest.fn(), set: jest.fn() },
+}));
+
+const db = useTestDatabase();
+
+const cache = redis as jest.Mocked<typeof redis>;
+
+const project = (seatNumber: string, row: number, column: number, status = SeatStatus.AVAILABLE, lockedUntil?: Date) =>
+  db.query(
+    `INSERT INTO seat_map_view (schedule_id, seat_number, seat_row, seat_column, deck, seat_class, status, locked_until)
+     VALUES ($1, $2, $3, $4, 1, 'STANDARD', $5, $6)`,
+    [SCHEDULE_ID, seatNumber, row, column, status, lockedUntil || null]
+  );
+
+const statuses = async () =>
+  Object.fromEntries(
+    (await getSeatMapHandler({ scheduleId: SCHEDULE_ID })).seats.map((seat) => [seat.seatNumber, seat.status])
+  );
+
+describe('getSeatMapHandler', () => {
+  it('lists the seats in layout order with their status', async () => {
+    await project('2A', 2, 1);
+    await project('1B', 1, 2, SeatStatus.BOOKED);
+    await project('1A', 1, 1);
+
+    const seatMap = await getSeatMapHandler({ scheduleId: SCHEDULE_ID });
+
+    expect(seatMap).toMatchObject({ scheduleId: SCHEDULE_ID, totalSeats: 3, availableSeats: 2 });
+    expect(seatMap.seats).toEqual([
+      { seatNumber: '1A', status: SeatStatus.AVAILABLE, row: 1, column: 1, deck: 1, seatClass: 'STANDARD' },
+      { seatNumber: '1B', status: SeatStatus.BOOKED, row: 1, column: 2, deck: 1, seatClass: 'STANDARD' },
+      { seatNumber: '2A', status: SeatStatus.AVAILABLE, row: 2, column: 1, deck: 1, seatClass: 'STANDARD' },
+    ]);
+  });
+
+  it('shows a seat whose lock ran out as available before the sweep releases it', async () => {
+    await project('1A', 1, 1, SeatStatus.LOCKED, minutesFromNow(5));
+    await project('1B', 1, 2, SeatStatus.LOCKED, minutesFromNow(-1));
+
+    expect(await statuses()).toEqual({ '1A': SeatStatus.LOCKED, '1B': SeatStatus.AVAILABLE });
+  });
+
+  it('resolves lock expiry on cached seat maps too', async () => {
+    cache.get.mockResolvedValue([
+      { seatNumber: '1A', status: SeatStatus.LOCKED, lockedUntil: minutesFromNow(-1).toISOString(), row: 1, column: 1, deck: 1, seatClass: null },
+    ] as never);
+
+    expect(await statuses()).toEqual({ '1A': SeatStatus.AVAILABLE });
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+
+  it('caches the projected seats, lock expiry included', async () => {
+    const lockedUntil = minutesFromNow(5);
+    await project('1A', 1, 1, SeatStatus.LOCKED, lockedUntil);
+
+    await getSeatMapHandler({ scheduleId: SCHEDULE_ID });
+
+    expect(cache.set).toHaveBeenCalledWith(
+      expect.stringContaining(SCHEDULE_ID),
+      [expect.objectContaining({ seatNumber: '1A', lockedUntil: lockedUntil.toISOString() })],
+      60
+    );
+  });
+
+  it('rejects a schedule without a seat map', async () => {
+    await expect(getSeatMapHandler({ scheduleId: SCHEDULE_ID })).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,98 @@
+import readDb from '../infrastructure/database/readDb';
+import redis, { cacheKeys } from '../infrastructure/cache/redis';
+import { GetSeatMapQuery, SeatMapSeat, SeatMapView, SeatStatus } from '../models/booking';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const CACHE_TTL_SECONDS = 60; // 1 minute cache - the projector evicts on every seat change
+
+// Seat as stored in the projection (and cache) - lock expiry is resolved per request
+interface ProjectedSeat extends SeatMapSeat {
+  lockedUntil: string | null;
+}
+
+export const getSeatMapHandler = async (
+  query: GetSeatMapQuery
+): Promise<SeatMapView> => {
+  logger.info('Executing GetSeatMap query', { query });
+
+  if (!query.scheduleId) {
+    throw new BadRequestError('scheduleId is required');
+  }
+
+  // Try cache first
+  const cacheKey = cacheKeys.seatMap(query.scheduleId);
+  let projected = await redis.get<ProjectedSeat[]>(cacheKey);
+
+  if (projected) {
+    logger.debug('Cache hit for seat map', { scheduleId: query.scheduleId });
+  } else {
+    const rows = await readDb.query<SeatMapRow>(
+      `SELECT seat_number, status, locked_until, seat_row, seat_column, deck, seat_class
+       FROM seat_map_view
+       WHERE schedule_id = $1
+       ORDER BY deck NULLS FIRST, seat_row NULLS LAST, seat_column NULLS LAST, seat_number`,
+      [query.scheduleId]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError(`No seat map found for schedule ${query.scheduleId}`);
+    }
+
+    projected = rows.map(mapRowToProjectedSeat);
+    await redis.set(cacheKey, projected, CACHE_TTL_SECONDS);
+  }
+
+  const now = new Date();
+  const seats = projected.map((seat) => resolveSeat(seat, now));
+
+  return {
+    scheduleId: query.scheduleId,
+    totalSeats: seats.length,
+    availableSeats: seats.filter((seat) => seat.status === SeatStatus.AVAILABLE).length,
+    seats,
+  };
+};
+
+/**
+ * A lock that has run out is available again, even if the expiry sweep hasn't
+ * released it yet (the reserve command accepts such seats too)
+ */
+function resolveSeat(seat: ProjectedSeat, now: Date): SeatMapSeat {
+  const lockExpired = seat.status === SeatStatus.LOCKED &&
+    seat.lockedUntil !== null &&
+    new Date(seat.lockedUntil) < now;
+
+  return {
+    seatNumber: seat.seatNumber,
+    status: lockExpired ? SeatStatus.AVAILABLE : seat.status,
+    row: seat.row,
+    column: seat.column,
+    deck: seat.deck,
+    seatClass: seat.seatClass,
+  };
+}
+
+interface SeatMapRow {
+  seat_number: string;
+  status: string;
+  locked_until: string | null;
+  seat_row: number | null;
+  seat_column: number | null;
+  deck: number | null;
+  seat_class: string | null;
+}
+
+function mapRowToProjectedSeat(row: SeatMapRow): ProjectedSeat {
+  return {
+    seatNumber: row.seat_number,
+    status: row.status as SeatStatus,
+    lockedUntil: row.locked_until ? new Date(row.locked_until).toISOString() : null,
+    row: row.seat_row,
+    column: row.seat_column,
+    deck: row.deck,
+    seatClass: row.seat_class,
+  };
+}
+
+export default getSeatMapHandler;
@@ -0,0 +1,40 @@
+import readDb from '../infrastructure/database/readDb';
+import { GetSuspectedFraudQuery, SuspectedFraudView } from '../models/booking';
+import logger from '../utils/logger';
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Tickets flagged at validation - used, then shown again on another device.
+ * Most recently used first.
+ */
+export const getSuspectedFraudHandler = async (
+  query: GetSuspectedFraudQuery
+): Promise<SuspectedFraudView[]> => {
+  logger.info('Executing GetSuspectedFraud query', { query });
+
+  const rows = await readDb.query<Record<string, unknown>>(
+    `SELECT id, booking_reference, user_id, schedule_id, seat_number, passenger_name, used_at, validation_count
+     FROM user_tickets_view
+     WHERE suspected_fraud
+       AND ($1::uuid IS NULL OR schedule_id = $1)
+     ORDER BY used_at DESC NULLS LAST, id
+     LIMIT $2`,
+    [query.scheduleId || null, query.limit || DEFAULT_LIMIT]
+  );
+
+  logger.info('GetSuspectedFraud query executed', { tickets: rows.length });
+
+  return rows.map((row) => ({
+    bookingId: row.id as string,
+    bookingReference: row.booking_reference as string | null,
+    userId: row.user_id as string,
+    scheduleId: row.schedule_id as string,
+    seatNumber: row.seat_number as string | null,
+    passengerName: row.passenger_name as string,
+    usedAt: row.used_at ? new Date(row.used_at as string) : null,
+    validationCount: row.validation_count as number,
+  }));
+};
+
+export default getSuspectedFraudHandler;
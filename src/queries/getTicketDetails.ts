@@ -30,9 +30,9 @@ export const getTicketDetailsHandler = async (
   // Query from read database
   const sqlQuery = `
     SELECT 
-      id, user_id, route_id, route_name, schedule_id,
+      id, booking_reference, user_id, route_id, route_name, schedule_id,
       departure_time, arrival_time, origin_stop, destination_stop,
-      seat_number, passenger_name, passenger_email,
+      seat_number, passenger_name, passenger_email, passenger_category, group_id,
       price, currency, status, created_at
     FROM user_tickets_view
     WHERE id = $1
@@ -70,6 +70,7 @@ function validateQuery(query: GetTicketDetailsQuery): void {
 
 interface BookingViewRow {
   id: string;
+  booking_reference: string | null;
   user_id: string;
   route_id: string;
   route_name: string | null;
@@ -81,6 +82,8 @@ interface BookingViewRow {
   seat_number: string | null;
   passenger_name: string;
   passenger_email: string;
+  passenger_category: string;
+  group_id: string | null;
   price: string;
   currency: string;
   status: string;
@@ -90,6 +93,7 @@ interface BookingViewRow {
 function mapRowToBookingView(row: BookingViewRow): BookingView {
   return {
     id: row.id,
+    bookingReference: row.booking_reference,
     userId: row.user_id,
     routeId: row.route_id,
     routeName: row.route_name,
@@ -101,6 +105,8 @@ function mapRowToBookingView(row: BookingViewRow): BookingView {
     seatNumber: row.seat_number,
     passengerName: row.passenger_name,
     passengerEmail: row.passenger_email,
+    passengerCategory: row.passenger_category as BookingView['passengerCategory'],
+    groupId: row.group_id,
     price: parseFloat(row.price),
     currency: row.currency,
     status: row.status as BookingView['status'],
@@ -0,0 +1,101 @@
+import readDb from '../infrastructure/database/readDb';
+import {
+  BookingStatus,
+  GetTicketTokenQuery,
+  GetTicketTokenRevocationsQuery,
+  TicketTokenRevocationList,
+  TicketTokenView
+} from '../models/booking';
+import { decodeTicketToken } from '../tickets/ticketVerifier';
+import {
+  BadRequestError,
+  BookingNotFoundError,
+  ForbiddenError,
+  InvalidBookingStateError,
+  NotFoundError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * The signed token of a confirmed ticket, for the passenger's QR code
+ */
+export const getTicketTokenHandler = async (
+  query: GetTicketTokenQuery
+): Promise<TicketTokenView> => {
+  logger.info('Executing GetTicketToken query', { query });
+
+  // Validate query
+  if (!query.bookingId) {
+    throw new BadRequestError('bookingId is required');
+  }
+  if (!query.userId) {
+    throw new BadRequestError('userId is required');
+  }
+
+  const row = await readDb.queryOne<{ user_id: string; status: string; ticket_token: string | null }>(
+    `SELECT user_id, status, ticket_token FROM user_tickets_view WHERE id = $1`,
+    [query.bookingId]
+  );
+
+  if (!row) {
+    throw new BookingNotFoundError(query.bookingId);
+  }
+
+  // Verify user owns this ticket
+  if (row.user_id !== query.userId) {
+    throw new ForbiddenError('You are not authorized to view this ticket');
+  }
+
+  // A used ticket can still be shown on board
+  if (row.status !== BookingStatus.CONFIRMED && row.status !== BookingStatus.USED) {
+    throw new InvalidBookingStateError(row.status, `${BookingStatus.CONFIRMED} or ${BookingStatus.USED}`);
+  }
+
+  const claims = row.ticket_token ? decodeTicketToken(row.ticket_token) : null;
+  if (!row.ticket_token || !claims) {
+    // Confirmed before tokens were issued
+    throw new NotFoundError(`Ticket ${query.bookingId} has no token`);
+  }
+
+  logger.info('GetTicketToken query executed', { bookingId: query.bookingId, tokenId: claims.jti });
+
+  return {
+    bookingId: query.bookingId,
+    token: row.ticket_token,
+    claims,
+  };
+};
+
+/**
+ * Revoked tokens that haven't expired yet - validators sync this list and
+ * reject the tokens on it while offline
+ */
+export const getTicketTokenRevocationsHandler = async (
+  query: GetTicketTokenRevocationsQuery
+): Promise<TicketTokenRevocationList> => {
+  logger.info('Executing GetTicketTokenRevocations query', { query });
+
+  const generatedAt = new Date();
+
+  const rows = await readDb.query<{ token_id: string; revoked_at: string; expires_at: string }>(
+    `SELECT token_id, revoked_at, expires_at
+     FROM ticket_token_revocations
+     WHERE expires_at > $1
+       AND ($2::timestamp IS NULL OR recorded_at >= $2)
+     ORDER BY recorded_at`,
+    [generatedAt, query.since || null]
+  );
+
+  logger.info('GetTicketTokenRevocations query executed', { revocations: rows.length });
+
+  return {
+    revocations: rows.map((row) => ({
+      tokenId: row.token_id,
+      revokedAt: new Date(row.revoked_at),
+      expiresAt: new Date(row.expires_at),
+    })),
+    generatedAt,
+  };
+};
+
+export default getTicketTokenHandler;
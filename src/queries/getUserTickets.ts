@@ -39,9 +39,9 @@ export const getUserTicketsHandler = async (
   // Build query
   let sqlQuery = `
     SELECT 
-      id, user_id, route_id, route_name, schedule_id,
+      id, booking_reference, user_id, route_id, route_name, schedule_id,
       departure_time, arrival_time, origin_stop, destination_stop,
-      seat_number, passenger_name, passenger_email,
+      seat_number, passenger_name, passenger_email, passenger_category, group_id,
       price, currency, status, created_at
     FROM user_tickets_view
     WHERE user_id = $1
@@ -66,7 +66,7 @@ export const getUserTicketsHandler = async (
   const total = parseInt(countResult?.count || '0', 10);
 
   // Add ordering and pagination
-  sqlQuery += ` ORDER BY created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+  sqlQuery += ` ORDER BY created_at DESC, group_id, id LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
   params.push(limit, offset);
 
   // Execute query
@@ -109,6 +109,7 @@ function validateQuery(query: GetUserTicketsQuery): void {
 
 interface BookingViewRow {
   id: string;
+  booking_reference: string | null;
   user_id: string;
   route_id: string;
   route_name: string | null;
@@ -120,6 +121,8 @@ interface BookingViewRow {
   seat_number: string | null;
   passenger_name: string;
   passenger_email: string;
+  passenger_category: string;
+  group_id: string | null;
   price: string;
   currency: string;
   status: string;
@@ -129,6 +132,7 @@ interface BookingViewRow {
 function mapRowToBookingView(row: BookingViewRow): BookingView {
   return {
     id: row.id,
+    bookingReference: row.booking_reference,
     userId: row.user_id,
     routeId: row.route_id,
     routeName: row.route_name,
@@ -140,6 +144,8 @@ function mapRowToBookingView(row: BookingViewRow): BookingView {
     seatNumber: row.seat_number,
     passengerName: row.passenger_name,
     passengerEmail: row.passenger_email,
+    passengerCategory: row.passenger_category as BookingView['passengerCategory'],
+    groupId: row.group_id,
     price: parseFloat(row.price),
     currency: row.currency,
     status: row.status as BookingView['status'],
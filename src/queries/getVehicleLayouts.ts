@@ -0,0 +1,32 @@
+import writeDb from '../infrastructure/database/writeDb';
+import { LayoutSeat, VehicleLayout } from '../models/inventory';
+import logger from '../utils/logger';
+
+/**
+ * List vehicle layouts. Layouts are operator data that is never projected, so
+ * this reads the write DB.
+ */
+export const getVehicleLayoutsHandler = async (): Promise<VehicleLayout[]> => {
+  logger.info('Executing GetVehicleLayouts query');
+
+  const rows = await writeDb.query<Record<string, unknown>>(
+    `SELECT id, name, description, seats, capacity, created_at
+     FROM vehicle_layouts
+     ORDER BY name`
+  );
+
+  return rows.map(mapRowToLayout);
+};
+
+function mapRowToLayout(row: Record<string, unknown>): VehicleLayout {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: row.description as string | null,
+    seats: row.seats as LayoutSeat[],
+    capacity: row.capacity as number,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default getVehicleLayoutsHandler;
@@ -1,3 +1,14 @@
 export { getUserTicketsHandler } from './getUserTickets';
 export { getTicketDetailsHandler } from './getTicketDetails';
-
+export {
+  getScheduleAvailabilityHandler,
+  getSchedulesAvailabilityHandler
+} from './getScheduleAvailability';
+export { getSeatMapHandler } from './getSeatMap';
+export { getVehicleLayoutsHandler } from './getVehicleLayouts';
+export { getFareQuoteHandler, getFareTablesHandler, FareTables } from './getFares';
+export { getBookingGroupHandler } from './getBookingGroup';
+export { getBookingByReferenceHandler } from './getBookingByReference';
+export { getTicketTokenHandler, getTicketTokenRevocationsHandler } from './getTicketToken';
+export { getSuspectedFraudHandler } from './getSuspectedFraud';
+export { getRefundQuoteHandler, getRefundRulesHandler } from './getRefunds';
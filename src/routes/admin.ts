@@ -0,0 +1,612 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { v4 as uuidv4 } from 'uuid';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, schemas } from '../middleware/validate';
+import { outbox, OutboxStatus } from '../infrastructure/messaging/outbox';
+import { deadLetters, DeadLetterStatus } from '../infrastructure/messaging/deadLetters';
+import { projectionRebuilder } from '../projections/projectionRebuilder';
+import {
+  createVehicleLayoutHandler,
+  assignScheduleLayoutHandler,
+  changeScheduleCapacityHandler,
+  blockSeatHandler,
+  unblockSeatHandler,
+  swapScheduleVehicleHandler,
+  setScheduleDepartureHandler,
+  setFareHandler,
+  createFareModifierHandler,
+  createRefundRuleHandler,
+} from '../commands';
+import {
+  getVehicleLayoutsHandler,
+  getFareTablesHandler,
+  getSuspectedFraudHandler,
+  getRefundRulesHandler
+} from '../queries';
+import { NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// All admin endpoints require an ADMIN token
+router.use(authenticate, authorize('ADMIN'));
+
+/**
+ * GET /tickets/admin/outbox
+ * List unpublished outbox entries (stuck or waiting for retry)
+ */
+router.get(
+  '/outbox',
+  validate(schemas.listOutbox, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entries = await outbox.list({
+        status: req.query.status as OutboxStatus | undefined,
+        limit: req.query.limit as number | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: entries,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/outbox/:id/retry
+ * Reset a failed outbox entry so the relay publishes it again
+ */
+router.post(
+  '/outbox/:id/retry',
+  validate(schemas.outboxEntryId, 'params'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entry = await outbox.retry(req.params.id);
+
+      logger.info('Outbox entry scheduled for retry', {
+        outboxId: entry.id,
+        eventId: entry.eventId,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/admin/dlq
+ * List dead-lettered Kafka messages
+ */
+router.get(
+  '/dlq',
+  validate(schemas.listDeadLetters, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const messages = await deadLetters.list({
+        status: req.query.status as DeadLetterStatus | undefined,
+        limit: req.query.limit as number | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: messages,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/dlq/:id/redrive
+ * Publish a dead-lettered message back to its original topic
+ */
+router.post(
+  '/dlq/:id/redrive',
+  validate(schemas.deadLetterId, 'params'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const message = await deadLetters.redrive(req.params.id);
+
+      logger.info('Dead letter message re-driven by admin', {
+        id: message.id,
+        topic: message.originalTopic,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/layouts
+ * Define a reusable vehicle layout
+ */
+router.post(
+  '/layouts',
+  validate(schemas.createVehicleLayout),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const layout = await createVehicleLayoutHandler({
+        name: req.body.name,
+        description: req.body.description,
+        seats: req.body.seats,
+      });
+
+      logger.info('Vehicle layout created', { layoutId: layout.id, userId: req.user!.userId });
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        data: layout,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/admin/layouts
+ * List vehicle layouts
+ */
+router.get(
+  '/layouts',
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const layouts = await getVehicleLayoutsHandler();
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: layouts,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /tickets/admin/schedules/:scheduleId/layout
+ * Attach a layout to a schedule, generating its seats
+ */
+router.put(
+  '/schedules/:scheduleId/layout',
+  validate(schemas.scheduleId, 'params'),
+  validate(schemas.assignScheduleLayout),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await assignScheduleLayoutHandler(
+        {
+          scheduleId: req.params.scheduleId,
+          layoutId: req.body.layoutId,
+        },
+        correlationId
+      );
+
+      logger.info('Schedule layout assigned', {
+        scheduleId: req.params.scheduleId,
+        layoutId: req.body.layoutId,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/schedules/:scheduleId/vehicle-swap
+ * Replace the schedule's vehicle, moving passengers to seats of the new layout
+ */
+router.post(
+  '/schedules/:scheduleId/vehicle-swap',
+  validate(schemas.scheduleId, 'params'),
+  validate(schemas.swapScheduleVehicle),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await swapScheduleVehicleHandler(
+        {
+          scheduleId: req.params.scheduleId,
+          layoutId: req.body.layoutId,
+          seatMapping: req.body.seatMapping,
+        },
+        correlationId
+      );
+
+      logger.info('Schedule vehicle swapped', {
+        scheduleId: req.params.scheduleId,
+        layoutId: req.body.layoutId,
+        moved: result.moved.length,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /tickets/admin/schedules/:scheduleId/departure
+ * Set when a schedule departs (used for time-of-day fares) and the route it runs on
+ */
+router.put(
+  '/schedules/:scheduleId/departure',
+  validate(schemas.scheduleId, 'params'),
+  validate(schemas.setScheduleDeparture),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await setScheduleDepartureHandler(
+        {
+          scheduleId: req.params.scheduleId,
+          departureTime: req.body.departureTime,
+          routeId: req.body.routeId,
+        },
+        correlationId
+      );
+
+      logger.info('Schedule departure set', {
+        scheduleId: req.params.scheduleId,
+        departureTime: req.body.departureTime,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /tickets/admin/schedules/:scheduleId/capacity
+ * Change the number of sellable seats of a schedule
+ */
+router.put(
+  '/schedules/:scheduleId/capacity',
+  validate(schemas.scheduleId, 'params'),
+  validate(schemas.changeScheduleCapacity),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await changeScheduleCapacityHandler(
+        {
+          scheduleId: req.params.scheduleId,
+          capacity: req.body.capacity,
+        },
+        correlationId
+      );
+
+      logger.info('Schedule capacity changed', {
+        scheduleId: req.params.scheduleId,
+        capacity: req.body.capacity,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result.inventory,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/schedules/:scheduleId/seats/:seatNumber/block
+ * Take a seat out of sale
+ */
+router.post(
+  '/schedules/:scheduleId/seats/:seatNumber/block',
+  validate(schemas.scheduleSeat, 'params'),
+  validate(schemas.blockSeat),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await blockSeatHandler(
+        {
+          scheduleId: req.params.scheduleId,
+          seatNumber: req.params.seatNumber,
+          reason: req.body.reason,
+        },
+        correlationId
+      );
+
+      logger.info('Seat blocked', {
+        scheduleId: req.params.scheduleId,
+        seatNumber: req.params.seatNumber,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result.inventory,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/schedules/:scheduleId/seats/:seatNumber/unblock
+ * Put a blocked seat back on sale
+ */
+router.post(
+  '/schedules/:scheduleId/seats/:seatNumber/unblock',
+  validate(schemas.scheduleSeat, 'params'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await unblockSeatHandler(
+        {
+          scheduleId: req.params.scheduleId,
+          seatNumber: req.params.seatNumber,
+        },
+        correlationId
+      );
+
+      logger.info('Seat unblocked', {
+        scheduleId: req.params.scheduleId,
+        seatNumber: req.params.seatNumber,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result.inventory,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /tickets/admin/fares
+ * Create or replace a route's base fare (per zone pair, or the whole route)
+ */
+router.put(
+  '/fares',
+  validate(schemas.setFare),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const fare = await setFareHandler({
+        routeId: req.body.routeId,
+        originZone: req.body.originZone,
+        destinationZone: req.body.destinationZone,
+        baseFare: req.body.baseFare,
+        currency: req.body.currency,
+      });
+
+      logger.info('Fare set', { fareId: fare.id, routeId: fare.routeId, userId: req.user!.userId });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: fare,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/fares/modifiers
+ * Add a fare modifier (time of day, day of week, schedule, passenger type)
+ */
+router.post(
+  '/fares/modifiers',
+  validate(schemas.createFareModifier),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const modifier = await createFareModifierHandler(req.body);
+
+      logger.info('Fare modifier created', { modifierId: modifier.id, userId: req.user!.userId });
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        data: modifier,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/admin/fares?routeId=
+ * List fare tables and modifiers
+ */
+router.get(
+  '/fares',
+  validate(schemas.getFareTables, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const fareTables = await getFareTablesHandler({
+        routeId: req.query.routeId as string | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: fareTables,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/refund-rules
+ * Add a refund rule (time before departure, fare class, passenger type, who cancelled)
+ */
+router.post(
+  '/refund-rules',
+  validate(schemas.createRefundRule),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await createRefundRuleHandler(req.body);
+
+      logger.info('Refund rule created', { ruleId: rule.id, userId: req.user!.userId });
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/admin/refund-rules?routeId=
+ * List refund rules in the order they are tried
+ */
+router.get(
+  '/refund-rules',
+  validate(schemas.getRefundRules, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rules = await getRefundRulesHandler({
+        routeId: req.query.routeId as string | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/admin/validations/suspected-fraud?scheduleId=&limit=
+ * Used tickets validated again on another device
+ */
+router.get(
+  '/validations/suspected-fraud',
+  validate(schemas.getSuspectedFraud, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tickets = await getSuspectedFraudHandler({
+        scheduleId: req.query.scheduleId as string | undefined,
+        limit: req.query.limit as number | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: tickets,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/admin/projections/rebuild
+ * Rebuild the read model by replaying booking_events (runs in the background)
+ */
+router.post(
+  '/projections/rebuild',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await projectionRebuilder.start();
+
+      logger.info('Read model rebuild started', { userId: req.user!.userId });
+
+      res.status(StatusCodes.ACCEPTED).json({
+        success: true,
+        data: { status: 'RUNNING' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/admin/projections/rebuild
+ * Progress of the current (or last) read model rebuild
+ */
+router.get(
+  '/projections/rebuild',
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const status = await projectionRebuilder.getStatus();
+
+      if (!status) {
+        throw new NotFoundError('No read model rebuild has been run');
+      }
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,85 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import jwt from 'jsonwebtoken';
+import commandsRouter from './commands';
+import { config } from '../config';
+import { UserRole } from '../middleware/auth';
+import { errorHandler } from '../middleware/errorHandler';
+import { useTestDatabase } from '../testing/database';
+import { bookingOf, insertReservation, insertSchedule, OTHER_USER_ID, USER_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+useTestDatabase();
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll((done) => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/tickets/commands', commandsRouter);
+  app.use(errorHandler);
+
+  server = app.listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/tickets/commands`;
+    done();
+  });
+});
+
+afterAll((done) => {
+  server.close(done);
+});
+
+const tokenOf = (userId: string, role: UserRole) =>
+  jwt.sign({ sub: userId, email: 'ada@example.com', role }, config.jwt.secret);
+
+async function post(path: string, body: unknown, token?: string) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  return response.status;
+}
+
+describe('POST /extend-hold', () => {
+  let bookingId: string;
+
+  beforeEach(async () => {
+    await insertSchedule({}, ['1A']);
+    bookingId = (await insertReservation({ seat_number: '1A' })).id as string;
+  });
+
+  it('requires a token', async () => {
+    expect(await post('/extend-hold', { bookingId })).toBe(401);
+    expect((await bookingOf(bookingId)).hold_extension_count).toBe(0);
+  });
+
+  it("refuses a user extending another user's reservation", async () => {
+    expect(await post('/extend-hold', { bookingId }, tokenOf(OTHER_USER_ID, 'USER'))).toBe(403);
+  });
+
+  it('ignores an owner named in the body', async () => {
+    const status = await post('/extend-hold', { bookingId, userId: USER_ID }, tokenOf(OTHER_USER_ID, 'USER'));
+
+    expect(status).toBe(403);
+  });
+
+  it('lets the owner extend their reservation', async () => {
+    expect(await post('/extend-hold', { bookingId }, tokenOf(USER_ID, 'USER'))).toBe(200);
+  });
+
+  it('lets the payment service extend any reservation', async () => {
+    expect(await post('/extend-hold', { bookingId }, tokenOf(OTHER_USER_ID, 'SERVICE'))).toBe(200);
+    expect((await bookingOf(bookingId)).hold_extension_count).toBe(1);
+  });
+
+  it('refuses other roles', async () => {
+    expect(await post('/extend-hold', { bookingId }, tokenOf(OTHER_USER_ID, 'INSPECTOR'))).toBe(403);
+  });
+});
@@ -1,13 +1,20 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { v4 as uuidv4 } from 'uuid';
-import { authenticate, optionalAuth } from '../middleware/auth';
+import { authenticate, authorize, optionalAuth } from '../middleware/auth';
 import { validate, schemas } from '../middleware/validate';
+import { idempotent } from '../middleware/idempotency';
 import {
   bookTicketHandler,
   reserveTicketHandler,
   confirmTicketHandler,
   cancelTicketHandler,
+  refundTicketHandler,
+  changeTicketHandler,
+  extendReservationHandler,
+  validateTicketHandler,
+  bookGroupHandler,
+  reserveGroupHandler,
 } from '../commands';
 import logger from '../utils/logger';
 
@@ -21,6 +28,7 @@ router.post(
   '/book',
   authenticate,
   validate(schemas.bookTicket),
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
@@ -34,6 +42,11 @@ router.post(
           passengerName: req.body.passengerName,
           passengerEmail: req.body.passengerEmail,
           passengerPhone: req.body.passengerPhone,
+          passengerCategory: req.body.passengerCategory,
+          entitlementReference: req.body.entitlementReference,
+          seatPreferences: req.body.seatPreferences,
+          originZone: req.body.originZone,
+          destinationZone: req.body.destinationZone,
           price: req.body.price,
           currency: req.body.currency,
         },
@@ -64,6 +77,7 @@ router.post(
   '/reserve',
   optionalAuth, // Allow service-to-service calls without auth
   validate(schemas.reserveTicket),
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
@@ -87,6 +101,11 @@ router.post(
           passengerName: req.body.passengerName,
           passengerEmail: req.body.passengerEmail,
           passengerPhone: req.body.passengerPhone,
+          passengerCategory: req.body.passengerCategory,
+          entitlementReference: req.body.entitlementReference,
+          seatPreferences: req.body.seatPreferences,
+          originZone: req.body.originZone,
+          destinationZone: req.body.destinationZone,
           price: req.body.price,
           currency: req.body.currency,
           reservationDurationMinutes: req.body.reservationDurationMinutes,
@@ -116,6 +135,113 @@ router.post(
   }
 );
 
+/**
+ * POST /tickets/commands/groups/book
+ * Book tickets for several passengers under one booking group
+ */
+router.post(
+  '/groups/book',
+  authenticate,
+  validate(schemas.bookGroup),
+  idempotent,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await bookGroupHandler(
+        {
+          userId: req.user!.userId,
+          routeId: req.body.routeId,
+          scheduleId: req.body.scheduleId,
+          contactEmail: req.body.contactEmail,
+          passengers: req.body.passengers,
+          seatPreferences: req.body.seatPreferences,
+          originZone: req.body.originZone,
+          destinationZone: req.body.destinationZone,
+          currency: req.body.currency,
+        },
+        correlationId
+      );
+
+      logger.info('Group booked', {
+        groupId: result.group.id,
+        passengerCount: result.group.passengerCount,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/commands/groups/reserve
+ * Reserve seats for several passengers under one booking group
+ * Supports both authenticated user calls and service-to-service calls
+ */
+router.post(
+  '/groups/reserve',
+  optionalAuth, // Allow service-to-service calls without auth
+  validate(schemas.reserveGroup),
+  idempotent,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      // Get userId from authenticated user or from request body (for service-to-service calls)
+      const userId = req.user?.userId || req.body.userId;
+
+      if (!userId) {
+        return res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          error: 'userId is required (either from authentication token or request body)'
+        });
+      }
+
+      const result = await reserveGroupHandler(
+        {
+          userId: userId,
+          routeId: req.body.routeId,
+          scheduleId: req.body.scheduleId,
+          contactEmail: req.body.contactEmail,
+          passengers: req.body.passengers,
+          seatPreferences: req.body.seatPreferences,
+          originZone: req.body.originZone,
+          destinationZone: req.body.destinationZone,
+          currency: req.body.currency,
+          reservationDurationMinutes: req.body.reservationDurationMinutes,
+        },
+        correlationId
+      );
+
+      logger.info('Group reserved', {
+        groupId: result.group.id,
+        passengerCount: result.group.passengerCount,
+        expiresAt: result.expiresAt,
+        userId: userId
+      });
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /tickets/commands/confirm
  * Confirm a reserved ticket (for saga - after payment success)
@@ -125,6 +251,7 @@ router.post(
   '/confirm',
   optionalAuth, // Allow service-to-service calls without auth
   validate(schemas.confirmTicket),
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
@@ -133,6 +260,7 @@ router.post(
         {
           bookingId: req.body.bookingId,
           paymentId: req.body.paymentId,
+          expectedVersion: req.body.expectedVersion,
         },
         correlationId
       );
@@ -156,6 +284,57 @@ router.post(
   }
 );
 
+/**
+ * POST /tickets/commands/extend-hold
+ * Keep a reservation longer while its payment completes (e.g. 3-D Secure)
+ * Users may extend their own reservations; the payment service and admins any
+ */
+router.post(
+  '/extend-hold',
+  authenticate,
+  authorize('USER', 'ADMIN', 'SERVICE'),
+  validate(schemas.extendReservation),
+  idempotent,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      // A user's token only reaches their own reservations
+      const userId = req.user!.role === 'USER' ? req.user!.userId : undefined;
+
+      const result = await extendReservationHandler(
+        {
+          bookingId: req.body.bookingId,
+          userId,
+          extensionMinutes: req.body.extensionMinutes,
+          expectedVersion: req.body.expectedVersion,
+        },
+        correlationId
+      );
+
+      logger.info('Reservation hold extended', {
+        bookingId: result.booking.id,
+        expiresAt: result.expiresAt,
+        userId: req.user!.userId
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: {
+          booking: result.booking,
+          expiresAt: result.expiresAt,
+          extensionsRemaining: result.extensionsRemaining,
+        },
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /tickets/commands/cancel
  * Cancel a ticket
@@ -165,6 +344,7 @@ router.post(
   '/cancel',
   optionalAuth, // Allow service-to-service calls without auth
   validate(schemas.cancelTicket),
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
@@ -173,11 +353,20 @@ router.post(
       // If not provided, the handler will get it from the booking itself
       const userId = req.user?.userId || req.body.userId;
 
+      // Only admins and services with a service token may cancel as OPERATOR -
+      // everyone else, anonymous callers included, cancels as PASSENGER
+      const initiatedBy = req.user && (req.user.role === 'ADMIN' || req.user.role === 'SERVICE')
+        ? req.body.initiatedBy
+        : 'PASSENGER';
+
       const result = await cancelTicketHandler(
         {
           bookingId: req.body.bookingId,
           userId: userId!,
           reason: req.body.reason,
+          initiatedBy,
+          refundMethod: req.body.refundMethod,
+          expectedVersion: req.body.expectedVersion,
         },
         correlationId
       );
@@ -193,6 +382,7 @@ router.post(
         data: {
           booking: result.booking,
           refundAmount: result.refundAmount,
+          refund: result.refund,
         },
         meta: {
           correlationId,
@@ -204,5 +394,149 @@ router.post(
   }
 );
 
-export default router;
+/**
+ * POST /tickets/commands/change
+ * Move a confirmed ticket to another schedule (and optionally seat)
+ */
+router.post(
+  '/change',
+  authenticate,
+  validate(schemas.changeTicket),
+  idempotent,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      // Admins may change any passenger's ticket
+      const userId = req.user!.role === 'ADMIN' ? undefined : req.user!.userId;
+
+      const result = await changeTicketHandler(
+        {
+          bookingId: req.body.bookingId,
+          userId,
+          scheduleId: req.body.scheduleId,
+          seatNumber: req.body.seatNumber,
+          seatPreferences: req.body.seatPreferences,
+          price: req.body.price,
+          currency: req.body.currency,
+          paymentId: req.body.paymentId,
+          reason: req.body.reason,
+          expectedVersion: req.body.expectedVersion,
+        },
+        correlationId
+      );
+
+      logger.info('Ticket changed', {
+        bookingId: result.booking.id,
+        scheduleId: result.booking.scheduleId,
+        amountDue: result.change.amountDue,
+        userId: req.user!.userId
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
+/**
+ * POST /tickets/commands/refund
+ * Record money returned for a cancelled ticket (payment service, or admins)
+ */
+router.post(
+  '/refund',
+  authenticate,
+  authorize('ADMIN', 'SERVICE'),
+  validate(schemas.refundTicket),
+  idempotent,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await refundTicketHandler(
+        {
+          bookingId: req.body.bookingId,
+          refundTransactionId: req.body.refundTransactionId,
+          amount: req.body.amount,
+          currency: req.body.currency,
+          paymentId: req.body.paymentId,
+          refundMethod: req.body.refundMethod,
+          reason: req.body.reason,
+        },
+        correlationId
+      );
+
+      logger.info('Ticket refunded', {
+        bookingId: result.booking.id,
+        refundAmount: result.refund.amount,
+        fullyRefunded: result.fullyRefunded,
+        userId: req.user!.userId
+      });
+
+      res.status(result.duplicate ? StatusCodes.OK : StatusCodes.CREATED).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /tickets/commands/validate
+ * Validate a ticket at boarding (inspectors and gate devices)
+ */
+router.post(
+  '/validate',
+  authenticate,
+  authorize('INSPECTOR', 'ADMIN'),
+  validate(schemas.validateTicket),
+  idempotent,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const correlationId = (req.headers['x-correlation-id'] as string) || uuidv4();
+
+      const result = await validateTicketHandler(
+        {
+          token: req.body.token,
+          bookingId: req.body.bookingId,
+          scheduleId: req.body.scheduleId,
+          deviceId: req.body.deviceId,
+          validatedBy: req.user!.userId,
+        },
+        correlationId
+      );
+
+      logger.info('Ticket validated', {
+        bookingId: result.booking?.id,
+        accepted: result.accepted,
+        reason: result.reason,
+        deviceId: req.body.deviceId,
+      });
+
+      // A rejected ticket is a normal outcome for the device, not a failed request
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result,
+        meta: {
+          correlationId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import writeDb from '../infrastructure/database/writeDb';
 import readDb from '../infrastructure/database/readDb';
+import { outbox } from '../infrastructure/messaging/outbox';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -94,6 +95,27 @@ router.get('/ready', async (_req: Request, res: Response) => {
     }
   }
 
+  // Check the outbox - a FAILED entry holds back every later event of its booking
+  try {
+    const backlog = await outbox.backlog();
+    if (backlog.failed > 0) {
+      healthStatus.checks.push({
+        name: 'outbox',
+        status: 'fail',
+        message: `${backlog.failed} failed outbox entries hold back ${backlog.heldBack} later events ` +
+          `of ${backlog.blockedAggregates} bookings - retry them via the admin API`,
+      });
+      if (healthStatus.status === 'healthy') {
+        healthStatus.status = 'degraded';
+      }
+    } else {
+      healthStatus.checks.push({ name: 'outbox', status: 'pass' });
+    }
+  } catch (error) {
+    // Already reported by the write database check
+    logger.debug('Outbox check skipped', { error });
+  }
+
   const statusCode = healthStatus.status === 'healthy' 
     ? StatusCodes.OK 
     : healthStatus.status === 'degraded'
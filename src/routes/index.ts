@@ -2,12 +2,14 @@ import { Router } from 'express';
 import commandsRouter from './commands';
 import queriesRouter from './queries';
 import healthRouter from './health';
+import adminRouter from './admin';
 
 const router = Router();
 
 // Mount routes
 router.use('/tickets/commands', commandsRouter);
 router.use('/tickets/queries', queriesRouter);
+router.use('/tickets/admin', adminRouter);
 router.use('/health', healthRouter);
 
 export default router;
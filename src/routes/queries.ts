@@ -2,8 +2,24 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { authenticate } from '../middleware/auth';
 import { validate, schemas } from '../middleware/validate';
-import { getUserTicketsHandler, getTicketDetailsHandler } from '../queries';
+import {
+  getUserTicketsHandler,
+  getTicketDetailsHandler,
+  getScheduleAvailabilityHandler,
+  getSchedulesAvailabilityHandler,
+  getSeatMapHandler,
+  getFareQuoteHandler,
+  getBookingGroupHandler,
+  getBookingByReferenceHandler,
+  getTicketTokenHandler,
+  getTicketTokenRevocationsHandler,
+  getRefundQuoteHandler
+} from '../queries';
 import { BookingStatus } from '../models/booking';
+import { RefundInitiator, RefundMethod } from '../models/refund';
+import { passengerCategories } from '../pricing/passengerCategories';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { ticketTokens } from '../tickets/ticketTokens';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -47,6 +63,287 @@ router.get(
   }
 );
 
+/**
+ * GET /tickets/queries/schedules/availability?scheduleIds=id1,id2
+ * Seat availability for many schedules at once (e.g. journey planner results)
+ */
+router.get(
+  '/schedules/availability',
+  authenticate,
+  validate(schemas.getSchedulesAvailability, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const availability = await getSchedulesAvailabilityHandler({
+        scheduleIds: req.query.scheduleIds as unknown as string[],
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: availability,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/schedules/:scheduleId/availability
+ * Total, booked and available seats of a schedule
+ */
+router.get(
+  '/schedules/:scheduleId/availability',
+  authenticate,
+  validate(schemas.getScheduleAvailability, 'params'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const availability = await getScheduleAvailabilityHandler({
+        scheduleId: req.params.scheduleId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: availability,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/schedules/:scheduleId/seats
+ * Seat map of a schedule - every seat with its status and layout
+ */
+router.get(
+  '/schedules/:scheduleId/seats',
+  authenticate,
+  validate(schemas.getSeatMap, 'params'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const seatMap = await getSeatMapHandler({
+        scheduleId: req.params.scheduleId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: seatMap,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/fares/quote?routeId=&scheduleId=&originZone=&destinationZone=&passengerCategory=&groupSize=
+ * The fare book/reserve will charge for a journey, with its breakdown
+ */
+router.get(
+  '/fares/quote',
+  authenticate,
+  validate(schemas.getFareQuote, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const quote = await getFareQuoteHandler({
+        routeId: req.query.routeId as string,
+        scheduleId: req.query.scheduleId as string,
+        originZone: req.query.originZone as string | undefined,
+        destinationZone: req.query.destinationZone as string | undefined,
+        passengerType: req.query.passengerCategory as string | undefined,
+        groupSize: req.query.groupSize as number | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/groups/:groupId
+ * A booking group with every ticket in it
+ */
+router.get(
+  '/groups/:groupId',
+  authenticate,
+  validate(schemas.getBookingGroup, 'params'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const group = await getBookingGroupHandler({
+        groupId: req.params.groupId,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: group,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/bookings/lookup?bookingReference=&surname=
+ * Guest access to a booking by its reference and a passenger's surname
+ */
+router.get(
+  '/bookings/lookup',
+  validate(schemas.getBookingByReference, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const booking = await getBookingByReferenceHandler({
+        bookingReference: req.query.bookingReference as string,
+        surname: req.query.surname as string,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: booking,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/passenger-categories
+ * Passenger categories and the proof each one needs
+ */
+router.get(
+  '/passenger-categories',
+  async (_req: Request, res: Response) => {
+    res.status(StatusCodes.OK).json({
+      success: true,
+      data: passengerCategories.list(),
+    });
+  }
+);
+
+/**
+ * GET /tickets/queries/booking-states
+ * The booking state machine, as JSON and as a Mermaid diagram
+ */
+router.get(
+  '/booking-states',
+  async (_req: Request, res: Response) => {
+    res.status(StatusCodes.OK).json({
+      success: true,
+      data: {
+        ...bookingStateMachine.describe(),
+        mermaid: bookingStateMachine.toMermaid(),
+      },
+    });
+  }
+);
+
+/**
+ * GET /tickets/queries/tokens/public-key
+ * The key validators verify ticket tokens with
+ */
+router.get(
+  '/tokens/public-key',
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: ticketTokens.signingKey(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/tokens/revocations?since=
+ * Revoked ticket tokens that haven't expired, for validators to sync
+ */
+router.get(
+  '/tokens/revocations',
+  authenticate,
+  validate(schemas.getTicketTokenRevocations, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const list = await getTicketTokenRevocationsHandler({
+        since: req.query.since as unknown as Date | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: list,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/:bookingId/token
+ * Signed token of a confirmed ticket - the claims and the QR-ready string
+ */
+router.get(
+  '/:bookingId/token',
+  authenticate,
+  validate(schemas.getTicketToken, 'params'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const token = await getTicketTokenHandler({
+        bookingId: req.params.bookingId,
+        userId: req.user!.userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: token,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tickets/queries/:bookingId/refund-quote?refundMethod=
+ * What cancelling the ticket now would refund, with the breakdown (dry run)
+ */
+router.get(
+  '/:bookingId/refund-quote',
+  authenticate,
+  validate(schemas.getTicketDetails, 'params'),
+  validate(schemas.getRefundQuote, 'query'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Only operators can quote an operator cancellation
+      const initiatedBy = req.user!.role === 'ADMIN'
+        ? req.query.initiatedBy as RefundInitiator | undefined
+        : 'PASSENGER';
+
+      const quote = await getRefundQuoteHandler({
+        bookingId: req.params.bookingId,
+        userId: req.user!.userId,
+        initiatedBy,
+        refundMethod: req.query.refundMethod as RefundMethod | undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /tickets/queries/:bookingId
  * Get specific ticket details
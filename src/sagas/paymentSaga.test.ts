@@ -0,0 +1,211 @@
+import { v4 as uuidv4 } from 'uuid';
+import { EachMessagePayload } from 'kafkajs';
+import { paymentSaga } from './paymentSaga';
+import { PaymentEvent, PaymentEventType, TicketEventType } from '../events/types';
+import { BookingStatus, SeatStatus } from '../models/booking';
+import { RefundExceedsAmountOwedError } from '../utils/errors';
+import { useTestDatabase } from '../testing/database';
+import {
+  bookingOf,
+  eventsOf,
+  insertBooking,
+  insertReservation,
+  insertSchedule,
+  minutesFromNow,
+  seatOf,
+} from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+const db = useTestDatabase();
+
+function paymentEvent(eventType: PaymentEventType, payload: Partial<PaymentEvent['payload']>): PaymentEvent {
+  return {
+    eventId: uuidv4(),
+    eventType,
+    timestamp: new Date(),
+    payload: { paymentId: uuidv4(), ...payload },
+  };
+}
+
+// The same event delivered again is the same Kafka message value
+const deliver = (event: PaymentEvent) =>
+  paymentSaga.processMessage({
+    topic: 'payment-events',
+    partition: 0,
+    message: { value: Buffer.from(JSON.stringify(event)), headers: {}, offset: '0' },
+  } as unknown as EachMessagePayload);
+
+const eventTypesOf = async (bookingId: unknown) => (await eventsOf(bookingId)).map((event) => event.event_type);
+
+let bookingId: string;
+
+// A reservation of seat 1A, held for 5 more minutes
+beforeEach(async () => {
+  await insertSchedule({}, ['1A', '1B']);
+  bookingId = (await insertReservation({ seat_number: '1A' })).id as string;
+});
+
+describe('PAYMENT_SUCCEEDED', () => {
+  const succeeded = (payload: Partial<PaymentEvent['payload']> = {}) =>
+    paymentEvent(PaymentEventType.PAYMENT_SUCCEEDED, { bookingId, amount: 25, currency: 'USD', ...payload });
+
+  it('confirms the reservation and keeps the payment', async () => {
+    const event = succeeded();
+
+    await deliver(event);
+
+    expect(await bookingOf(bookingId)).toMatchObject({
+      status: BookingStatus.CONFIRMED,
+      payment_id: event.payload.paymentId,
+    });
+    expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.BOOKED });
+    expect(await db.query(`SELECT payment_id, amount FROM booking_payments`)).toEqual([
+      { payment_id: event.payload.paymentId, amount: '25.00' },
+    ]);
+  });
+
+  it('confirms once when delivered again', async () => {
+    const event = succeeded();
+
+    await deliver(event);
+    await deliver(event);
+
+    expect(await eventTypesOf(bookingId)).toEqual([TicketEventType.TICKET_CONFIRMED]);
+    expect(await db.query(`SELECT payment_id FROM booking_payments`)).toHaveLength(1);
+  });
+
+  describe('for a booking that can no longer be confirmed', () => {
+    it('asks for the payment of an expired booking back', async () => {
+      await db.query(`UPDATE bookings SET status = $1`, [BookingStatus.EXPIRED]);
+      const event = succeeded({ amount: 24.5 });
+
+      await deliver(event);
+
+      const [request] = await eventsOf(bookingId);
+      expect(request).toMatchObject({ event_type: TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED, version: 2 });
+      expect(request.payload).toMatchObject({
+        paymentId: event.payload.paymentId,
+        amount: 24.5,
+        currency: 'USD',
+        bookingStatus: BookingStatus.EXPIRED,
+      });
+      expect(await bookingOf(bookingId)).toMatchObject({ status: BookingStatus.EXPIRED, payment_id: null });
+    });
+
+    it('asks for the payment of a cancelled booking back', async () => {
+      await db.query(`UPDATE bookings SET status = $1`, [BookingStatus.CANCELLED]);
+
+      await deliver(succeeded());
+
+      expect(await eventTypesOf(bookingId)).toEqual([TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED]);
+    });
+
+    it('asks for the payment back when the hold ran out before the expiry worker', async () => {
+      await db.query(`UPDATE bookings SET expires_at = $1`, [minutesFromNow(-1)]);
+
+      await deliver(succeeded());
+
+      expect(await eventTypesOf(bookingId)).toEqual([TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED]);
+      expect((await bookingOf(bookingId)).status).toBe(BookingStatus.RESERVED);
+    });
+
+    it('asks once when delivered again', async () => {
+      await db.query(`UPDATE bookings SET status = $1`, [BookingStatus.EXPIRED]);
+      const event = succeeded();
+
+      await deliver(event);
+      await deliver(event);
+
+      expect(await eventTypesOf(bookingId)).toEqual([TicketEventType.TICKET_PAYMENT_REFUND_REQUESTED]);
+    });
+
+    it('asks for the price of each ticket of a group payment', async () => {
+      const groupId = uuidv4();
+      const tickets = [
+        await insertBooking({ status: BookingStatus.EXPIRED, group_id: groupId, price: 25 }),
+        await insertBooking({ status: BookingStatus.EXPIRED, group_id: groupId, price: 12.5 }),
+      ];
+
+      await deliver(paymentEvent(PaymentEventType.PAYMENT_SUCCEEDED, { groupId, amount: 37.5, currency: 'USD' }));
+
+      for (const ticket of tickets) {
+        const [request] = await eventsOf(ticket.id);
+        expect(request.payload).toMatchObject({ amount: parseFloat(ticket.price as string) });
+      }
+    });
+  });
+});
+
+describe('PAYMENT_FAILED', () => {
+  const failed = () => paymentEvent(PaymentEventType.PAYMENT_FAILED, { bookingId, reason: 'Card declined' });
+
+  it('cancels the reservation and releases its seat', async () => {
+    await deliver(failed());
+
+    expect((await bookingOf(bookingId)).status).toBe(BookingStatus.CANCELLED);
+    const [cancelled] = await eventsOf(bookingId);
+    expect(cancelled.payload).toMatchObject({ reason: 'Payment failed: Card declined' });
+    expect(await seatOf('1A')).toMatchObject({ status: SeatStatus.AVAILABLE, booking_id: null });
+  });
+
+  it('cancels once when delivered again', async () => {
+    const event = failed();
+
+    await deliver(event);
+    await deliver(event);
+
+    expect(await eventTypesOf(bookingId)).toEqual([TicketEventType.TICKET_CANCELLED]);
+  });
+
+  it('leaves a confirmed booking alone', async () => {
+    await db.query(`UPDATE bookings SET status = $1`, [BookingStatus.CONFIRMED]);
+
+    await deliver(failed());
+
+    expect((await bookingOf(bookingId)).status).toBe(BookingStatus.CONFIRMED);
+    expect(await eventsOf(bookingId)).toEqual([]);
+  });
+});
+
+describe('PAYMENT_REFUNDED', () => {
+  const PAYMENT_ID = uuidv4();
+
+  const refunded = (amount: number, paymentId = PAYMENT_ID) =>
+    paymentEvent(PaymentEventType.PAYMENT_REFUNDED, { bookingId, paymentId, amount, currency: 'USD' });
+
+  // Confirmed with PAYMENT_ID for 25.00
+  beforeEach(async () => {
+    await db.query(`UPDATE bookings SET status = $1, payment_id = $2, paid_amount = 25, expires_at = NULL`, [
+      BookingStatus.CONFIRMED,
+      PAYMENT_ID,
+    ]);
+  });
+
+  it('cancels the booking and records the refund', async () => {
+    await deliver(refunded(25));
+
+    expect(await eventTypesOf(bookingId)).toEqual([TicketEventType.TICKET_CANCELLED, TicketEventType.TICKET_REFUNDED]);
+    expect(await bookingOf(bookingId)).toMatchObject({ status: BookingStatus.REFUNDED, refunded_amount: '25.00' });
+  });
+
+  it('records a refund once when delivered again', async () => {
+    const event = refunded(10);
+
+    await deliver(event);
+    await deliver(event);
+
+    expect(await db.query(`SELECT amount FROM booking_refunds`)).toEqual([{ amount: '10.00' }]);
+    expect(await bookingOf(bookingId)).toMatchObject({ status: BookingStatus.CANCELLED, refunded_amount: '10.00' });
+  });
+
+  it('ignores the refund of another payment', async () => {
+    await deliver(refunded(25, uuidv4()));
+
+    expect((await bookingOf(bookingId)).status).toBe(BookingStatus.CONFIRMED);
+  });
+
+  it('fails a refund larger than the booking is owed, to be dead-lettered', async () => {
+    await expect(deliver(refunded(30))).rejects.toThrow(RefundExceedsAmountOwedError);
+  });
+});
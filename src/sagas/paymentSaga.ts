@@ -0,0 +1,318 @@
+import { EachMessagePayload } from 'kafkajs';
+import writeDb from '../infrastructure/database/writeDb';
+import {
+  confirmTicketHandler,
+  cancelTicketHandler,
+  refundTicketHandler,
+  requestPaymentRefundHandler
+} from '../commands';
+import { PaymentEvent, PaymentEventType, TicketEventType } from '../events/types';
+import { bookingStateMachine } from '../bookings/bookingStateMachine';
+import { BookingStatus } from '../models/booking';
+import {
+  AppError,
+  ConcurrencyConflictError,
+  InvalidBookingStateError,
+  RefundExceedsAmountOwedError,
+  ServiceUnavailableError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface BookingState {
+  id: string;
+  status: BookingStatus;
+  payment_id: string | null;
+  price: string;
+  currency: string;
+}
+
+/**
+ * Payment Saga - drives the booking lifecycle from payment-events, so a
+ * reservation is confirmed or cancelled even when the payment service can't
+ * reach the HTTP command API
+ */
+export const paymentSaga = {
+  /**
+   * Process incoming payment events
+   */
+  processMessage: async (payload: EachMessagePayload): Promise<void> => {
+    const { topic, partition, message } = payload;
+
+    if (!message.value) {
+      logger.warn('Received empty message', { topic, partition });
+      return;
+    }
+
+    const event = JSON.parse(message.value.toString()) as PaymentEvent;
+    const eventType = message.headers?.eventType?.toString() || event.eventType;
+
+    if (!Object.values(PaymentEventType).includes(eventType as PaymentEventType)) {
+      logger.debug('Ignoring payment event', { eventType });
+      return;
+    }
+
+    const bookings = await findBookings(event);
+    if (bookings.length === 0) {
+      logger.warn('No booking found for payment event', {
+        eventType,
+        paymentId: event.payload?.paymentId,
+        bookingId: event.payload?.bookingId,
+        groupId: event.payload?.groupId,
+        correlationId: event.correlationId,
+      });
+      return;
+    }
+
+    // A group payment settles every ticket of the group, each on its own
+    for (const booking of bookings) {
+      await processBooking(eventType as PaymentEventType, booking, event);
+    }
+  },
+};
+
+/**
+ * Apply a payment event to one booking
+ */
+async function processBooking(
+  eventType: PaymentEventType,
+  booking: BookingState,
+  event: PaymentEvent
+): Promise<void> {
+  logger.info('Processing payment event', {
+    eventType,
+    bookingId: booking.id,
+    paymentId: event.payload.paymentId,
+    correlationId: event.correlationId,
+  });
+
+  try {
+    switch (eventType) {
+      case PaymentEventType.PAYMENT_SUCCEEDED:
+        await handlePaymentSucceeded(booking, event);
+        break;
+      case PaymentEventType.PAYMENT_FAILED:
+        await handlePaymentFailed(booking, event);
+        break;
+      case PaymentEventType.PAYMENT_REFUNDED:
+        await handlePaymentRefunded(booking, event);
+        break;
+    }
+  } catch (error) {
+    // Business rule violations won't change on retry - log and move on.
+    // Anything else (DB down, concurrent update) is retried and dead-lettered.
+    if (isPermanentFailure(error)) {
+      logger.warn('Payment event rejected by booking command', {
+        eventType,
+        bookingId: booking.id,
+        code: (error as AppError).code,
+        message: (error as AppError).message,
+      });
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle PaymentSucceeded - confirm the reservation, or ask for the money back
+ * when the booking can no longer be confirmed
+ */
+async function handlePaymentSucceeded(booking: BookingState, event: PaymentEvent): Promise<void> {
+  const { paymentId } = event.payload;
+
+  await recordPayment(booking, event);
+
+  // A used ticket was confirmed before boarding
+  if (booking.status === BookingStatus.CONFIRMED || booking.status === BookingStatus.USED) {
+    if (booking.payment_id !== paymentId) {
+      // Kept for the ticket change it pays for (see changeTicket)
+      logger.info('Payment received for a confirmed booking', {
+        bookingId: booking.id,
+        paymentId,
+        confirmedPaymentId: booking.payment_id,
+      });
+    }
+    return;
+  }
+
+  try {
+    await confirmTicketHandler({ bookingId: booking.id, paymentId }, correlationIdOf(event));
+  } catch (error) {
+    if (!(error instanceof InvalidBookingStateError)) {
+      throw error;
+    }
+
+    // Money was taken for a booking that expired or was cancelled in the meantime
+    logger.warn('Payment succeeded for a booking that can no longer be confirmed - requesting a refund', {
+      bookingId: booking.id,
+      paymentId,
+      status: booking.status,
+      correlationId: event.correlationId,
+    });
+
+    await requestPaymentRefundHandler(
+      {
+        bookingId: booking.id,
+        paymentId,
+        // A group payment's amount covers every ticket - each one returns its own price
+        amount: event.payload.bookingId && event.payload.amount ? event.payload.amount : parseFloat(booking.price),
+        currency: event.payload.currency || booking.currency,
+        reason: `Payment arrived for a booking that can no longer be confirmed: ${error.message}`,
+      },
+      correlationIdOf(event)
+    );
+  }
+}
+
+/**
+ * Keep a payment made for one booking, so a ticket change can be paid with it.
+ * Redeliveries are recorded once.
+ */
+async function recordPayment(booking: BookingState, event: PaymentEvent): Promise<void> {
+  const { paymentId, bookingId, amount, currency } = event.payload;
+
+  if (bookingId !== booking.id || !amount || !currency || !UUID_PATTERN.test(paymentId)) {
+    return;
+  }
+
+  await writeDb.query(
+    `INSERT INTO booking_payments (payment_id, booking_id, amount, currency, received_at)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (payment_id) DO NOTHING`,
+    [paymentId, booking.id, amount, currency, event.timestamp || new Date()]
+  );
+}
+
+/**
+ * Handle PaymentFailed - release the reservation
+ */
+async function handlePaymentFailed(booking: BookingState, event: PaymentEvent): Promise<void> {
+  if (!bookingStateMachine.canTransition(booking.status, BookingStatus.CONFIRMED)) {
+    logger.info('Ignoring payment failure for booking that is not awaiting payment', {
+      bookingId: booking.id,
+      status: booking.status,
+    });
+    return;
+  }
+
+  await cancelTicketHandler(
+    {
+      bookingId: booking.id,
+      reason: event.payload.reason ? `Payment failed: ${event.payload.reason}` : 'Payment failed',
+    },
+    correlationIdOf(event)
+  );
+}
+
+/**
+ * Handle PaymentRefunded - cancel the confirmed booking the payment paid for,
+ * then record the money returned against it
+ */
+async function handlePaymentRefunded(booking: BookingState, event: PaymentEvent): Promise<void> {
+  const refundable = booking.status === BookingStatus.CONFIRMED || booking.status === BookingStatus.CANCELLED;
+
+  if (!refundable || booking.payment_id !== event.payload.paymentId) {
+    logger.info('Ignoring refund for booking that is not paid by this payment', {
+      bookingId: booking.id,
+      status: booking.status,
+      paymentId: event.payload.paymentId,
+    });
+    return;
+  }
+
+  const reason = event.payload.reason ? `Payment refunded: ${event.payload.reason}` : 'Payment refunded';
+
+  // The payment side decided to return the money - cancel as the operator, so
+  // the passenger refund policy's fees don't leave the refund unrecordable
+  if (booking.status === BookingStatus.CONFIRMED) {
+    await cancelTicketHandler(
+      { bookingId: booking.id, reason, initiatedBy: 'OPERATOR' },
+      correlationIdOf(event)
+    );
+  }
+
+  await refundTicketHandler(
+    {
+      bookingId: booking.id,
+      // The payment event is the refund transaction - redeliveries are recorded once
+      refundTransactionId: event.eventId,
+      // A group refund's amount covers every ticket - each one is refunded what it's owed
+      amount: event.payload.bookingId ? event.payload.amount : undefined,
+      currency: event.payload.currency,
+      paymentId: event.payload.paymentId,
+      reason,
+    },
+    correlationIdOf(event)
+  );
+}
+
+/**
+ * Find the bookings a payment event refers to - by bookingId, by groupId, or
+ * falling back to the bookings created under the same correlationId
+ */
+async function findBookings(event: PaymentEvent): Promise<BookingState[]> {
+  const bookingId = event.payload?.bookingId;
+  if (bookingId) {
+    if (!UUID_PATTERN.test(bookingId)) {
+      return [];
+    }
+
+    const booking = await writeDb.queryOne<BookingState>(
+      `SELECT id, status, payment_id, price, currency FROM bookings WHERE id = $1`,
+      [bookingId]
+    );
+    return booking ? [booking] : [];
+  }
+
+  const groupId = event.payload?.groupId;
+  if (groupId) {
+    if (!UUID_PATTERN.test(groupId)) {
+      return [];
+    }
+
+    return writeDb.query<BookingState>(
+      `SELECT id, status, payment_id, price, currency FROM bookings WHERE group_id = $1 ORDER BY id`,
+      [groupId]
+    );
+  }
+
+  const correlationId = correlationIdOf(event);
+  if (!correlationId) {
+    return [];
+  }
+
+  // A group booking records one event per ticket under the same correlationId
+  return writeDb.query<BookingState>(
+    `SELECT DISTINCT b.id, b.status, b.payment_id, b.price, b.currency
+     FROM booking_events e
+     JOIN bookings b ON b.id = e.aggregate_id
+     WHERE e.correlation_id = $1 AND e.event_type IN ($2, $3)
+     ORDER BY b.id`,
+    [correlationId, TicketEventType.TICKET_RESERVED, TicketEventType.TICKET_BOOKED]
+  );
+}
+
+/**
+ * The saga's correlation id, if usable - the event store keeps them as UUIDs
+ */
+function correlationIdOf(event: PaymentEvent): string | undefined {
+  return event.correlationId && UUID_PATTERN.test(event.correlationId)
+    ? event.correlationId
+    : undefined;
+}
+
+/**
+ * A refund larger than the booking is owed is money already returned that we
+ * can't record - it is dead-lettered for an operator rather than skipped
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof AppError &&
+    error.isOperational &&
+    !(error instanceof ConcurrencyConflictError) &&
+    !(error instanceof ServiceUnavailableError) &&
+    !(error instanceof RefundExceedsAmountOwedError);
+}
+
+export default paymentSaga;
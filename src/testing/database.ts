@@ -0,0 +1,162 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { DatabaseError, PoolClient, QueryResult } from 'pg';
+import { readDbSchema, writeDbSchema } from '../infrastructure/database/migrate';
+
+/**
+ * Test database - an in-process PostgreSQL (PGlite) with the write and read
+ * schemas of migrate.ts, so tests run the real SQL. A test file points the
+ * database modules at it and calls useTestDatabase():
+ *
+ *   jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+ *   jest.mock('../infrastructure/database/readDb', () => jest.requireActual('../testing/database').readDbModule);
+ *
+ * It is a single connection: there are no concurrent transactions, and
+ * writeDb and readDb share it.
+ */
+
+declare global {
+  // Set by the test environment (see environment.ts)
+  // eslint-disable-next-line no-var
+  var openPGlite: () => Promise<PGlite>;
+}
+
+let database: PGlite | null = null;
+
+function current(): PGlite {
+  if (!database) {
+    throw new Error('Test database is not open - call useTestDatabase() in the test file');
+  }
+  return database;
+}
+
+// Error fields the service reads (e.g. the constraint of a unique violation)
+const ERROR_FIELDS = ['severity', 'code', 'detail', 'hint', 'schema', 'table', 'column', 'constraint'] as const;
+
+async function query(text: string, params: unknown[] = []): Promise<QueryResult> {
+  let result;
+  try {
+    result = await current().query<Record<string, unknown>>(text, params.map(toDatabase));
+  } catch (error) {
+    throw fromDatabaseError(error);
+  }
+
+  return {
+    rows: result.rows.map((row) => fromDatabase(row) as Record<string, unknown>),
+    rowCount: result.affectedRows || result.rows.length,
+    command: '',
+    oid: 0,
+    fields: [],
+  };
+}
+
+/**
+ * PGlite runs outside the tests' VM context, so values cross between two sets
+ * of built-ins (a test's Date is no `instanceof Date` to PGlite). Parameters are
+ * passed the way pg sends them, results rebuilt from the tests' built-ins.
+ */
+function toDatabase(value: unknown): unknown {
+  if (isDate(value)) {
+    return value.toISOString();
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+function fromDatabase(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (isDate(value)) {
+    return new Date(value.getTime());
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromDatabase);
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, fromDatabase(field)]));
+}
+
+function isDate(value: unknown): value is Date {
+  return Object.prototype.toString.call(value) === '[object Date]';
+}
+
+// Raise database errors as pg does
+function fromDatabaseError(error: unknown): unknown {
+  if (error === null || typeof error !== 'object' || !('code' in error)) {
+    return error;
+  }
+
+  const fields = error as Record<string, string | undefined>;
+  const pgError = new DatabaseError(fields.message || 'Database error', 0, 'error');
+  for (const field of ERROR_FIELDS) {
+    pgError[field] = fields[field];
+  }
+  return pgError;
+}
+
+// What transaction callbacks receive
+export const testClient = { query, release: () => undefined } as unknown as PoolClient;
+
+// Stands in for writeDb and readDb
+export const testDb = {
+  query: async <T>(text: string, params?: unknown[]): Promise<T[]> => {
+    return (await query(text, params)).rows as T[];
+  },
+
+  queryOne: async <T>(text: string, params?: unknown[]): Promise<T | null> => {
+    const rows = await testDb.query<T>(text, params);
+    return rows[0] || null;
+  },
+
+  getClient: async (): Promise<PoolClient> => testClient,
+
+  transaction: async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
+    await query('BEGIN');
+    try {
+      const result = await callback(testClient);
+      await query('COMMIT');
+      return result;
+    } catch (error) {
+      await query('ROLLBACK');
+      throw error;
+    }
+  },
+
+  pool: {},
+
+  close: async (): Promise<void> => undefined,
+};
+
+export const writeDbModule = { __esModule: true, default: testDb, writeDb: testDb };
+export const readDbModule = { __esModule: true, default: testDb, readDb: testDb };
+
+/**
+ * Open the database before the file's tests, empty every table before each
+ * test and close it after the last one
+ */
+export function useTestDatabase(): typeof testDb {
+  beforeAll(async () => {
+    database = await openPGlite();
+    await database.exec(writeDbSchema);
+    await database.exec(readDbSchema);
+  }, 60000);
+
+  beforeEach(async () => {
+    const db = current();
+    // A failed test may have left its transaction open
+    await db.exec('ROLLBACK');
+
+    const tables = await db.query<{ tablename: string }>(
+      `SELECT tablename FROM pg_tables WHERE schemaname = 'public'`
+    );
+    await db.exec(`TRUNCATE ${tables.rows.map((t) => t.tablename).join(', ')} RESTART IDENTITY CASCADE`);
+  });
+
+  afterAll(async () => {
+    await database?.close();
+    database = null;
+  });
+
+  return testDb;
+}
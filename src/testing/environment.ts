@@ -0,0 +1,14 @@
+import NodeEnvironment from 'jest-environment-node';
+import { PGlite } from '@electric-sql/pglite';
+
+/**
+ * Jest's node environment, able to open the test database. PGlite loads its
+ * files with dynamic imports, which fail in the VM context test files run in,
+ * so it is created out here and handed to the tests (see database.ts).
+ */
+export default class TestEnvironment extends NodeEnvironment {
+  async setup(): Promise<void> {
+    await super.setup();
+    this.global.openPGlite = () => PGlite.create();
+  }
+}
@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from 'uuid';
+import { testDb } from './database';
+import { BookingStatus, SeatStatus } from '../models/booking';
+
+/**
+ * Rows most tests start from. Each insert takes column values overriding the
+ * defaults and returns the inserted row.
+ */
+
+export const ROUTE_ID = '7e57a000-0000-4000-8000-000000000001';
+export const OTHER_ROUTE_ID = '7e57a000-0000-4000-8000-000000000002';
+export const SCHEDULE_ID = '7e57b000-0000-4000-8000-000000000001';
+export const OTHER_SCHEDULE_ID = '7e57b000-0000-4000-8000-000000000002';
+export const USER_ID = '7e57c000-0000-4000-8000-000000000001';
+export const OTHER_USER_ID = '7e57c000-0000-4000-8000-000000000002';
+
+type Row = Record<string, unknown>;
+
+async function insert(table: string, values: Row): Promise<Row> {
+  const columns = Object.keys(values);
+  const rows = await testDb.query<Row>(
+    `INSERT INTO ${table} (${columns.join(', ')})
+     VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+     RETURNING *`,
+    Object.values(values)
+  );
+  return rows[0];
+}
+
+export function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+export function insertBooking(values: Row = {}): Promise<Row> {
+  return insert('bookings', {
+    id: uuidv4(),
+    user_id: USER_ID,
+    route_id: ROUTE_ID,
+    schedule_id: SCHEDULE_ID,
+    passenger_name: 'Ada Lovelace',
+    passenger_email: 'ada@example.com',
+    price: 25,
+    currency: 'USD',
+    status: BookingStatus.CONFIRMED,
+    version: 1,
+    ...values,
+  });
+}
+
+/**
+ * A reservation made 10 minutes ago, held for 5 more, locking its seat
+ */
+export async function insertReservation(values: Row = {}): Promise<Row> {
+  const booking = await insertBooking({
+    status: BookingStatus.RESERVED,
+    reserved_at: minutesFromNow(-10),
+    expires_at: minutesFromNow(5),
+    ...values,
+  });
+
+  if (booking.seat_number) {
+    await testDb.query(
+      `UPDATE seat_availability SET status = $1, booking_id = $2, locked_until = $3
+       WHERE schedule_id = $4 AND seat_number = $5`,
+      [SeatStatus.LOCKED, booking.id, booking.expires_at, booking.schedule_id, booking.seat_number]
+    );
+  }
+  return booking;
+}
+
+/**
+ * A schedule's inventory and, when given, its seats - all AVAILABLE, in rows of
+ * four (1A..1D, 2A..2D, ...) unless a seat says otherwise
+ */
+export async function insertSchedule(
+  values: Row = {},
+  seats: (string | Row)[] = []
+): Promise<Row> {
+  const schedule = await insert('schedule_inventory', {
+    schedule_id: SCHEDULE_ID,
+    route_id: ROUTE_ID,
+    capacity: seats.length || 40,
+    departure_time: minutesFromNow(24 * 60),
+    ...values,
+  });
+
+  for (const seat of seats) {
+    const seatValues = typeof seat === 'string' ? { seat_number: seat } : seat;
+    const seatNumber = seatValues.seat_number as string;
+    const [, row, letter] = seatNumber.match(/^(\d+)([A-Z])$/) || [];
+
+    await insert('seat_availability', {
+      schedule_id: schedule.schedule_id,
+      status: SeatStatus.AVAILABLE,
+      seat_row: row ? parseInt(row, 10) : null,
+      seat_column: letter ? letter.charCodeAt(0) - 64 : null,
+      deck: 1,
+      seat_class: 'STANDARD',
+      ...seatValues,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Seat numbers of `rows` rows of four seats
+ */
+export function seatRows(rows: number): string[] {
+  const seats: string[] = [];
+  for (let row = 1; row <= rows; row++) {
+    seats.push(...['A', 'B', 'C', 'D'].map((letter) => `${row}${letter}`));
+  }
+  return seats;
+}
+
+export function insertFare(values: Row = {}): Promise<Row> {
+  return insert('fare_tables', { route_id: ROUTE_ID, base_fare: 25, currency: 'USD', ...values });
+}
+
+export function insertFareModifier(values: Row): Promise<Row> {
+  return insert('fare_modifiers', { route_id: ROUTE_ID, ...values });
+}
+
+export function insertRefundRule(values: Row): Promise<Row> {
+  return insert('refund_rules', { name: 'Rule', ...values });
+}
+
+export async function seatOf(seatNumber: string, scheduleId: string = SCHEDULE_ID): Promise<Row> {
+  const seat = await testDb.queryOne<Row>(
+    `SELECT * FROM seat_availability WHERE schedule_id = $1 AND seat_number = $2`,
+    [scheduleId, seatNumber]
+  );
+  return seat!;
+}
+
+export async function bookingOf(bookingId: unknown): Promise<Row> {
+  const booking = await testDb.queryOne<Row>(`SELECT * FROM bookings WHERE id = $1`, [bookingId]);
+  return booking!;
+}
+
+export async function eventsOf(aggregateId: unknown): Promise<Row[]> {
+  return testDb.query<Row>(
+    `SELECT * FROM booking_events WHERE aggregate_id = $1 ORDER BY version`,
+    [aggregateId]
+  );
+}
@@ -0,0 +1,4 @@
+import logger from '../utils/logger';
+
+// Tests assert on behaviour, not on log lines
+logger.silent = true;
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { ticketTokens, TicketTokenSubject } from './ticketTokens';
+import { decodeTicketToken, verifyTicketToken } from './ticketVerifier';
+import { PassengerCategory } from '../models/booking';
+import { testClient, useTestDatabase } from '../testing/database';
+import { insertSchedule, OTHER_SCHEDULE_ID, SCHEDULE_ID } from '../testing/fixtures';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+
+useTestDatabase();
+
+const DEPARTURE = '2030-01-15T08:00:00Z';
+
+const booking: TicketTokenSubject = {
+  id: 'booking-1',
+  bookingReference: 'ABC234',
+  scheduleId: SCHEDULE_ID,
+  seatNumber: '12A',
+  passengerCategory: PassengerCategory.ADULT,
+};
+
+describe('ticket tokens', () => {
+  beforeEach(async () => {
+    await insertSchedule({ departure_time: new Date(DEPARTURE) });
+  });
+
+  const publicKey = () => ticketTokens.signingKey().publicKey;
+
+  it('verifies a freshly issued token with the published key', async () => {
+    const token = await ticketTokens.issue(testClient, booking);
+
+    const result = verifyTicketToken(token, publicKey(), { scheduleId: SCHEDULE_ID });
+
+    expect(result.valid).toBe(true);
+    expect(result.claims).toMatchObject({
+      kid: 'ticket-key-1',
+      bid: 'booking-1',
+      ref: 'ABC234',
+      sid: SCHEDULE_ID,
+      seat: '12A',
+      cat: PassengerCategory.ADULT,
+    });
+  });
+
+  it('verifies with a key map by the token key id', async () => {
+    const token = await ticketTokens.issue(testClient, booking);
+
+    expect(verifyTicketToken(token, { 'ticket-key-1': publicKey() }).valid).toBe(true);
+    expect(verifyTicketToken(token, { 'ticket-key-0': publicKey() }).reason).toBe('UNKNOWN_KEY');
+  });
+
+  it('stays valid until the validity period after departure', async () => {
+    const token = await ticketTokens.issue(testClient, booking);
+    const validUntil = new Date(DEPARTURE).getTime() + 24 * 60 * 60 * 1000;
+
+    expect(verifyTicketToken(token, publicKey(), { now: new Date(validUntil) }).valid).toBe(true);
+    expect(verifyTicketToken(token, publicKey(), { now: new Date(validUntil + 61 * 1000) }).reason).toBe('EXPIRED');
+  });
+
+  it('is not valid before it was issued', async () => {
+    const token = await ticketTokens.issue(testClient, booking);
+
+    const result = verifyTicketToken(token, publicKey(), { now: new Date(Date.now() - 5 * 60 * 1000) });
+
+    expect(result.reason).toBe('NOT_YET_VALID');
+  });
+
+  it('counts the validity from now for schedules without a departure time', async () => {
+    const token = await ticketTokens.issue(testClient, { ...booking, scheduleId: OTHER_SCHEDULE_ID });
+    const claims = decodeTicketToken(token)!;
+
+    expect(claims.exp - claims.iat).toBe(24 * 60 * 60);
+  });
+
+  it('rejects a token whose claims were altered', async () => {
+    const token = await ticketTokens.issue(testClient, booking);
+    const [version, , signature] = token.split('.');
+    const claims = { ...decodeTicketToken(token)!, seat: '1A' };
+    const altered = `${version}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+
+    expect(verifyTicketToken(altered, publicKey()).reason).toBe('BAD_SIGNATURE');
+  });
+
+  it('rejects a token checked against another key', async () => {
+    const token = await ticketTokens.issue(testClient, booking);
+    const otherKey = crypto.generateKeyPairSync('ed25519').publicKey;
+
+    expect(verifyTicketToken(token, otherKey).reason).toBe('BAD_SIGNATURE');
+  });
+
+  it('rejects a token for another trip', async () => {
+    const token = await ticketTokens.issue(testClient, booking);
+
+    expect(verifyTicketToken(token, publicKey(), { scheduleId: OTHER_SCHEDULE_ID }).reason).toBe('WRONG_SCHEDULE');
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifyTicketToken('not-a-token', publicKey()).reason).toBe('MALFORMED');
+    expect(verifyTicketToken('TT1.bm90IGpzb24.c2ln', publicKey()).reason).toBe('MALFORMED');
+  });
+
+  describe('revocation', () => {
+    it('rejects a token once it is on the revocation list', async () => {
+      const token = await ticketTokens.issue(testClient, booking);
+      const revocation = ticketTokens.revocationOf(token)!;
+
+      const result = verifyTicketToken(token, publicKey(), { revokedTokenIds: new Set([revocation.tokenId]) });
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toBe('REVOKED');
+    });
+
+    it('keeps the revocation until the token would have expired anyway', async () => {
+      const token = await ticketTokens.issue(testClient, booking);
+      const claims = decodeTicketToken(token)!;
+
+      expect(ticketTokens.revocationOf(token)).toEqual({
+        tokenId: claims.jti,
+        expiresAt: new Date(claims.exp * 1000),
+      });
+    });
+
+    it('does not affect other tokens of the booking', async () => {
+      const revoked = await ticketTokens.issue(testClient, booking);
+      const reissued = await ticketTokens.issue(testClient, booking);
+      const revokedTokenIds = new Set([ticketTokens.revocationOf(revoked)!.tokenId]);
+
+      expect(verifyTicketToken(reissued, publicKey(), { revokedTokenIds }).valid).toBe(true);
+    });
+
+    it('has nothing to revoke without a token', () => {
+      expect(ticketTokens.revocationOf(null)).toBeUndefined();
+      expect(ticketTokens.revocationOf('garbage')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import crypto, { KeyObject } from 'crypto';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { Booking } from '../models/booking';
+import { RevokedTicketToken } from '../events/types';
+import { TICKET_TOKEN_VERSION, TicketTokenClaims, decodeTicketToken } from './ticketVerifier';
+import logger from '../utils/logger';
+
+// The booking details a token carries
+export type TicketTokenSubject = Pick<Booking, 'id' | 'bookingReference' | 'scheduleId' | 'seatNumber' | 'passengerCategory'>;
+
+export interface TicketSigningKey {
+  keyId: string;
+  algorithm: 'Ed25519';
+  publicKey: string; // SPKI PEM
+}
+
+let signingKey: KeyObject | null = null;
+
+/**
+ * Ticket Tokens - the signed artifact a passenger shows on board. Validators
+ * check it offline with ticketVerifier and the public key.
+ */
+export const ticketTokens = {
+  /**
+   * Sign a token for a confirmed booking. It is valid from now until
+   * TICKET_TOKEN_VALIDITY_HOURS after departure (or after now, when the
+   * schedule has no departure time).
+   */
+  issue: async (client: PoolClient, booking: TicketTokenSubject): Promise<string> => {
+    const schedule = await client.query(
+      `SELECT departure_time FROM schedule_inventory WHERE schedule_id = $1`,
+      [booking.scheduleId]
+    );
+
+    const now = new Date();
+    const departure: Date | null = schedule.rows[0]?.departure_time
+      ? new Date(schedule.rows[0].departure_time)
+      : null;
+    const validUntil = Math.max(departure ? departure.getTime() : 0, now.getTime()) +
+      config.tickets.tokenValidityHours * 60 * 60 * 1000;
+
+    const claims: TicketTokenClaims = {
+      jti: uuidv4(),
+      kid: config.tickets.signingKeyId,
+      bid: booking.id,
+      ref: booking.bookingReference,
+      sid: booking.scheduleId,
+      seat: booking.seatNumber,
+      cat: booking.passengerCategory,
+      iat: toUnixSeconds(now),
+      nbf: toUnixSeconds(now),
+      exp: toUnixSeconds(new Date(validUntil)),
+    };
+
+    const signed = `${TICKET_TOKEN_VERSION}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+    const signature = crypto.sign(null, Buffer.from(signed), getSigningKey());
+
+    return `${signed}.${signature.toString('base64url')}`;
+  },
+
+  /**
+   * What goes on the revocation list when a token is taken out of use
+   */
+  revocationOf: (token: string | null): RevokedTicketToken | undefined => {
+    const claims = token ? decodeTicketToken(token) : null;
+    return claims ? { tokenId: claims.jti, expiresAt: new Date(claims.exp * 1000) } : undefined;
+  },
+
+  /**
+   * The key validators verify tokens with
+   */
+  signingKey: (): TicketSigningKey => ({
+    keyId: config.tickets.signingKeyId,
+    algorithm: 'Ed25519',
+    publicKey: crypto.createPublicKey(getSigningKey()).export({ type: 'spki', format: 'pem' }).toString(),
+  }),
+};
+
+function getSigningKey(): KeyObject {
+  if (!signingKey) {
+    if (config.tickets.signingPrivateKey) {
+      // Allow the PEM on one line with escaped newlines (as in .env files)
+      signingKey = crypto.createPrivateKey(config.tickets.signingPrivateKey.replace(/\\n/g, '\n'));
+
+      if (signingKey.asymmetricKeyType !== 'ed25519') {
+        throw new Error('TICKET_SIGNING_PRIVATE_KEY must be an Ed25519 key');
+      }
+    } else {
+      logger.warn('TICKET_SIGNING_PRIVATE_KEY not set - ticket tokens are signed with a temporary key');
+      signingKey = crypto.generateKeyPairSync('ed25519').privateKey;
+    }
+  }
+  return signingKey;
+}
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+export default ticketTokens;
@@ -0,0 +1,142 @@
+import crypto, { KeyObject } from 'crypto';
+
+/**
+ * Ticket token verification - runs on validator devices without access to the
+ * service. Depends on nothing but Node's crypto and the issuer's public key,
+ * so it can be copied into a validator app as is.
+ *
+ * Token format (QR-ready, URL-safe): TT1.<base64url claims JSON>.<base64url Ed25519 signature>
+ * The signature covers "TT1.<base64url claims JSON>".
+ */
+
+export const TICKET_TOKEN_VERSION = 'TT1';
+
+// Short claim names keep the QR code small
+export interface TicketTokenClaims {
+  jti: string; // Token id - what the revocation list holds
+  kid: string; // Signing key id
+  bid: string; // Booking id
+  ref: string | null; // Booking reference
+  sid: string; // Schedule id
+  seat: string | null;
+  cat: string; // Passenger category
+  iat: number; // Issued at (unix seconds)
+  nbf: number; // Valid from (unix seconds)
+  exp: number; // Valid until (unix seconds)
+}
+
+export type TicketTokenRejection =
+  | 'MALFORMED'
+  | 'UNKNOWN_KEY'
+  | 'BAD_SIGNATURE'
+  | 'NOT_YET_VALID'
+  | 'EXPIRED'
+  | 'REVOKED'
+  | 'WRONG_SCHEDULE';
+
+export interface TicketTokenVerification {
+  valid: boolean;
+  reason?: TicketTokenRejection;
+  claims?: TicketTokenClaims; // Set whenever the token could be decoded
+}
+
+export interface VerifyTicketTokenOptions {
+  now?: Date;
+  clockSkewSeconds?: number; // Tolerance for the validator's clock (default 60)
+  revokedTokenIds?: { has(tokenId: string): boolean }; // e.g. a Set built from the revocation list
+  scheduleId?: string; // The trip being validated
+}
+
+/**
+ * Verify a token against one public key, or a map of key id -> public key
+ * when keys are rotated
+ */
+export function verifyTicketToken(
+  token: string,
+  publicKeys: KeyObject | string | Record<string, KeyObject | string>,
+  options: VerifyTicketTokenOptions = {}
+): TicketTokenVerification {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== TICKET_TOKEN_VERSION) {
+    return { valid: false, reason: 'MALFORMED' };
+  }
+
+  const claims = decodeTicketToken(token);
+  if (!claims) {
+    return { valid: false, reason: 'MALFORMED' };
+  }
+
+  const publicKey = selectKey(publicKeys, claims.kid);
+  if (!publicKey) {
+    return { valid: false, reason: 'UNKNOWN_KEY', claims };
+  }
+
+  const signed = Buffer.from(`${parts[0]}.${parts[1]}`);
+  const signature = Buffer.from(parts[2], 'base64url');
+
+  let signatureValid = false;
+  try {
+    signatureValid = crypto.verify(null, signed, publicKey, signature);
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return { valid: false, reason: 'BAD_SIGNATURE', claims };
+  }
+
+  const now = Math.floor((options.now || new Date()).getTime() / 1000);
+  const skew = options.clockSkewSeconds ?? 60;
+
+  if (now + skew < claims.nbf) {
+    return { valid: false, reason: 'NOT_YET_VALID', claims };
+  }
+  if (now - skew > claims.exp) {
+    return { valid: false, reason: 'EXPIRED', claims };
+  }
+  if (options.revokedTokenIds?.has(claims.jti)) {
+    return { valid: false, reason: 'REVOKED', claims };
+  }
+  if (options.scheduleId && options.scheduleId !== claims.sid) {
+    return { valid: false, reason: 'WRONG_SCHEDULE', claims };
+  }
+
+  return { valid: true, claims };
+}
+
+/**
+ * Read the claims of a token without checking its signature
+ */
+export function decodeTicketToken(token: string): TicketTokenClaims | null {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== TICKET_TOKEN_VERSION) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    const complete = typeof claims.jti === 'string' &&
+      typeof claims.kid === 'string' &&
+      typeof claims.bid === 'string' &&
+      typeof claims.sid === 'string' &&
+      typeof claims.nbf === 'number' &&
+      typeof claims.exp === 'number';
+
+    return complete ? (claims as TicketTokenClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+function selectKey(
+  publicKeys: KeyObject | string | Record<string, KeyObject | string>,
+  keyId: string
+): KeyObject | null {
+  const key = typeof publicKeys === 'string' || publicKeys instanceof KeyObject
+    ? publicKeys
+    : publicKeys[keyId];
+
+  if (!key) {
+    return null;
+  }
+  return typeof key === 'string' ? crypto.createPublicKey(key) : key;
+}
@@ -17,7 +17,7 @@ export class AppError extends Error {
     this.code = code;
 
     Error.captureStackTrace(this, this.constructor);
-    Object.setPrototypeOf(this, AppError.prototype);
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 }
 
@@ -66,6 +66,12 @@ export class ServiceUnavailableError extends AppError {
   }
 }
 
+export class IdempotencyKeyReusedError extends AppError {
+  constructor(message: string = 'Idempotency-Key was already used with a different request') {
+    super(message, StatusCodes.UNPROCESSABLE_ENTITY, 'IDEMPOTENCY_KEY_REUSED');
+  }
+}
+
 export class InsufficientSeatsError extends AppError {
   constructor(message: string = 'Insufficient seats available') {
     super(message, StatusCodes.CONFLICT, 'INSUFFICIENT_SEATS');
@@ -78,13 +84,83 @@ export class BookingNotFoundError extends NotFoundError {
   }
 }
 
+export class FareNotFoundError extends NotFoundError {
+  constructor(routeId: string) {
+    super(`No fare defined for route ${routeId}`);
+  }
+}
+
+export class FareMismatchError extends AppError {
+  constructor(expected: number, currency: string) {
+    super(
+      `Price does not match the current fare of ${expected.toFixed(2)} ${currency}`,
+      StatusCodes.CONFLICT,
+      'FARE_MISMATCH'
+    );
+  }
+}
+
+export class PassengerNotEligibleError extends AppError {
+  constructor(message: string = 'Passenger is not eligible for this category') {
+    super(message, StatusCodes.UNPROCESSABLE_ENTITY, 'PASSENGER_NOT_ELIGIBLE');
+  }
+}
+
+export class ConcurrencyConflictError extends AppError {
+  constructor(aggregateId: string, expectedVersion: number, actualVersion?: number) {
+    super(
+      actualVersion === undefined
+        ? `Aggregate ${aggregateId} was modified concurrently (expected version ${expectedVersion})`
+        : `Aggregate ${aggregateId} is at version ${actualVersion}, expected ${expectedVersion}`,
+      StatusCodes.CONFLICT,
+      'CONCURRENCY_CONFLICT'
+    );
+  }
+}
+
 export class InvalidBookingStateError extends AppError {
-  constructor(currentState: string, requiredState: string) {
+  public readonly currentState: string;
+  public readonly allowedNextStates?: string[]; // Set when a status change was refused
+
+  constructor(currentState: string, requiredState: string, allowedNextStates?: string[]) {
     super(
-      `Invalid booking state: ${currentState}. Required: ${requiredState}`,
+      `Invalid booking state: ${currentState}. Required: ${requiredState}` +
+        (allowedNextStates ? `. Allowed next states: ${allowedNextStates.join(', ') || 'none'}` : ''),
       StatusCodes.CONFLICT,
       'INVALID_BOOKING_STATE'
     );
+    this.currentState = currentState;
+    this.allowedNextStates = allowedNextStates;
+  }
+}
+
+export class RefundExceedsAmountOwedError extends AppError {
+  constructor(amount: number, remaining: number, currency: string) {
+    super(
+      `Refund of ${amount.toFixed(2)} ${currency} exceeds the ${remaining.toFixed(2)} ${currency} still owed`,
+      StatusCodes.CONFLICT,
+      'REFUND_EXCEEDS_AMOUNT_OWED'
+    );
   }
 }
 
+export class ChangePaymentRequiredError extends AppError {
+  public readonly amountDue: number;
+  public readonly currency: string;
+
+  constructor(amountDue: number, currency: string, reason: string = 'pay it and pass the paymentId') {
+    super(
+      `Changing this ticket costs ${amountDue.toFixed(2)} ${currency} - ${reason}`,
+      StatusCodes.PAYMENT_REQUIRED,
+      'CHANGE_PAYMENT_REQUIRED'
+    );
+    this.amountDue = amountDue;
+    this.currency = currency;
+  }
+}
+
+export class ReservationHoldLimitError extends AppError {
+  constructor(message: string = 'Reservation hold cannot be extended any further') {
+    super(message, StatusCodes.CONFLICT, 'RESERVATION_HOLD_LIMIT_REACHED');
+  }
+}
@@ -0,0 +1,97 @@
+import { v4 as uuidv4 } from 'uuid';
+import { outboxRelay } from './outboxRelay';
+import { publishEvent } from '../infrastructure/messaging/kafka';
+import { outbox, OutboxStatus } from '../infrastructure/messaging/outbox';
+import { config } from '../config';
+import { DomainEvent } from '../events/types';
+import { testClient, useTestDatabase } from '../testing/database';
+
+jest.mock('../infrastructure/database/writeDb', () => jest.requireActual('../testing/database').writeDbModule);
+jest.mock('../infrastructure/messaging/kafka', () => ({ publishEvent: jest.fn() }));
+
+// Poll often so a test doesn't wait a second for the relay
+jest.mock('../config', () => {
+  const { config } = jest.requireActual('../config');
+  return { config: { ...config, outbox: { ...config.outbox, pollIntervalMs: 10 } } };
+});
+
+const db = useTestDatabase();
+
+const BOOKING_A = uuidv4();
+const BOOKING_B = uuidv4();
+
+// Queue an event of the aggregate, returns its event id
+async function enqueue(aggregateId: string): Promise<string> {
+  const eventId = uuidv4();
+  await outbox.enqueue(testClient, 'ticket-events', {
+    eventId,
+    eventType: 'TICKET_BOOKED',
+    aggregateId,
+    aggregateType: 'Booking',
+    timestamp: new Date(),
+    version: 1,
+    payload: {},
+  } as unknown as DomainEvent);
+  return eventId;
+}
+
+// Let the relay poll once
+async function relayOnce(): Promise<void> {
+  outboxRelay.start();
+  await new Promise((resolve) => setTimeout(resolve, config.outbox.pollIntervalMs * 5));
+  await outboxRelay.stop();
+}
+
+const statusOf = async (eventId: string) =>
+  db.queryOne<{ status: OutboxStatus; attempts: number; next_attempt_at: Date }>(
+    `SELECT status, attempts, next_attempt_at FROM event_outbox WHERE event_id = $1`,
+    [eventId]
+  );
+
+const publishedEventIds = () => (publishEvent as jest.Mock).mock.calls.map(([, event]) => event.eventId);
+
+describe('outboxRelay', () => {
+  it('publishes events in the order they were recorded and marks them published', async () => {
+    (publishEvent as jest.Mock).mockResolvedValue(undefined);
+    const a1 = await enqueue(BOOKING_A);
+    const b1 = await enqueue(BOOKING_B);
+    const a2 = await enqueue(BOOKING_A);
+
+    await relayOnce();
+
+    expect(publishedEventIds()).toEqual([a1, b1, a2]);
+    expect((await statusOf(a2))!.status).toBe(OutboxStatus.PUBLISHED);
+  });
+
+  it('backs off a failed event, holding back only the later events of its aggregate', async () => {
+    const a1 = await enqueue(BOOKING_A);
+    const a2 = await enqueue(BOOKING_A);
+    const b1 = await enqueue(BOOKING_B);
+    (publishEvent as jest.Mock).mockImplementation(async (_topic: string, event: DomainEvent) => {
+      if (event.eventId === a1) {
+        throw new Error('broker unavailable');
+      }
+    });
+
+    await relayOnce();
+
+    expect(publishedEventIds()).toEqual([a1, b1]);
+
+    const failed = await statusOf(a1);
+    expect(failed).toMatchObject({ status: OutboxStatus.PENDING, attempts: 1 });
+    expect(failed!.next_attempt_at.getTime()).toBeGreaterThan(Date.now());
+    expect((await statusOf(a2))!.status).toBe(OutboxStatus.PENDING);
+    expect((await statusOf(b1))!.status).toBe(OutboxStatus.PUBLISHED);
+  });
+
+  it('gives up on an event after the maximum attempts', async () => {
+    (publishEvent as jest.Mock).mockRejectedValue(new Error('broker unavailable'));
+    const a1 = await enqueue(BOOKING_A);
+    await db.query(`UPDATE event_outbox SET attempts = $1`, [config.outbox.maxAttempts - 1]);
+
+    await relayOnce();
+
+    expect(await statusOf(a1)).toMatchObject({ status: OutboxStatus.FAILED, attempts: config.outbox.maxAttempts });
+    expect(await outbox.backlog()).toEqual({ failed: 1, blockedAggregates: 1, heldBack: 0 });
+  });
+});
@@ -0,0 +1,111 @@
+import { config } from '../config';
+import writeDb from '../infrastructure/database/writeDb';
+import { publishEvent } from '../infrastructure/messaging/kafka';
+import { outbox } from '../infrastructure/messaging/outbox';
+import logger from '../utils/logger';
+
+let timer: NodeJS.Timeout | null = null;
+let currentRelay: Promise<void> | null = null;
+
+/**
+ * Exponential backoff for the next publish attempt
+ */
+function nextAttemptAt(attempts: number): Date {
+  const { retryBaseDelayMs, retryMaxDelayMs } = config.outbox;
+  const delay = Math.min(retryBaseDelayMs * 2 ** attempts, retryMaxDelayMs);
+  return new Date(Date.now() + delay);
+}
+
+/**
+ * Publish one batch of pending outbox entries, returns the number of entries claimed
+ */
+async function relayBatch(): Promise<number> {
+  return writeDb.transaction(async (client) => {
+    const entries = await outbox.claimPending(client, config.outbox.batchSize);
+
+    for (const entry of entries) {
+      try {
+        await publishEvent(entry.topic, entry.event);
+        await outbox.markPublished(client, entry.id);
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const giveUp = attempts >= config.outbox.maxAttempts;
+
+        await outbox.markAttemptFailed(
+          client,
+          entry.id,
+          error instanceof Error ? error.message : String(error),
+          nextAttemptAt(attempts),
+          giveUp
+        );
+
+        // Giving up holds back every later event of the aggregate until an operator retries it
+        logger.error(giveUp ? 'Gave up publishing outbox entry' : 'Failed to publish outbox entry', {
+          outboxId: entry.id,
+          eventId: entry.eventId,
+          aggregateId: entry.aggregateId,
+          attempts,
+          giveUp,
+          error,
+        });
+      }
+    }
+
+    return entries.length;
+  });
+}
+
+/**
+ * Drain the outbox - keeps relaying while batches come back full
+ */
+async function relay(): Promise<void> {
+  try {
+    let claimed: number;
+    do {
+      claimed = await relayBatch();
+    } while (claimed === config.outbox.batchSize);
+  } catch (error) {
+    logger.error('Outbox relay failed', { error });
+  }
+}
+
+/**
+ * Outbox Relay - publishes events recorded by command handlers to Kafka
+ */
+export const outboxRelay = {
+  start: (): void => {
+    if (timer) {
+      return;
+    }
+
+    timer = setInterval(() => {
+      // Skip this tick if the previous relay run is still in progress
+      if (currentRelay) {
+        return;
+      }
+      currentRelay = relay().finally(() => {
+        currentRelay = null;
+      });
+    }, config.outbox.pollIntervalMs);
+
+    logger.info('Outbox relay started', {
+      pollIntervalMs: config.outbox.pollIntervalMs,
+      batchSize: config.outbox.batchSize,
+    });
+  },
+
+  stop: async (): Promise<void> => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+
+    if (currentRelay) {
+      await currentRelay;
+    }
+
+    logger.info('Outbox relay stopped');
+  },
+};
+
+export default outboxRelay;
@@ -0,0 +1,64 @@
+import { config } from '../config';
+import { expireReservationsHandler } from '../commands/expireReservations';
+import logger from '../utils/logger';
+
+let timer: NodeJS.Timeout | null = null;
+let currentSweep: Promise<void> | null = null;
+
+/**
+ * Run one sweep - keeps draining full batches until the backlog is cleared
+ */
+async function sweep(): Promise<void> {
+  const { expirySweepBatchSize } = config.reservations;
+
+  try {
+    let expiredCount: number;
+    do {
+      const result = await expireReservationsHandler(expirySweepBatchSize);
+      expiredCount = result.expired.length;
+    } while (expiredCount === expirySweepBatchSize);
+  } catch (error) {
+    logger.error('Reservation expiry sweep failed', { error });
+  }
+}
+
+/**
+ * Reservation Expiry Worker - periodically moves overdue RESERVED bookings to EXPIRED
+ */
+export const reservationExpiryWorker = {
+  start: (): void => {
+    if (timer) {
+      return;
+    }
+
+    timer = setInterval(() => {
+      // Skip this tick if the previous sweep is still running
+      if (currentSweep) {
+        return;
+      }
+      currentSweep = sweep().finally(() => {
+        currentSweep = null;
+      });
+    }, config.reservations.expirySweepIntervalMs);
+
+    logger.info('Reservation expiry worker started', {
+      intervalMs: config.reservations.expirySweepIntervalMs,
+      batchSize: config.reservations.expirySweepBatchSize,
+    });
+  },
+
+  stop: async (): Promise<void> => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+
+    if (currentSweep) {
+      await currentSweep;
+    }
+
+    logger.info('Reservation expiry worker stopped');
+  },
+};
+
+export default reservationExpiryWorker;